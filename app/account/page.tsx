@@ -2,9 +2,14 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { useSession } from "next-auth/react";
+import { getProviders, signIn, signOut, useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
+import OrderStatusTimeline, { OrderStatusChange } from "@/app/components/OrderStatusTimeline";
+import { useCart } from "@/app/context/CartContext";
+import { formatVariantOptions, VariantOptionValue } from "@/lib/variants";
+import { getOAuthErrorMessage, isOAuthProvider, OAuthProvider, OAUTH_PROVIDER_LABELS } from "@/lib/oauthProviders";
+import { checkPasswordStrength, PASSWORD_RULES } from "@/lib/passwordPolicy";
 import {
   FiUser,
   FiMail,
@@ -36,6 +41,8 @@ import {
 
 interface IOrderItem {
   productId: string;
+  variantSku?: string;
+  variantOptions?: VariantOptionValue[];
   name: string;
   price: number;
   quantity: number;
@@ -57,10 +64,13 @@ interface IOrder {
   paymentMethod: 'card' | 'paypal' | 'applepay' | 'cod';
   items: IOrderItem[];
   subtotal: number;
+  discount?: number;
+  discounts?: { code: string; amount: number; shippingAmount: number }[];
   tax: number;
   total: number;
   status: 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
   statusUpdatedAt?: Date;
+  statusHistory?: OrderStatusChange[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -108,6 +118,21 @@ interface UserProfile {
   };
 }
 
+interface LinkedAccount {
+  provider: OAuthProvider;
+  email?: string;
+  linkedAt?: string;
+}
+
+interface DeviceSession {
+  id: string;
+  device: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
 // Taka sign component
 const TakaSign = ({ className = "" }: { className?: string }) => (
   <span className={`font-bold ${className}`}>৳</span>
@@ -116,6 +141,7 @@ const TakaSign = ({ className = "" }: { className?: string }) => (
 const AccountPage = () => {
   const { data: session, status, update } = useSession();
   const router = useRouter();
+  const { applyServerCart } = useCart();
   const [activeTab, setActiveTab] = useState("orders");
   const [isEditing, setIsEditing] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -123,6 +149,9 @@ const AccountPage = () => {
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [orders, setOrders] = useState<IOrder[]>([]);
   const [selectedOrder, setSelectedOrder] = useState<IOrder | null>(null);
+  const [ordersPagination, setOrdersPagination] = useState<{ page: number; totalPages: number; total: number } | null>(null);
+  const [orderStatusFilter, setOrderStatusFilter] = useState("");
+  const [isLoadingMoreOrders, setIsLoadingMoreOrders] = useState(false);
   const [formData, setFormData] = useState({
     name: "",
     email: "",
@@ -152,12 +181,38 @@ const AccountPage = () => {
   const [isWishlistLoading, setIsWishlistLoading] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
 
+  // Linked Accounts States
+  const [linkedAccounts, setLinkedAccounts] = useState<LinkedAccount[]>([]);
+  const [hasPassword, setHasPassword] = useState(true);
+  const [socialProviders, setSocialProviders] = useState<OAuthProvider[]>([]);
+  const [unlinkingProvider, setUnlinkingProvider] = useState<OAuthProvider | null>(null);
+
+  // Password & Session States
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+  const [isSavingPassword, setIsSavingPassword] = useState(false);
+  const [passwordForm, setPasswordForm] = useState({
+    currentPassword: '',
+    newPassword: '',
+    confirmPassword: ''
+  });
+  const [deviceSessions, setDeviceSessions] = useState<DeviceSession[]>([]);
+  const [signingOutSession, setSigningOutSession] = useState<string | null>(null);
+
+  // The sign-in callback sends failed links back here with ?linkError=
+  useEffect(() => {
+    const linkError = new URLSearchParams(window.location.search).get("linkError");
+    if (linkError) {
+      setActiveTab("security");
+      setSaveMessage({ type: 'error', message: getOAuthErrorMessage(linkError) });
+    }
+  }, []);
+
   // Load all data when component mounts or session changes
   useEffect(() => {
     if (status === "loading") return;
 
     if (!session) {
-      router.push("/auth/signin");
+      router.push("/login?callbackUrl=/account");
       return;
     }
 
@@ -170,7 +225,9 @@ const AccountPage = () => {
       await Promise.all([
         loadProfile(),
         loadOrders(),
-        loadWishlist()
+        loadWishlist(),
+        loadLinkedAccounts(),
+        loadDeviceSessions()
       ]);
     } catch (error) {
       console.error("Failed to load data:", error);
@@ -252,22 +309,41 @@ const AccountPage = () => {
     }
   };
 
-  const loadOrders = async () => {
+  const loadOrders = async (page = 1, statusFilter = orderStatusFilter) => {
     try {
-      const response = await fetch('/api/orders/my-orders');
+      const params = new URLSearchParams({ page: String(page) });
+      if (statusFilter) params.set('status', statusFilter);
+
+      const response = await fetch(`/api/orders/my-orders?${params.toString()}`);
       if (response.ok) {
-        const ordersData = await response.json();
-        setOrders(ordersData);
+        const data = await response.json();
+        // Later pages are appended by "Load more"
+        setOrders(prev => page > 1 ? [...prev, ...(data.orders || [])] : (data.orders || []));
+        setOrdersPagination(data.pagination || null);
       } else {
-        // If API fails, use mock data for demonstration
-        setOrders(generateMockOrders(session?.user?.email || ''));
+        console.error('Failed to load orders');
+        if (page === 1) setOrders([]);
       }
     } catch (error) {
       console.error('Error loading orders:', error);
-      setOrders(generateMockOrders(session?.user?.email || ''));
+      if (page === 1) setOrders([]);
     }
   };
 
+  const handleOrderStatusFilterChange = async (statusFilter: string) => {
+    setOrderStatusFilter(statusFilter);
+    setIsLoadingMoreOrders(true);
+    await loadOrders(1, statusFilter);
+    setIsLoadingMoreOrders(false);
+  };
+
+  const loadMoreOrders = async () => {
+    if (!ordersPagination) return;
+    setIsLoadingMoreOrders(true);
+    await loadOrders(ordersPagination.page + 1);
+    setIsLoadingMoreOrders(false);
+  };
+
   const loadWishlist = async () => {
     setIsWishlistLoading(true);
     try {
@@ -287,6 +363,175 @@ const AccountPage = () => {
     }
   };
 
+  const loadLinkedAccounts = async () => {
+    try {
+      const [response, providers] = await Promise.all([
+        fetch('/api/users/linked-accounts'),
+        getProviders(),
+      ]);
+      setSocialProviders(Object.keys(providers || {}).filter(isOAuthProvider));
+      if (response.ok) {
+        const data = await response.json();
+        setLinkedAccounts(data.linkedAccounts || []);
+        setHasPassword(data.hasPassword);
+      }
+    } catch (error) {
+      console.error('Error loading linked accounts:', error);
+    }
+  };
+
+  // The provider confirms the account, then sends the user back here linked
+  const linkAccount = (provider: OAuthProvider) => {
+    signIn(provider, { callbackUrl: '/account' });
+  };
+
+  const unlinkAccount = async (provider: OAuthProvider) => {
+    setUnlinkingProvider(provider);
+    try {
+      const response = await fetch(`/api/users/linked-accounts?provider=${provider}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to unlink account');
+      }
+
+      setLinkedAccounts(data.linkedAccounts || []);
+      setSaveMessage({ type: 'success', message: `${OAUTH_PROVIDER_LABELS[provider]} account unlinked` });
+      setTimeout(() => setSaveMessage(null), 3000);
+    } catch (error) {
+      console.error('Error unlinking account:', error);
+      setSaveMessage({
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Failed to unlink account'
+      });
+    } finally {
+      setUnlinkingProvider(null);
+    }
+  };
+
+  const loadDeviceSessions = async () => {
+    try {
+      const response = await fetch('/api/users/sessions');
+      if (response.ok) {
+        const data = await response.json();
+        setDeviceSessions(data.sessions || []);
+      }
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+    }
+  };
+
+  const changePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (passwordForm.newPassword !== passwordForm.confirmPassword) {
+      setSaveMessage({ type: 'error', message: 'New passwords do not match' });
+      return;
+    }
+
+    const passwordError = checkPasswordStrength(passwordForm.newPassword, session?.user?.email);
+    if (passwordError) {
+      setSaveMessage({ type: 'error', message: passwordError });
+      return;
+    }
+
+    setIsSavingPassword(true);
+    try {
+      const response = await fetch('/api/users/password', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          currentPassword: passwordForm.currentPassword,
+          newPassword: passwordForm.newPassword,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to change password');
+      }
+
+      // Every session was signed out, this one too; sign straight back in with the new password
+      const result = await signIn('credentials', {
+        redirect: false,
+        email: session?.user?.email,
+        password: passwordForm.newPassword,
+      });
+      if (result?.error) {
+        router.push('/login?callbackUrl=/account');
+        return;
+      }
+
+      setHasPassword(true);
+      setIsChangingPassword(false);
+      setPasswordForm({ currentPassword: '', newPassword: '', confirmPassword: '' });
+      await loadDeviceSessions();
+      setSaveMessage({ type: 'success', message: 'Password changed. Other devices have been signed out.' });
+      setTimeout(() => setSaveMessage(null), 3000);
+    } catch (error) {
+      console.error('Error changing password:', error);
+      setSaveMessage({
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Failed to change password'
+      });
+    } finally {
+      setIsSavingPassword(false);
+    }
+  };
+
+  const signOutDevice = async (deviceSession: DeviceSession) => {
+    // Signing out here also drops the registry entry (see events.signOut in lib/auth.ts)
+    if (deviceSession.current) {
+      signOut({ callbackUrl: '/login' });
+      return;
+    }
+
+    setSigningOutSession(deviceSession.id);
+    try {
+      const response = await fetch(`/api/users/sessions?id=${deviceSession.id}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to sign out device');
+      }
+
+      setDeviceSessions((sessions) => sessions.filter((s) => s.id !== deviceSession.id));
+    } catch (error) {
+      console.error('Error signing out device:', error);
+      setSaveMessage({
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Failed to sign out device'
+      });
+    } finally {
+      setSigningOutSession(null);
+    }
+  };
+
+  const signOutAllDevices = async () => {
+    if (!confirm('Sign out of every device, including this one?')) return;
+
+    try {
+      const response = await fetch('/api/users/sessions', { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to sign out');
+      }
+      signOut({ callbackUrl: '/login' });
+    } catch (error) {
+      console.error('Error signing out all devices:', error);
+      setSaveMessage({
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Failed to sign out'
+      });
+    }
+  };
+
   const removeFromWishlist = async (productId: string) => {
     try {
       const response = await fetch(`/api/users/wishlist?productId=${productId}`, {
@@ -326,12 +571,14 @@ const AccountPage = () => {
         }),
       });
 
+      const data = await response.json();
+
       if (response.ok) {
+        applyServerCart(data.items);
         setSaveMessage({ type: 'success', message: 'Product added to cart' });
         setTimeout(() => setSaveMessage(null), 3000);
       } else {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to add to cart');
+        throw new Error(data.error || 'Failed to add to cart');
       }
     } catch (error) {
       console.error('Error adding to cart:', error);
@@ -342,87 +589,6 @@ const AccountPage = () => {
     }
   };
 
-  // Function to generate MongoDB-like ObjectId format
-  const generateObjectId = () => {
-    const timestamp = Math.floor(new Date().getTime() / 1000).toString(16);
-    const random = Array(16)
-      .fill(0)
-      .map(() => Math.floor(Math.random() * 16).toString(16))
-      .join('');
-    return timestamp + random;
-  };
-
-  const generateMockOrders = (email: string): IOrder[] => {
-    return [
-      {
-        _id: generateObjectId(),
-        email: email,
-        firstName: "John",
-        lastName: "Doe",
-        address: "123 Main Street",
-        apartment: "Apt 4B",
-        city: "Dhaka",
-        zipCode: "1212",
-        phone: "+880 1XXX-XXXXXX",
-        shippingMethod: "express",
-        shippingCost: 120,
-        paymentMethod: "card",
-        items: [
-          {
-            productId: "101",
-            name: "Wireless Bluetooth Headphones",
-            price: 12999,
-            quantity: 1,
-            images: ["/images/headphones.jpg"]
-          },
-          {
-            productId: "102",
-            name: "Smartphone Case",
-            price: 2499,
-            quantity: 2,
-            images: ["/images/case.jpg"]
-          }
-        ],
-        subtotal: 17997,
-        tax: 1440,
-        total: 20736,
-        status: "delivered",
-        statusUpdatedAt: new Date("2024-01-20"),
-        createdAt: new Date("2024-01-15"),
-        updatedAt: new Date("2024-01-20")
-      },
-      {
-        _id: generateObjectId(),
-        email: email,
-        firstName: "John",
-        lastName: "Doe",
-        address: "123 Main Street",
-        city: "Dhaka",
-        zipCode: "1212",
-        phone: "+880 1XXX-XXXXXX",
-        shippingMethod: "standard",
-        shippingCost: 59,
-        paymentMethod: "paypal",
-        items: [
-          {
-            productId: "103",
-            name: "Laptop Backpack",
-            price: 5999,
-            quantity: 1,
-            images: ["/images/backpack.jpg"]
-          }
-        ],
-        subtotal: 5999,
-        tax: 480,
-        total: 7078,
-        status: "shipped",
-        statusUpdatedAt: new Date("2024-01-18"),
-        createdAt: new Date("2024-01-10"),
-        updatedAt: new Date("2024-01-18")
-      }
-    ];
-  };
-
   // Format Order ID to match server component (last 8 characters uppercase)
   const formatOrderId = (orderId: string) => {
     return orderId.slice(-8).toUpperCase();
@@ -971,6 +1137,9 @@ const AccountPage = () => {
                     </div>
                     <div>
                       <p className="font-semibold text-gray-900">{item.name}</p>
+                      {item.variantOptions && item.variantOptions.length > 0 && (
+                        <p className="text-sm text-gray-600">{formatVariantOptions(item.variantOptions)}</p>
+                      )}
                       <p className="text-sm text-gray-600">Quantity: {item.quantity}</p>
                     </div>
                   </div>
@@ -993,6 +1162,12 @@ const AccountPage = () => {
                 <span>Subtotal:</span>
                 <span><TakaSign />{formatPrice(order.subtotal)}</span>
               </div>
+              {!!order.discount && (
+                <div className="flex justify-between text-green-700">
+                  <span>Discount ({order.discounts?.map((discount) => discount.code).join(', ')}):</span>
+                  <span>-<TakaSign />{formatPrice(order.discount)}</span>
+                </div>
+              )}
               <div className="flex justify-between text-gray-600">
                 <span>Shipping:</span>
                 <span><TakaSign />{formatPrice(order.shippingCost)}</span>
@@ -1009,6 +1184,17 @@ const AccountPage = () => {
               </div>
             </div>
           </div>
+
+          {/* Order Timeline */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+              <FiClock className="mr-2 text-indigo-500" />
+              Order Timeline
+            </h3>
+            <div className="bg-gray-50 rounded-xl p-5">
+              <OrderStatusTimeline history={order.statusHistory} showActor={false} />
+            </div>
+          </div>
         </div>
       </div>
     </div>
@@ -1080,7 +1266,7 @@ const AccountPage = () => {
 
               <nav className="space-y-1">
                 {[
-                  { id: "orders", label: "My Orders", icon: FiShoppingBag, count: orders.length },
+                  { id: "orders", label: "My Orders", icon: FiShoppingBag, count: ordersPagination?.total ?? orders.length },
                   { id: "profile", label: "Profile Information", icon: FiUser },
                   { id: "address", label: "Address Book", icon: FiMapPin, count: addresses.length },
                   { id: "wishlist", label: "Wishlist", icon: FiHeart, count: wishlist.length },
@@ -1119,9 +1305,24 @@ const AccountPage = () => {
             {/* Enhanced Orders Tab */}
             {activeTab === "orders" && (
               <div className="bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
-                <div className="px-6 py-5 border-b border-gray-100 bg-gradient-to-r from-gray-50 to-white">
-                  <h2 className="text-xl font-bold text-gray-900">My Orders</h2>
-                  <p className="text-gray-600 mt-1">Track and manage your orders</p>
+                <div className="px-6 py-5 border-b border-gray-100 bg-gradient-to-r from-gray-50 to-white flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                  <div>
+                    <h2 className="text-xl font-bold text-gray-900">My Orders</h2>
+                    <p className="text-gray-600 mt-1">Track and manage your orders</p>
+                  </div>
+                  <select
+                    value={orderStatusFilter}
+                    onChange={(e) => handleOrderStatusFilterChange(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="">All Orders</option>
+                    <option value="pending">Pending</option>
+                    <option value="confirmed">Confirmed</option>
+                    <option value="processing">Processing</option>
+                    <option value="shipped">Shipped</option>
+                    <option value="delivered">Delivered</option>
+                    <option value="cancelled">Cancelled</option>
+                  </select>
                 </div>
 
                 <div className="p-6">
@@ -1132,8 +1333,12 @@ const AccountPage = () => {
                       <div className="w-24 h-24 bg-gradient-to-br from-gray-100 to-gray-200 rounded-full flex items-center justify-center mx-auto mb-4">
                         <FiShoppingBag className="text-gray-400" size={40} />
                       </div>
-                      <h3 className="text-lg font-semibold text-gray-900 mb-2">No orders yet</h3>
-                      <p className="text-gray-600 mb-6">Start shopping to see your orders here</p>
+                      <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                        {orderStatusFilter ? 'No matching orders' : 'No orders yet'}
+                      </h3>
+                      <p className="text-gray-600 mb-6">
+                        {orderStatusFilter ? 'Try a different status filter' : 'Start shopping to see your orders here'}
+                      </p>
                       <button
                         onClick={() => router.push("/products")}
                         className="px-6 py-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-xl hover:from-indigo-700 hover:to-purple-700 transition-all duration-200 shadow-lg hover:shadow-xl"
@@ -1220,6 +1425,16 @@ const AccountPage = () => {
                           </div>
                         </div>
                       ))}
+
+                      {ordersPagination && ordersPagination.page < ordersPagination.totalPages && (
+                        <button
+                          onClick={loadMoreOrders}
+                          disabled={isLoadingMoreOrders}
+                          className="w-full border border-gray-300 text-gray-700 py-3 px-4 rounded-xl hover:bg-gray-50 transition-colors font-medium disabled:opacity-50"
+                        >
+                          {isLoadingMoreOrders ? 'Loading...' : 'Load More Orders'}
+                        </button>
+                      )}
                     </div>
                   )}
                 </div>
@@ -1610,23 +1825,183 @@ const AccountPage = () => {
                   <p className="text-gray-600 mt-1">Manage your account security</p>
                 </div>
                 <div className="p-6">
+                  {showSaveMessage()}
                   <div className="space-y-4">
-                    <div className="flex items-center justify-between p-4 border border-gray-200 rounded-xl">
-                      <div>
-                        <h3 className="font-semibold text-gray-900">Change Password</h3>
-                        <p className="text-gray-600 text-sm">Update your account password</p>
+                    <div className="p-4 border border-gray-200 rounded-xl">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <h3 className="font-semibold text-gray-900">{hasPassword ? 'Change Password' : 'Set a Password'}</h3>
+                          <p className="text-gray-600 text-sm">
+                            {hasPassword ? 'Update your account password' : 'Sign in with your email as well as your social account'}
+                          </p>
+                        </div>
+                        {!isChangingPassword && (
+                          <button
+                            onClick={() => setIsChangingPassword(true)}
+                            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                          >
+                            {hasPassword ? 'Change' : 'Set'}
+                          </button>
+                        )}
+                      </div>
+                      {isChangingPassword && (
+                        <form onSubmit={changePassword} className="mt-4 space-y-4">
+                          {hasPassword && (
+                            <input
+                              type="password"
+                              value={passwordForm.currentPassword}
+                              onChange={(e) => setPasswordForm({ ...passwordForm, currentPassword: e.target.value })}
+                              placeholder="Current password"
+                              required
+                              autoComplete="current-password"
+                              className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                            />
+                          )}
+                          <input
+                            type="password"
+                            value={passwordForm.newPassword}
+                            onChange={(e) => setPasswordForm({ ...passwordForm, newPassword: e.target.value })}
+                            placeholder="New password"
+                            required
+                            autoComplete="new-password"
+                            className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                          />
+                          <ul className="grid grid-cols-2 gap-1 text-sm">
+                            {PASSWORD_RULES.map((rule) => (
+                              <li
+                                key={rule.id}
+                                className={`flex items-center ${rule.test(passwordForm.newPassword) ? 'text-emerald-600' : 'text-gray-400'}`}
+                              >
+                                <FiCheckCircle className="mr-1.5" size={14} />
+                                {rule.label}
+                              </li>
+                            ))}
+                          </ul>
+                          <input
+                            type="password"
+                            value={passwordForm.confirmPassword}
+                            onChange={(e) => setPasswordForm({ ...passwordForm, confirmPassword: e.target.value })}
+                            placeholder="Confirm new password"
+                            required
+                            autoComplete="new-password"
+                            className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                          />
+                          <p className="text-gray-500 text-sm">Your other devices will be signed out.</p>
+                          <div className="flex justify-end space-x-3">
+                            <button
+                              type="button"
+                              onClick={() => {
+                                setIsChangingPassword(false);
+                                setPasswordForm({ currentPassword: '', newPassword: '', confirmPassword: '' });
+                              }}
+                              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                            >
+                              Cancel
+                            </button>
+                            <button
+                              type="submit"
+                              disabled={isSavingPassword}
+                              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                            >
+                              {isSavingPassword ? 'Saving...' : 'Save Password'}
+                            </button>
+                          </div>
+                        </form>
+                      )}
+                    </div>
+                    <div className="p-4 border border-gray-200 rounded-xl">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <h3 className="font-semibold text-gray-900">Where You&apos;re Signed In</h3>
+                          <p className="text-gray-600 text-sm">Devices with access to your account</p>
+                        </div>
+                        <button
+                          onClick={signOutAllDevices}
+                          className="px-4 py-2 bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors"
+                        >
+                          Sign out all devices
+                        </button>
+                      </div>
+                      <div className="mt-4 divide-y divide-gray-100">
+                        {deviceSessions.map((deviceSession) => (
+                          <div key={deviceSession.id} className="flex items-center justify-between py-3">
+                            <div>
+                              <p className="font-medium text-gray-900">
+                                {deviceSession.device}
+                                {deviceSession.current && (
+                                  <span className="ml-2 px-2 py-0.5 text-xs bg-emerald-50 text-emerald-700 rounded-full">This device</span>
+                                )}
+                              </p>
+                              <p className="text-gray-500 text-sm">
+                                {deviceSession.ipAddress ? `${deviceSession.ipAddress} • ` : ''}
+                                Last active {new Date(deviceSession.lastSeenAt).toLocaleString()}
+                              </p>
+                            </div>
+                            <button
+                              onClick={() => signOutDevice(deviceSession)}
+                              disabled={signingOutSession === deviceSession.id}
+                              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                            >
+                              {signingOutSession === deviceSession.id ? 'Signing out...' : 'Sign out'}
+                            </button>
+                          </div>
+                        ))}
+                        {deviceSessions.length === 0 && (
+                          <p className="text-gray-500 text-sm py-3">No other sessions recorded.</p>
+                        )}
+                      </div>
+                    </div>
+                    <div className="p-4 border border-gray-200 rounded-xl">
+                      <h3 className="font-semibold text-gray-900">Linked Accounts</h3>
+                      <p className="text-gray-600 text-sm">Sign in with a social account instead of your password</p>
+                      <div className="mt-4 space-y-3">
+                        {Array.from(new Set<OAuthProvider>([...socialProviders, ...linkedAccounts.map((account) => account.provider)])).map((provider) => {
+                          const linked = linkedAccounts.find((account) => account.provider === provider);
+                          return (
+                            <div key={provider} className="flex items-center justify-between">
+                              <div>
+                                <p className="font-medium text-gray-900">{OAUTH_PROVIDER_LABELS[provider]}</p>
+                                <p className="text-gray-500 text-sm">
+                                  {linked ? `Linked${linked.email ? ` as ${linked.email}` : ''}` : 'Not linked'}
+                                </p>
+                              </div>
+                              {linked ? (
+                                <button
+                                  onClick={() => unlinkAccount(provider)}
+                                  disabled={unlinkingProvider === provider || (!hasPassword && linkedAccounts.length === 1)}
+                                  title={!hasPassword && linkedAccounts.length === 1 ? 'This is your only way to sign in' : undefined}
+                                  className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                  {unlinkingProvider === provider ? 'Unlinking...' : 'Unlink'}
+                                </button>
+                              ) : (
+                                <button
+                                  onClick={() => linkAccount(provider)}
+                                  className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                                >
+                                  Link
+                                </button>
+                              )}
+                            </div>
+                          );
+                        })}
+                        {socialProviders.length === 0 && linkedAccounts.length === 0 && (
+                          <p className="text-gray-500 text-sm">Social sign-in isn&apos;t available right now.</p>
+                        )}
                       </div>
-                      <button className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors">
-                        Change
-                      </button>
                     </div>
                     <div className="flex items-center justify-between p-4 border border-gray-200 rounded-xl">
                       <div>
                         <h3 className="font-semibold text-gray-900">Two-Factor Authentication</h3>
-                        <p className="text-gray-600 text-sm">Add an extra layer of security</p>
+                        <p className="text-gray-600 text-sm">
+                          {session?.user?.twoFactorEnabled ? 'On. You enter a code from your app when signing in' : 'Add an extra layer of security'}
+                        </p>
                       </div>
-                      <button className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors">
-                        Enable
+                      <button
+                        onClick={() => router.push('/two-factor')}
+                        className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                      >
+                        {session?.user?.twoFactorEnabled ? 'Manage' : 'Enable'}
                       </button>
                     </div>
                   </div>
@@ -0,0 +1,616 @@
+// app/admin/categories/page.tsx
+"use client";
+
+import Layout from "@/app/components/Layout";
+import {
+  CategoryNode,
+  CATEGORY_DESCRIPTION_MAX_LENGTH,
+  CATEGORY_NAME_MAX_LENGTH,
+  collectCategoryIds,
+  flattenCategoryTree,
+  slugifyCategory,
+} from "@/lib/categories";
+import { roleHasPermission } from "@/lib/roles";
+import { useSession } from "next-auth/react";
+import Image from "next/image";
+import React, { useCallback, useEffect, useState } from "react";
+import { FiArrowDown, FiArrowUp } from "react-icons/fi";
+
+interface CategoryForm {
+  name: string;
+  slug: string;
+  description: string;
+  image: string;
+  parentCategory: string;
+  isActive: boolean;
+}
+
+interface CloudinaryUploadResult {
+  secure_url: string;
+}
+
+// A delete that was refused because the category is still in use
+interface PendingDelete {
+  category: CategoryNode;
+  products: number;
+  children: number;
+  reassignTo: string;
+}
+
+const EMPTY_FORM: CategoryForm = {
+  name: "",
+  slug: "",
+  description: "",
+  image: "",
+  parentCategory: "",
+  isActive: true,
+};
+
+const toForm = (category: CategoryNode): CategoryForm => ({
+  name: category.name,
+  slug: category.slug,
+  description: category.description || "",
+  image: category.image || "",
+  parentCategory: category.parentId || "",
+  isActive: category.isActive,
+});
+
+const uploadImage = async (file: File): Promise<string | null> => {
+  const formData = new FormData();
+  formData.append("file", file);
+  formData.append("upload_preset", process.env.NEXT_PUBLIC_CLOUDINARY_UPLOAD_PRESET || "eshopsite");
+
+  try {
+    const response = await fetch(
+      `https://api.cloudinary.com/v1_1/${process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME || "dwluovyrg"}/image/upload`,
+      { method: "POST", body: formData }
+    );
+    if (!response.ok) throw new Error("Upload failed");
+
+    const data: CloudinaryUploadResult = await response.json();
+    return data.secure_url;
+  } catch (error) {
+    console.error("Error uploading image:", error);
+    return null;
+  }
+};
+
+export default function AdminCategoriesPage() {
+  const { data: session } = useSession();
+  // Staff may manage categories, but deleting them is admin-only (catalog:delete)
+  const canDelete = roleHasPermission(session?.user?.role, "catalog:delete");
+
+  const [tree, setTree] = useState<CategoryNode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editing, setEditing] = useState<CategoryNode | null>(null);
+  const [form, setForm] = useState<CategoryForm>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+
+  const fetchCategories = useCallback(async () => {
+    try {
+      const res = await fetch("/api/categories?includeInactive=true");
+      if (res.ok) {
+        const data = await res.json();
+        setTree(data.data || []);
+      } else {
+        console.error("Failed to fetch categories");
+      }
+    } catch (error) {
+      console.error("Error fetching categories:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCategories();
+  }, [fetchCategories]);
+
+  const rows = flattenCategoryTree(tree);
+
+  const siblingsOf = (category: CategoryNode) =>
+    category.parentId
+      ? rows.find(({ node }) => node._id === category.parentId)?.node.children || []
+      : tree;
+
+  const updateForm = <K extends keyof CategoryForm>(field: K, value: CategoryForm[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const openCreate = (parent?: CategoryNode) => {
+    setEditing(null);
+    setForm({ ...EMPTY_FORM, parentCategory: parent?._id || "" });
+    setFormError(null);
+    setIsModalOpen(true);
+  };
+
+  const openEdit = (category: CategoryNode) => {
+    setEditing(category);
+    setForm(toForm(category));
+    setFormError(null);
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditing(null);
+    setFormError(null);
+  };
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setUploading(true);
+    const url = await uploadImage(file);
+    if (url) updateForm("image", url);
+    else setFormError("Image upload failed");
+    setUploading(false);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      const res = await fetch(editing ? `/api/categories/${editing._id}` : "/api/categories", {
+        method: editing ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...form, parentCategory: form.parentCategory || null }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        closeModal();
+        fetchCategories();
+      } else {
+        setFormError(data.error || "Failed to save category");
+      }
+    } catch (error) {
+      console.error("Error saving category:", error);
+      setFormError("Failed to save category");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleActive = async (category: CategoryNode) => {
+    try {
+      const res = await fetch(`/api/categories/${category._id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isActive: !category.isActive }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        fetchCategories();
+      } else {
+        alert(data.error || "Failed to update category");
+      }
+    } catch (error) {
+      console.error("Error updating category:", error);
+      alert("Failed to update category");
+    }
+  };
+
+  // Swaps the category with the sibling above or below it
+  const move = async (category: CategoryNode, offset: -1 | 1) => {
+    const ids = siblingsOf(category).map((sibling) => sibling._id);
+    const index = ids.indexOf(category._id);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+
+    try {
+      const res = await fetch("/api/categories/reorder", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        fetchCategories();
+      } else {
+        alert(data.error || "Failed to reorder categories");
+      }
+    } catch (error) {
+      console.error("Error reordering categories:", error);
+      alert("Failed to reorder categories");
+    }
+  };
+
+  const deleteCategory = async (category: CategoryNode, reassignTo?: string) => {
+    const params = reassignTo ? `?reassignTo=${reassignTo}` : "";
+    try {
+      const res = await fetch(`/api/categories/${category._id}${params}`, { method: "DELETE" });
+      const data = await res.json();
+
+      if (res.ok) {
+        setPendingDelete(null);
+        fetchCategories();
+      } else if (data.code === "CATEGORY_IN_USE") {
+        setPendingDelete({ category, products: data.products, children: data.children, reassignTo: "" });
+      } else {
+        alert(data.error || "Failed to delete category");
+      }
+    } catch (error) {
+      console.error("Error deleting category:", error);
+      alert("Failed to delete category");
+    }
+  };
+
+  const handleDelete = (category: CategoryNode) => {
+    if (!confirm(`Delete the category ${category.name}?`)) return;
+    deleteCategory(category);
+  };
+
+  // A category can't go under itself or anything below it
+  const excludedParents = editing ? collectCategoryIds(editing) : [];
+  const reassignTargets = pendingDelete
+    ? rows.filter(({ node }) => !collectCategoryIds(pendingDelete.category).includes(node._id))
+    : [];
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-6">
+        <div className="max-w-7xl mx-auto">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+            <div className="space-y-4">
+              {[1, 2, 3, 4, 5].map(i => (
+                <div key={i} className="h-20 bg-gray-200 rounded"></div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <Layout>
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Categories</h1>
+            <p className="text-gray-600 mt-2">Organise the catalog into a category tree</p>
+          </div>
+          <button
+            onClick={() => openCreate()}
+            className="bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors"
+          >
+            New Category
+          </button>
+        </div>
+
+        {/* Categories Table */}
+        <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Category
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Path
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Products
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Order
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rows.map(({ node, depth }) => {
+                  const siblings = siblingsOf(node);
+                  const position = siblings.findIndex((sibling) => sibling._id === node._id);
+                  return (
+                    <tr key={node._id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                          {node.image ? (
+                            <Image
+                              src={node.image}
+                              alt={node.name}
+                              width={40}
+                              height={40}
+                              className="h-10 w-10 rounded object-cover mr-3"
+                            />
+                          ) : (
+                            <div className="h-10 w-10 rounded bg-gray-100 mr-3" />
+                          )}
+                          <div>
+                            <div className="text-sm font-medium text-gray-900">{node.name}</div>
+                            {node.description && (
+                              <div className="text-sm text-gray-500 line-clamp-1">{node.description}</div>
+                            )}
+                          </div>
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">/category/{node.path}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{node.productCount}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`px-2 py-1 text-xs font-medium rounded-full border ${
+                            node.isActive
+                              ? "bg-green-100 text-green-800 border-green-200"
+                              : "bg-gray-100 text-gray-700 border-gray-200"
+                          }`}
+                        >
+                          {node.isActive ? "Active" : "Hidden"}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <button
+                          onClick={() => move(node, -1)}
+                          disabled={position <= 0}
+                          className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30 disabled:cursor-not-allowed"
+                          aria-label={`Move ${node.name} up`}
+                        >
+                          <FiArrowUp />
+                        </button>
+                        <button
+                          onClick={() => move(node, 1)}
+                          disabled={position === siblings.length - 1}
+                          className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30 disabled:cursor-not-allowed"
+                          aria-label={`Move ${node.name} down`}
+                        >
+                          <FiArrowDown />
+                        </button>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-3">
+                        <button
+                          onClick={() => openEdit(node)}
+                          className="text-indigo-600 hover:text-indigo-900"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => openCreate(node)}
+                          className="text-indigo-600 hover:text-indigo-900"
+                        >
+                          Add subcategory
+                        </button>
+                        <button
+                          onClick={() => toggleActive(node)}
+                          className="text-gray-600 hover:text-gray-900"
+                        >
+                          {node.isActive ? "Deactivate" : "Activate"}
+                        </button>
+                        {canDelete && (
+                          <button
+                            onClick={() => handleDelete(node)}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {rows.length === 0 && (
+            <div className="text-center py-12">
+              <div className="text-gray-400 text-lg">No categories yet</div>
+              <div className="text-gray-500 mt-2">Create a category to start organising products.</div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Create / Edit Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <form
+            onSubmit={handleSave}
+            className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+          >
+            <div className="p-6 border-b">
+              <h2 className="text-xl font-semibold">
+                {editing ? `Edit ${editing.name}` : "New Category"}
+              </h2>
+            </div>
+
+            <div className="p-6 space-y-4">
+              {formError && (
+                <div className="p-3 bg-red-50 border border-red-200 text-red-700 text-sm rounded-md">
+                  {formError}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    type="text"
+                    required
+                    maxLength={CATEGORY_NAME_MAX_LENGTH}
+                    value={form.name}
+                    onChange={(e) => updateForm("name", e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Slug</label>
+                  <input
+                    type="text"
+                    value={form.slug}
+                    onChange={(e) => updateForm("slug", e.target.value)}
+                    placeholder={slugifyCategory(form.name) || "made from the name"}
+                    className={inputClass}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Leave blank to make one from the name</p>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Parent category</label>
+                <select
+                  value={form.parentCategory}
+                  onChange={(e) => updateForm("parentCategory", e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">None (top level)</option>
+                  {rows
+                    .filter(({ node }) => !excludedParents.includes(node._id))
+                    .map(({ node, depth }) => (
+                      <option key={node._id} value={node._id}>
+                        {" ".repeat(depth * 4)}
+                        {node.name}
+                      </option>
+                    ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <textarea
+                  rows={3}
+                  maxLength={CATEGORY_DESCRIPTION_MAX_LENGTH}
+                  value={form.description}
+                  onChange={(e) => updateForm("description", e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Image</label>
+                <div className="flex items-center space-x-4">
+                  {form.image && (
+                    <Image
+                      src={form.image}
+                      alt="Category image"
+                      width={64}
+                      height={64}
+                      className="h-16 w-16 rounded object-cover border"
+                    />
+                  )}
+                  <label className="text-sm text-indigo-600 hover:text-indigo-900 cursor-pointer">
+                    {uploading ? "Uploading..." : form.image ? "Replace image" : "Upload image"}
+                    <input
+                      type="file"
+                      accept="image/*"
+                      onChange={handleImageUpload}
+                      disabled={uploading}
+                      className="hidden"
+                    />
+                  </label>
+                  {form.image && (
+                    <button
+                      type="button"
+                      onClick={() => updateForm("image", "")}
+                      className="text-sm text-red-600 hover:text-red-900"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.isActive}
+                  onChange={(e) => updateForm("isActive", e.target.checked)}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span>Active (hidden categories also hide their subcategories from the store)</span>
+              </label>
+            </div>
+
+            <div className="p-6 border-t flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={closeModal}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving || uploading}
+                className="bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? "Saving..." : editing ? "Save Changes" : "Create Category"}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Reassign-and-delete Modal */}
+      {canDelete && pendingDelete && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-lg w-full">
+            <div className="p-6 border-b">
+              <h2 className="text-xl font-semibold">Delete {pendingDelete.category.name}</h2>
+            </div>
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-gray-700">
+                This category still has {pendingDelete.products} product{pendingDelete.products !== 1 ? "s" : ""} and{" "}
+                {pendingDelete.children} subcategor{pendingDelete.children !== 1 ? "ies" : "y"}. Choose where to move
+                them before it is deleted.
+              </p>
+              <select
+                value={pendingDelete.reassignTo}
+                onChange={(e) => setPendingDelete({ ...pendingDelete, reassignTo: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Select a category</option>
+                {reassignTargets.map(({ node, depth }) => (
+                  <option key={node._id} value={node._id}>
+                    {" ".repeat(depth * 4)}
+                    {node.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="p-6 border-t flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setPendingDelete(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                disabled={!pendingDelete.reassignTo}
+                onClick={() => deleteCategory(pendingDelete.category, pendingDelete.reassignTo)}
+                className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Move and Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,678 @@
+// app/admin/coupons/page.tsx
+"use client";
+
+import Layout from "@/app/components/Layout";
+import { COUPON_TYPE_LABELS, COUPON_TYPES, CouponType, describeCoupon } from "@/lib/coupons";
+import React, { useCallback, useEffect, useState } from "react";
+
+interface ICoupon {
+  _id: string;
+  code: string;
+  description?: string;
+  type: CouponType;
+  value: number;
+  maxDiscount?: number;
+  buyQuantity?: number;
+  getQuantity?: number;
+  getDiscountPercent?: number;
+  minSubtotal?: number;
+  categories: string[];
+  productIds: string[];
+  startsAt?: string;
+  expiresAt?: string;
+  usageLimit?: number;
+  usageLimitPerUser?: number;
+  usedCount: number;
+  isActive: boolean;
+  createdAt: string;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+// Inputs are kept as strings and converted when the form is submitted
+interface CouponForm {
+  code: string;
+  description: string;
+  type: CouponType;
+  value: string;
+  maxDiscount: string;
+  buyQuantity: string;
+  getQuantity: string;
+  getDiscountPercent: string;
+  minSubtotal: string;
+  categories: string;
+  productIds: string;
+  startsAt: string;
+  expiresAt: string;
+  usageLimit: string;
+  usageLimitPerUser: string;
+  isActive: boolean;
+}
+
+const PAGE_SIZE = 20;
+
+const EMPTY_FORM: CouponForm = {
+  code: "",
+  description: "",
+  type: "percentage",
+  value: "",
+  maxDiscount: "",
+  buyQuantity: "",
+  getQuantity: "",
+  getDiscountPercent: "",
+  minSubtotal: "",
+  categories: "",
+  productIds: "",
+  startsAt: "",
+  expiresAt: "",
+  usageLimit: "",
+  usageLimitPerUser: "",
+  isActive: true,
+};
+
+// datetime-local inputs work in local time without a zone suffix
+const toDateTimeInput = (value?: string) => {
+  if (!value) return "";
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const toForm = (coupon: ICoupon): CouponForm => ({
+  code: coupon.code,
+  description: coupon.description || "",
+  type: coupon.type,
+  value: coupon.value ? String(coupon.value) : "",
+  maxDiscount: coupon.maxDiscount?.toString() || "",
+  buyQuantity: coupon.buyQuantity?.toString() || "",
+  getQuantity: coupon.getQuantity?.toString() || "",
+  getDiscountPercent: coupon.getDiscountPercent?.toString() || "",
+  minSubtotal: coupon.minSubtotal?.toString() || "",
+  categories: coupon.categories.join(", "),
+  productIds: coupon.productIds.join(", "),
+  startsAt: toDateTimeInput(coupon.startsAt),
+  expiresAt: toDateTimeInput(coupon.expiresAt),
+  usageLimit: coupon.usageLimit?.toString() || "",
+  usageLimitPerUser: coupon.usageLimitPerUser?.toString() || "",
+  isActive: coupon.isActive,
+});
+
+const splitList = (value: string) =>
+  value.split(",").map((item) => item.trim()).filter(Boolean);
+
+// Blank fields are sent as "" so the API clears them
+const toPayload = (form: CouponForm) => {
+  const number = (value: string) => (value.trim() === "" ? "" : Number(value));
+  const date = (value: string) => (value ? new Date(value).toISOString() : "");
+
+  return {
+    code: form.code.trim(),
+    description: form.description.trim(),
+    type: form.type,
+    value: form.type === "percentage" || form.type === "fixed" ? number(form.value) : 0,
+    maxDiscount: form.type === "percentage" ? number(form.maxDiscount) : "",
+    buyQuantity: form.type === "buy_x_get_y" ? number(form.buyQuantity) : "",
+    getQuantity: form.type === "buy_x_get_y" ? number(form.getQuantity) : "",
+    getDiscountPercent: form.type === "buy_x_get_y" ? number(form.getDiscountPercent) : "",
+    minSubtotal: number(form.minSubtotal),
+    categories: splitList(form.categories),
+    productIds: splitList(form.productIds),
+    startsAt: date(form.startsAt),
+    expiresAt: date(form.expiresAt),
+    usageLimit: number(form.usageLimit),
+    usageLimitPerUser: number(form.usageLimitPerUser),
+    isActive: form.isActive,
+  };
+};
+
+const getCouponStatus = (coupon: ICoupon) => {
+  const now = Date.now();
+  if (!coupon.isActive) return { label: "Inactive", style: "bg-gray-100 text-gray-700 border-gray-200" };
+  if (coupon.startsAt && new Date(coupon.startsAt).getTime() > now) {
+    return { label: "Scheduled", style: "bg-blue-100 text-blue-800 border-blue-200" };
+  }
+  if (coupon.expiresAt && new Date(coupon.expiresAt).getTime() <= now) {
+    return { label: "Expired", style: "bg-red-100 text-red-800 border-red-200" };
+  }
+  if (coupon.usageLimit && coupon.usedCount >= coupon.usageLimit) {
+    return { label: "Used up", style: "bg-yellow-100 text-yellow-800 border-yellow-200" };
+  }
+  return { label: "Active", style: "bg-green-100 text-green-800 border-green-200" };
+};
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleDateString() : "—");
+
+export default function AdminCouponsPage() {
+  const [coupons, setCoupons] = useState<ICoupon[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [filterStatus, setFilterStatus] = useState("");
+  const [page, setPage] = useState(1);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<CouponForm>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchCoupons = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+      if (search.trim()) params.set("search", search.trim());
+      if (filterStatus) params.set("status", filterStatus);
+
+      const res = await fetch(`/api/coupons?${params.toString()}`);
+      if (res.ok) {
+        const data = await res.json();
+        setCoupons(data.coupons || []);
+        setPagination(data.pagination || null);
+      } else {
+        console.error("Failed to fetch coupons");
+        setCoupons([]);
+        setPagination(null);
+      }
+    } catch (error) {
+      console.error("Error fetching coupons:", error);
+      setCoupons([]);
+      setPagination(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [page, search, filterStatus]);
+
+  useEffect(() => {
+    // Debounce so typing in the search box doesn't fire a request per keystroke
+    const timer = setTimeout(fetchCoupons, 300);
+    return () => clearTimeout(timer);
+  }, [fetchCoupons]);
+
+  // Any filter change starts again from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const updateForm = <K extends keyof CouponForm>(field: K, value: CouponForm[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setFormError(null);
+    setIsModalOpen(true);
+  };
+
+  const openEdit = (coupon: ICoupon) => {
+    setEditingId(coupon._id);
+    setForm(toForm(coupon));
+    setFormError(null);
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingId(null);
+    setFormError(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      const res = await fetch(editingId ? `/api/coupons/${editingId}` : "/api/coupons", {
+        method: editingId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(toPayload(form)),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        closeModal();
+        fetchCoupons();
+      } else {
+        setFormError(data.error || "Failed to save coupon");
+      }
+    } catch (error) {
+      console.error("Error saving coupon:", error);
+      setFormError("Failed to save coupon");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleActive = async (coupon: ICoupon) => {
+    try {
+      const res = await fetch(`/api/coupons/${coupon._id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isActive: !coupon.isActive }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        fetchCoupons();
+      } else {
+        alert(data.error || "Failed to update coupon");
+      }
+    } catch (error) {
+      console.error("Error updating coupon:", error);
+      alert("Failed to update coupon");
+    }
+  };
+
+  const handleDelete = async (coupon: ICoupon) => {
+    if (!confirm(`Delete coupon ${coupon.code}? Orders that used it keep their discount.`)) return;
+
+    try {
+      const res = await fetch(`/api/coupons/${coupon._id}`, { method: "DELETE" });
+      const data = await res.json();
+
+      if (res.ok) {
+        fetchCoupons();
+      } else {
+        alert(data.error || "Failed to delete coupon");
+      }
+    } catch (error) {
+      console.error("Error deleting coupon:", error);
+      alert("Failed to delete coupon");
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+  // Only show the skeleton on first load so the filters keep focus while refetching
+  if (loading && !pagination) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-6">
+        <div className="max-w-7xl mx-auto">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+            <div className="space-y-4">
+              {[1, 2, 3, 4, 5].map(i => (
+                <div key={i} className="h-20 bg-gray-200 rounded"></div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <Layout>
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Coupons</h1>
+            <p className="text-gray-600 mt-2">Create and manage promo codes</p>
+          </div>
+          <button
+            onClick={openCreate}
+            className="bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors"
+          >
+            New Coupon
+          </button>
+        </div>
+
+        {/* Search and Filter */}
+        <div className="bg-white rounded-lg shadow-sm border p-6 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Search Coupons
+              </label>
+              <input
+                type="text"
+                placeholder="Search by code or description..."
+                value={search}
+                onChange={(e) => updateFilter(setSearch)(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Filter by Status
+              </label>
+              <select
+                value={filterStatus}
+                onChange={(e) => updateFilter(setFilterStatus)(e.target.value)}
+                className={inputClass}
+              >
+                <option value="">All Coupons</option>
+                <option value="active">Active</option>
+                <option value="scheduled">Scheduled</option>
+                <option value="expired">Expired</option>
+                <option value="inactive">Inactive</option>
+              </select>
+            </div>
+            <div className="flex items-end">
+              <button
+                onClick={fetchCoupons}
+                className="w-full bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors"
+              >
+                Refresh Coupons
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Coupons Table */}
+        <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Code
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Discount
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Usage
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Valid
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {coupons.map((coupon) => {
+                  const status = getCouponStatus(coupon);
+                  return (
+                    <tr key={coupon._id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{coupon.code}</div>
+                        {coupon.description && (
+                          <div className="text-sm text-gray-500">{coupon.description}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">{describeCoupon(coupon)}</div>
+                        <div className="text-sm text-gray-500">
+                          {coupon.minSubtotal ? `Min. spend ৳${coupon.minSubtotal}` : "No minimum"}
+                          {(coupon.categories.length > 0 || coupon.productIds.length > 0) && " • Limited items"}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {coupon.usedCount}{coupon.usageLimit ? ` / ${coupon.usageLimit}` : ""}
+                        {coupon.usageLimitPerUser && (
+                          <div className="text-sm text-gray-500">{coupon.usageLimitPerUser} per customer</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {formatDate(coupon.startsAt)} – {formatDate(coupon.expiresAt)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full border ${status.style}`}>
+                          {status.label}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-3">
+                        <button
+                          onClick={() => openEdit(coupon)}
+                          className="text-indigo-600 hover:text-indigo-900"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => toggleActive(coupon)}
+                          className="text-gray-600 hover:text-gray-900"
+                        >
+                          {coupon.isActive ? "Deactivate" : "Activate"}
+                        </button>
+                        <button
+                          onClick={() => handleDelete(coupon)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {coupons.length === 0 && (
+            <div className="text-center py-12">
+              <div className="text-gray-400 text-lg">No coupons found</div>
+              <div className="text-gray-500 mt-2">
+                {search || filterStatus ? "Try adjusting your search or filter." : "Create a coupon to offer discounts at checkout."}
+              </div>
+            </div>
+          )}
+
+          {/* Pagination */}
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between px-6 py-4 border-t">
+              <div className="text-sm text-gray-600">
+                Page {pagination.page} of {pagination.totalPages} • {pagination.total} coupons
+              </div>
+              <div className="space-x-2">
+                <button
+                  onClick={() => setPage((p) => Math.max(p - 1, 1))}
+                  disabled={pagination.page <= 1}
+                  className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage((p) => Math.min(p + 1, pagination.totalPages))}
+                  disabled={pagination.page >= pagination.totalPages}
+                  className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Create / Edit Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <form
+            onSubmit={handleSave}
+            className="bg-white rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto"
+          >
+            <div className="p-6 border-b">
+              <h2 className="text-xl font-semibold">
+                {editingId ? `Edit ${form.code}` : "New Coupon"}
+              </h2>
+            </div>
+
+            <div className="p-6 space-y-6">
+              {formError && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+                  {formError}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+                  <input
+                    type="text"
+                    value={form.code}
+                    onChange={(e) => updateForm("code", e.target.value.toUpperCase())}
+                    placeholder="SUMMER10"
+                    maxLength={30}
+                    required
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                  <select
+                    value={form.type}
+                    onChange={(e) => updateForm("type", e.target.value as CouponType)}
+                    className={inputClass}
+                  >
+                    {COUPON_TYPES.map((type) => (
+                      <option key={type} value={type}>{COUPON_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                  <input
+                    type="text"
+                    value={form.description}
+                    onChange={(e) => updateForm("description", e.target.value)}
+                    placeholder="Shown to customers at checkout"
+                    maxLength={200}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              {/* Discount */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {form.type === "percentage" && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Percent off</label>
+                      <input type="number" min="1" max="100" required value={form.value}
+                        onChange={(e) => updateForm("value", e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Maximum discount (৳)</label>
+                      <input type="number" min="0" value={form.maxDiscount}
+                        onChange={(e) => updateForm("maxDiscount", e.target.value)} className={inputClass} />
+                    </div>
+                  </>
+                )}
+                {form.type === "fixed" && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Amount off (৳)</label>
+                    <input type="number" min="1" required value={form.value}
+                      onChange={(e) => updateForm("value", e.target.value)} className={inputClass} />
+                  </div>
+                )}
+                {form.type === "buy_x_get_y" && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Buy</label>
+                      <input type="number" min="1" step="1" required value={form.buyQuantity}
+                        onChange={(e) => updateForm("buyQuantity", e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Get</label>
+                      <input type="number" min="1" step="1" required value={form.getQuantity}
+                        onChange={(e) => updateForm("getQuantity", e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Percent off those (default 100)</label>
+                      <input type="number" min="1" max="100" value={form.getDiscountPercent}
+                        onChange={(e) => updateForm("getDiscountPercent", e.target.value)} className={inputClass} />
+                    </div>
+                  </>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Minimum spend (৳)</label>
+                  <input type="number" min="0" value={form.minSubtotal}
+                    onChange={(e) => updateForm("minSubtotal", e.target.value)} className={inputClass} />
+                </div>
+              </div>
+
+              {/* Scope */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Categories</label>
+                  <input
+                    type="text"
+                    value={form.categories}
+                    onChange={(e) => updateForm("categories", e.target.value)}
+                    placeholder="Comma separated; empty for all"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Product IDs</label>
+                  <input
+                    type="text"
+                    value={form.productIds}
+                    onChange={(e) => updateForm("productIds", e.target.value)}
+                    placeholder="Comma separated; empty for all"
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              {/* Validity and limits */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Starts</label>
+                  <input type="datetime-local" value={form.startsAt}
+                    onChange={(e) => updateForm("startsAt", e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Expires</label>
+                  <input type="datetime-local" value={form.expiresAt}
+                    onChange={(e) => updateForm("expiresAt", e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Total uses</label>
+                  <input type="number" min="1" step="1" value={form.usageLimit} placeholder="Unlimited"
+                    onChange={(e) => updateForm("usageLimit", e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Uses per customer</label>
+                  <input type="number" min="1" step="1" value={form.usageLimitPerUser} placeholder="Unlimited"
+                    onChange={(e) => updateForm("usageLimitPerUser", e.target.value)} className={inputClass} />
+                </div>
+              </div>
+
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.isActive}
+                  onChange={(e) => updateForm("isActive", e.target.checked)}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span>Active</span>
+              </label>
+            </div>
+
+            <div className="p-6 border-t flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={closeModal}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? "Saving..." : editingId ? "Save Changes" : "Create Coupon"}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+    </Layout>
+  );
+}
@@ -2,10 +2,15 @@
 "use client";
 
 import Layout from "@/app/components/Layout";
-import React, { useEffect, useState } from "react";
+import OrderStatusTimeline, { OrderStatusChange } from "@/app/components/OrderStatusTimeline";
+import { nextOrderStatuses, ORDER_STATUS_LABELS, OrderStatus } from "@/lib/orderStatus";
+import { formatVariantOptions, VariantOptionValue } from "@/lib/variants";
+import React, { useCallback, useEffect, useState } from "react";
 
 interface IOrderItem {
   productId: string;
+  variantSku?: string;
+  variantOptions?: VariantOptionValue[];
   name: string;
   price: number;
   quantity: number;
@@ -27,14 +32,26 @@ interface IOrder {
   paymentMethod: 'card' | 'paypal' | 'applepay' | 'cod';
   items: IOrderItem[];
   subtotal: number;
+  discount?: number;
+  discounts?: { code: string; amount: number; shippingAmount: number }[];
   tax: number;
   total: number;
-  status: 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+  status: OrderStatus;
   statusUpdatedAt?: Date;
+  statusHistory?: OrderStatusChange[];
   createdAt: string;
   updatedAt: string;
 }
 
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+const PAGE_SIZE = 20;
+
 export default function AdminOrdersPage() {
   const [orders, setOrders] = useState<IOrder[]>([]);
   const [loading, setLoading] = useState(true);
@@ -42,52 +59,92 @@ export default function AdminOrdersPage() {
   const [filterStatus, setFilterStatus] = useState("");
   const [selectedOrder, setSelectedOrder] = useState<IOrder | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [page, setPage] = useState(1);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [statusCounts, setStatusCounts] = useState<Record<string, number>>({});
+  const [nextStatus, setNextStatus] = useState<OrderStatus | "">("");
+  const [statusNotes, setStatusNotes] = useState("");
+  const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
 
-  const fetchOrders = async () => {
+  const fetchOrders = useCallback(async () => {
     setLoading(true);
     try {
-      const res = await fetch("/api/orders");
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+      if (search.trim()) params.set("search", search.trim());
+      if (filterStatus) params.set("status", filterStatus);
+      if (fromDate) params.set("from", fromDate);
+      if (toDate) params.set("to", toDate);
+
+      const res = await fetch(`/api/orders?${params.toString()}`);
       if (res.ok) {
         const data = await res.json();
-        setOrders(data || []);
+        setOrders(data.orders || []);
+        setPagination(data.pagination || null);
+        setStatusCounts(data.statusCounts || {});
       } else {
         console.error("Failed to fetch orders");
         setOrders([]);
+        setPagination(null);
       }
     } catch (error) {
       console.error("Error fetching orders:", error);
       setOrders([]);
+      setPagination(null);
     } finally {
       setLoading(false);
     }
-  };
+  }, [page, search, filterStatus, fromDate, toDate]);
 
   useEffect(() => {
-    fetchOrders();
-  }, []);
+    // Debounce so typing in the search box doesn't fire a request per keystroke
+    const timer = setTimeout(fetchOrders, 300);
+    return () => clearTimeout(timer);
+  }, [fetchOrders]);
 
-  const updateOrderStatus = async (orderId: string, newStatus: IOrder['status']) => {
+  // Any filter change starts again from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const updateOrderStatus = async (orderId: string, newStatus: IOrder['status'], notes?: string) => {
+    setIsUpdatingStatus(true);
     try {
       const res = await fetch(`/api/orders/${orderId}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ status: newStatus, notes: notes?.trim() || undefined }),
       });
+      const data = await res.json();
 
       if (res.ok) {
         fetchOrders(); // Refresh the list
         if (selectedOrder?._id === orderId) {
-          setSelectedOrder({ ...selectedOrder, status: newStatus });
+          setSelectedOrder(data.data);
+          setNextStatus("");
+          setStatusNotes("");
         }
       } else {
-        alert("Failed to update order status");
+        alert(data.error || "Failed to update order status");
       }
     } catch (error) {
       console.error("Error updating order:", error);
       alert("Failed to update order status");
+    } finally {
+      setIsUpdatingStatus(false);
     }
   };
 
+  // Current status first, followed by the statuses it may legally move to
+  const renderStatusOptions = (status: OrderStatus) =>
+    [status, ...nextOrderStatuses(status)].map((option) => (
+      <option key={option} value={option}>
+        {ORDER_STATUS_LABELS[option] ?? option}
+      </option>
+    ));
+
   const viewOrderDetails = (order: IOrder) => {
     setSelectedOrder(order);
     setIsModalOpen(true);
@@ -96,19 +153,13 @@ export default function AdminOrdersPage() {
   const closeModal = () => {
     setIsModalOpen(false);
     setSelectedOrder(null);
+    setNextStatus("");
+    setStatusNotes("");
   };
 
-  // Filter orders based on search and status
-  const filteredOrders = orders.filter(order => {
-    const matchesSearch = search === "" || 
-      order.email.toLowerCase().includes(search.toLowerCase()) ||
-      `${order.firstName} ${order.lastName}`.toLowerCase().includes(search.toLowerCase()) ||
-      order._id.toLowerCase().includes(search.toLowerCase());
-
-    const matchesStatus = filterStatus === "" || order.status === filterStatus;
-
-    return matchesSearch && matchesStatus;
-  });
+  // Search and status filtering happen server-side
+  const filteredOrders = orders;
+  const totalOrders = Object.values(statusCounts).reduce((sum, count) => sum + count, 0);
 
   // Status badge styling
   const getStatusBadge = (status: IOrder['status']) => {
@@ -149,7 +200,8 @@ export default function AdminOrdersPage() {
     return methodMap[method] || method;
   };
 
-  if (loading) {
+  // Only show the skeleton on first load so the filters keep focus while refetching
+  if (loading && !pagination) {
     return (
       <div className="min-h-screen bg-gray-50 p-6">
         <div className="max-w-7xl mx-auto">
@@ -179,24 +231,24 @@ export default function AdminOrdersPage() {
         {/* Stats Overview */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
           <div className="bg-white p-4 rounded-lg shadow-sm border">
-            <div className="text-2xl font-bold text-gray-900">{orders.length}</div>
+            <div className="text-2xl font-bold text-gray-900">{totalOrders}</div>
             <div className="text-sm text-gray-600">Total Orders</div>
           </div>
           <div className="bg-white p-4 rounded-lg shadow-sm border">
             <div className="text-2xl font-bold text-yellow-600">
-              {orders.filter(o => o.status === 'pending').length}
+              {statusCounts.pending || 0}
             </div>
             <div className="text-sm text-gray-600">Pending</div>
           </div>
           <div className="bg-white p-4 rounded-lg shadow-sm border">
             <div className="text-2xl font-bold text-blue-600">
-              {orders.filter(o => o.status === 'processing').length}
+              {statusCounts.processing || 0}
             </div>
             <div className="text-sm text-gray-600">Processing</div>
           </div>
           <div className="bg-white p-4 rounded-lg shadow-sm border">
             <div className="text-2xl font-bold text-green-600">
-              {orders.filter(o => o.status === 'delivered').length}
+              {statusCounts.delivered || 0}
             </div>
             <div className="text-sm text-gray-600">Delivered</div>
           </div>
@@ -204,7 +256,7 @@ export default function AdminOrdersPage() {
 
         {/* Search and Filter */}
         <div className="bg-white rounded-lg shadow-sm border p-6 mb-6">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Search Orders
@@ -213,7 +265,7 @@ export default function AdminOrdersPage() {
                 type="text"
                 placeholder="Search by email, name, or order ID..."
                 value={search}
-                onChange={(e) => setSearch(e.target.value)}
+                onChange={(e) => updateFilter(setSearch)(e.target.value)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
               />
             </div>
@@ -223,7 +275,7 @@ export default function AdminOrdersPage() {
               </label>
               <select
                 value={filterStatus}
-                onChange={(e) => setFilterStatus(e.target.value)}
+                onChange={(e) => updateFilter(setFilterStatus)(e.target.value)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
               >
                 <option value="">All Statuses</option>
@@ -235,6 +287,28 @@ export default function AdminOrdersPage() {
                 <option value="cancelled">Cancelled</option>
               </select>
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                From
+              </label>
+              <input
+                type="date"
+                value={fromDate}
+                onChange={(e) => updateFilter(setFromDate)(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                To
+              </label>
+              <input
+                type="date"
+                value={toDate}
+                onChange={(e) => updateFilter(setToDate)(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
             <div className="flex items-end">
               <button
                 onClick={fetchOrders}
@@ -324,14 +398,10 @@ export default function AdminOrdersPage() {
                       <select
                         value={order.status}
                         onChange={(e) => updateOrderStatus(order._id, e.target.value as IOrder['status'])}
-                        className="text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                        disabled={nextOrderStatuses(order.status).length === 0}
+                        className="text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:bg-gray-100 disabled:text-gray-500"
                       >
-                        <option value="pending">Pending</option>
-                        <option value="confirmed">Confirmed</option>
-                        <option value="processing">Processing</option>
-                        <option value="shipped">Shipped</option>
-                        <option value="delivered">Delivered</option>
-                        <option value="cancelled">Cancelled</option>
+                        {renderStatusOptions(order.status)}
                       </select>
                     </td>
                   </tr>
@@ -344,7 +414,32 @@ export default function AdminOrdersPage() {
             <div className="text-center py-12">
               <div className="text-gray-400 text-lg">No orders found</div>
               <div className="text-gray-500 mt-2">
-                {orders.length === 0 ? "No orders have been placed yet." : "Try adjusting your search or filter."}
+                {totalOrders === 0 ? "No orders have been placed yet." : "Try adjusting your search or filter."}
+              </div>
+            </div>
+          )}
+
+          {/* Pagination */}
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between px-6 py-4 border-t">
+              <div className="text-sm text-gray-600">
+                Page {pagination.page} of {pagination.totalPages} • {pagination.total} orders
+              </div>
+              <div className="space-x-2">
+                <button
+                  onClick={() => setPage((p) => Math.max(p - 1, 1))}
+                  disabled={pagination.page <= 1}
+                  className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage((p) => Math.min(p + 1, pagination.totalPages))}
+                  disabled={pagination.page >= pagination.totalPages}
+                  className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Next
+                </button>
               </div>
             </div>
           )}
@@ -373,23 +468,56 @@ export default function AdminOrdersPage() {
 
             <div className="p-6 space-y-6">
               {/* Order Status */}
-              <div className="flex items-center justify-between">
-                <div>
-                  <h3 className="text-lg font-medium">Order Status</h3>
-                  <p className="text-gray-600">Current status: {getStatusBadge(selectedOrder.status)}</p>
+              <div>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="text-lg font-medium">Order Status</h3>
+                    <p className="text-gray-600">Current status: {getStatusBadge(selectedOrder.status)}</p>
+                  </div>
+                </div>
+                {nextOrderStatuses(selectedOrder.status).length > 0 ? (
+                  <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <select
+                      value={nextStatus}
+                      onChange={(e) => setNextStatus(e.target.value as OrderStatus | "")}
+                      className="border border-gray-300 rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    >
+                      <option value="">Move to…</option>
+                      {nextOrderStatuses(selectedOrder.status).map((option) => (
+                        <option key={option} value={option}>
+                          {ORDER_STATUS_LABELS[option]}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={statusNotes}
+                      onChange={(e) => setStatusNotes(e.target.value)}
+                      placeholder="Notes (optional)"
+                      maxLength={500}
+                      className="border border-gray-300 rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                    <button
+                      onClick={() => nextStatus && updateOrderStatus(selectedOrder._id, nextStatus, statusNotes)}
+                      disabled={!nextStatus || isUpdatingStatus}
+                      className="bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isUpdatingStatus ? "Updating..." : "Update Status"}
+                    </button>
+                  </div>
+                ) : (
+                  <p className="mt-2 text-sm text-gray-500">
+                    This order is {selectedOrder.status} and can no longer change status.
+                  </p>
+                )}
+              </div>
+
+              {/* Status History */}
+              <div>
+                <h3 className="text-lg font-medium mb-3">Status History</h3>
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <OrderStatusTimeline history={selectedOrder.statusHistory} />
                 </div>
-                <select
-                  value={selectedOrder.status}
-                  onChange={(e) => updateOrderStatus(selectedOrder._id, e.target.value as IOrder['status'])}
-                  className="border border-gray-300 rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                >
-                  <option value="pending">Pending</option>
-                  <option value="confirmed">Confirmed</option>
-                  <option value="processing">Processing</option>
-                  <option value="shipped">Shipped</option>
-                  <option value="delivered">Delivered</option>
-                  <option value="cancelled">Cancelled</option>
-                </select>
               </div>
 
               {/* Customer Information */}
@@ -445,6 +573,11 @@ export default function AdminOrdersPage() {
                         )}
                         <div>
                           <div className="font-medium">{item.name}</div>
+                          {item.variantSku && (
+                            <div className="text-sm text-gray-600">
+                              {formatVariantOptions(item.variantOptions)} · SKU {item.variantSku}
+                            </div>
+                          )}
                           <div className="text-sm text-gray-600">Qty: {item.quantity}</div>
                         </div>
                       </div>
@@ -467,6 +600,12 @@ export default function AdminOrdersPage() {
                     <span>Subtotal:</span>
                     <span>৳{selectedOrder.subtotal.toFixed(2)}</span>
                   </div>
+                  {!!selectedOrder.discount && (
+                    <div className="flex justify-between text-green-700">
+                      <span>Discount ({selectedOrder.discounts?.map((discount) => discount.code).join(', ')}):</span>
+                      <span>-৳{selectedOrder.discount.toFixed(2)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span>Shipping:</span>
                     <span>৳{selectedOrder.shippingCost.toFixed(2)}</span>
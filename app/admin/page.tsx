@@ -3,6 +3,7 @@
 
 import React, { useEffect, useState } from "react";
 import Layout from "../components/Layout";
+import { DEFAULT_ROLE, isRole, normalizeRole, Role, ROLE_DETAILS, ROLES } from "@/lib/roles";
 
 interface IUser {
   _id: string;
@@ -11,14 +12,39 @@ interface IUser {
   role: string;
 }
 
+interface IRoleChange {
+  from: string | null;
+  to: Role;
+  count: number;
+}
+
+const ROLE_BADGE_CLASSES: Record<Role, string> = {
+  admin: "bg-purple-100 text-purple-800",
+  staff: "bg-blue-100 text-blue-800",
+  customer: "bg-green-100 text-green-800",
+};
+
+interface ILockedAccount {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+  lockedUntil: string;
+  failedAttempts24h: number;
+  lastFailedAt: string | null;
+  lastIpAddress: string | null;
+}
+
 export default function AdminPage() {
   const [users, setUsers] = useState<IUser[]>([]);
+  const [lockedAccounts, setLockedAccounts] = useState<ILockedAccount[]>([]);
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState("");
   const [filterRole, setFilterRole] = useState("");
-  const [newUser, setNewUser] = useState({ name: "", email: "", password: "", role: "customer" });
+  const [newUser, setNewUser] = useState({ name: "", email: "", password: "", role: DEFAULT_ROLE as string });
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [editData, setEditData] = useState({ name: "", email: "", role: "customer" });
+  const [editData, setEditData] = useState({ name: "", email: "", role: DEFAULT_ROLE as string });
+  const [pendingRoleChanges, setPendingRoleChanges] = useState<IRoleChange[]>([]);
 
   const fetchUsers = async () => {
     setLoading(true);
@@ -33,10 +59,62 @@ export default function AdminPage() {
     }
   };
 
+  // Accounts locked after too many failed sign-ins
+  const fetchLockedAccounts = async () => {
+    try {
+      const res = await fetch("/api/users/locked");
+      if (res.ok) {
+        const data = await res.json();
+        setLockedAccounts(data.accounts || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch locked accounts:", error);
+    }
+  };
+
+  // Stored roles from older code that the migration would rewrite
+  const fetchPendingRoleChanges = async () => {
+    try {
+      const res = await fetch("/api/users/roles/normalize");
+      if (res.ok) {
+        const data = await res.json();
+        setPendingRoleChanges(data.changes || []);
+      }
+    } catch (error) {
+      console.error("Failed to check user roles:", error);
+    }
+  };
+
   useEffect(() => { 
     fetchUsers(); 
+    fetchLockedAccounts();
+    fetchPendingRoleChanges();
   }, []);
 
+  const handleNormalizeRoles = async () => {
+    try {
+      const res = await fetch("/api/users/roles/normalize", { method: "POST" });
+      if (res.ok) {
+        setPendingRoleChanges([]);
+        fetchUsers();
+      } else {
+        alert("Role update failed");
+      }
+    } catch {
+      alert("Network error occurred");
+    }
+  };
+
+  const handleUnlock = async (id: string) => {
+    try {
+      const res = await fetch(`/api/users/${id}/unlock`, { method: "POST" });
+      if (res.ok) fetchLockedAccounts();
+      else alert("Unlock failed");
+    } catch {
+      alert("Network error occurred");
+    }
+  };
+
   const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
@@ -47,7 +125,7 @@ export default function AdminPage() {
       });
       
       if (res.ok) {
-        setNewUser({ name: "", email: "", password: "", role: "customer" });
+        setNewUser({ name: "", email: "", password: "", role: DEFAULT_ROLE });
         fetchUsers();
       } else {
         const err = await res.json();
@@ -76,7 +154,7 @@ export default function AdminPage() {
 
   const startEdit = (u: IUser) => { 
     setEditingId(u._id); 
-    setEditData({ name: u.name, email: u.email, role: u.role }); 
+    setEditData({ name: u.name, email: u.email, role: normalizeRole(u.role) ?? DEFAULT_ROLE }); 
   };
 
   const saveEdit = async (id: string) => {
@@ -191,6 +269,73 @@ export default function AdminPage() {
           </div>
         </div>
 
+        {/* Role Migration */}
+        {pendingRoleChanges.length > 0 && (
+          <div className="mb-8 bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-center justify-between">
+            <div className="text-sm text-yellow-800">
+              <p className="font-medium">Some accounts still have roles from an older version</p>
+              <p className="mt-1">
+                {pendingRoleChanges
+                  .map(change => `${change.count} × ${change.from ?? "no role"} → ${ROLE_DETAILS[change.to].label}`)
+                  .join(", ")}
+              </p>
+            </div>
+            <button 
+              onClick={handleNormalizeRoles}
+              className="bg-yellow-600 text-white py-2 px-4 rounded-lg hover:bg-yellow-700 transition-colors text-sm font-medium"
+            >
+              Update roles
+            </button>
+          </div>
+        )}
+
+        {/* Locked Accounts */}
+        {lockedAccounts.length > 0 && (
+          <div className="mb-8 bg-white rounded-lg shadow border border-red-100">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">Locked Accounts</h2>
+              <span className="text-sm text-gray-500">Locked after too many failed sign-in attempts</span>
+            </div>
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Locked Until</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Failures (24h)</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Attempt</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {lockedAccounts.map(account => (
+                  <tr key={account.id}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{account.name}</div>
+                      <div className="text-sm text-gray-500">{account.email}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {new Date(account.lockedUntil).toLocaleTimeString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{account.failedAttempts24h}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {account.lastFailedAt ? new Date(account.lastFailedAt).toLocaleString() : "-"}
+                      {account.lastIpAddress && <div className="text-xs">{account.lastIpAddress}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <button 
+                        onClick={() => handleUnlock(account.id)}
+                        className="text-orange-600 hover:text-orange-900 bg-orange-50 hover:bg-orange-100 px-3 py-1 rounded-md text-sm font-medium transition-colors"
+                      >
+                        Unlock
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
         {/* Main Content Grid */}
         <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
           {/* Left Column - Forms */}
@@ -243,9 +388,13 @@ export default function AdminPage() {
                     onChange={(e) => setNewUser({...newUser, role: e.target.value})} 
                     className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
                   >
-                    <option value="customer">Customer</option>
-                    <option value="admin">Admin</option>
+                    {ROLES.map(role => (
+                      <option key={role} value={role}>{ROLE_DETAILS[role].label}</option>
+                    ))}
                   </select>
+                  {isRole(newUser.role) && (
+                    <p className="mt-1 text-xs text-gray-500">{ROLE_DETAILS[newUser.role].description}</p>
+                  )}
                 </div>
                 
                 <button 
@@ -281,8 +430,9 @@ export default function AdminPage() {
                     className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
                   >
                     <option value="">All roles</option>
-                    <option value="customer">Customer</option>
-                    <option value="admin">Admin</option>
+                    {ROLES.map(role => (
+                      <option key={role} value={role}>{ROLE_DETAILS[role].label}</option>
+                    ))}
                   </select>
                 </div>
                 
@@ -349,16 +499,15 @@ export default function AdminPage() {
                               onChange={(e) => setEditData({...editData, role: e.target.value})} 
                               className="border border-gray-300 rounded px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
                             >
-                              <option value="customer">Customer</option>
-                              <option value="admin">Admin</option>
+                              {ROLES.map(role => (
+                                <option key={role} value={role}>{ROLE_DETAILS[role].label}</option>
+                              ))}
                             </select>
                           ) : (
                             <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                              u.role === 'admin' 
-                                ? 'bg-purple-100 text-purple-800' 
-                                : 'bg-green-100 text-green-800'
+                              isRole(u.role) ? ROLE_BADGE_CLASSES[u.role] : 'bg-gray-100 text-gray-800'
                             }`}>
-                              {u.role}
+                              {isRole(u.role) ? ROLE_DETAILS[u.role].label : u.role}
                             </span>
                           )}
                         </td>
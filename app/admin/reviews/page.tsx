@@ -0,0 +1,323 @@
+// app/admin/reviews/page.tsx
+"use client";
+
+import Layout from "@/app/components/Layout";
+import { REVIEW_STATUS_LABELS, REVIEW_STATUSES, ReviewStatus } from "@/lib/reviews";
+import Link from "next/link";
+import React, { useCallback, useEffect, useState } from "react";
+
+interface IReview {
+  _id: string;
+  product: { _id: string; productId: string; name: string; images?: string[] } | null;
+  authorName: string;
+  rating: number;
+  title: string;
+  body: string;
+  photos: string[];
+  verifiedPurchase: boolean;
+  status: ReviewStatus;
+  moderationNote?: string;
+  moderatedAt?: string;
+  createdAt: string;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+const PAGE_SIZE = 20;
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  approved: "bg-green-100 text-green-800 border-green-200",
+  rejected: "bg-red-100 text-red-800 border-red-200",
+};
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleDateString() : "—");
+
+export default function AdminReviewsPage() {
+  const [reviews, setReviews] = useState<IReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<ReviewStatus>("pending");
+  const [page, setPage] = useState(1);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [rejecting, setRejecting] = useState<IReview | null>(null);
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchReviews = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ status, page: String(page), limit: String(PAGE_SIZE) });
+      const res = await fetch(`/api/reviews?${params.toString()}`);
+      if (res.ok) {
+        const data = await res.json();
+        setReviews(data.reviews || []);
+        setPagination(data.pagination || null);
+      } else {
+        console.error("Failed to fetch reviews");
+        setReviews([]);
+        setPagination(null);
+      }
+    } catch (error) {
+      console.error("Error fetching reviews:", error);
+      setReviews([]);
+      setPagination(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [status, page]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  const selectStatus = (value: ReviewStatus) => {
+    setStatus(value);
+    setPage(1);
+  };
+
+  const moderate = async (review: IReview, newStatus: ReviewStatus, moderationNote?: string) => {
+    setIsSaving(true);
+    try {
+      const res = await fetch(`/api/reviews/${review._id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: newStatus, note: moderationNote }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        setRejecting(null);
+        setNote("");
+        fetchReviews();
+      } else {
+        alert(data.error || "Failed to update review");
+      }
+    } catch (error) {
+      console.error("Error moderating review:", error);
+      alert("Failed to update review");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const openReject = (review: IReview) => {
+    setRejecting(review);
+    setNote(review.moderationNote || "");
+  };
+
+  // Only show the skeleton on first load so the tabs stay put while refetching
+  if (loading && !pagination) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-6">
+        <div className="max-w-7xl mx-auto">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+            <div className="space-y-4">
+              {[1, 2, 3, 4, 5].map(i => (
+                <div key={i} className="h-20 bg-gray-200 rounded"></div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <Layout>
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Reviews</h1>
+          <p className="text-gray-600 mt-2">
+            Check customer reviews before they appear on product pages
+          </p>
+        </div>
+
+        {/* Status tabs */}
+        <div className="flex space-x-2 mb-6">
+          {REVIEW_STATUSES.map((value) => (
+            <button
+              key={value}
+              onClick={() => selectStatus(value)}
+              className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                status === value
+                  ? "bg-indigo-600 text-white"
+                  : "bg-white border border-gray-300 text-gray-700 hover:bg-gray-50"
+              }`}
+            >
+              {REVIEW_STATUS_LABELS[value]}
+            </button>
+          ))}
+        </div>
+
+        {/* Reviews */}
+        <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+          <div className="divide-y divide-gray-200">
+            {reviews.map((review) => (
+              <div key={review._id} className="p-6 hover:bg-gray-50">
+                <div className="flex items-start justify-between gap-6">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-3">
+                      <span className="text-yellow-500 text-sm">
+                        {"★".repeat(review.rating)}
+                        <span className="text-gray-300">{"★".repeat(5 - review.rating)}</span>
+                      </span>
+                      <span className="font-medium text-gray-900">{review.title}</span>
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full border ${STATUS_STYLES[review.status]}`}>
+                        {REVIEW_STATUS_LABELS[review.status]}
+                      </span>
+                    </div>
+                    <div className="text-sm text-gray-500 mt-1">
+                      {review.authorName}
+                      {review.verifiedPurchase && " • Verified purchase"}
+                      {" • "}
+                      {formatDate(review.createdAt)}
+                      {review.product && (
+                        <>
+                          {" • "}
+                          <Link
+                            href={`/products/${review.product._id}`}
+                            className="text-indigo-600 hover:text-indigo-900"
+                          >
+                            {review.product.name}
+                          </Link>
+                        </>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-700 mt-3 whitespace-pre-line">{review.body}</p>
+                    {review.photos.length > 0 && (
+                      <div className="flex gap-2 mt-3">
+                        {review.photos.map((photo) => (
+                          <a
+                            key={photo}
+                            href={photo}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-sm text-indigo-600 hover:text-indigo-900 underline"
+                          >
+                            Photo
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                    {review.moderationNote && (
+                      <p className="text-sm text-red-700 mt-3">Note: {review.moderationNote}</p>
+                    )}
+                  </div>
+                  <div className="whitespace-nowrap text-sm font-medium space-x-3">
+                    {review.status !== "approved" && (
+                      <button
+                        onClick={() => moderate(review, "approved")}
+                        disabled={isSaving}
+                        className="text-green-600 hover:text-green-900 disabled:opacity-50"
+                      >
+                        Approve
+                      </button>
+                    )}
+                    {review.status !== "rejected" && (
+                      <button
+                        onClick={() => openReject(review)}
+                        disabled={isSaving}
+                        className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                      >
+                        Reject
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {reviews.length === 0 && (
+            <div className="text-center py-12">
+              <div className="text-gray-400 text-lg">No reviews found</div>
+              <div className="text-gray-500 mt-2">
+                {status === "pending" ? "Nothing is waiting for moderation." : "Try another tab."}
+              </div>
+            </div>
+          )}
+
+          {/* Pagination */}
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between px-6 py-4 border-t">
+              <div className="text-sm text-gray-600">
+                Page {pagination.page} of {pagination.totalPages} • {pagination.total} reviews
+              </div>
+              <div className="space-x-2">
+                <button
+                  onClick={() => setPage((p) => Math.max(p - 1, 1))}
+                  disabled={pagination.page <= 1}
+                  className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage((p) => Math.min(p + 1, pagination.totalPages))}
+                  disabled={pagination.page >= pagination.totalPages}
+                  className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Reject Modal */}
+      {rejecting && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              moderate(rejecting, "rejected", note);
+            }}
+            className="bg-white rounded-lg max-w-lg w-full"
+          >
+            <div className="p-6 border-b">
+              <h2 className="text-xl font-semibold">Reject &ldquo;{rejecting.title}&rdquo;</h2>
+            </div>
+            <div className="p-6">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Note for the author (optional)
+              </label>
+              <textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={3}
+                maxLength={500}
+                placeholder="e.g. Please keep reviews about the product itself"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+            <div className="p-6 border-t flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setRejecting(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? "Saving..." : "Reject Review"}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+    </Layout>
+  );
+}
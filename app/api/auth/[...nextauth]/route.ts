@@ -1,70 +1,7 @@
+// app/api/auth/[...nextauth]/route.ts
 import NextAuth from "next-auth";
-import CredentialsProvider from "next-auth/providers/credentials";
-import connectMongo from "@/lib/mongoose";
-import User from "@/models/User";
+import { authOptions } from "@/lib/auth";
 
-const handler = NextAuth({
-  providers: [
-    CredentialsProvider({
-      name: "Credentials",
-      credentials: {
-        email: { label: "Email", type: "email" },
-        password: { label: "Password", type: "password" }
-      },
-      async authorize(credentials) {
-        if (!credentials?.email || !credentials?.password) {
-          throw new Error("Missing email or password");
-        }
+const handler = NextAuth(authOptions);
 
-        await connectMongo();
-        // need to include password explicitly
-        const user = await User.findOne({ email: credentials.email }).select("+password");
-        if (!user) throw new Error("Invalid email or password");
-
-        const isValid = await user.comparePassword(credentials.password);
-        if (!isValid) throw new Error("Invalid email or password");
-
-        return {
-          id: user._id.toString(),
-          name: user.name,
-          email: user.email,
-          role: user.role
-        };
-      }
-    })
-  ],
-  callbacks: {
-    async jwt({ token, user }) {
-      if (user) {
-        token.id = (user as any).id;
-        token.role = (user as any).role;
-      }
-      return token;
-    },
-    async session({ session, token }) {
-      if (token && session.user) {
-        (session.user as any).id = token.id as string;
-        (session.user as any).role = token.role as string;
-      }
-      return session;
-    },
-    async redirect({ url, baseUrl }) {
-      // Allows relative callback URLs
-      if (url.startsWith("/")) return `${baseUrl}${url}`
-      // Allows callback URLs on the same origin
-      else if (new URL(url).origin === baseUrl) return url
-      return baseUrl
-    }
-  },
-  pages: {
-    signIn: "/login",
-    signOut: "/auth/signout",
-    error: "/auth/error",
-  },
-  session: {
-    strategy: "jwt"
-  },
-  secret: process.env.NEXTAUTH_SECRET
-});
-
-export { handler as GET, handler as POST };
\ No newline at end of file
+export { handler as GET, handler as POST };
@@ -0,0 +1,34 @@
+// app/api/auth/forgot-password/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import connectMongo from '@/lib/mongoose';
+import { getAppUrl } from '@/lib/mail';
+import { requestPasswordReset } from '@/lib/passwordReset';
+
+// POST - Email a reset link. Answers the same whether or not the email has
+// an account, so it can't be used to find registered addresses.
+export async function POST(request: NextRequest) {
+  try {
+    const { email } = await request.json();
+
+    if (typeof email !== 'string' || !email.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Email is required' },
+        { status: 400 }
+      );
+    }
+
+    await connectMongo();
+    await requestPasswordReset(email, getAppUrl());
+
+    return NextResponse.json({
+      success: true,
+      message: 'If an account exists for that email, a reset link is on its way.',
+    });
+  } catch (error) {
+    console.error('Forgot Password Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to send reset email' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+// app/api/auth/reset-password/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import connectMongo from '@/lib/mongoose';
+import { resetPasswordWithToken } from '@/lib/passwordReset';
+import { checkPasswordStrength } from '@/lib/passwordPolicy';
+
+// POST - Set a new password with the token from the reset email
+export async function POST(request: NextRequest) {
+  try {
+    const { token, password } = await request.json();
+
+    if (typeof token !== 'string' || !token) {
+      return NextResponse.json(
+        { success: false, error: 'Reset token is required' },
+        { status: 400 }
+      );
+    }
+
+    // The email isn't known until the token is checked; that rule is skipped here
+    const passwordError = checkPasswordStrength(password);
+    if (passwordError) {
+      return NextResponse.json({ success: false, error: passwordError }, { status: 400 });
+    }
+
+    await connectMongo();
+
+    const reset = await resetPasswordWithToken(token, password);
+    if (!reset) {
+      return NextResponse.json(
+        { success: false, error: 'This reset link is invalid or has expired' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Password updated. You can sign in now.' });
+  } catch (error) {
+    console.error('Reset Password Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to reset password' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+// app/api/auth/unlock-account/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import connectMongo from '@/lib/mongoose';
+import { unlockAccountWithToken } from '@/lib/loginThrottle';
+
+// POST - Lift a sign-in lockout with the token from the lock email
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json();
+
+    if (typeof token !== 'string' || !token) {
+      return NextResponse.json(
+        { success: false, error: 'Unlock token is required' },
+        { status: 400 }
+      );
+    }
+
+    await connectMongo();
+
+    const unlocked = await unlockAccountWithToken(token);
+    if (!unlocked) {
+      return NextResponse.json(
+        { success: false, error: 'This unlock link is invalid, was already used, or the lock has ended' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Your account is unlocked. You can sign in now.' });
+  } catch (error) {
+    console.error('Unlock Account Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to unlock account' },
+      { status: 500 }
+    );
+  }
+}
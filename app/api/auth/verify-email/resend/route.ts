@@ -0,0 +1,45 @@
+// app/api/auth/verify-email/resend/route.ts
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import { getAppUrl } from '@/lib/mail';
+import { resendVerificationEmail } from '@/lib/emailVerification';
+
+// POST - Send the signed-in user a new verification link, at most once a minute
+export async function POST() {
+  try {
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
+
+    await connectMongo();
+
+    const result = await resendVerificationEmail(session.user.id, getAppUrl());
+
+    if (!result.sent && result.retryAfter) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Please wait ${result.retryAfter} seconds before requesting another email`,
+          retryAfter: result.retryAfter,
+        },
+        { status: 429, headers: { 'Retry-After': String(result.retryAfter) } }
+      );
+    }
+
+    if (!result.sent) {
+      return NextResponse.json(
+        { success: false, error: 'Your email address is already verified' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Verification email sent' });
+  } catch (error) {
+    console.error('Resend Verification Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to send verification email' },
+      { status: 500 }
+    );
+  }
+}
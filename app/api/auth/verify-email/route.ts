@@ -0,0 +1,36 @@
+// app/api/auth/verify-email/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import connectMongo from '@/lib/mongoose';
+import { verifyEmailWithToken } from '@/lib/emailVerification';
+
+// POST - Confirm an email address with the token from the verification link
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json();
+
+    if (typeof token !== 'string' || !token) {
+      return NextResponse.json(
+        { success: false, error: 'Verification token is required' },
+        { status: 400 }
+      );
+    }
+
+    await connectMongo();
+
+    const verified = await verifyEmailWithToken(token);
+    if (!verified) {
+      return NextResponse.json(
+        { success: false, error: 'This verification link is invalid or has expired' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Your email address is verified.' });
+  } catch (error) {
+    console.error('Verify Email Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to verify email' },
+      { status: 500 }
+    );
+  }
+}
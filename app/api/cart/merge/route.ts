@@ -0,0 +1,34 @@
+// app/api/cart/merge/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import { mergeCartLines, parseCartLines, updateCart } from '@/lib/cart';
+
+// POST - Merge the cart built while signed out into the stored cart
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
+
+    const body = await request.json();
+    const { lines, error } = parseCartLines(body.items);
+    if (error !== undefined) {
+      return NextResponse.json(
+        { success: false, error },
+        { status: 400 }
+      );
+    }
+
+    await connectMongo();
+    const items = await updateCart(session.user.id, (stored) => mergeCartLines(stored, lines));
+
+    return NextResponse.json({ success: true, items });
+  } catch (error) {
+    console.error('Cart merge Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to merge cart' },
+      { status: 500 }
+    );
+  }
+}
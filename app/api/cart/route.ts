@@ -0,0 +1,187 @@
+// app/api/cart/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import { getLineKey } from '@/lib/variants';
+import {
+  getCart,
+  parseCartLine,
+  parseCartLines,
+  findCartProduct,
+  MAX_CART_LINES,
+  saveCart,
+  updateCart,
+} from '@/lib/cart';
+
+const handleError = (label: string, error: unknown) => {
+  console.error(`Cart ${label} Error:`, error);
+
+  if (error instanceof mongoose.Error.ValidationError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json(
+    { success: false, error: 'Failed to update cart' },
+    { status: 500 }
+  );
+};
+
+// GET - The signed-in user's cart with current catalog prices
+export async function GET() {
+  try {
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
+
+    await connectMongo();
+    const items = await getCart(session.user.id);
+
+    return NextResponse.json({ success: true, items });
+  } catch (error) {
+    console.error('Cart GET Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch cart' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add a product (or more of it) to the cart
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
+
+    const body = await request.json();
+    const { line, error } = parseCartLine({ ...body, quantity: body.quantity ?? 1 });
+    if (error !== undefined) {
+      return NextResponse.json(
+        { success: false, error },
+        { status: 400 }
+      );
+    }
+
+    await connectMongo();
+    const product = await findCartProduct(line.productId);
+    if (!product) {
+      return NextResponse.json(
+        { success: false, error: 'Product not found' },
+        { status: 404 }
+      );
+    }
+
+    const variants = product.variants || [];
+    if (variants.length > 0 && !line.variantSku) {
+      return NextResponse.json(
+        { success: false, error: 'Choose an option before adding this product to the cart' },
+        { status: 400 }
+      );
+    }
+    if (line.variantSku && !variants.some((variant) => variant.sku === line.variantSku)) {
+      return NextResponse.json(
+        { success: false, error: 'Variant not found' },
+        { status: 404 }
+      );
+    }
+
+    // Quantities for an existing line are combined when the cart is saved
+    const items = await updateCart(session.user.id, (lines) => [...lines, { ...line, productId: product.productId }]);
+
+    // Saving drops a new line once the cart holds MAX_CART_LINES
+    const key = getLineKey(product.productId, line.variantSku);
+    if (!items.some((item) => getLineKey(item.productId, item.variantSku) === key)) {
+      return NextResponse.json(
+        { success: false, error: `A cart can hold at most ${MAX_CART_LINES} different items`, items },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, items, message: 'Product added to cart' });
+  } catch (error) {
+    return handleError('POST', error);
+  }
+}
+
+// PATCH - Set the quantity of one line; 0 removes it
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
+
+    const body = await request.json();
+    const removing = body.quantity === 0;
+    const { line, error } = parseCartLine(removing ? { ...body, quantity: 1 } : body);
+    if (error !== undefined) {
+      return NextResponse.json(
+        { success: false, error },
+        { status: 400 }
+      );
+    }
+
+    await connectMongo();
+    const key = getLineKey(line.productId, line.variantSku);
+    const items = await updateCart(session.user.id, (lines) =>
+      lines.flatMap((existing) => {
+        if (getLineKey(existing.productId, existing.variantSku) !== key) return [existing];
+        return removing ? [] : [{ ...existing, quantity: line.quantity }];
+      })
+    );
+
+    return NextResponse.json({ success: true, items });
+  } catch (error) {
+    return handleError('PATCH', error);
+  }
+}
+
+// PUT - Replace the whole cart; used by CartContext to keep devices in sync
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
+
+    const body = await request.json();
+    const { lines, error } = parseCartLines(body.items);
+    if (error !== undefined) {
+      return NextResponse.json(
+        { success: false, error },
+        { status: 400 }
+      );
+    }
+
+    await connectMongo();
+    const items = await saveCart(session.user.id, lines);
+
+    return NextResponse.json({ success: true, items });
+  } catch (error) {
+    return handleError('PUT', error);
+  }
+}
+
+// DELETE - Remove one line (?productId=&variantSku=) or clear the cart
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
+
+    const { searchParams } = new URL(request.url);
+    const productId = searchParams.get('productId');
+    const key = productId ? getLineKey(productId, searchParams.get('variantSku') || undefined) : null;
+
+    await connectMongo();
+    const items = await updateCart(session.user.id, (lines) =>
+      key ? lines.filter((line) => getLineKey(line.productId, line.variantSku) !== key) : []
+    );
+
+    return NextResponse.json({ success: true, items });
+  } catch (error) {
+    return handleError('DELETE', error);
+  }
+}
@@ -2,6 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import mongoose from 'mongoose';
 import connectMongo from '@/lib/mongoose';
 import Category from '@/models/Category';
+import Product from '@/models/Product';
+import { requireAuth } from '@/lib/authGuard';
+import { parseCategoryInput } from '@/lib/categories';
+import {
+  checkCategoryParent,
+  deleteCategory,
+  nextCategorySortOrder,
+  uniqueCategorySlug,
+} from '@/lib/categoryTree';
 
 export async function GET(
   request: NextRequest,
@@ -48,6 +57,9 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await requireAuth({ permission: 'catalog:edit' });
+    if (auth.response) return auth.response;
+
     await connectMongo();
     const { id } = await params;
 
@@ -58,18 +70,47 @@ export async function PUT(
       );
     }
 
-    const body = await request.json();
-    
-    if (!body.name || !body.name.trim()) {
+    const parsed = parseCategoryInput(await request.json());
+    if (parsed.errors) {
       return NextResponse.json(
-        { success: false, error: 'Category name is required' },
+        { success: false, error: parsed.errors.join(', ') },
         { status: 400 }
       );
     }
+    const { input } = parsed;
+
+    const existing = await Category.findById(id).select('name parentCategory').lean<{ name: string; parentCategory?: mongoose.Types.ObjectId | null }>();
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Category not found' },
+        { status: 404 }
+      );
+    }
+
+    const update: Record<string, unknown> = { ...input };
+
+    // Moving to another parent puts it after its new siblings
+    if (input.parentCategory !== undefined) {
+      const currentParent = existing.parentCategory ? String(existing.parentCategory) : null;
+      if (input.parentCategory) {
+        const parentError = await checkCategoryParent(input.parentCategory, id);
+        if (parentError) {
+          return NextResponse.json({ success: false, error: parentError }, { status: 400 });
+        }
+      }
+      if (input.parentCategory !== currentParent) {
+        update.sortOrder = await nextCategorySortOrder(input.parentCategory);
+      }
+    }
+
+    // A blank slug is made again from the (possibly new) name
+    if (input.slug === '') {
+      update.slug = await uniqueCategorySlug(input.name || existing.name, id);
+    }
 
     const category = await Category.findByIdAndUpdate(
       id,
-      { ...body, updatedAt: new Date() },
+      update,
       { new: true, runValidators: true }
     );
     
@@ -79,6 +120,12 @@ export async function PUT(
         { status: 404 }
       );
     }
+
+    // Products keep a copy of the name for search and coupon scopes
+    await Product.updateMany(
+      { categoryId: category._id, category: { $ne: category.name } },
+      { $set: { category: category.name } }
+    );
     
     return NextResponse.json({ 
       success: true, 
@@ -93,6 +140,13 @@ export async function PUT(
         { status: 400 }
       );
     }
+
+    if (error.code === 11000) {
+      return NextResponse.json(
+        { success: false, error: 'A category with this name or slug already exists' },
+        { status: 409 }
+      );
+    }
     
     return NextResponse.json(
       { 
@@ -109,6 +163,9 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await requireAuth({ permission: 'catalog:delete' });
+    if (auth.response) return auth.response;
+
     await connectMongo();
     const { id } = await params;
 
@@ -119,19 +176,41 @@ export async function DELETE(
       );
     }
 
-    const category = await Category.findByIdAndDelete(id);
+    // ?reassignTo= moves its products and subcategories there first
+    const reassignTo = request.nextUrl.searchParams.get('reassignTo') || undefined;
+    const result = await deleteCategory(id, reassignTo);
     
-    if (!category) {
+    if (!result) {
       return NextResponse.json(
         { success: false, error: 'Category not found' },
         { status: 404 }
       );
     }
+
+    if (result.error) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    if (!result.deleted) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `This category still has ${result.products} product(s) and ${result.children} subcategory(ies); move them to another category first`,
+          code: 'CATEGORY_IN_USE',
+          products: result.products,
+          children: result.children,
+        },
+        { status: 409 }
+      );
+    }
     
     return NextResponse.json({ 
       success: true, 
       message: 'Category deleted successfully',
-      data: { id } 
+      data: { id, movedProducts: result.products, movedChildren: result.children } 
     });
   } catch (error: any) {
     console.error('Category DELETE Error:', error);
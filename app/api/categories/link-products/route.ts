@@ -0,0 +1,43 @@
+// app/api/categories/link-products/route.ts
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import { linkProductCategories } from '@/lib/categoryMigration';
+
+// GET - Preview which product category names would be linked or created (staff)
+export async function GET() {
+  try {
+    const auth = await requireAuth({ permission: 'catalog:edit' });
+    if (auth.response) return auth.response;
+
+    await connectMongo();
+
+    const result = await linkProductCategories({ dryRun: true });
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Link Product Categories GET Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to check product categories' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Link every product still filed by name to a Category (staff)
+export async function POST() {
+  try {
+    const auth = await requireAuth({ permission: 'catalog:edit' });
+    if (auth.response) return auth.response;
+
+    await connectMongo();
+
+    const result = await linkProductCategories();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Link Product Categories POST Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to link product categories' },
+      { status: 500 }
+    );
+  }
+}
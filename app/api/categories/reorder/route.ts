@@ -0,0 +1,58 @@
+// app/api/categories/reorder/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import Category from '@/models/Category';
+
+// PUT - Set the order of sibling categories ({ ids } in their new order)
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await requireAuth({ permission: 'catalog:edit' });
+    if (auth.response) return auth.response;
+
+    const { ids } = await request.json();
+    if (
+      !Array.isArray(ids) ||
+      ids.length === 0 ||
+      !ids.every((id) => typeof id === 'string' && mongoose.Types.ObjectId.isValid(id)) ||
+      new Set(ids).size !== ids.length
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'ids must be a list of distinct category IDs' },
+        { status: 400 }
+      );
+    }
+
+    await connectMongo();
+
+    const categories = await Category.find({ _id: { $in: ids } })
+      .select('parentCategory')
+      .lean<{ parentCategory?: mongoose.Types.ObjectId | null }[]>();
+    const parents = new Set(categories.map((category) => String(category.parentCategory ?? null)));
+
+    if (categories.length !== ids.length) {
+      return NextResponse.json({ success: false, error: 'Category not found' }, { status: 404 });
+    }
+    if (parents.size > 1) {
+      return NextResponse.json(
+        { success: false, error: 'Only categories with the same parent can be reordered together' },
+        { status: 400 }
+      );
+    }
+
+    await Category.bulkWrite(
+      ids.map((id: string, index: number) => ({
+        updateOne: { filter: { _id: id }, update: { $set: { sortOrder: index } } },
+      }))
+    );
+
+    return NextResponse.json({ success: true, message: 'Categories reordered' });
+  } catch (error) {
+    console.error('Categories Reorder PUT Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to reorder categories' },
+      { status: 500 }
+    );
+  }
+}
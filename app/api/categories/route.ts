@@ -1,28 +1,85 @@
-import { NextResponse } from "next/server";
+// app/api/categories/route.ts
+import { NextRequest, NextResponse } from "next/server";
 import connectMongo from "@/lib/mongoose";
-import Product from "@/models/Product";
-
-export async function GET() {
-  await connectMongo();
-
-  // Group by category and count
-  const categories = await Product.aggregate([
-    {
-      $group: {
-        _id: "$category",
-        productCount: { $sum: 1 },
-        image: { $first: { $arrayElemAt: ["$images", 0] } }, // take first product's first image
-      },
-    },
-    {
-      $project: {
-        _id: 0,
-        name: "$_id",
-        productCount: 1,
-        image: 1,
-      },
-    },
-  ]);
-
-  return NextResponse.json(categories);
+import Category from "@/models/Category";
+import { requireAuth } from "@/lib/authGuard";
+import { parseCategoryInput } from "@/lib/categories";
+import {
+  checkCategoryParent,
+  getCategoryTree,
+  nextCategorySortOrder,
+  uniqueCategorySlug,
+} from "@/lib/categoryTree";
+
+// GET - Active categories as a nested tree, with product counts that include
+// every subcategory. ?includeInactive=true also lists hidden ones (staff).
+export async function GET(request: NextRequest) {
+  try {
+    const includeInactive = new URL(request.url).searchParams.get("includeInactive") === "true";
+    if (includeInactive) {
+      const auth = await requireAuth({ permission: "catalog:edit" });
+      if (auth.response) return auth.response;
+    }
+
+    await connectMongo();
+
+    const tree = await getCategoryTree({ includeInactive });
+    return NextResponse.json({ success: true, data: tree });
+  } catch (error) {
+    console.error("Categories GET Error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch categories" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a category; the slug is made from the name unless one is given
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth({ permission: "catalog:edit" });
+    if (auth.response) return auth.response;
+
+    const parsed = parseCategoryInput(await request.json(), { create: true });
+    if (parsed.errors) {
+      return NextResponse.json(
+        { success: false, error: parsed.errors.join(", ") },
+        { status: 400 }
+      );
+    }
+    const { input } = parsed;
+
+    await connectMongo();
+
+    const parentCategory = input.parentCategory ?? null;
+    if (parentCategory) {
+      const parentError = await checkCategoryParent(parentCategory);
+      if (parentError) {
+        return NextResponse.json({ success: false, error: parentError }, { status: 400 });
+      }
+    }
+
+    const category = await Category.create({
+      ...input,
+      parentCategory,
+      slug: input.slug || (await uniqueCategorySlug(input.name ?? "")),
+      sortOrder: await nextCategorySortOrder(parentCategory),
+    });
+
+    return NextResponse.json({ success: true, data: category }, { status: 201 });
+  } catch (error) {
+    console.error("Categories POST Error:", error);
+
+    if ((error as { code?: number }).code === 11000) {
+      return NextResponse.json(
+        { success: false, error: "A category with this name or slug already exists" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to create category" },
+      { status: 500 }
+    );
+  }
 }
@@ -0,0 +1,139 @@
+// app/api/coupons/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectMongo from '@/lib/mongoose';
+import { requireAuth } from '@/lib/authGuard';
+import Coupon from '@/models/Coupon';
+import { parseCouponInput } from '@/lib/coupons';
+
+interface CouponParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET - A single coupon for the edit form
+export async function GET(request: NextRequest, { params }: CouponParams) {
+  try {
+    const auth = await requireAuth({ permission: 'coupons:manage' });
+    if (auth.response) return auth.response;
+
+    await connectMongo();
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid coupon ID' },
+        { status: 400 }
+      );
+    }
+
+    const coupon = await Coupon.findById(id).lean();
+    if (!coupon) {
+      return NextResponse.json(
+        { success: false, error: 'Coupon not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { ...coupon, _id: coupon._id.toString() },
+    });
+  } catch (error) {
+    console.error('Coupon GET Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch coupon' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Update a coupon; omitted fields are left as they are
+export async function PUT(request: NextRequest, { params }: CouponParams) {
+  try {
+    const auth = await requireAuth({ permission: 'coupons:manage' });
+    if (auth.response) return auth.response;
+
+    await connectMongo();
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid coupon ID' },
+        { status: 400 }
+      );
+    }
+
+    const coupon = await Coupon.findById(id);
+    if (!coupon) {
+      return NextResponse.json(
+        { success: false, error: 'Coupon not found' },
+        { status: 404 }
+      );
+    }
+
+    // Loaded and saved so the type-specific checks in the model run
+    coupon.set(parseCouponInput(await request.json()));
+    await coupon.save();
+
+    return NextResponse.json({
+      success: true,
+      data: coupon.toObject(),
+      message: 'Coupon updated successfully'
+    });
+  } catch (error) {
+    console.error('Coupon PUT Error:', error);
+
+    if (error instanceof mongoose.Error.ValidationError || error instanceof mongoose.Error.CastError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if ((error as { code?: number }).code === 11000) {
+      return NextResponse.json(
+        { success: false, error: 'A coupon with this code already exists' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to update coupon' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a coupon; orders keep the code and amount they were given
+export async function DELETE(request: NextRequest, { params }: CouponParams) {
+  try {
+    const auth = await requireAuth({ permission: 'coupons:manage' });
+    if (auth.response) return auth.response;
+
+    await connectMongo();
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid coupon ID' },
+        { status: 400 }
+      );
+    }
+
+    const coupon = await Coupon.findByIdAndDelete(id);
+    if (!coupon) {
+      return NextResponse.json(
+        { success: false, error: 'Coupon not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Coupon deleted successfully' });
+  } catch (error) {
+    console.error('Coupon DELETE Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete coupon' },
+      { status: 500 }
+    );
+  }
+}
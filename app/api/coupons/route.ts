@@ -0,0 +1,116 @@
+// app/api/coupons/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectMongo from '@/lib/mongoose';
+import { requireAuth } from '@/lib/authGuard';
+import Coupon from '@/models/Coupon';
+import { parseCouponInput } from '@/lib/coupons';
+import { buildPaginationMeta, escapeRegex, parsePagination } from '@/lib/queryParams';
+
+const COUPON_STATUSES = ['active', 'scheduled', 'expired', 'inactive'];
+
+// GET - List coupons for the admin screen
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth({ permission: 'coupons:manage' });
+    if (auth.response) return auth.response;
+
+    await connectMongo();
+    const { searchParams } = new URL(request.url);
+    const pagination = parsePagination(searchParams);
+    const filter: Record<string, unknown> = {};
+
+    const search = searchParams.get('search')?.trim();
+    if (search) {
+      const pattern = new RegExp(escapeRegex(search), 'i');
+      filter.$or = [{ code: pattern }, { description: pattern }];
+    }
+
+    const status = searchParams.get('status');
+    if (status) {
+      if (!COUPON_STATUSES.includes(status)) {
+        return NextResponse.json(
+          { success: false, error: `status must be one of: ${COUPON_STATUSES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+
+      const now = new Date();
+      if (status === 'inactive') {
+        filter.isActive = false;
+      } else if (status === 'scheduled') {
+        Object.assign(filter, { isActive: true, startsAt: { $gt: now } });
+      } else if (status === 'expired') {
+        Object.assign(filter, { isActive: true, expiresAt: { $lte: now } });
+      } else {
+        Object.assign(filter, {
+          isActive: true,
+          $and: [
+            { $or: [{ startsAt: { $exists: false } }, { startsAt: null }, { startsAt: { $lte: now } }] },
+            { $or: [{ expiresAt: { $exists: false } }, { expiresAt: null }, { expiresAt: { $gt: now } }] },
+          ],
+        });
+      }
+    }
+
+    const [coupons, total] = await Promise.all([
+      Coupon.find(filter)
+        .sort({ createdAt: -1 })
+        .skip(pagination.skip)
+        .limit(pagination.limit)
+        .lean(),
+      Coupon.countDocuments(filter),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      coupons: coupons.map((coupon) => ({ ...coupon, _id: coupon._id.toString() })),
+      pagination: buildPaginationMeta(pagination, total),
+    });
+  } catch (error) {
+    console.error('Coupons GET Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch coupons' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a coupon
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth({ permission: 'coupons:manage' });
+    if (auth.response) return auth.response;
+
+    await connectMongo();
+    const body = await request.json();
+    const coupon = new Coupon(parseCouponInput(body));
+    await coupon.save();
+
+    return NextResponse.json(
+      { success: true, data: coupon.toObject(), message: 'Coupon created successfully' },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Coupons POST Error:', error);
+
+    if (error instanceof mongoose.Error.ValidationError || error instanceof mongoose.Error.CastError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if ((error as { code?: number }).code === 11000) {
+      return NextResponse.json(
+        { success: false, error: 'A coupon with this code already exists' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to create coupon' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+// app/api/coupons/validate/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import connectMongo from '@/lib/mongoose';
+import { priceOrder } from '@/lib/orderPricing';
+import { parseCartLines } from '@/lib/cart';
+import { ShippingMethod } from '@/lib/pricing';
+import { AppliedDiscount } from '@/lib/coupons';
+
+const SHIPPING_METHODS = ['standard', 'express', 'priority'];
+
+// POST - Check a coupon against the cart and preview the discounted totals
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const code = typeof body.code === 'string' ? body.code.trim() : '';
+
+    if (!code) {
+      return NextResponse.json(
+        { success: false, error: 'Enter a coupon code' },
+        { status: 400 }
+      );
+    }
+
+    const { lines, error } = parseCartLines(body.items);
+    if (error !== undefined) {
+      return NextResponse.json(
+        { success: false, error },
+        { status: 400 }
+      );
+    }
+
+    const shippingMethod = SHIPPING_METHODS.includes(body.shippingMethod) ? body.shippingMethod : 'standard';
+
+    await connectMongo();
+    const session = await getServerSession(authOptions);
+
+    const priced = await priceOrder({
+      lines,
+      city: typeof body.city === 'string' ? body.city : '',
+      shippingMethod: shippingMethod as ShippingMethod,
+      couponCode: code,
+      customer: {
+        userId: session?.user?.id,
+        email: session?.user?.email || (typeof body.email === 'string' ? body.email.trim() : undefined),
+      },
+    });
+
+    if (priced.couponError || priced.discounts.length === 0) {
+      return NextResponse.json(
+        { success: false, error: priced.couponError || 'This coupon does not apply to your cart' },
+        { status: 400 }
+      );
+    }
+
+    const [discount] = priced.discounts;
+    const coupon: AppliedDiscount = {
+      code: discount.code,
+      type: discount.type,
+      description: discount.description,
+      amount: discount.amount,
+      shippingAmount: discount.shippingAmount,
+    };
+
+    return NextResponse.json({
+      success: true,
+      coupon,
+      totals: {
+        subtotal: priced.subtotal,
+        discount: priced.discount,
+        shippingCost: priced.shippingCost,
+        tax: priced.tax,
+        total: priced.total,
+      },
+    });
+  } catch (error) {
+    console.error('Coupon validate Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to validate coupon' },
+      { status: 500 }
+    );
+  }
+}
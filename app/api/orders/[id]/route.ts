@@ -0,0 +1,198 @@
+// app/api/orders/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectMongo from '@/lib/mongoose';
+import Order, { IOrder } from '@/models/Order';
+import { releaseStock } from '@/lib/inventory';
+import { releaseCoupons } from '@/lib/couponRedemption';
+import { hasPermission, requireAuth } from '@/lib/authGuard';
+import {
+  canTransitionOrderStatus,
+  isOrderStatus,
+  ORDER_STATUS_TRANSITIONS,
+} from '@/lib/orderStatus';
+
+interface OrderParams {
+  params: Promise<{ id: string }>;
+}
+
+const MAX_NOTES_LENGTH = 500;
+
+export async function GET(request: NextRequest, { params }: OrderParams) {
+  try {
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
+
+    await connectMongo();
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid order ID' },
+        { status: 400 }
+      );
+    }
+
+    const order = await Order.findById(id).lean();
+    // Guest orders belong to the account with their email, once it is verified
+    const isOwner = order?.userId
+      ? order.userId.toString() === session.user.id
+      : session.user.emailVerified && order?.email.toLowerCase() === session.user.email?.toLowerCase();
+
+    if (!order || (!isOwner && !hasPermission(session, 'orders:view'))) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { ...order, _id: order._id.toString() }
+    });
+  } catch (error) {
+    console.error('Order GET Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch order' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Move an order to its next status and record the change
+export async function PUT(request: NextRequest, { params }: OrderParams) {
+  try {
+    const auth = await requireAuth({ permission: 'orders:fulfil' });
+    if (auth.response) return auth.response;
+    const { session } = auth;
+
+    await connectMongo();
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid order ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const { status } = body;
+    const notes = typeof body.notes === 'string' ? body.notes.trim() : '';
+
+    if (!isOrderStatus(status)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid status' },
+        { status: 400 }
+      );
+    }
+
+    if (notes.length > MAX_NOTES_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: `Notes cannot exceed ${MAX_NOTES_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const order = await Order.findById(id).select('status items discounts userId email');
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    const currentStatus: string = order.status;
+    if (!isOrderStatus(currentStatus)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Order has an unknown status (${currentStatus}) and can't be changed here`,
+          code: 'UNKNOWN_ORDER_STATUS',
+        },
+        { status: 409 }
+      );
+    }
+
+    if (!canTransitionOrderStatus(currentStatus, status)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Cannot change order status from ${currentStatus} to ${status}`,
+          allowedStatuses: ORDER_STATUS_TRANSITIONS[currentStatus],
+        },
+        { status: 409 }
+      );
+    }
+
+    const now = new Date();
+    const dbSession = await mongoose.startSession();
+    let updatedOrder: IOrder | null = null;
+    try {
+      await dbSession.withTransaction(async () => {
+        // Only apply the change if nobody else moved the order in the meantime
+        updatedOrder = await Order.findOneAndUpdate(
+          { _id: id, status: currentStatus },
+          {
+            $set: { status, statusUpdatedAt: now },
+            $push: {
+              statusHistory: {
+                status,
+                previousStatus: currentStatus,
+                changedAt: now,
+                changedBy: {
+                  userId: session.user.id,
+                  name: session.user.name || undefined,
+                  email: session.user.email || undefined,
+                  role: session.user.role,
+                },
+                notes: notes || undefined,
+              },
+            },
+          },
+          { new: true, runValidators: true, session: dbSession }
+        );
+
+        // Cancelled orders give their reserved stock and coupon uses back
+        if (updatedOrder && status === 'cancelled') {
+          await releaseStock(order.items, dbSession);
+          await releaseCoupons(
+            order.discounts || [],
+            { userId: order.userId?.toString(), email: order.email },
+            dbSession
+          );
+        }
+      });
+    } finally {
+      await dbSession.endSession();
+    }
+
+    if (!updatedOrder) {
+      return NextResponse.json(
+        { success: false, error: 'Order status was changed by someone else. Refresh and try again.' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: (updatedOrder as IOrder).toObject(),
+      message: 'Order status updated successfully'
+    });
+  } catch (error) {
+    console.error('Order PUT Error:', error);
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to update order' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+// app/api/orders/my-orders/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import Order from '@/models/Order';
+import { isOrderStatus } from '@/lib/orderStatus';
+import { buildPaginationMeta, parseDateRange, parsePagination } from '@/lib/queryParams';
+
+// GET - Orders belonging to the signed-in customer
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
+
+    await connectMongo();
+
+    const userId = new mongoose.Types.ObjectId(session.user.id);
+    const email = session.user.email?.toLowerCase();
+
+    // Claim guest orders placed with this account's email before it signed in.
+    // Only once the address is verified, or anyone could register it to read them.
+    if (email && session.user.emailVerified) {
+      await Order.updateMany(
+        { userId: null, email },
+        { $set: { userId } }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const pagination = parsePagination(searchParams, { defaultLimit: 10, maxLimit: 50 });
+
+    const filter: Record<string, unknown> = { userId };
+
+    const status = searchParams.get('status');
+    if (status) {
+      if (!isOrderStatus(status)) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid status filter' },
+          { status: 400 }
+        );
+      }
+      filter.status = status;
+    }
+
+    const createdAt = parseDateRange(searchParams);
+    if (createdAt) {
+      filter.createdAt = createdAt;
+    }
+
+    const [orders, total] = await Promise.all([
+      Order.find(filter)
+        .sort({ createdAt: -1 })
+        .skip(pagination.skip)
+        .limit(pagination.limit)
+        .lean(),
+      Order.countDocuments(filter),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      orders: orders.map((order) => ({ ...order, _id: order._id.toString() })),
+      pagination: buildPaginationMeta(pagination, total),
+    });
+  } catch (error) {
+    console.error('My Orders GET Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch orders' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,377 @@
+// app/api/orders/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import connectMongo from '@/lib/mongoose';
+import Order, { IOrder, IOrderItem } from '@/models/Order';
+import { priceOrder } from '@/lib/orderPricing';
+import { InsufficientStockError, reserveStock } from '@/lib/inventory';
+import { InvalidCouponError, redeemCoupons } from '@/lib/couponRedemption';
+import { emailNotVerifiedResponse, forbiddenResponse, hasPermission, unauthorizedResponse } from '@/lib/authGuard';
+import { ShippingMethod } from '@/lib/pricing';
+import { isOrderStatus } from '@/lib/orderStatus';
+import { buildPaginationMeta, escapeRegex, parseDateRange, parsePagination } from '@/lib/queryParams';
+
+const SHIPPING_METHODS = ['standard', 'express', 'priority'];
+const PAYMENT_METHODS = ['card', 'paypal', 'applepay', 'cod'];
+const MAX_COUPON_CODE_LENGTH = 30;
+
+interface OrderRequestBody {
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  address?: string;
+  apartment?: string;
+  city?: string;
+  zipCode?: string;
+  phone?: string;
+  shippingMethod?: string;
+  paymentMethod?: string;
+  couponCode?: string;
+  // Only productId, variantSku and quantity are trusted; price is compared against the catalog
+  items?: Partial<IOrderItem>[];
+}
+
+// Helper function to validate the checkout payload
+const validateOrderData = (data: OrderRequestBody) => {
+  const errors: string[] = [];
+
+  const requiredFields: (keyof OrderRequestBody)[] = [
+    'email', 'firstName', 'lastName', 'address', 'city', 'zipCode', 'phone'
+  ];
+  requiredFields.forEach((field) => {
+    const value = data[field];
+    if (typeof value !== 'string' || !value.trim()) {
+      errors.push(`${field} is required`);
+    }
+  });
+
+  if (!data.shippingMethod || !SHIPPING_METHODS.includes(data.shippingMethod)) {
+    errors.push(`shippingMethod must be one of: ${SHIPPING_METHODS.join(', ')}`);
+  }
+
+  if (!data.paymentMethod || !PAYMENT_METHODS.includes(data.paymentMethod)) {
+    errors.push(`paymentMethod must be one of: ${PAYMENT_METHODS.join(', ')}`);
+  }
+
+  if (
+    data.couponCode !== undefined &&
+    (typeof data.couponCode !== 'string' || data.couponCode.length > MAX_COUPON_CODE_LENGTH)
+  ) {
+    errors.push('couponCode must be a valid coupon code');
+  }
+
+  if (!Array.isArray(data.items) || data.items.length === 0) {
+    errors.push('Order must contain at least one item');
+  } else {
+    data.items.forEach((item, index) => {
+      if (!item.productId) errors.push(`items[${index}].productId is required`);
+      if (item.variantSku !== undefined && typeof item.variantSku !== 'string') {
+        errors.push(`items[${index}].variantSku must be a string`);
+      }
+      if (item.price !== undefined && typeof item.price !== 'number') {
+        errors.push(`items[${index}].price must be a number`);
+      }
+      if (!Number.isInteger(item.quantity) || (item.quantity as number) < 1) {
+        errors.push(`items[${index}].quantity must be a positive integer`);
+      }
+    });
+  }
+
+  return errors;
+};
+
+// GET - Look up a single order (?orderId=) or list orders for staff
+export async function GET(request: NextRequest) {
+  try {
+    await connectMongo();
+    const session = await getServerSession(authOptions);
+    const { searchParams } = new URL(request.url);
+    const orderId = searchParams.get('orderId');
+    // Staff handle fulfilment, so they can see every order
+    const isStaff = hasPermission(session, 'orders:view');
+
+    if (orderId) {
+      if (!mongoose.Types.ObjectId.isValid(orderId)) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid order ID' },
+          { status: 400 }
+        );
+      }
+
+      const order = await Order.findById(orderId).lean();
+      if (!order) {
+        return NextResponse.json(
+          { success: false, error: 'Order not found' },
+          { status: 404 }
+        );
+      }
+
+      // Owners are matched on the linked account, else on the order email: the
+      // signed-in account's email once verified (as in my-orders), or the
+      // email a guest checked out with (passed back by the success page)
+      const accountEmail = session?.user?.emailVerified ? session.user.email : null;
+      const ownerEmail = (accountEmail || searchParams.get('email') || '').toLowerCase();
+      const isOwner = order.userId
+        ? order.userId.toString() === session?.user?.id
+        : ownerEmail === order.email.toLowerCase();
+      if (!isStaff && !isOwner) {
+        // Don't reveal that the order exists
+        return NextResponse.json(
+          { success: false, error: 'Order not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        order: { ...order, _id: order._id.toString() }
+      });
+    }
+
+    if (!session) return unauthorizedResponse();
+    if (!isStaff) return forbiddenResponse();
+
+    const pagination = parsePagination(searchParams);
+
+    // Build filters
+    const filter: Record<string, unknown> = {};
+
+    const status = searchParams.get('status');
+    if (status) {
+      if (!isOrderStatus(status)) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid status filter' },
+          { status: 400 }
+        );
+      }
+      filter.status = status;
+    }
+
+    const paymentMethod = searchParams.get('paymentMethod');
+    if (paymentMethod) {
+      filter.paymentMethod = paymentMethod;
+    }
+
+    const createdAt = parseDateRange(searchParams);
+    if (createdAt) {
+      filter.createdAt = createdAt;
+    }
+
+    const search = searchParams.get('search')?.trim();
+    if (search) {
+      const pattern = new RegExp(escapeRegex(search), 'i');
+      const or: Record<string, unknown>[] = [
+        { email: pattern },
+        { firstName: pattern },
+        { lastName: pattern },
+        { phone: pattern },
+      ];
+      if (mongoose.Types.ObjectId.isValid(search)) {
+        or.push({ _id: new mongoose.Types.ObjectId(search) });
+      }
+      filter.$or = or;
+    }
+
+    const [orders, total, statusCounts] = await Promise.all([
+      Order.find(filter)
+        .sort({ createdAt: -1 })
+        .skip(pagination.skip)
+        .limit(pagination.limit)
+        .lean(),
+      Order.countDocuments(filter),
+      Order.aggregate<{ _id: string; count: number }>([
+        { $group: { _id: '$status', count: { $sum: 1 } } }
+      ]),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      orders: orders.map((order) => ({ ...order, _id: order._id.toString() })),
+      pagination: buildPaginationMeta(pagination, total),
+      statusCounts: statusCounts.reduce<Record<string, number>>((counts, { _id, count }) => {
+        counts[_id] = count;
+        return counts;
+      }, {}),
+    });
+  } catch (error) {
+    console.error('Orders GET Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch orders' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Place a new order from checkout
+export async function POST(request: NextRequest) {
+  try {
+    const body: OrderRequestBody = await request.json();
+
+    const validationErrors = validateOrderData(body);
+    if (validationErrors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: validationErrors.join(', ') },
+        { status: 400 }
+      );
+    }
+
+    await connectMongo();
+    const session = await getServerSession(authOptions);
+    // Guests can still check out; signed-in customers must verify their email first
+    if (session && !session.user.emailVerified) {
+      return emailNotVerifiedResponse();
+    }
+    const email = body.email!.trim().toLowerCase();
+    const customer = { userId: session?.user?.id, email };
+
+    const priced = await priceOrder({
+      lines: body.items!.map((item) => ({
+        productId: item.productId!,
+        variantSku: item.variantSku || undefined,
+        quantity: item.quantity!,
+        price: item.price,
+      })),
+      city: body.city!,
+      shippingMethod: body.shippingMethod as ShippingMethod,
+      couponCode: body.couponCode?.trim() || undefined,
+      customer,
+    });
+
+    if (priced.unavailableItems.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Some items in your cart are no longer available',
+          unavailableItems: priced.unavailableItems,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (priced.priceChanges.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Prices have changed since you added these items to your cart',
+          priceChanges: priced.priceChanges,
+          totals: {
+            subtotal: priced.subtotal,
+            shippingCost: priced.shippingCost,
+            tax: priced.tax,
+            total: priced.total,
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    // The customer saw a discount at checkout; don't silently charge the full price
+    if (priced.couponError) {
+      return NextResponse.json(
+        { success: false, error: priced.couponError, couponCode: body.couponCode },
+        { status: 409 }
+      );
+    }
+
+    const now = new Date();
+    const orderData = {
+      userId: session?.user?.id,
+      email,
+      firstName: body.firstName!.trim(),
+      lastName: body.lastName!.trim(),
+      address: body.address!.trim(),
+      apartment: body.apartment?.trim() || undefined,
+      city: body.city!.trim(),
+      zipCode: body.zipCode!.trim(),
+      phone: body.phone!.trim(),
+      shippingMethod: body.shippingMethod,
+      shippingCost: priced.shippingCost,
+      paymentMethod: body.paymentMethod,
+      items: priced.items,
+      subtotal: priced.subtotal,
+      discount: priced.discount,
+      discounts: priced.discounts,
+      tax: priced.tax,
+      taxRate: priced.taxRate,
+      total: priced.total,
+      status: 'pending',
+      statusUpdatedAt: now,
+      statusHistory: [{
+        status: 'pending',
+        changedAt: now,
+        changedBy: session?.user
+          ? {
+              userId: session.user.id,
+              name: session.user.name || undefined,
+              email: session.user.email || undefined,
+              role: session.user.role,
+            }
+          : { email, role: 'guest' },
+        notes: 'Order placed',
+      }],
+    };
+
+    // Reserve stock, redeem the coupon and create the order atomically: if
+    // any line is short or the coupon ran out, nothing is written
+    const dbSession = await mongoose.startSession();
+    let order: IOrder | undefined;
+    try {
+      await dbSession.withTransaction(async () => {
+        await reserveStock(priced.items, dbSession);
+        await redeemCoupons(priced.discounts, customer, dbSession);
+        [order] = await Order.create([orderData], { session: dbSession });
+      });
+    } finally {
+      await dbSession.endSession();
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Order placed successfully',
+        orderId: order!._id.toString(),
+        total: order!.total,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof InsufficientStockError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          unavailableItems: error.shortages.map((shortage) => ({
+            productId: shortage.productId,
+            variantSku: shortage.variantSku,
+            reason: 'insufficient_stock',
+            available: shortage.available,
+          })),
+        },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof InvalidCouponError) {
+      return NextResponse.json(
+        { success: false, error: error.message, couponCode: error.code },
+        { status: 409 }
+      );
+    }
+
+    console.error('Orders POST Error:', error);
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to create order' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+// app/api/products/[id]/restore/route.ts
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import { restoreProduct } from '@/lib/productTrash';
+
+// POST - Take a product out of the trash and back into the store
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth({ permission: 'catalog:delete' });
+    if (auth.response) return auth.response;
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: 'Invalid product ID' }, { status: 400 });
+    }
+
+    await connectMongo();
+
+    const product = await restoreProduct(id);
+    if (!product) {
+      return NextResponse.json(
+        { success: false, error: 'Product not found in the trash' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Product restored',
+      data: { id: String(product._id), name: product.name },
+    });
+  } catch (error) {
+    console.error('Product Restore POST Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to restore product' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+// app/api/products/[id]/reviews/[reviewId]/helpful/route.ts
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import { setHelpfulVote } from '@/lib/productReviews';
+
+interface ReviewParams {
+  params: Promise<{ id: string; reviewId: string }>;
+}
+
+const vote = async (params: ReviewParams['params'], helpful: boolean) => {
+  const auth = await requireAuth();
+  if (auth.response) return auth.response;
+  const { session } = auth;
+
+  const { reviewId } = await params;
+  if (!mongoose.Types.ObjectId.isValid(reviewId)) {
+    return NextResponse.json({ success: false, error: 'Invalid review ID' }, { status: 400 });
+  }
+
+  await connectMongo();
+
+  const result = await setHelpfulVote(reviewId, session.user.id, helpful);
+  if (!result) {
+    return NextResponse.json({ success: false, error: 'Review not found' }, { status: 404 });
+  }
+  if (result.error) {
+    return NextResponse.json({ success: false, error: result.error }, { status: 400 });
+  }
+
+  return NextResponse.json({ success: true, helpfulCount: result.helpfulCount, votedHelpful: helpful });
+};
+
+// POST - Mark a review as helpful; voting twice counts once
+export async function POST(req: Request, { params }: ReviewParams) {
+  try {
+    return await vote(params, true);
+  } catch (error) {
+    console.error('Review Helpful POST Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to record vote' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Take the helpful vote back
+export async function DELETE(req: Request, { params }: ReviewParams) {
+  try {
+    return await vote(params, false);
+  } catch (error) {
+    console.error('Review Helpful DELETE Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to remove vote' },
+      { status: 500 }
+    );
+  }
+}
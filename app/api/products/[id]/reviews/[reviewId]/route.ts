@@ -0,0 +1,45 @@
+// app/api/products/[id]/reviews/[reviewId]/route.ts
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { hasPermission, requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import Review from '@/models/Review';
+import { deleteReview } from '@/lib/productReviews';
+
+interface ReviewParams {
+  params: Promise<{ id: string; reviewId: string }>;
+}
+
+// DELETE - Remove a review: the author's own, or any for moderators
+export async function DELETE(req: Request, { params }: ReviewParams) {
+  try {
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
+
+    const { reviewId } = await params;
+    if (!mongoose.Types.ObjectId.isValid(reviewId)) {
+      return NextResponse.json({ success: false, error: 'Invalid review ID' }, { status: 400 });
+    }
+
+    await connectMongo();
+
+    const review = await Review.findById(reviewId).select('userId').lean<{ userId: mongoose.Types.ObjectId }>();
+    if (!review) {
+      return NextResponse.json({ success: false, error: 'Review not found' }, { status: 404 });
+    }
+
+    if (String(review.userId) !== session.user.id && !hasPermission(session, 'reviews:moderate')) {
+      return NextResponse.json({ success: false, error: 'Forbidden' }, { status: 403 });
+    }
+
+    await deleteReview(reviewId);
+    return NextResponse.json({ success: true, message: 'Review deleted' });
+  } catch (error) {
+    console.error('Review DELETE Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete review' },
+      { status: 500 }
+    );
+  }
+}
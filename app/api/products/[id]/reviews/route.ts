@@ -0,0 +1,129 @@
+// app/api/products/[id]/reviews/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import Review from '@/models/Review';
+import { buildPaginationMeta, parsePagination } from '@/lib/queryParams';
+import { isReviewSort, parseReviewInput, REVIEW_SORTS } from '@/lib/reviews';
+import {
+  createReview,
+  findReviewProduct,
+  getRatingDistribution,
+  listProductReviews,
+  toReviewSummary,
+} from '@/lib/productReviews';
+
+interface ProductParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET - Published reviews for a product (?sort=, ?rating=, ?page=, ?limit=),
+// the rating breakdown, and the signed-in user's own review in any state
+export async function GET(request: NextRequest, { params }: ProductParams) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const sort = searchParams.get('sort') || 'newest';
+    if (!isReviewSort(sort)) {
+      return NextResponse.json(
+        { success: false, error: `sort must be one of: ${REVIEW_SORTS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const ratingParam = searchParams.get('rating');
+    const rating = ratingParam ? Number(ratingParam) : undefined;
+    if (rating !== undefined && (!Number.isInteger(rating) || rating < 1 || rating > 5)) {
+      return NextResponse.json(
+        { success: false, error: 'rating must be a whole number from 1 to 5' },
+        { status: 400 }
+      );
+    }
+
+    await connectMongo();
+
+    const product = await findReviewProduct(id);
+    if (!product) {
+      return NextResponse.json({ success: false, error: 'Product not found' }, { status: 404 });
+    }
+
+    const session = await getServerSession(authOptions);
+    const viewerId = session?.user?.id;
+    const pagination = parsePagination(searchParams, { defaultLimit: 10, maxLimit: 50 });
+
+    const [{ reviews, total }, distribution, ownReview] = await Promise.all([
+      listProductReviews(product._id, { sort, rating, pagination, viewerId }),
+      getRatingDistribution(product._id),
+      viewerId ? Review.findOne({ product: product._id, userId: viewerId }).lean() : null,
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      reviews,
+      distribution,
+      ownReview: ownReview ? toReviewSummary(ownReview, { includeStatus: true }) : null,
+      pagination: buildPaginationMeta(pagination, total),
+    });
+  } catch (error) {
+    console.error('Reviews GET Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch reviews' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Review a product; needs a verified email. Published once a moderator approves it.
+export async function POST(request: NextRequest, { params }: ProductParams) {
+  try {
+    const auth = await requireAuth({ verified: true });
+    if (auth.response) return auth.response;
+    const { session } = auth;
+
+    const { id } = await params;
+    const parsed = parseReviewInput(await request.json());
+    if (parsed.errors) {
+      return NextResponse.json(
+        { success: false, error: parsed.errors.join(', ') },
+        { status: 400 }
+      );
+    }
+
+    await connectMongo();
+
+    const product = await findReviewProduct(id);
+    if (!product) {
+      return NextResponse.json({ success: false, error: 'Product not found' }, { status: 404 });
+    }
+
+    const review = await createReview(
+      product,
+      { id: session.user.id, name: session.user.name || 'Customer' },
+      parsed.input
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        review: toReviewSummary(review, { includeStatus: true }),
+        message: 'Thanks! Your review will appear once it has been checked.',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if ((error as { code?: number }).code === 11000) {
+      return NextResponse.json(
+        { success: false, error: 'You have already reviewed this product' },
+        { status: 409 }
+      );
+    }
+    console.error('Reviews POST Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to post review' },
+      { status: 500 }
+    );
+  }
+}
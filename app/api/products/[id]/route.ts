@@ -3,6 +3,10 @@ import { NextResponse } from "next/server";
 import mongoose from "mongoose";
 import Product from "@/models/Product";
 import connectMongo from "@/lib/mongoose";
+import { validateVariants } from "@/lib/variants";
+import { requireAuth } from "@/lib/authGuard";
+import { resolveCategory } from "@/lib/categoryTree";
+import { purgeProduct } from "@/lib/productTrash";
 
 export async function GET(
   req: Request,
@@ -19,18 +23,19 @@ export async function GET(
       );
     }
 
+    // Trashed products still load so order history links work; the product
+    // page shows them as no longer available (deletedAt is set)
     let product;
     if (mongoose.Types.ObjectId.isValid(id)) {
-      product = await Product.findById(id)
-        .populate('category', 'name slug');
+      product = await Product.findById(id).setOptions({ withDeleted: true });
     } else {
       product = await Product.findOne({ 
         $or: [
           { productId: id },
           { slug: id },
-          { sku: id }
+          { 'variants.sku': id }
         ]
-      }).populate('category', 'name slug');
+      }).setOptions({ withDeleted: true });
     }
 
     if (!product) {
@@ -48,11 +53,7 @@ export async function GET(
       originalPrice: typeof product.originalPrice === 'number' ? product.originalPrice : undefined,
       rating: typeof product.rating === 'number' ? product.rating : 0,
       reviews: typeof product.reviews === 'number' ? product.reviews : 0,
-      category: product.category && product.category._id ? {
-        _id: product.category._id.toString(),
-        name: product.category.name,
-        slug: product.category.slug
-      } : null
+      categoryId: product.categoryId ? product.categoryId.toString() : null
     };
 
     return NextResponse.json(productData); // Return just the data, not wrapped
@@ -73,6 +74,9 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await requireAuth({ permission: 'catalog:edit' });
+    if (auth.response) return auth.response;
+
     await connectMongo();
     const { id } = await params;
 
@@ -84,6 +88,11 @@ export async function PUT(
     }
 
     const body = await req.json();
+    // Kept in step with approved reviews (lib/productReviews.ts), never edited by hand
+    delete body.rating;
+    delete body.reviews;
+    // Only moving to the trash and restoring change it
+    delete body.deletedAt;
     
     if (!body.name || !body.name.trim()) {
       return NextResponse.json(
@@ -99,25 +108,56 @@ export async function PUT(
       );
     }
 
+    // Options and variants are replaced together so they can be checked against each other
+    if (body.options !== undefined || body.variants !== undefined) {
+      if (!Array.isArray(body.options) || !Array.isArray(body.variants)) {
+        return NextResponse.json(
+          { success: false, error: 'options and variants must be sent together as arrays' },
+          { status: 400 }
+        );
+      }
+
+      const variantErrors = validateVariants(body.options, body.variants);
+      if (variantErrors.length > 0) {
+        return NextResponse.json(
+          { success: false, error: variantErrors.join(', ') },
+          { status: 400 }
+        );
+      }
+    }
+
+    // The name is always copied from the Category, whichever one was sent
+    if (body.categoryId !== undefined || body.category !== undefined) {
+      const category = await resolveCategory(body.categoryId ?? body.category);
+      if (!category) {
+        return NextResponse.json(
+          { success: false, error: 'Unknown category' },
+          { status: 400 }
+        );
+      }
+      body.categoryId = category._id;
+      body.category = category.name;
+    }
+
     let product;
     if (mongoose.Types.ObjectId.isValid(id)) {
       product = await Product.findByIdAndUpdate(
         id,
         { ...body, updatedAt: new Date() },
         { new: true, runValidators: true }
-      ).populate('category', 'name slug');
+      );
     } else {
       product = await Product.findOneAndUpdate(
         { 
           $or: [
             { productId: id },
             { slug: id },
-            { sku: id }
+            { 'variants.sku': id }
           ]
         },
         { ...body, updatedAt: new Date() },
         { new: true, runValidators: true }
-      ).populate('category', 'name slug');
+      );
     }
 
     if (!product) {
@@ -131,11 +171,7 @@ export async function PUT(
     const productData = {
       ...product.toObject(),
       _id: product._id.toString(),
-      category: product.category && product.category._id ? {
-        _id: product.category._id.toString(),
-        name: product.category.name,
-        slug: product.category.slug
-      } : null
+      categoryId: product.categoryId ? product.categoryId.toString() : null
     };
 
     return NextResponse.json({ 
@@ -170,11 +206,16 @@ export async function PUT(
   }
 }
 
+// DELETE - Move a product to the trash (lib/productTrash.ts).
+// ?permanent=true purges a trashed product, unless an order includes it.
 export async function DELETE(
   req: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await requireAuth({ permission: 'catalog:delete' });
+    if (auth.response) return auth.response;
+
     await connectMongo();
     const { id } = await params;
 
@@ -185,17 +226,44 @@ export async function DELETE(
       );
     }
 
+    if (new URL(req.url).searchParams.get('permanent') === 'true') {
+      const result = mongoose.Types.ObjectId.isValid(id) ? await purgeProduct(id) : null;
+      if (!result) {
+        return NextResponse.json(
+          { success: false, error: 'Product not found in the trash' },
+          { status: 404 }
+        );
+      }
+      if (!result.purged) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `This product is in ${result.orders} order(s), so it can only stay in the trash`,
+            code: 'PRODUCT_HAS_ORDERS',
+            orders: result.orders,
+          },
+          { status: 409 }
+        );
+      }
+      return NextResponse.json({
+        success: true,
+        message: 'Product deleted permanently',
+        data: { id }
+      });
+    }
+
+    const trash = { $set: { deletedAt: new Date() } };
     let product;
     if (mongoose.Types.ObjectId.isValid(id)) {
-      product = await Product.findByIdAndDelete(id);
+      product = await Product.findByIdAndUpdate(id, trash);
     } else {
-      product = await Product.findOneAndDelete({
+      product = await Product.findOneAndUpdate({
         $or: [
           { productId: id },
           { slug: id },
-          { sku: id }
+          { 'variants.sku': id }
         ]
-      });
+      }, trash);
     }
 
     if (!product) {
@@ -207,7 +275,7 @@ export async function DELETE(
 
     return NextResponse.json({ 
       success: true, 
-      message: 'Product deleted successfully',
+      message: 'Product moved to the trash',
       data: { id: product._id.toString() }
     });
   } catch (error: any) {
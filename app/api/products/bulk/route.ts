@@ -0,0 +1,57 @@
+// app/api/products/bulk/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { forbiddenResponse, hasPermission, requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import { runProductBulkAction } from '@/lib/productBulk';
+import { parseProductBulkRequest } from '@/lib/productBulkActions';
+
+// POST - Apply one action to many products ({ ids, action, ...settings }).
+// All or nothing: when any product fails, none are changed and the per-item
+// results say why.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth({ permission: 'catalog:edit' });
+    if (auth.response) return auth.response;
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ success: false, error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const parsed = parseProductBulkRequest(body);
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+    }
+
+    // Moving products to the trash takes the delete permission as well
+    if (parsed.action.action === 'delete' && !hasPermission(auth.session, 'catalog:delete')) {
+      return forbiddenResponse();
+    }
+
+    await connectMongo();
+
+    const result = await runProductBulkAction(parsed.ids, parsed.action);
+    if (!result) {
+      return NextResponse.json({ success: false, error: 'Unknown category' }, { status: 400 });
+    }
+
+    if (!result.applied) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `No changes were made: ${result.summary.failed} product(s) could not be changed`,
+          ...result,
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Products Bulk POST Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update products' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+// app/api/products/export/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import { parseCatalogFilters, queryCatalog } from '@/lib/productCatalog';
+import { isProductSheetFormat, ProductSheetFields, writeProductSheet } from '@/lib/productSheets';
+
+const EXPORT_PAGE_SIZE = 100;
+
+// GET - Download the catalog as CSV or JSON (?format=), narrowed by the same
+// filters as GET /api/products. The file can be edited and imported again.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth({ permission: 'catalog:edit' });
+    if (auth.response) return auth.response;
+
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') || 'csv';
+    if (!isProductSheetFormat(format)) {
+      return NextResponse.json(
+        { success: false, error: 'format must be csv or json' },
+        { status: 400 }
+      );
+    }
+
+    const { filters, error } = parseCatalogFilters(searchParams);
+    if (error !== undefined) {
+      return NextResponse.json({ success: false, error }, { status: 400 });
+    }
+
+    await connectMongo();
+
+    // Page through the listing query so the export matches the filtered table
+    const products: ProductSheetFields[] = [];
+    for (let page = 1; ; page++) {
+      const result = await queryCatalog({
+        ...filters,
+        pagination: { page, limit: EXPORT_PAGE_SIZE, skip: (page - 1) * EXPORT_PAGE_SIZE },
+      });
+      products.push(...result.products);
+      if (page >= result.pagination.totalPages) break;
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    return new NextResponse(writeProductSheet(products, format), {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="products-${date}.${format}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Products Export GET Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export products' },
+      { status: 500 }
+    );
+  }
+}
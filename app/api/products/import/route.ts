@@ -0,0 +1,53 @@
+// app/api/products/import/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import { importProducts } from '@/lib/productImport';
+import { isProductImportMode, isProductSheetFormat, readProductSheet } from '@/lib/productSheets';
+
+// POST - Import products from CSV or JSON text ({ format, content, mode, dryRun }).
+// A dry run only reports what each row would do; otherwise the rows are saved
+// in one transaction when none of them has errors.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth({ permission: 'catalog:edit' });
+    if (auth.response) return auth.response;
+
+    const { format, content, mode = 'create', dryRun = true } = await request.json();
+
+    if (!isProductSheetFormat(format)) {
+      return NextResponse.json(
+        { success: false, error: 'format must be csv or json' },
+        { status: 400 }
+      );
+    }
+    if (!isProductImportMode(mode)) {
+      return NextResponse.json(
+        { success: false, error: 'mode must be create or upsert' },
+        { status: 400 }
+      );
+    }
+    if (typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'The file is empty' },
+        { status: 400 }
+      );
+    }
+
+    const sheet = readProductSheet(content, format);
+    if (sheet.error !== undefined) {
+      return NextResponse.json({ success: false, error: sheet.error }, { status: 400 });
+    }
+
+    await connectMongo();
+
+    const result = await importProducts(sheet.records, { mode, dryRun: dryRun !== false });
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Products Import POST Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to import products' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,46 +2,91 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Product from '@/models/Product';
 import connectMongo from '@/lib/mongoose';
+import { parseCatalogFilters, queryCatalog } from '@/lib/productCatalog';
+import { requireAuth } from '@/lib/authGuard';
+import { resolveCategory } from '@/lib/categoryTree';
 
-export async function GET() {
+// GET - Filtered, sorted and paginated catalog with category facets
+export async function GET(request: NextRequest) {
   try {
+    const { searchParams } = new URL(request.url);
+
+    const { filters, error } = parseCatalogFilters(searchParams);
+    if (error !== undefined) {
+      return NextResponse.json(
+        { success: false, error },
+        { status: 400 }
+      );
+    }
+
     await connectMongo();
-    const products = await Product.find({});
-    return NextResponse.json(products);
+    const result = await queryCatalog(filters);
+
+    return NextResponse.json({ success: true, ...result });
   } catch (error) {
-    return NextResponse.json({ error: 'Failed to fetch products' }, { status: 500 });
+    console.error('Products GET Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch products' },
+      { status: 500 }
+    );
   }
 }
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await requireAuth({ permission: 'catalog:edit' });
+    if (auth.response) return auth.response;
+
     await connectMongo();
     
     const body = await request.json();
-    const { productId, name, description, price, category, image } = body;
+    const { productId, name, description, price, image } = body;
+    // Either the Category id or its name/slug
+    const categoryRef = body.categoryId || body.category;
 
     // Validate required fields
-    if (!productId || !name || !description || !price || !category || !image) {
+    if (!productId || !name || !description || !price || !categoryRef || !image) {
       return NextResponse.json(
         { error: 'Missing required fields: productId, name, description, price, category, and image are required' },
         { status: 400 }
       );
     }
 
-    // 🔹 Check if productId already exists
-    const existingProduct = await Product.findOne({ productId });
+    // 🔹 Check if productId already exists, including products in the trash
+    const existingProduct = await Product.findOne({ productId }).setOptions({ withDeleted: true });
     if (existingProduct) {
       return NextResponse.json(
-        { error: 'Product ID already exists.' },
+        { error: existingProduct.deletedAt ? 'Product ID belongs to a product in the trash.' : 'Product ID already exists.' },
+        { status: 400 }
+      );
+    }
+
+    if (body.stockQuantity !== undefined &&
+        (!Number.isInteger(Number(body.stockQuantity)) || Number(body.stockQuantity) < 0)) {
+      return NextResponse.json(
+        { error: 'Stock quantity must be a non-negative whole number' },
         { status: 400 }
       );
     }
 
-    // Set default values for rating and reviews if not provided
+    const category = await resolveCategory(categoryRef);
+    if (!category) {
+      return NextResponse.json(
+        { error: 'Unknown category' },
+        { status: 400 }
+      );
+    }
+
+    // Rating and review count only come from approved reviews (lib/productReviews.ts).
+    // inStock is derived from stockQuantity when the product is saved.
     const productData = {
       ...body,
-      rating: body.rating || 0,
-      reviews: body.reviews || 0,
+      category: category.name,
+      categoryId: category._id,
+      rating: 0,
+      reviews: 0,
+      deletedAt: null,
+      stockQuantity: Number(body.stockQuantity) || 0,
     };
 
     // Create product
@@ -51,10 +96,17 @@ export async function POST(request: NextRequest) {
   } catch (error: any) {
     console.error('Error creating product:', error);
 
+    if (error.name === 'ValidationError') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
     // 🔹 Catch Mongo duplicate key errors just in case
     if (error.code === 11000) {
       return NextResponse.json(
-        { error: 'Product ID already exists.' },
+        { error: 'Product ID or variant SKU already exists.' },
         { status: 400 }
       );
     }
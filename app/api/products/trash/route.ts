@@ -0,0 +1,32 @@
+// app/api/products/trash/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import { listTrashedProducts } from '@/lib/productTrash';
+import { buildPaginationMeta, parsePagination } from '@/lib/queryParams';
+
+// GET - Products in the trash, most recently deleted first, with the number
+// of orders that include each (only products in no order can be purged)
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth({ permission: 'catalog:delete' });
+    if (auth.response) return auth.response;
+
+    const pagination = parsePagination(new URL(request.url).searchParams);
+
+    await connectMongo();
+
+    const { products, total } = await listTrashedProducts(pagination);
+    return NextResponse.json({
+      success: true,
+      products,
+      pagination: buildPaginationMeta(pagination, total),
+    });
+  } catch (error) {
+    console.error('Products Trash GET Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch the trash' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,10 @@
 import { NextResponse } from "next/server";
 import connectMongo from "@/lib/mongoose";
 import User from "@/models/User";
+import { getAppUrl } from "@/lib/mail";
+import { sendVerificationEmail } from "@/lib/emailVerification";
+import { checkPasswordStrength } from "@/lib/passwordPolicy";
+import { DEFAULT_ROLE } from "@/lib/roles";
 
 export async function POST(req: Request) {
   try {
@@ -12,8 +16,13 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "All fields are required" }, { status: 400 });
     }
 
+    const passwordError = checkPasswordStrength(password, email);
+    if (passwordError) {
+      return NextResponse.json({ error: passwordError }, { status: 400 });
+    }
+
     // Prevent admin registration through this endpoint
-    if (role && role !== "customer") {
+    if (role && role !== DEFAULT_ROLE) {
       return NextResponse.json({ error: "Invalid role" }, { status: 400 });
     }
 
@@ -29,12 +38,23 @@ export async function POST(req: Request) {
       email: email.toLowerCase(),
       phone, // 👈 Added phone
       password,
-      role: "customer" // Force customer role
+      role: DEFAULT_ROLE, // Force customer role
+      verificationEmailSentAt: new Date()
     });
 
     await user.save();
 
-    return NextResponse.json({ message: "User registered successfully" }, { status: 201 });
+    // The account exists either way; a failed send can be retried from /verify-email
+    try {
+      await sendVerificationEmail(user, getAppUrl());
+    } catch (mailError) {
+      console.error("Verification email failed:", mailError);
+    }
+
+    return NextResponse.json(
+      { message: "User registered successfully. Check your email to verify your address." },
+      { status: 201 }
+    );
   } catch (err: any) {
     return NextResponse.json({ error: err.message || "Server error" }, { status: 500 });
   }
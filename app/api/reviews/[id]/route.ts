@@ -0,0 +1,54 @@
+// app/api/reviews/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import { moderateReview } from '@/lib/productReviews';
+import { isReviewStatus, REVIEW_STATUSES } from '@/lib/reviews';
+
+interface ReviewParams {
+  params: Promise<{ id: string }>;
+}
+
+// PUT - Approve or reject a review ({ status, note }); the note is shown to
+// the author of a rejected review
+export async function PUT(request: NextRequest, { params }: ReviewParams) {
+  try {
+    const auth = await requireAuth({ permission: 'reviews:moderate' });
+    if (auth.response) return auth.response;
+    const { session } = auth;
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: 'Invalid review ID' }, { status: 400 });
+    }
+
+    const { status, note } = await request.json();
+    if (!isReviewStatus(status)) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of: ${REVIEW_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    await connectMongo();
+
+    const review = await moderateReview(
+      id,
+      status,
+      session.user.id,
+      typeof note === 'string' ? note.trim() : undefined
+    );
+    if (!review) {
+      return NextResponse.json({ success: false, error: 'Review not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: review, message: 'Review updated' });
+  } catch (error) {
+    console.error('Review PUT Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update review' },
+      { status: 500 }
+    );
+  }
+}
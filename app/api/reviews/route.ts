@@ -0,0 +1,52 @@
+// app/api/reviews/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import Review from '@/models/Review';
+import { buildPaginationMeta, parsePagination } from '@/lib/queryParams';
+import { isReviewStatus, REVIEW_STATUSES } from '@/lib/reviews';
+
+// GET - The moderation queue: reviews in one state (?status=, pending by
+// default), oldest first so nothing waits forever
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth({ permission: 'reviews:moderate' });
+    if (auth.response) return auth.response;
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || 'pending';
+    if (!isReviewStatus(status)) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of: ${REVIEW_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    await connectMongo();
+    const pagination = parsePagination(searchParams);
+    const filter = { status };
+
+    const [reviews, total] = await Promise.all([
+      Review.find(filter)
+        .sort({ createdAt: status === 'pending' ? 1 : -1 })
+        .skip(pagination.skip)
+        .limit(pagination.limit)
+        // Reviews of trashed products still need moderating
+        .populate({ path: 'product', select: 'productId name images', options: { withDeleted: true } })
+        .lean(),
+      Review.countDocuments(filter),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      reviews: reviews.map((review) => ({ ...review, _id: review._id.toString() })),
+      pagination: buildPaginationMeta(pagination, total),
+    });
+  } catch (error) {
+    console.error('Reviews Queue GET Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch reviews' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+// app/api/search/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import connectMongo from '@/lib/mongoose';
+import { parseCatalogFilters, queryCatalog } from '@/lib/productCatalog';
+import { buildFuzzyMatch, buildTextMatch, suggestProducts } from '@/lib/productSearch';
+
+const MAX_QUERY_LENGTH = 100;
+const MIN_SUGGEST_LENGTH = 2;
+
+// GET - Full-text product search (?q=) or autocomplete (?q=&mode=suggest)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const q = (searchParams.get('q') || '').trim().slice(0, MAX_QUERY_LENGTH);
+
+    if (searchParams.get('mode') === 'suggest') {
+      if (q.length < MIN_SUGGEST_LENGTH) {
+        return NextResponse.json({ success: true, products: [], categories: [] });
+      }
+
+      await connectMongo();
+      const suggestions = await suggestProducts(q);
+      return NextResponse.json({ success: true, ...suggestions });
+    }
+
+    if (!q) {
+      return NextResponse.json(
+        { success: false, error: 'Search query is required' },
+        { status: 400 }
+      );
+    }
+
+    const { filters, error } = parseCatalogFilters(searchParams, { defaultSort: 'relevance' });
+    if (error !== undefined) {
+      return NextResponse.json(
+        { success: false, error },
+        { status: 400 }
+      );
+    }
+
+    await connectMongo();
+    let result = await queryCatalog(filters, { searchMatch: buildTextMatch(q), textScore: true });
+
+    // Nothing matched the exact words, so retry allowing a typo per word
+    const fuzzy = result.pagination.total === 0;
+    if (fuzzy) {
+      result = await queryCatalog(filters, { searchMatch: buildFuzzyMatch(q) });
+    }
+
+    return NextResponse.json({ success: true, query: q, fuzzy, ...result });
+  } catch (error) {
+    console.error('Search GET Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Search failed' },
+      { status: 500 }
+    );
+  }
+}
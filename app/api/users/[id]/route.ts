@@ -3,17 +3,24 @@ import mongoose from "mongoose";
 import connectMongo from "@/lib/mongoose";
 import User from "@/models/User";
 import bcrypt from "bcryptjs";
+import { hasPermission, requireAuth } from "@/lib/authGuard";
+import { checkPasswordStrength } from "@/lib/passwordPolicy";
+import { revokeAllUserSessions } from "@/lib/sessionRegistry";
+import { isRole } from "@/lib/roles";
+import { getAppUrl } from "@/lib/mail";
+import { sendVerificationEmail } from "@/lib/emailVerification";
 
 interface UserParams {
   params: Promise<{ id: string }>;
 }
 
-const validRoles = ['user', 'admin', 'moderator'];
-
 export async function GET(req: Request, { params }: UserParams) {
   try {
-    await connectMongo();
     const { id } = await params;
+    const auth = await requireAuth({ permission: 'users:manage', ownerId: id });
+    if (auth.response) return auth.response;
+
+    await connectMongo();
 
     if (!mongoose.Types.ObjectId.isValid(id)) {
       return NextResponse.json(
@@ -54,8 +61,12 @@ export async function GET(req: Request, { params }: UserParams) {
 
 export async function PUT(req: Request, { params }: UserParams) {
   try {
-    await connectMongo();
     const { id } = await params;
+    // Users may edit their own profile; only admins may edit others or change roles
+    const auth = await requireAuth({ permission: 'users:manage', ownerId: id });
+    if (auth.response) return auth.response;
+
+    await connectMongo();
 
     if (!mongoose.Types.ObjectId.isValid(id)) {
       return NextResponse.json(
@@ -91,13 +102,28 @@ export async function PUT(req: Request, { params }: UserParams) {
       );
     }
 
-    if (role && !validRoles.includes(role)) {
+    if (role && !isRole(role)) {
       return NextResponse.json(
         { success: false, error: 'Invalid role' },
         { status: 400 }
       );
     }
 
+    // Owners change their password through /api/users/password, which checks the current one
+    if (password && !hasPermission(auth.session, 'users:manage')) {
+      return NextResponse.json(
+        { success: false, error: 'Use /api/users/password to change your own password' },
+        { status: 400 }
+      );
+    }
+
+    if (role && !hasPermission(auth.session, 'users:manage')) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
     // Check if email already exists for another user
     const existingUser = await User.findOne({ 
       email: email.toLowerCase(), 
@@ -111,20 +137,37 @@ export async function PUT(req: Request, { params }: UserParams) {
       );
     }
 
+    const currentUser = await User.findById(id).select('email').lean();
+    if (!currentUser) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
     const updateData: any = { 
       name, 
       email: email.toLowerCase(), 
       updatedAt: new Date() 
     };
 
+    // A new address must be verified again before it can claim guest orders
+    // or be matched to a social sign-in
+    const emailChanged = currentUser.email !== updateData.email;
+    if (emailChanged) {
+      updateData.emailVerified = null;
+      updateData.verificationEmailSentAt = new Date();
+    }
+
     if (role) {
       updateData.role = role;
     }
 
     if (password) {
-      if (password.length < 6) {
+      const passwordError = checkPasswordStrength(password, email);
+      if (passwordError) {
         return NextResponse.json(
-          { success: false, error: 'Password must be at least 6 characters long' },
+          { success: false, error: passwordError },
           { status: 400 }
         );
       }
@@ -144,6 +187,20 @@ export async function PUT(req: Request, { params }: UserParams) {
       );
     }
 
+    // A new password signs the account out everywhere
+    if (password) {
+      await revokeAllUserSessions(id);
+    }
+
+    // The change is saved either way; a failed send can be retried from /verify-email
+    if (emailChanged) {
+      try {
+        await sendVerificationEmail(updatedUser, getAppUrl());
+      } catch (mailError) {
+        console.error('Verification email failed:', mailError);
+      }
+    }
+
     return NextResponse.json({ 
       success: true, 
       data: updatedUser,
@@ -171,8 +228,11 @@ export async function PUT(req: Request, { params }: UserParams) {
 
 export async function DELETE(req: Request, { params }: UserParams) {
   try {
-    await connectMongo();
     const { id } = await params;
+    const auth = await requireAuth({ permission: 'users:manage' });
+    if (auth.response) return auth.response;
+
+    await connectMongo();
 
     if (!mongoose.Types.ObjectId.isValid(id)) {
       return NextResponse.json(
@@ -190,14 +250,13 @@ export async function DELETE(req: Request, { params }: UserParams) {
       );
     }
 
-    // Prevent self-deletion if needed
-    // const currentUserId = await getCurrentUserId();
-    // if (id === currentUserId) {
-    //   return NextResponse.json(
-    //     { success: false, error: 'Cannot delete your own account' },
-    //     { status: 403 }
-    //   );
-    // }
+    // Prevent self-deletion so the last admin can't lock everyone out
+    if (id === auth.session.user.id) {
+      return NextResponse.json(
+        { success: false, error: 'Cannot delete your own account' },
+        { status: 403 }
+      );
+    }
 
     await User.findByIdAndDelete(id);
 
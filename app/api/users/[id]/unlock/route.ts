@@ -0,0 +1,44 @@
+// app/api/users/[id]/unlock/route.ts
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import { unlockAccount } from '@/lib/loginThrottle';
+
+interface UserParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST - Lift a sign-in lockout and clear the account's failure count (admin)
+export async function POST(req: Request, { params }: UserParams) {
+  try {
+    const auth = await requireAuth({ permission: 'users:manage' });
+    if (auth.response) return auth.response;
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid user ID' },
+        { status: 400 }
+      );
+    }
+
+    await connectMongo();
+
+    const unlocked = await unlockAccount(id);
+    if (!unlocked) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Account unlocked' });
+  } catch (error) {
+    console.error('Unlock User Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to unlock account' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requireAuth } from '@/lib/authGuard';
 import connectMongo from '@/lib/mongoose';
 import User from '@/models/User';
 import mongoose from 'mongoose';
@@ -76,14 +75,9 @@ const transformAddresses = (addresses: any[]) => {
 // GET - Get all addresses for the user
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' }, 
-        { status: 401 }
-      );
-    }
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
 
     await connectMongo();
     
@@ -119,14 +113,9 @@ export async function GET(request: NextRequest) {
 // POST - Add new address
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' }, 
-        { status: 401 }
-      );
-    }
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
 
     const body: AddressRequestBody = await request.json();
     const { street, city, state, zipCode, country = 'Bangladesh', isDefault = false, label = 'home', phone = '' } = body;
@@ -215,14 +204,9 @@ export async function POST(request: NextRequest) {
 // PUT - Update address
 export async function PUT(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' }, 
-        { status: 401 }
-      );
-    }
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
 
     const body: AddressRequestBody = await request.json();
     const { addressId, street, city, state, zipCode, country, isDefault, label, phone } = body;
@@ -337,14 +321,9 @@ export async function PUT(request: NextRequest) {
 // DELETE - Remove address
 export async function DELETE(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' }, 
-        { status: 401 }
-      );
-    }
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
 
     const { searchParams } = new URL(request.url);
     const addressId = searchParams.get('id');
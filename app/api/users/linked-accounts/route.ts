@@ -0,0 +1,94 @@
+// app/api/users/linked-accounts/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import User from '@/models/User';
+import { toLinkedAccountSummaries } from '@/lib/oauthAccounts';
+import { isOAuthProvider } from '@/lib/oauthProviders';
+
+// GET - Social accounts linked to the signed-in user. Linking itself goes
+// through signIn(provider) so the provider can confirm the account.
+export async function GET() {
+  try {
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
+
+    await connectMongo();
+
+    const user = await User.findById(session.user.id).select('password linkedAccounts').lean();
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      linkedAccounts: toLinkedAccountSummaries(user.linkedAccounts),
+      hasPassword: !!user.password,
+    });
+  } catch (error) {
+    console.error('Linked Accounts GET Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch linked accounts' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Unlink a provider (?provider=google). Refused when it is the
+// account's only way to sign in.
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
+
+    const provider = new URL(request.url).searchParams.get('provider');
+    if (!isOAuthProvider(provider)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid provider' },
+        { status: 400 }
+      );
+    }
+
+    await connectMongo();
+
+    const user = await User.findById(session.user.id).select('password linkedAccounts');
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const linkedAccounts: { provider: string }[] = user.linkedAccounts;
+    if (!linkedAccounts.some((account) => account.provider === provider)) {
+      return NextResponse.json(
+        { success: false, error: 'This provider is not linked to your account' },
+        { status: 404 }
+      );
+    }
+
+    if (!user.password && linkedAccounts.length === 1) {
+      return NextResponse.json(
+        { success: false, error: 'Set a password before unlinking your only sign-in method' },
+        { status: 409 }
+      );
+    }
+
+    const updated = await User.findByIdAndUpdate(
+      user._id,
+      { $pull: { linkedAccounts: { provider } } },
+      { new: true }
+    ).lean();
+
+    return NextResponse.json({
+      success: true,
+      linkedAccounts: toLinkedAccountSummaries(updated?.linkedAccounts),
+      hasPassword: !!user.password,
+    });
+  } catch (error) {
+    console.error('Linked Accounts DELETE Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to unlink account' },
+      { status: 500 }
+    );
+  }
+}
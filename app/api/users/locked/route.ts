@@ -0,0 +1,24 @@
+// app/api/users/locked/route.ts
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import { listLockedAccounts } from '@/lib/loginThrottle';
+
+// GET - Accounts locked after failed sign-ins, with their recent failures (admin)
+export async function GET() {
+  try {
+    const auth = await requireAuth({ permission: 'users:manage' });
+    if (auth.response) return auth.response;
+
+    await connectMongo();
+
+    const accounts = await listLockedAccounts();
+    return NextResponse.json({ success: true, accounts });
+  } catch (error) {
+    console.error('Locked Accounts GET Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch locked accounts' },
+      { status: 500 }
+    );
+  }
+}
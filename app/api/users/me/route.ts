@@ -1,16 +1,14 @@
 // app/api/users/me/route.ts
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
+import { requireAuth } from "@/lib/authGuard";
 import connectMongo from "@/lib/mongoose";
 import User from "@/models/User";
 
 export async function GET() {
   try {
-    const session = await getServerSession();
-    
-    if (!session?.user?.email) {
-      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-    }
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
 
     await connectMongo();
     const user = await User.findOne({ email: session.user.email }).select("-password").lean();
@@ -0,0 +1,68 @@
+// app/api/users/password/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import User from '@/models/User';
+import { checkPasswordStrength } from '@/lib/passwordPolicy';
+import { revokeAllUserSessions } from '@/lib/sessionRegistry';
+
+// PUT - Change the signed-in user's password. Accounts created through social
+// sign-in have none yet and can set one without `currentPassword`. Every
+// session is signed out afterwards, this one included, so the client signs
+// in again with the new password.
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
+
+    const { currentPassword, newPassword } = await request.json();
+
+    await connectMongo();
+
+    const user = await User.findById(session.user.id);
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    if (user.password) {
+      if (typeof currentPassword !== 'string' || !currentPassword) {
+        return NextResponse.json(
+          { success: false, error: 'Current password is required' },
+          { status: 400 }
+        );
+      }
+      if (!(await user.comparePassword(currentPassword))) {
+        return NextResponse.json(
+          { success: false, error: 'Current password is incorrect' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const strengthError = checkPasswordStrength(newPassword, user.email);
+    if (strengthError) {
+      return NextResponse.json({ success: false, error: strengthError }, { status: 400 });
+    }
+
+    if (user.password && (await user.comparePassword(newPassword))) {
+      return NextResponse.json(
+        { success: false, error: 'New password must be different from the current one' },
+        { status: 400 }
+      );
+    }
+
+    // The pre-save hook hashes it
+    user.password = newPassword;
+    await user.save();
+    await revokeAllUserSessions(user._id.toString());
+
+    return NextResponse.json({ success: true, message: 'Password updated' });
+  } catch (error) {
+    console.error('Change Password Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to change password' },
+      { status: 500 }
+    );
+  }
+}
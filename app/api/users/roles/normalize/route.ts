@@ -0,0 +1,43 @@
+// app/api/users/roles/normalize/route.ts
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import { normalizeUserRoles } from '@/lib/userRoleMigration';
+
+// GET - Preview which stored roles the migration would rewrite (admin)
+export async function GET() {
+  try {
+    const auth = await requireAuth({ permission: 'users:manage' });
+    if (auth.response) return auth.response;
+
+    await connectMongo();
+
+    const result = await normalizeUserRoles({ dryRun: true });
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Normalize Roles GET Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to check user roles' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Rewrite legacy and missing roles (admin)
+export async function POST() {
+  try {
+    const auth = await requireAuth({ permission: 'users:manage' });
+    if (auth.response) return auth.response;
+
+    await connectMongo();
+
+    const result = await normalizeUserRoles();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Normalize Roles POST Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to normalize user roles' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,16 @@
 // app/api/users/route.ts
 import { NextResponse } from "next/server";
-import bcrypt from "bcryptjs";
 import connectMongo from "@/lib/mongoose";
 import User from "@/models/User";
+import { requireAuth } from "@/lib/authGuard";
+import { checkPasswordStrength } from "@/lib/passwordPolicy";
+import { isRole } from "@/lib/roles";
 
 export async function GET() {
   try {
+    const auth = await requireAuth({ permission: "users:manage" });
+    if (auth.response) return auth.response;
+
     await connectMongo();
     const users = await User.find({}, "-password").lean();
     return NextResponse.json(users);
@@ -16,6 +21,9 @@ export async function GET() {
 
 export async function POST(req: Request) {
   try {
+    const auth = await requireAuth({ permission: "users:manage" });
+    if (auth.response) return auth.response;
+
     const body = await req.json();
     const { name, email, password, role } = body;
 
@@ -23,18 +31,26 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "All fields required" }, { status: 400 });
     }
 
+    if (!isRole(role)) {
+      return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+    }
+
+    const passwordError = checkPasswordStrength(password, email);
+    if (passwordError) {
+      return NextResponse.json({ error: passwordError }, { status: 400 });
+    }
+
     await connectMongo();
     const existing = await User.findOne({ email: email.toLowerCase() });
     if (existing) {
       return NextResponse.json({ error: "Email already exists" }, { status: 400 });
     }
 
-    // hash manually to avoid relying on pre-save for this POST (either works)
-    const hashed = await bcrypt.hash(password, 10);
+    // the User pre-save hook hashes the password
     const newUser = await User.create({
       name,
       email: email.toLowerCase(),
-      password: hashed,
+      password,
       role
     });
 
@@ -54,8 +70,14 @@ export async function POST(req: Request) {
 
 export async function DELETE(req: Request) {
   try {
+    const auth = await requireAuth({ permission: "users:manage" });
+    if (auth.response) return auth.response;
+
     const { id } = await req.json();
     if (!id) return NextResponse.json({ error: "ID required" }, { status: 400 });
+    if (id === auth.session.user.id) {
+      return NextResponse.json({ error: "You cannot delete your own account" }, { status: 400 });
+    }
     await connectMongo();
     await User.findByIdAndDelete(id);
     return NextResponse.json({ message: "User deleted" });
@@ -0,0 +1,63 @@
+// app/api/users/sessions/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import { requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import { listUserSessions, revokeAllUserSessions, revokeUserSession } from '@/lib/sessionRegistry';
+
+// GET - Devices the signed-in user is signed in on, newest activity first
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
+
+    await connectMongo();
+
+    const token = await getToken({ req: request });
+    const sessions = await listUserSessions(session.user.id, token?.sessionId);
+
+    return NextResponse.json({ success: true, sessions });
+  } catch (error) {
+    console.error('Sessions GET Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch sessions' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Sign out one device (?id=<session id>), or every device
+// including this one when no id is given
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
+
+    await connectMongo();
+
+    const sessionId = new URL(request.url).searchParams.get('id');
+
+    if (!sessionId) {
+      await revokeAllUserSessions(session.user.id);
+      return NextResponse.json({ success: true, message: 'Signed out of all devices' });
+    }
+
+    const revoked = await revokeUserSession(session.user.id, sessionId);
+    if (!revoked) {
+      return NextResponse.json(
+        { success: false, error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Device signed out' });
+  } catch (error) {
+    console.error('Sessions DELETE Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to sign out' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+// app/api/users/two-factor/recovery-codes/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import { regenerateRecoveryCodes } from '@/lib/twoFactor';
+
+// POST - Replace all recovery codes; needs a current authenticator code
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
+
+    const { code } = await request.json();
+    if (typeof code !== 'string' || !code.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication code is required' },
+        { status: 400 }
+      );
+    }
+
+    await connectMongo();
+
+    const result = await regenerateRecoveryCodes(session.user.id, code);
+    if (result.error) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, recoveryCodes: result.recoveryCodes });
+  } catch (error) {
+    console.error('Recovery Codes POST Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to regenerate recovery codes' },
+      { status: 500 }
+    );
+  }
+}
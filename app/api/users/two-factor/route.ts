@@ -0,0 +1,139 @@
+// app/api/users/two-factor/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/authGuard';
+import connectMongo from '@/lib/mongoose';
+import { roleRequiresTwoFactor } from '@/lib/accessLevels';
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  startTwoFactorSetup,
+} from '@/lib/twoFactor';
+
+// GET - Whether two-factor is on for the signed-in user and whether their role requires it
+export async function GET() {
+  try {
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
+
+    await connectMongo();
+
+    const status = await getTwoFactorStatus(session.user.id);
+    if (!status) {
+      return NextResponse.json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...status,
+      required: roleRequiresTwoFactor(session.user.role),
+    });
+  } catch (error) {
+    console.error('Two-Factor GET Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch two-factor status' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Start enrollment: a new secret and the otpauth:// URI for the QR code
+export async function POST() {
+  try {
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
+
+    await connectMongo();
+
+    const status = await getTwoFactorStatus(session.user.id);
+    if (status?.enabled) {
+      return NextResponse.json(
+        { success: false, error: 'Two-factor authentication is already enabled' },
+        { status: 409 }
+      );
+    }
+
+    const setup = await startTwoFactorSetup(session.user.id, session.user.email || session.user.id);
+    return NextResponse.json({ success: true, ...setup });
+  } catch (error) {
+    console.error('Two-Factor POST Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to start two-factor setup' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Finish enrollment with the first code from the app; returns the recovery codes once
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
+
+    const { code } = await request.json();
+    if (typeof code !== 'string' || !code.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication code is required' },
+        { status: 400 }
+      );
+    }
+
+    await connectMongo();
+
+    const result = await enableTwoFactor(session.user.id, code);
+    if (result.error) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, recoveryCodes: result.recoveryCodes });
+  } catch (error) {
+    console.error('Two-Factor PUT Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to enable two-factor authentication' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Turn two-factor off with a current or recovery code. Not allowed
+// for roles that require it.
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
+
+    if (roleRequiresTwoFactor(session.user.role)) {
+      return NextResponse.json(
+        { success: false, error: 'Two-factor authentication is required for your role' },
+        { status: 403 }
+      );
+    }
+
+    const { code } = await request.json();
+    if (typeof code !== 'string' || !code.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication code is required' },
+        { status: 400 }
+      );
+    }
+
+    await connectMongo();
+
+    const error = await disableTwoFactor(session.user.id, code);
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('Two-Factor DELETE Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to disable two-factor authentication' },
+      { status: 500 }
+    );
+  }
+}
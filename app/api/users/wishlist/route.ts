@@ -1,19 +1,19 @@
 // app/api/users/wishlist/route.ts
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requireAuth } from '@/lib/authGuard';
 import connectMongo from '@/lib/mongoose';
 import User from '@/models/User';
 import Product from '@/models/Product';
 
+// Products in the trash populate as null; they stay saved but hidden until restored
+const visibleWishlist = (wishlist: { productId: unknown }[]) => wishlist.filter((item) => item.productId);
+
 // GET - Get user's wishlist with product details
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.email) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
 
     await connectMongo();
     
@@ -25,7 +25,7 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ wishlist: user.wishlist });
+    return NextResponse.json({ wishlist: visibleWishlist(user.wishlist) });
   } catch (error) {
     console.error('Error fetching wishlist:', error);
     return NextResponse.json(
@@ -38,11 +38,9 @@ export async function GET(request: NextRequest) {
 // POST - Add product to wishlist
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.email) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
 
     const body = await request.json();
     const { productId } = body;
@@ -91,7 +89,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       message: 'Product added to wishlist',
-      wishlist: user.wishlist
+      wishlist: visibleWishlist(user.wishlist)
     });
   } catch (error: any) {
     console.error('Error adding to wishlist:', error);
@@ -105,11 +103,9 @@ export async function POST(request: NextRequest) {
 // DELETE - Remove product from wishlist
 export async function DELETE(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.email) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
 
     const { searchParams } = new URL(request.url);
     const productId = searchParams.get('productId');
@@ -139,7 +135,7 @@ export async function DELETE(request: NextRequest) {
     return NextResponse.json({
       success: true,
       message: 'Product removed from wishlist',
-      wishlist: user.wishlist
+      wishlist: visibleWishlist(user.wishlist)
     });
   } catch (error: any) {
     console.error('Error removing from wishlist:', error);
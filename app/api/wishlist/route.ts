@@ -1,18 +1,25 @@
 // app/api/wishlist/route.ts
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requireAuth } from '@/lib/authGuard';
 import Wishlist from '@/models/Wishlist';
 import connectMongo from '@/lib/mongoose';
 
+interface PopulatedWishlistItem {
+  productId: { toObject: () => Record<string, unknown> } | null;
+  addedAt: Date;
+}
+
+// Products in the trash populate as null: they stay in the wishlist, hidden,
+// and come back if the product is restored
+const toWishlistItems = (items: PopulatedWishlistItem[]) =>
+  items.flatMap((item) => (item.productId ? [{ ...item.productId.toObject(), addedAt: item.addedAt }] : []));
+
 export async function GET() {
   try {
     await connectMongo();
-    const session = await getServerSession(authOptions);
-    
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
 
     const wishlist = await Wishlist.findOne({ userId: session.user.id })
       .populate('items.productId')
@@ -22,10 +29,7 @@ export async function GET() {
       return NextResponse.json({ items: [] });
     }
 
-    const items = wishlist.items.map((item: any) => ({
-      ...item.productId.toObject(),
-      addedAt: item.addedAt
-    }));
+    const items = toWishlistItems(wishlist.items);
 
     return NextResponse.json({ items });
   } catch (error) {
@@ -39,11 +43,9 @@ export async function GET() {
 export async function POST(request: NextRequest) {
   try {
     await connectMongo();
-    const session = await getServerSession(authOptions);
-    
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
 
     const { productId } = await request.json();
 
@@ -73,10 +75,7 @@ export async function POST(request: NextRequest) {
     await wishlist.save();
     await wishlist.populate('items.productId');
 
-    const items = wishlist.items.map((item: any) => ({
-      ...item.productId.toObject(),
-      addedAt: item.addedAt
-    }));
+    const items = toWishlistItems(wishlist.items);
 
     return NextResponse.json({ items });
   } catch (error) {
@@ -90,11 +89,9 @@ export async function POST(request: NextRequest) {
 export async function DELETE(request: NextRequest) {
   try {
     await connectMongo();
-    const session = await getServerSession(authOptions);
-    
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const auth = await requireAuth();
+    if (auth.response) return auth.response;
+    const { session } = auth;
 
     const { searchParams } = new URL(request.url);
     const productId = searchParams.get('productId');
@@ -118,10 +115,7 @@ export async function DELETE(request: NextRequest) {
     await wishlist.save();
     await wishlist.populate('items.productId');
 
-    const items = wishlist.items.map((item: any) => ({
-      ...item.productId.toObject(),
-      addedAt: item.addedAt
-    }));
+    const items = toWishlistItems(wishlist.items);
 
     return NextResponse.json({ items });
   } catch (error) {
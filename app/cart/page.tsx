@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
 import { useCart } from '../context/CartContext';
+import { formatVariantOptions, getLineKey } from '@/lib/variants';
 
 export default function CartPage() {
   const { cartItems, updateQuantity, removeFromCart, getCartTotal, clearCart } = useCart();
@@ -73,7 +74,7 @@ export default function CartPage() {
               
               <div className="divide-y divide-gray-200">
                 {cartItems.map((item) => (
-                  <div key={item.productId} className="py-6 flex items-center">
+                  <div key={getLineKey(item.productId, item.variantSku)} className="py-6 flex items-center">
                     <div className="flex-shrink-0">
                       <div className="w-20 h-20 relative">
                         <Image
@@ -88,7 +89,12 @@ export default function CartPage() {
                     
                     <div className="ml-4 flex-1">
                       <h3 className="text-md font-medium text-gray-900">{item.name}</h3>
-                      <p className="mt-1 text-sm text-gray-500">Product ID: {item.productId}</p>
+                      {item.variantOptions && item.variantOptions.length > 0 && (
+                        <p className="mt-1 text-sm text-gray-700">{formatVariantOptions(item.variantOptions)}</p>
+                      )}
+                      <p className="mt-1 text-sm text-gray-500">
+                        {item.variantSku ? `SKU: ${item.variantSku}` : `Product ID: ${item.productId}`}
+                      </p>
                       <p className="mt-1 text-sm font-medium text-gray-900">{formatCurrency(item.price)}</p>
                       <p className="mt-1 text-xs text-gray-500">Quantity: {item.quantity}</p>
                     </div>
@@ -96,14 +102,14 @@ export default function CartPage() {
                     <div className="flex items-center space-x-3">
                       <div className="flex items-center border border-gray-300 rounded-lg overflow-hidden">
                         <button
-                          onClick={() => updateQuantity(item.productId, item.quantity - 1)}
+                          onClick={() => updateQuantity(getLineKey(item.productId, item.variantSku), item.quantity - 1)}
                           className="px-3 py-1 text-gray-600 hover:text-gray-700 hover:bg-gray-100"
                         >
                           -
                         </button>
                         <span className="px-3 py-1 bg-white">{item.quantity}</span>
                         <button
-                          onClick={() => updateQuantity(item.productId, item.quantity + 1)}
+                          onClick={() => updateQuantity(getLineKey(item.productId, item.variantSku), item.quantity + 1)}
                           className="px-3 py-1 text-gray-600 hover:text-gray-700 hover:bg-gray-100"
                         >
                           +
@@ -111,7 +117,7 @@ export default function CartPage() {
                       </div>
                       
                       <button
-                        onClick={() => removeFromCart(item.productId)}
+                        onClick={() => removeFromCart(getLineKey(item.productId, item.variantSku))}
                         className="text-red-600 hover:text-red-800 ml-4"
                       >
                         <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -1,12 +1,18 @@
-//app/category/[name]/page.tsx
-import { notFound } from "next/navigation";
+// app/category/[...slug]/page.tsx
+import { notFound, redirect } from "next/navigation";
 import connectMongo from "@/lib/mongoose";
 import Product from "@/models/Product";
 import Link from "next/link";
 import Image from "next/image";
+import { categoryHref, collectCategoryIds } from "@/lib/categories";
+import {
+  findCategoryByName,
+  findCategoryTrail,
+  getCategoryTree,
+} from "@/lib/categoryTree";
 
 interface CategoryPageProps {
-  params: { name: string };
+  params: Promise<{ slug: string[] }>;
 }
 
 // Format currency function with larger Taka sign
@@ -20,17 +26,74 @@ function formatCurrency(amount: number) {
 }
 
 export default async function CategoryPage({ params }: CategoryPageProps) {
-  await connectMongo();
+  const { slug } = await params;
+  const slugs = slug.map((part) => decodeURIComponent(part));
 
-  const products = await Product.find({ category: params.name }).lean();
+  await connectMongo();
+  const tree = await getCategoryTree();
+  const trail = findCategoryTrail(tree, slugs);
 
-  if (!products || products.length === 0) {
+  if (!trail) {
+    // Links from before the category tree used the name, e.g. /category/Electronics
+    const legacy = slugs.length === 1 ? findCategoryByName(tree, slugs[0]) : null;
+    if (legacy) redirect(categoryHref(legacy));
     return notFound();
   }
 
+  const category = trail[trail.length - 1];
+  const products = await Product.find({ categoryId: { $in: collectCategoryIds(category) } })
+    .sort({ createdAt: -1 })
+    .lean();
+
   return (
     <section className="px-6 py-8">
-      <h2 className="text-2xl font-bold mb-6 capitalize">{params.name}</h2>
+      {/* Breadcrumb */}
+      <nav className="flex mb-4" aria-label="Breadcrumb">
+        <ol className="flex flex-wrap items-center space-x-2 text-sm">
+          <li>
+            <Link href="/" className="text-gray-500 hover:text-indigo-600 transition-colors duration-200">
+              Home
+            </Link>
+          </li>
+          {trail.map((node, index) => (
+            <li key={node._id} className="flex items-center space-x-2">
+              <svg className="flex-shrink-0 h-4 w-4 text-gray-400" xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 20 20" aria-hidden="true">
+                <path d="M5.555 17.776l8-16 .894.448-8 16-.894-.448z" />
+              </svg>
+              {index === trail.length - 1 ? (
+                <span className="text-indigo-600 font-medium">{node.name}</span>
+              ) : (
+                <Link href={categoryHref(node)} className="text-gray-500 hover:text-indigo-600 transition-colors duration-200">
+                  {node.name}
+                </Link>
+              )}
+            </li>
+          ))}
+        </ol>
+      </nav>
+
+      <h2 className="text-2xl font-bold mb-2">{category.name}</h2>
+      {category.description && (
+        <p className="text-gray-600 mb-4">{category.description}</p>
+      )}
+
+      {category.children.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-6">
+          {category.children.map((child) => (
+            <Link
+              key={child._id}
+              href={categoryHref(child)}
+              className="bg-indigo-100 text-indigo-800 text-sm font-medium px-3 py-1 rounded-full hover:bg-indigo-200 transition-colors"
+            >
+              {child.name} ({child.productCount})
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {products.length === 0 && (
+        <p className="py-12 text-center text-gray-500">No products in this category yet.</p>
+      )}
 
       <div className="grid gap-6 grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4">
         {products.map((product: any) => (
@@ -1,12 +1,29 @@
 // app/checkout/page.tsx
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
 import { useCart } from '@/app/context/CartContext';
 import { useSession } from 'next-auth/react';
+import {
+    calculateOrderTotals,
+    calculateShippingCost,
+    FREE_SHIPPING_THRESHOLD,
+    isDhakaCity as checkIsDhakaCity,
+    ShippingMethod,
+} from '@/lib/pricing';
+import { formatVariantOptions, getLineKey } from '@/lib/variants';
+import { AppliedDiscount } from '@/lib/coupons';
+
+interface PriceChange {
+    productId: string;
+    variantSku?: string;
+    name: string;
+    expectedPrice: number;
+    currentPrice: number;
+}
 
 interface FormData {
     email: string;
@@ -18,7 +35,7 @@ interface FormData {
     zipCode: string;
     phone: string;
     saveInfo: boolean;
-    shippingMethod: 'standard' | 'express' | 'priority';
+    shippingMethod: ShippingMethod;
     paymentMethod: 'card' | 'paypal' | 'applepay' | 'cod';
     cardNumber: string;
     cardName: string;
@@ -42,7 +59,7 @@ interface UserData {
 }
 
 export default function CheckoutPage() {
-    const { cartItems, getCartTotal, clearCart } = useCart();
+    const { cartItems, getCartTotal, clearCart, updatePrices } = useCart();
     const { data: session, status } = useSession();
     const router = useRouter();
 
@@ -51,6 +68,11 @@ export default function CheckoutPage() {
     const [activeStep, setActiveStep] = useState(1);
     const [isProcessingOrder, setIsProcessingOrder] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [priceChanges, setPriceChanges] = useState<PriceChange[]>([]);
+    const [couponInput, setCouponInput] = useState('');
+    const [appliedCoupon, setAppliedCoupon] = useState<AppliedDiscount | null>(null);
+    const [couponError, setCouponError] = useState<string | null>(null);
+    const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
 
     const [formData, setFormData] = useState<FormData>({
         email: '',
@@ -70,29 +92,21 @@ export default function CheckoutPage() {
         cardCvc: '',
     });
 
-    // Calculate shipping cost based on location and order total
-    const isDhakaCity = formData.city.toLowerCase().includes('dhaka');
-    const freeShippingThreshold = 3000;
-    const dhakaShippingCharge = 80;
-    const outsideDhakaShippingCharge = 120;
-
-    // Calculate shipping cost
-    let shippingCost = 0;
-    if (getCartTotal() < freeShippingThreshold) {
-        shippingCost = isDhakaCity ? dhakaShippingCharge : outsideDhakaShippingCharge;
-    }
-
-    // Add premium for express/priority shipping
-    if (formData.shippingMethod === 'express') {
-        shippingCost += 50;
-    } else if (formData.shippingMethod === 'priority') {
-        shippingCost += 100;
-    }
+    // Same pricing rules the server applies when the order is placed
+    const isDhakaCity = checkIsDhakaCity(formData.city);
+    const freeShippingThreshold = FREE_SHIPPING_THRESHOLD;
+    const { subtotal, discount, shippingCost, tax, total } = calculateOrderTotals({
+        subtotal: getCartTotal(),
+        city: formData.city,
+        shippingMethod: formData.shippingMethod,
+        discount: appliedCoupon?.amount,
+        shippingDiscount: appliedCoupon?.shippingAmount,
+    });
 
-    // Calculate totals
-    const subtotal = getCartTotal();
-    const tax = subtotal * 0.08;
-    const total = subtotal + shippingCost + tax;
+    const formatShippingPrice = (method: ShippingMethod) => {
+        const cost = calculateShippingCost(subtotal, formData.city, method);
+        return cost === 0 ? 'Free' : `৳${cost}`;
+    };
 
     // Fetch user data if logged in
     useEffect(() => {
@@ -139,6 +153,61 @@ export default function CheckoutPage() {
         }
     }, [cartItems, isProcessingOrder, activeStep, router]);
 
+    // The server works out the discount; the preview is only for display
+    const applyCoupon = useCallback(async (code: string) => {
+        setIsApplyingCoupon(true);
+        setCouponError(null);
+        try {
+            const response = await fetch('/api/coupons/validate', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    code,
+                    items: cartItems.map(item => ({
+                        productId: item.productId,
+                        variantSku: item.variantSku,
+                        quantity: item.quantity,
+                    })),
+                    city: formData.city,
+                    shippingMethod: formData.shippingMethod,
+                }),
+            });
+            const data = await response.json();
+
+            if (!response.ok || !data.success) {
+                throw new Error(data.error || 'Failed to apply coupon');
+            }
+            setAppliedCoupon(data.coupon);
+        } catch (error) {
+            setAppliedCoupon(null);
+            setCouponError(error instanceof Error ? error.message : 'Failed to apply coupon');
+        } finally {
+            setIsApplyingCoupon(false);
+        }
+    }, [cartItems, formData.city, formData.shippingMethod]);
+
+    // Re-check the applied coupon when the cart or shipping changes, since
+    // minimum spend and free shipping depend on both
+    const appliedCouponCode = appliedCoupon?.code;
+    useEffect(() => {
+        if (!appliedCouponCode) return;
+        const timer = setTimeout(() => applyCoupon(appliedCouponCode), 400);
+        return () => clearTimeout(timer);
+    }, [appliedCouponCode, applyCoupon]);
+
+    const handleApplyCoupon = () => {
+        const code = couponInput.trim();
+        if (code) applyCoupon(code);
+    };
+
+    const removeCoupon = () => {
+        setAppliedCoupon(null);
+        setCouponInput('');
+        setCouponError(null);
+    };
+
     // Auto-update shipping when city or shipping method changes
     useEffect(() => {
         // This effect will trigger re-renders when dependencies change
@@ -161,6 +230,7 @@ export default function CheckoutPage() {
         setLoading(true);
         setIsProcessingOrder(true);
         setError(null);
+        setPriceChanges([]);
 
         // Basic validation
         if (!formData.email || !formData.firstName || !formData.lastName ||
@@ -184,21 +254,17 @@ export default function CheckoutPage() {
                 phone: formData.phone,
                 shippingMethod: formData.shippingMethod,
                 paymentMethod: formData.paymentMethod,
+                couponCode: appliedCoupon?.code,
+                // Amounts are computed on the server; prices are sent only so
+                // the server can tell us if they changed since items were added
                 items: cartItems.map(item => ({
                     productId: item.productId,
-                    name: item.name,
+                    variantSku: item.variantSku,
                     price: item.price,
                     quantity: item.quantity,
-                    images: item.images || []
                 })),
-                subtotal,
-                shippingCost,
-                tax,
-                total,
                 userId: session?.user?.id || null,
                 saveInfo: formData.saveInfo && !!session?.user?.id,
-                isDhakaCity: formData.city.toLowerCase().includes('dhaka'),
-                freeShippingApplied: subtotal >= freeShippingThreshold
             };
 
             console.log('Submitting order:', orderData);
@@ -214,6 +280,18 @@ export default function CheckoutPage() {
 
             if (!response.ok) {
                 const errorData = await response.json();
+                if (response.status === 409 && Array.isArray(errorData.priceChanges)) {
+                    // Bring the cart up to date so the summary shows what will be charged
+                    updatePrices(Object.fromEntries(
+                        errorData.priceChanges.map((change: PriceChange) => [getLineKey(change.productId, change.variantSku), change.currentPrice])
+                    ));
+                    setPriceChanges(errorData.priceChanges);
+                }
+                if (response.status === 409 && errorData.couponCode) {
+                    // The coupon ran out or stopped applying since it was checked
+                    setAppliedCoupon(null);
+                    setCouponError(errorData.error);
+                }
                 throw new Error(errorData.error || 'Failed to create order');
             }
 
@@ -248,7 +326,7 @@ export default function CheckoutPage() {
             clearCart();
 
             // Redirect to success page
-            router.push(`/checkout/success?orderId=${orderId}&total=${total.toFixed(2)}&method=${formData.paymentMethod}`);
+            router.push(`/checkout/success?orderId=${orderId}&total=${Number(result.total).toFixed(2)}&method=${formData.paymentMethod}&email=${encodeURIComponent(formData.email)}`);
 
         } catch (error) {
             console.error('Order processing failed:', error);
@@ -307,6 +385,16 @@ export default function CheckoutPage() {
                             </div>
                         </div>
                     )}
+
+                    {/* Signed-in customers verify their email before ordering */}
+                    {session && !session.user.emailVerified && (
+                        <div className="max-w-md mx-auto mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                            Please verify your email address before placing an order.{' '}
+                            <Link href="/verify-email" className="font-medium underline hover:text-amber-900">
+                                Verify now
+                            </Link>
+                        </div>
+                    )}
                 </div>
 
                 {/* Error Message */}
@@ -321,6 +409,20 @@ export default function CheckoutPage() {
                             <div className="ml-3">
                                 <h3 className="text-sm font-medium text-red-800">Error</h3>
                                 <p className="text-sm text-red-700 mt-1">{error}</p>
+                                {priceChanges.length > 0 && (
+                                    <>
+                                        <ul className="text-sm text-red-700 mt-2 list-disc list-inside">
+                                            {priceChanges.map((change) => (
+                                                <li key={getLineKey(change.productId, change.variantSku)}>
+                                                    {change.name}: ৳{change.expectedPrice.toFixed(2)} → ৳{change.currentPrice.toFixed(2)}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                        <p className="text-sm text-red-700 mt-2">
+                                            Your cart has been updated. Please review the new total and place your order again.
+                                        </p>
+                                    </>
+                                )}
                             </div>
                         </div>
                     </div>
@@ -505,19 +607,19 @@ export default function CheckoutPage() {
                                             { 
                                                 id: 'standard', 
                                                 name: 'Standard Shipping', 
-                                                price: subtotal >= freeShippingThreshold ? 'Free' : (isDhakaCity ? '৳80' : '৳120'), 
+                                                price: formatShippingPrice('standard'), 
                                                 time: isDhakaCity ? '1-2 business days' : '3-5 business days' 
                                             },
                                             { 
                                                 id: 'express', 
                                                 name: 'Express Shipping', 
-                                                price: subtotal >= freeShippingThreshold ? '৳50' : (isDhakaCity ? '৳130' : '৳170'), 
+                                                price: formatShippingPrice('express'), 
                                                 time: isDhakaCity ? 'Same day delivery' : '1-2 business days' 
                                             },
                                             { 
                                                 id: 'priority', 
                                                 name: 'Priority Shipping', 
-                                                price: subtotal >= freeShippingThreshold ? '৳100' : (isDhakaCity ? '৳180' : '৳220'), 
+                                                price: formatShippingPrice('priority'), 
                                                 time: isDhakaCity ? 'Within 4 hours' : 'Next business day' 
                                             },
                                         ].map((method) => (
@@ -667,7 +769,7 @@ export default function CheckoutPage() {
                                         </button>
                                         <button
                                             type="submit"
-                                            disabled={loading}
+                                            disabled={loading || (!!session && !session.user.emailVerified)}
                                             className="px-6 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                                         >
                                             {loading ? 'Processing...' : `Place Order - ৳${total.toFixed(2)}`}
@@ -688,7 +790,7 @@ export default function CheckoutPage() {
                             {/* Cart Items */}
                             <div className="space-y-4 mb-6 max-h-64 overflow-y-auto">
                                 {cartItems.map((item) => (
-                                    <div key={item.productId} className="flex items-center space-x-3">
+                                    <div key={getLineKey(item.productId, item.variantSku)} className="flex items-center space-x-3">
                                         <div className="flex-shrink-0 w-16 h-16 relative bg-gray-100 rounded-lg">
                                             <Image
                                                 src={item.images?.[0] || '/placeholder.png'}
@@ -704,6 +806,9 @@ export default function CheckoutPage() {
                                             <h3 className="text-sm font-medium text-gray-900 truncate">
                                                 {item.name}
                                             </h3>
+                                            {item.variantOptions && item.variantOptions.length > 0 && (
+                                                <p className="text-xs text-gray-500 truncate">{formatVariantOptions(item.variantOptions)}</p>
+                                            )}
                                             <p className="text-sm text-gray-600">৳{item.price.toFixed(2)}</p>
                                         </div>
                                         <div className="text-sm font-medium text-gray-900">
@@ -755,12 +860,67 @@ export default function CheckoutPage() {
                                 </p>
                             </div>
 
+                            {/* Coupon */}
+                            <div className="mb-4">
+                                {appliedCoupon ? (
+                                    <div className="flex items-center justify-between p-3 bg-green-50 border border-green-200 rounded-lg">
+                                        <div className="text-sm text-green-800">
+                                            <span className="font-semibold">{appliedCoupon.code}</span>
+                                            {appliedCoupon.description && (
+                                                <span className="block text-xs">{appliedCoupon.description}</span>
+                                            )}
+                                        </div>
+                                        <button
+                                            type="button"
+                                            onClick={removeCoupon}
+                                            className="text-sm text-green-700 hover:text-green-900 underline"
+                                        >
+                                            Remove
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <div className="flex space-x-2">
+                                        <input
+                                            type="text"
+                                            value={couponInput}
+                                            onChange={(e) => setCouponInput(e.target.value)}
+                                            onKeyDown={(e) => {
+                                                if (e.key === 'Enter') {
+                                                    e.preventDefault();
+                                                    handleApplyCoupon();
+                                                }
+                                            }}
+                                            placeholder="Promo code"
+                                            maxLength={30}
+                                            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm uppercase focus:outline-none focus:border-indigo-500"
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={handleApplyCoupon}
+                                            disabled={isApplyingCoupon || !couponInput.trim()}
+                                            className="px-4 py-2 bg-gray-900 text-white text-sm rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                        >
+                                            {isApplyingCoupon ? 'Applying...' : 'Apply'}
+                                        </button>
+                                    </div>
+                                )}
+                                {couponError && (
+                                    <p className="mt-2 text-sm text-red-600">{couponError}</p>
+                                )}
+                            </div>
+
                             {/* Order Total */}
                             <div className="space-y-3 border-t border-gray-200 pt-4">
                                 <div className="flex justify-between text-sm">
                                     <span className="text-gray-600">Subtotal</span>
                                     <span className="font-medium">৳{subtotal.toFixed(2)}</span>
                                 </div>
+                                {discount > 0 && (
+                                    <div className="flex justify-between text-sm text-green-700">
+                                        <span>Discount ({appliedCoupon?.code})</span>
+                                        <span className="font-medium">-৳{discount.toFixed(2)}</span>
+                                    </div>
+                                )}
                                 <div className="flex justify-between text-sm">
                                     <span className="text-gray-600">Shipping</span>
                                     <span className="font-medium">
@@ -5,6 +5,7 @@ import { useEffect, useState } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
+import { formatVariantOptions, getLineKey, VariantOptionValue } from '@/lib/variants';
 
 interface Order {
   _id: string;
@@ -20,10 +21,14 @@ interface Order {
   shippingCost: number;
   paymentMethod: string;
   subtotal: number;
+  discount?: number;
+  discounts?: { code: string; amount: number; shippingAmount: number }[];
   tax: number;
   total: number;
   items: {
     productId: string;
+    variantSku?: string;
+    variantOptions?: VariantOptionValue[];
     name: string;
     price: number;
     quantity: number;
@@ -37,6 +42,7 @@ export default function CheckoutSuccessPage() {
   const searchParams = useSearchParams();
   const orderId = searchParams.get('orderId');
   const paymentMethod = searchParams.get('method');
+  const email = searchParams.get('email');
   const [order, setOrder] = useState<Order | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -50,7 +56,11 @@ export default function CheckoutSuccessPage() {
 
   useEffect(() => {
     if (orderId) {
-      fetch(`/api/orders?orderId=${orderId}`)
+      const query = new URLSearchParams({ orderId });
+      // Guests are matched to their order by the email they checked out with
+      if (email) query.set('email', email);
+
+      fetch(`/api/orders?${query.toString()}`)
         .then((res) => {
           if (!res.ok) {
             throw new Error('Failed to fetch order');
@@ -69,7 +79,7 @@ export default function CheckoutSuccessPage() {
         })
         .finally(() => setLoading(false));
     }
-  }, [orderId]);
+  }, [orderId, email]);
 
   // Format currency function
   const formatCurrency = (amount: number) => {
@@ -167,7 +177,7 @@ export default function CheckoutSuccessPage() {
               
               <div className="space-y-4">
                 {order.items.map((item) => (
-                  <div key={item.productId} className="flex items-center justify-between p-4 border border-gray-100 rounded-lg">
+                  <div key={getLineKey(item.productId, item.variantSku)} className="flex items-center justify-between p-4 border border-gray-100 rounded-lg">
                     <div className="flex items-center">
                       {item.images && item.images[0] && (
                         <div className="relative w-16 h-16 rounded-lg overflow-hidden mr-4">
@@ -181,6 +191,9 @@ export default function CheckoutSuccessPage() {
                       )}
                       <div>
                         <p className="font-medium text-gray-900">{item.name}</p>
+                        {item.variantOptions && item.variantOptions.length > 0 && (
+                          <p className="text-sm text-gray-600">{formatVariantOptions(item.variantOptions)}</p>
+                        )}
                         <p className="text-sm text-gray-500">Qty: {item.quantity}</p>
                       </div>
                     </div>
@@ -245,6 +258,13 @@ export default function CheckoutSuccessPage() {
                   <span className="text-gray-600">Subtotal</span>
                   <span className="text-gray-900">{formatCurrency(order.subtotal)}</span>
                 </div>
+
+                {!!order.discount && (
+                  <div className="flex justify-between text-green-700">
+                    <span>Discount ({order.discounts?.map((discount) => discount.code).join(', ')})</span>
+                    <span>-{formatCurrency(order.discount)}</span>
+                  </div>
+                )}
                 
                 <div className="flex justify-between">
                   <span className="text-gray-600">Shipping</span>
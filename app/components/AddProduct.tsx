@@ -4,6 +4,7 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Layout from './Layout';
+import CategorySelect from './CategorySelect';
 
 interface ProductFormData {
   productId: string;
@@ -11,12 +12,11 @@ interface ProductFormData {
   description: string;
   price: number;
   originalPrice?: number;
-  category: string;
+  categoryId: string;
   image: string; // main image
   images: string[]; // multiple images
-  rating: number;
-  reviews: number;
-  inStock: boolean;
+  stockQuantity: number;
+  lowStockThreshold: number;
   features: string[];
 }
 
@@ -39,12 +39,11 @@ export default function AddProduct() {
     description: '',
     price: 0,
     originalPrice: undefined,
-    category: '',
+    categoryId: '',
     image: '',
     images: [],
-    rating: 0,
-    reviews: 0,
-    inStock: true,
+    stockQuantity: 0,
+    lowStockThreshold: 5,
     features: [],
   });
 
@@ -168,12 +167,12 @@ export default function AddProduct() {
       newErrors.description = 'Description is required.';
     if (formData.price <= 0)
       newErrors.price = 'Price must be greater than 0.';
-    if (!formData.category.trim())
+    if (!formData.categoryId)
       newErrors.category = 'Category is required.';
     if (formData.images.length === 0)
       newErrors.images = 'At least one image is required.';
-    if (formData.rating < 0 || formData.rating > 5)
-      newErrors.rating = 'Rating must be between 0 and 5.';
+    if (!Number.isInteger(Number(formData.stockQuantity)) || Number(formData.stockQuantity) < 0)
+      newErrors.stockQuantity = 'Stock quantity must be a whole number of 0 or more.';
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -199,8 +198,8 @@ export default function AddProduct() {
           originalPrice: formData.originalPrice
             ? Number(formData.originalPrice)
             : undefined,
-          rating: Number(formData.rating),
-          reviews: Number(formData.reviews),
+          stockQuantity: Number(formData.stockQuantity),
+          lowStockThreshold: Number(formData.lowStockThreshold),
         }),
       });
 
@@ -213,12 +212,11 @@ export default function AddProduct() {
           description: '',
           price: 0,
           originalPrice: undefined,
-          category: '',
+          categoryId: '',
           image: '',
           images: [],
-          rating: 0,
-          reviews: 0,
-          inStock: true,
+          stockQuantity: 0,
+          lowStockThreshold: 5,
           features: [],
         });
         setFeatures([]);
@@ -342,50 +340,14 @@ export default function AddProduct() {
           </div>
         </div>
 
-        {/* Rating & Reviews */}
-        <div className="grid grid-cols-2 gap-6">
-          <div>
-            <label className="block text-sm font-medium text-gray-700">
-              Rating (0–5)
-            </label>
-            <input
-              type="number"
-              name="rating"
-              value={formData.rating}
-              onChange={handleInputChange}
-              min="0"
-              max="5"
-              step="0.1"
-              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
-            />
-            {errors.rating && (
-              <p className="text-sm text-red-600">{errors.rating}</p>
-            )}
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700">
-              Number of Reviews
-            </label>
-            <input
-              type="number"
-              name="reviews"
-              value={formData.reviews}
-              onChange={handleInputChange}
-              min="0"
-              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
-            />
-          </div>
-        </div>
-
         {/* Category */}
         <div>
           <label className="block text-sm font-medium text-gray-700">
             Category *
           </label>
-          <input
-            type="text"
-            name="category"
-            value={formData.category}
+          <CategorySelect
+            name="categoryId"
+            value={formData.categoryId}
             onChange={handleInputChange}
             className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
           />
@@ -503,16 +465,39 @@ export default function AddProduct() {
           )}
         </div>
 
-        {/* In Stock */}
-        <div className="flex items-center">
-          <input
-            type="checkbox"
-            name="inStock"
-            checked={formData.inStock}
-            onChange={handleInputChange}
-            className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
-          />
-          <label className="ml-2 text-sm text-gray-900">In Stock</label>
+        {/* Inventory */}
+        <div className="grid grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Stock Quantity *
+            </label>
+            <input
+              type="number"
+              name="stockQuantity"
+              value={formData.stockQuantity}
+              onChange={handleInputChange}
+              min="0"
+              step="1"
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+            />
+            {errors.stockQuantity && (
+              <p className="text-sm text-red-600">{errors.stockQuantity}</p>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Low Stock Threshold
+            </label>
+            <input
+              type="number"
+              name="lowStockThreshold"
+              value={formData.lowStockThreshold}
+              onChange={handleInputChange}
+              min="0"
+              step="1"
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+            />
+          </div>
         </div>
 
         {/* Submit */}
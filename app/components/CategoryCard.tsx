@@ -1,22 +1,18 @@
 "use client";
 import React, { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-
-interface Category {
-  name: string;
-  image: string;
-  productCount: number;
-}
+import { CategoryNode, categoryHref } from "@/lib/categories";
 
 const CategoryCard = () => {
-  const [categories, setCategories] = useState<Category[]>([]);
+  const [categories, setCategories] = useState<CategoryNode[]>([]);
   const router = useRouter();
 
   useEffect(() => {
     const fetchCategories = async () => {
       const res = await fetch("/api/categories");
       const data = await res.json();
-      setCategories(data);
+      // Top-level categories only; their pages list the subcategories
+      setCategories(data.data || []);
     };
     fetchCategories();
   }, []);
@@ -28,8 +24,8 @@ const CategoryCard = () => {
       <div className="grid gap-6 grid-cols-1 sm:grid-cols-2 md:grid-cols-4">
         {categories.map((cat) => (
           <div
-            key={cat.name}
-            onClick={() => router.push(`/category/${cat.name}`)}
+            key={cat._id}
+            onClick={() => router.push(categoryHref(cat))}
             className="w-full max-w-sm rounded-2xl overflow-hidden shadow-md bg-white cursor-pointer hover:shadow-xl transition"
           >
             <img
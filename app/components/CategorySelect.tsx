@@ -0,0 +1,43 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CategoryNode, flattenCategoryTree } from '@/lib/categories';
+
+interface CategorySelectProps {
+  name: string;
+  value: string;
+  onChange: (e: React.ChangeEvent<HTMLSelectElement>) => void;
+  className?: string;
+}
+
+// Picks a category from the tree, with subcategories indented under their parent
+export default function CategorySelect({ name, value, onChange, className }: CategorySelectProps) {
+  const [categories, setCategories] = useState<CategoryNode[]>([]);
+
+  useEffect(() => {
+    const fetchCategories = async () => {
+      try {
+        const res = await fetch('/api/categories');
+        if (res.ok) {
+          const data = await res.json();
+          setCategories(data.data || []);
+        }
+      } catch (error) {
+        console.error('Failed to load categories', error);
+      }
+    };
+    fetchCategories();
+  }, []);
+
+  return (
+    <select name={name} value={value} onChange={onChange} className={className}>
+      <option value="">Select a category</option>
+      {flattenCategoryTree(categories).map(({ node, depth }) => (
+        <option key={node._id} value={node._id}>
+          {'  '.repeat(depth * 2)}
+          {node.name}
+        </option>
+      ))}
+    </select>
+  );
+}
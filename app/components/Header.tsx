@@ -24,16 +24,24 @@ import {
 import { useCart } from "../context/CartContext";
 import { useWishlist } from "../context/WishlistContext";
 import { useSession, signIn, signOut } from "next-auth/react";
+import { SearchSuggestions } from "@/lib/productListing";
+import { roleHasPermission } from "@/lib/roles";
+import { CategoryNode, categoryHref, flattenCategoryTree } from "@/lib/categories";
 
-interface Category {
-  name: string;
-}
+const MIN_SUGGEST_LENGTH = 2;
 
 const Header = () => {
   const { getCartItemsCount } = useCart();
   const { getWishlistItemsCount } = useWishlist();
   const { data: session, status } = useSession();
-  const [categories, setCategories] = useState<Category[]>([]);
+  // Admins manage the store from /admin; staff fulfil orders from /dashboard
+  const dashboardLink =
+    session?.user?.role === "admin"
+      ? { href: "/admin", label: "Admin Dashboard" }
+      : roleHasPermission(session?.user?.role, "dashboard:view")
+        ? { href: "/dashboard", label: "Staff Dashboard" }
+        : null;
+  const [categories, setCategories] = useState<CategoryNode[]>([]);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isProductsExpanded, setIsProductsExpanded] = useState(false);
   const [isAccountMenuOpen, setIsAccountMenuOpen] = useState(false);
@@ -41,6 +49,7 @@ const Header = () => {
   const [searchQuery, setSearchQuery] = useState("");
   const [isSearchFocused, setIsSearchFocused] = useState(false);
   const [isMobileSearchVisible, setIsMobileSearchVisible] = useState(false);
+  const [suggestions, setSuggestions] = useState<SearchSuggestions | null>(null);
   
   const accountMenuRef = useRef<HTMLDivElement>(null);
   const categoryMenuRef = useRef<HTMLDivElement>(null);
@@ -54,7 +63,7 @@ const Header = () => {
         const res = await fetch("/api/categories");
         if (res.ok) {
           const data = await res.json();
-          setCategories(data);
+          setCategories(data.data || []);
         }
       } catch (error) {
         console.error("Failed to load categories", error);
@@ -63,6 +72,36 @@ const Header = () => {
     fetchCategories();
   }, []);
 
+  // Autocomplete as the user types, debounced so each keystroke doesn't hit the API
+  const trimmedQuery = searchQuery.trim();
+  const showSuggestions = trimmedQuery.length >= MIN_SUGGEST_LENGTH;
+
+  useEffect(() => {
+    if (trimmedQuery.length < MIN_SUGGEST_LENGTH) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/search?mode=suggest&q=${encodeURIComponent(trimmedQuery)}`, {
+          signal: controller.signal,
+        });
+        if (res.ok) {
+          const data = await res.json();
+          setSuggestions({ products: data.products || [], categories: data.categories || [] });
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error("Failed to load search suggestions", error);
+        }
+      }
+    }, 250);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [trimmedQuery]);
+
   // Close menus when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -107,8 +146,8 @@ const Header = () => {
   const toggleCategoryMenu = () => setIsCategoryMenuOpen(!isCategoryMenuOpen);
   const toggleMobileSearch = () => setIsMobileSearchVisible(!isMobileSearchVisible);
 
-  const handleCategoryClick = (categoryName: string) => {
-    router.push(`/category/${categoryName}`);
+  const handleCategoryClick = (category: CategoryNode) => {
+    router.push(categoryHref(category));
     setIsMobileMenuOpen(false);
     setIsProductsExpanded(false);
     setIsCategoryMenuOpen(false);
@@ -140,6 +179,12 @@ const Header = () => {
     setIsMobileSearchVisible(false);
   };
 
+  const handleSuggestionClick = (path: string) => {
+    setSearchQuery("");
+    handleNavigation(path);
+    setIsSearchFocused(false);
+  };
+
   const handleLogout = () => {
     signOut();
     setIsAccountMenuOpen(false);
@@ -147,6 +192,89 @@ const Header = () => {
 
   const quickSearches = ["Smartphones", "Laptops", "Headphones", "Cameras", "Smart Watches"];
 
+  // Shared by the desktop and mobile search dropdowns
+  const renderSearchSuggestions = (keyPrefix: string) => {
+    if (!showSuggestions || !suggestions) {
+      return (
+        <>
+          <div className="p-2 border-b border-gray-100">
+            <p className="text-xs font-medium text-gray-700">Quick searches</p>
+          </div>
+          {quickSearches.map((item, index) => (
+            <button
+              key={`${keyPrefix}-quick-search-${index}`}
+              type="button"
+              onClick={() => handleQuickSearch(item)}
+              className="flex items-center w-full px-3 py-2 text-left text-gray-600 hover:bg-gray-50 text-sm"
+            >
+              <FiSearch className="mr-2 text-gray-400" size={14} />
+              {item}
+            </button>
+          ))}
+        </>
+      );
+    }
+
+    return (
+      <>
+        {suggestions.products.length > 0 && (
+          <>
+            <div className="p-2 border-b border-gray-100">
+              <p className="text-xs font-medium text-gray-700">Products</p>
+            </div>
+            {suggestions.products.map((product) => (
+              <button
+                key={`${keyPrefix}-product-${product._id}`}
+                type="button"
+                onClick={() => handleSuggestionClick(`/products/${product._id}`)}
+                className="flex items-center w-full px-3 py-2 text-left text-gray-700 hover:bg-gray-50 text-sm"
+              >
+                <Image
+                  src={product.image || "/placeholder.png"}
+                  alt={product.name}
+                  width={32}
+                  height={32}
+                  className="mr-3 h-8 w-8 rounded object-cover"
+                />
+                <span className="flex-1 truncate">{product.name}</span>
+                <span className="ml-2 text-gray-500">৳{product.price.toFixed(2)}</span>
+              </button>
+            ))}
+          </>
+        )}
+
+        {suggestions.categories.length > 0 && (
+          <>
+            <div className="p-2 border-y border-gray-100">
+              <p className="text-xs font-medium text-gray-700">Categories</p>
+            </div>
+            {suggestions.categories.map(({ category, count }) => (
+              <button
+                key={`${keyPrefix}-category-${category}`}
+                type="button"
+                onClick={() => handleSuggestionClick(`/category/${encodeURIComponent(category)}`)}
+                className="flex items-center w-full px-3 py-2 text-left text-gray-600 hover:bg-gray-50 text-sm capitalize"
+              >
+                <FiList className="mr-2 text-gray-400" size={14} />
+                <span className="flex-1">{category}</span>
+                <span className="text-xs text-gray-400">{count}</span>
+              </button>
+            ))}
+          </>
+        )}
+
+        <button
+          type="button"
+          onClick={() => handleQuickSearch(trimmedQuery)}
+          className="flex items-center w-full px-3 py-2 text-left text-orange-600 hover:bg-orange-50 text-sm border-t border-gray-100"
+        >
+          <FiSearch className="mr-2" size={14} />
+          Search for &ldquo;{trimmedQuery}&rdquo;
+        </button>
+      </>
+    );
+  };
+
   return (
     <header className="bg-white shadow-sm border-b border-gray-100 sticky top-0 z-100">
       {/* Top Bar */}
@@ -199,14 +327,19 @@ const Header = () => {
               {isCategoryMenuOpen && (
                 <div className="absolute top-full left-0 mt-2 w-64 bg-white shadow-xl rounded-lg border border-gray-200 py-2 z-50">
                   <div className="max-h-96 overflow-y-auto">
-                    {categories.map((cat) => (
+                    {/* Subcategories are indented under their parent */}
+                    {flattenCategoryTree(categories).map(({ node, depth }) => (
                       <button
-                        key={cat.name}
-                        onClick={() => handleCategoryClick(cat.name)}
-                        className="flex items-center w-full px-4 py-3 text-left text-gray-700 hover:bg-orange-50 hover:text-orange-600 transition-colors border-b border-gray-100 last:border-b-0 text-sm"
+                        key={node._id}
+                        onClick={() => handleCategoryClick(node)}
+                        style={{ paddingLeft: `${1 + depth * 1.25}rem` }}
+                        className={`flex items-center w-full px-4 text-left hover:bg-orange-50 hover:text-orange-600 transition-colors border-b border-gray-100 last:border-b-0 text-sm ${
+                          depth === 0 ? "py-3 text-gray-700" : "py-2 text-gray-600"
+                        }`}
                       >
-                        <FiTag className="mr-3 text-gray-400" size={16} />
-                        <span className="font-medium">{cat.name}</span>
+                        <FiTag className="mr-3 text-gray-400" size={depth === 0 ? 16 : 12} />
+                        <span className={depth === 0 ? "font-medium" : ""}>{node.name}</span>
+                        <span className="ml-auto text-xs text-gray-400">{node.productCount}</span>
                       </button>
                     ))}
                   </div>
@@ -239,19 +372,7 @@ const Header = () => {
               {/* Search Suggestions */}
               {isSearchFocused && searchQuery && (
                 <div className="absolute top-full left-0 right-0 bg-white shadow-lg rounded-lg border border-gray-200 mt-1 z-50">
-                  <div className="p-2 border-b border-gray-100">
-                    <p className="text-xs font-medium text-gray-700">Quick searches</p>
-                  </div>
-                  {quickSearches.map((item, index) => (
-                    <button
-                      key={`quick-search-${index}`}
-                      onClick={() => handleQuickSearch(item)}
-                      className="flex items-center w-full px-3 py-2 text-left text-gray-600 hover:bg-gray-50 text-sm"
-                    >
-                      <FiSearch className="mr-2 text-gray-400" size={14} />
-                      {item}
-                    </button>
-                  ))}
+                  {renderSearchSuggestions("desktop")}
                 </div>
               )}
             </form>
@@ -396,13 +517,13 @@ const Header = () => {
                           </>
                         )}
 
-                        {session.user?.role === "admin" && (
+                        {dashboardLink && (
                           <button
-                            onClick={() => handleNavigation("/admin")}
+                            onClick={() => handleNavigation(dashboardLink.href)}
                             className="flex items-center w-full px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 transition-colors border-t border-gray-100 mt-1"
                           >
                             <FiSettings className="mr-2" size={14} />
-                            Admin Dashboard
+                            {dashboardLink.label}
                           </button>
                         )}
                       </div>
@@ -444,22 +565,10 @@ const Header = () => {
             </button>
           </form>
           
-          {/* Quick Search Suggestions for Mobile */}
+          {/* Search Suggestions for Mobile */}
           {searchQuery && (
             <div className="absolute left-0 right-0 bg-white shadow-lg rounded-lg border border-gray-200 mt-1 z-40">
-              <div className="p-2 border-b border-gray-100">
-                <p className="text-xs font-medium text-gray-700">Quick searches</p>
-              </div>
-              {quickSearches.map((item, index) => (
-                <button
-                  key={`mobile-quick-search-${index}`}
-                  onClick={() => handleQuickSearch(item)}
-                  className="flex items-center w-full px-3 py-2 text-left text-gray-600 hover:bg-gray-50 text-sm"
-                >
-                  <FiSearch className="mr-2 text-gray-400" size={14} />
-                  {item}
-                </button>
-              ))}
+              {renderSearchSuggestions("mobile")}
             </div>
           )}
         </div>
@@ -622,14 +731,15 @@ const Header = () => {
                         All Products
                       </button>
                     </li>
-                    {categories.map((cat) => (
-                      <li key={cat.name}>
+                    {flattenCategoryTree(categories).map(({ node, depth }) => (
+                      <li key={node._id}>
                         <button
-                          onClick={() => handleCategoryClick(cat.name)}
+                          onClick={() => handleCategoryClick(node)}
+                          style={{ paddingLeft: `${0.75 + depth}rem` }}
                           className="flex items-center w-full text-left py-2 px-3 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors text-sm"
                         >
                           <FiTag className="mr-2" size={12} />
-                          {cat.name}
+                          {node.name}
                         </button>
                       </li>
                     ))}
@@ -706,14 +816,14 @@ const Header = () => {
               </button>
             </li>
 
-            {session?.user?.role === "admin" && (
+            {dashboardLink && (
               <li key="admin">
                 <button
-                  onClick={() => handleNavigation("/admin")}
+                  onClick={() => handleNavigation(dashboardLink.href)}
                   className="flex items-center w-full text-left py-2 px-3 rounded-lg text-orange-600 hover:bg-orange-50 transition-colors text-sm border-t border-gray-200 mt-2 pt-2"
                 >
                   <FiSettings className="mr-3" size={16} />
-                  Admin Dashboard
+                  {dashboardLink.label}
                 </button>
               </li>
             )}
@@ -17,7 +17,10 @@ import {
   FiX,
   FiDollarSign,
   FiTag,
-  FiTruck
+  FiTruck,
+  FiPercent,
+  FiStar,
+  FiFolder
 } from 'react-icons/fi';
 
 interface LayoutProps {
@@ -41,6 +44,9 @@ const Sidebar = ({ isCollapsed, isMobileOpen, setIsMobileOpen }: {
     { name: 'Dashboard', href: '/dashboard', icon: <FiHome className="w-5 h-5" /> },
     { name: 'Orders', href: '/admin/orders', icon: <FiShoppingCart className="w-5 h-5" /> },
     { name: 'Products', href: '/products/crud', icon: <FiPackage className="w-5 h-5" /> },
+    { name: 'Categories', href: '/admin/categories', icon: <FiFolder className="w-5 h-5" /> },
+    { name: 'Coupons', href: '/admin/coupons', icon: <FiPercent className="w-5 h-5" /> },
+    { name: 'Reviews', href: '/admin/reviews', icon: <FiStar className="w-5 h-5" /> },
     { name: 'Customers', href: '/dashboard/customers', icon: <FiUsers className="w-5 h-5" /> },
     { name: 'Inventory', href: '/dashboard/inventory', icon: <FiTag className="w-5 h-5" /> },
     { name: 'Shipping', href: '/dashboard/shipping', icon: <FiTruck className="w-5 h-5" /> },
@@ -0,0 +1,71 @@
+"use client";
+import React from "react";
+import { ORDER_STATUS_LABELS, OrderStatus } from "@/lib/orderStatus";
+
+export interface OrderStatusChange {
+  status: OrderStatus;
+  previousStatus?: OrderStatus;
+  changedAt: string | Date;
+  changedBy?: {
+    userId?: string;
+    name?: string;
+    email?: string;
+    role: string;
+  };
+  notes?: string;
+}
+
+interface OrderStatusTimelineProps {
+  history?: OrderStatusChange[];
+  // Hide staff names when the timeline is shown to customers
+  showActor?: boolean;
+}
+
+const dotColors: Record<OrderStatus, string> = {
+  pending: "bg-gray-400",
+  confirmed: "bg-indigo-500",
+  processing: "bg-amber-500",
+  shipped: "bg-blue-500",
+  delivered: "bg-emerald-500",
+  cancelled: "bg-red-500",
+};
+
+const OrderStatusTimeline = ({ history = [], showActor = true }: OrderStatusTimelineProps) => {
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500">No status history recorded for this order.</p>;
+  }
+
+  // Newest first
+  const entries = [...history].sort(
+    (a, b) => new Date(b.changedAt).getTime() - new Date(a.changedAt).getTime()
+  );
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2">
+      {entries.map((entry, index) => (
+        <li key={`${entry.status}-${index}`} className="mb-6 ml-6 last:mb-0">
+          <span
+            className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ring-4 ring-white ${dotColors[entry.status] || "bg-gray-400"}`}
+          />
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+            <h4 className="font-medium text-gray-900">
+              {ORDER_STATUS_LABELS[entry.status] || entry.status}
+            </h4>
+            <time className="text-sm text-gray-500">
+              {new Date(entry.changedAt).toLocaleString()}
+            </time>
+          </div>
+          {showActor && entry.changedBy && (
+            <p className="text-sm text-gray-600">
+              by {entry.changedBy.name || entry.changedBy.email || "System"}
+              <span className="text-gray-400"> ({entry.changedBy.role})</span>
+            </p>
+          )}
+          {entry.notes && <p className="text-sm text-gray-700 mt-1">{entry.notes}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default OrderStatusTimeline;
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import { nextOrderStatuses } from '@/lib/orderStatus';
 
 // Define status options locally (don't import from server component)
 const ORDER_STATUSES = [
@@ -25,6 +26,9 @@ export default function OrderStatusUpdate({ orderId, currentStatus }: OrderStatu
   const [isUpdating, setIsUpdating] = useState(false);
   const [notes, setNotes] = useState('');
 
+  // Only the current status and its legal next states can be picked
+  const allowedStatuses: readonly OrderStatus[] = nextOrderStatuses(currentStatus);
+
   const handleUpdateStatus = async () => {
     setIsUpdating(true);
     try {
@@ -79,7 +83,8 @@ export default function OrderStatusUpdate({ orderId, currentStatus }: OrderStatu
                     <button
                       key={status.value}
                       onClick={() => setSelectedStatus(status.value)}
-                      className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      disabled={status.value !== currentStatus && !allowedStatuses.includes(status.value)}
+                      className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
                         selectedStatus === status.value
                           ? `${status.color} border-2 border-blue-500`
                           : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
@@ -89,6 +94,11 @@ export default function OrderStatusUpdate({ orderId, currentStatus }: OrderStatu
                     </button>
                   ))}
                 </div>
+                {allowedStatuses.length === 0 && (
+                  <p className="text-sm text-gray-500 mt-2">
+                    This order is {currentStatus} and can no longer change status.
+                  </p>
+                )}
               </div>
 
               <div>
@@ -0,0 +1,166 @@
+'use client';
+
+import { useState } from 'react';
+import CategorySelect from '@/app/components/CategorySelect';
+import {
+  PRODUCT_BULK_ACTION_LABELS,
+  PriceAdjustment,
+  ProductBulkActionName,
+  ProductBulkResult,
+} from '@/lib/productBulkActions';
+
+interface ProductBulkActionsProps {
+  selectedIds: string[];
+  canDelete: boolean;
+  // Called with the per-product results, whether or not the batch was applied
+  onResult: (result: ProductBulkResult | null, error?: string) => void;
+  onClear: () => void;
+}
+
+const fieldClass =
+  'px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-white rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#7AA859]';
+
+// Toolbar for the products selected in the admin product table
+export default function ProductBulkActions({ selectedIds, canDelete, onResult, onClear }: ProductBulkActionsProps) {
+  const [action, setAction] = useState<ProductBulkActionName>('set-category');
+  const [categoryId, setCategoryId] = useState('');
+  const [adjustment, setAdjustment] = useState<PriceAdjustment>('percent');
+  const [amount, setAmount] = useState('');
+  const [sale, setSale] = useState(false);
+  const [inStock, setInStock] = useState(false);
+  const [stockQuantity, setStockQuantity] = useState('');
+  const [applying, setApplying] = useState(false);
+
+  const actions = (Object.keys(PRODUCT_BULK_ACTION_LABELS) as ProductBulkActionName[]).filter(
+    (name) => name !== 'delete' || canDelete
+  );
+
+  const settings = () => {
+    switch (action) {
+      case 'set-category':
+        return { categoryId };
+      case 'adjust-price':
+        return { adjustment, amount: Number(amount), sale };
+      case 'set-stock':
+        return { inStock, ...(inStock && { stockQuantity: Number(stockQuantity) }) };
+      default:
+        return {};
+    }
+  };
+
+  const handleApply = async () => {
+    const count = `${selectedIds.length} product${selectedIds.length !== 1 ? 's' : ''}`;
+    if (action === 'delete' && !confirm(`Move ${count} to the trash?`)) return;
+
+    setApplying(true);
+    try {
+      const res = await fetch('/api/products/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: selectedIds, action, ...settings() }),
+      });
+      const data = await res.json();
+      onResult(data.results ? data : null, res.ok ? undefined : data.error || 'Bulk update failed');
+    } catch {
+      onResult(null, 'Network error occurred');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg flex flex-wrap items-center gap-3">
+      <span className="text-sm font-medium text-gray-800 dark:text-white">
+        {selectedIds.length} selected
+      </span>
+      <button onClick={onClear} className="text-sm text-gray-500 hover:text-gray-800 dark:text-gray-300 dark:hover:text-white">
+        Clear
+      </button>
+
+      <select
+        value={action}
+        onChange={(e) => setAction(e.target.value as ProductBulkActionName)}
+        className={fieldClass}
+      >
+        {actions.map((name) => (
+          <option key={name} value={name}>
+            {PRODUCT_BULK_ACTION_LABELS[name]}
+          </option>
+        ))}
+      </select>
+
+      {action === 'set-category' && (
+        <CategorySelect
+          name="categoryId"
+          value={categoryId}
+          onChange={(e) => setCategoryId(e.target.value)}
+          className={fieldClass}
+        />
+      )}
+
+      {action === 'adjust-price' && (
+        <>
+          <input
+            type="number"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="-10"
+            className={`${fieldClass} w-28`}
+          />
+          <select
+            value={adjustment}
+            onChange={(e) => setAdjustment(e.target.value as PriceAdjustment)}
+            className={fieldClass}
+          >
+            <option value="percent">%</option>
+            <option value="fixed">$</option>
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={sale}
+              onChange={(e) => setSale(e.target.checked)}
+              className="rounded border-gray-300 text-[#7AA859] focus:ring-[#7AA859]"
+            />
+            As a sale (keep the regular price as original price)
+          </label>
+        </>
+      )}
+
+      {action === 'set-stock' && (
+        <>
+          <select
+            value={inStock ? 'in' : 'out'}
+            onChange={(e) => setInStock(e.target.value === 'in')}
+            className={fieldClass}
+          >
+            <option value="out">Out of stock</option>
+            <option value="in">Back in stock</option>
+          </select>
+          {inStock && (
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={stockQuantity}
+              onChange={(e) => setStockQuantity(e.target.value)}
+              placeholder="Quantity"
+              className={`${fieldClass} w-28`}
+            />
+          )}
+        </>
+      )}
+
+      <button
+        onClick={handleApply}
+        disabled={applying}
+        className={`px-4 py-2 text-white text-sm font-medium rounded-lg transition-colors duration-200 disabled:opacity-50 ${
+          action === 'delete' ? 'bg-red-600 hover:bg-red-700' : 'bg-[#7AA859] hover:bg-green-700'
+        }`}
+      >
+        {applying ? 'Applying...' : 'Apply'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,517 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { useSession } from 'next-auth/react';
+import { FiCheckCircle, FiThumbsUp, FiTrash2, FiX } from 'react-icons/fi';
+import {
+  MAX_REVIEW_PHOTOS,
+  REVIEW_BODY_MAX_LENGTH,
+  REVIEW_BODY_MIN_LENGTH,
+  REVIEW_SORT_LABELS,
+  REVIEW_SORTS,
+  REVIEW_STATUS_LABELS,
+  REVIEW_TITLE_MAX_LENGTH,
+  ReviewSort,
+  ReviewStatus,
+} from '@/lib/reviews';
+
+interface Review {
+  _id: string;
+  authorName: string;
+  rating: number;
+  title: string;
+  body: string;
+  photos: string[];
+  verifiedPurchase: boolean;
+  helpfulCount: number;
+  createdAt: string;
+  votedHelpful?: boolean;
+  ownReview?: boolean;
+  status?: ReviewStatus;
+  moderationNote?: string;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+interface ProductReviewsProps {
+  productId: string;
+  rating: number;
+  reviewCount: number;
+}
+
+interface CloudinaryUploadResult {
+  secure_url: string;
+}
+
+const PAGE_SIZE = 10;
+
+const OWN_REVIEW_STATUS_CLASSES: Record<ReviewStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+function StarIcon({ filled, size }: { filled: boolean; size: string }) {
+  return (
+    <svg
+      className={`${size} ${filled ? 'text-yellow-400' : 'text-gray-300'}`}
+      fill="currentColor"
+      viewBox="0 0 20 20"
+    >
+      <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+    </svg>
+  );
+}
+
+function Stars({ value, size = 'h-4 w-4' }: { value: number; size?: string }) {
+  return (
+    <div className="flex items-center">
+      {[1, 2, 3, 4, 5].map(star => (
+        <StarIcon key={star} filled={star <= Math.round(value)} size={size} />
+      ))}
+    </div>
+  );
+}
+
+export default function ProductReviews({ productId, rating, reviewCount }: ProductReviewsProps) {
+  const { data: session } = useSession();
+
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [distribution, setDistribution] = useState<Record<number, number>>({});
+  const [ownReview, setOwnReview] = useState<Review | null>(null);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [sort, setSort] = useState<ReviewSort>('newest');
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Write-a-review form
+  const [formRating, setFormRating] = useState(0);
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [needsVerification, setNeedsVerification] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadReviews = async () => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({ sort, page: String(page), limit: String(PAGE_SIZE) });
+        const response = await fetch(`/api/products/${productId}/reviews?${params}`);
+        const data = await response.json();
+        if (response.ok) {
+          setReviews(data.reviews);
+          setDistribution(data.distribution);
+          setOwnReview(data.ownReview);
+          setPagination(data.pagination);
+        }
+      } catch (error) {
+        console.error('Error fetching reviews:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReviews();
+  }, [productId, sort, page, reloadKey, session?.user?.id]);
+
+  const uploadPhoto = async (file: File): Promise<string | null> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append(
+      'upload_preset',
+      process.env.NEXT_PUBLIC_CLOUDINARY_UPLOAD_PRESET || 'eshopsite'
+    );
+
+    try {
+      const response = await fetch(
+        `https://api.cloudinary.com/v1_1/${
+          process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME || 'dwluovyrg'
+        }/image/upload`,
+        {
+          method: 'POST',
+          body: formData,
+        }
+      );
+
+      if (!response.ok) throw new Error('Upload failed');
+
+      const data: CloudinaryUploadResult = await response.json();
+      return data.secure_url;
+    } catch (error) {
+      console.error('Error uploading photo:', error);
+      return null;
+    }
+  };
+
+  const handlePhotoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).slice(0, MAX_REVIEW_PHOTOS - photos.length);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setUploading(true);
+    const uploaded = await Promise.all(files.map(uploadPhoto));
+    setPhotos(prev => [...prev, ...uploaded.filter((url): url is string => url !== null)]);
+    setUploading(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    setNeedsVerification(false);
+
+    if (formRating === 0) {
+      setFormError('Please choose a star rating.');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/products/${productId}/reviews`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rating: formRating, title, body, photos }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (data.code === 'EMAIL_NOT_VERIFIED') setNeedsVerification(true);
+        setFormError(data.error || 'Failed to post review');
+        return;
+      }
+
+      setMessage(data.message);
+      setFormRating(0);
+      setTitle('');
+      setBody('');
+      setPhotos([]);
+      setReloadKey(key => key + 1);
+    } catch (error) {
+      console.error('Error posting review:', error);
+      setFormError('Failed to post review');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const toggleHelpful = async (review: Review) => {
+    try {
+      const response = await fetch(`/api/products/${productId}/reviews/${review._id}/helpful`, {
+        method: review.votedHelpful ? 'DELETE' : 'POST',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Failed to record vote');
+        return;
+      }
+      setReviews(prev =>
+        prev.map(r =>
+          r._id === review._id
+            ? { ...r, helpfulCount: data.helpfulCount, votedHelpful: data.votedHelpful }
+            : r
+        )
+      );
+    } catch (error) {
+      console.error('Error voting on review:', error);
+    }
+  };
+
+  const deleteOwnReview = async () => {
+    if (!ownReview || !confirm('Delete your review?')) return;
+    try {
+      const response = await fetch(`/api/products/${productId}/reviews/${ownReview._id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || 'Failed to delete review');
+        return;
+      }
+      setMessage(null);
+      setReloadKey(key => key + 1);
+    } catch (error) {
+      console.error('Error deleting review:', error);
+    }
+  };
+
+  const totalRatings = Object.values(distribution).reduce((sum, count) => sum + count, 0);
+
+  const renderReview = (review: Review, own = false) => (
+    <div key={review._id} className="py-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Stars value={review.rating} />
+          <h4 className="font-semibold text-gray-900">{review.title}</h4>
+        </div>
+        {own && review.status && (
+          <span className={`text-xs font-medium px-2.5 py-0.5 rounded-full ${OWN_REVIEW_STATUS_CLASSES[review.status]}`}>
+            {REVIEW_STATUS_LABELS[review.status]}
+          </span>
+        )}
+      </div>
+      <div className="mt-1 flex items-center gap-2 text-sm text-gray-500">
+        <span>{review.authorName}</span>
+        <span className="text-gray-300">•</span>
+        <span>{new Date(review.createdAt).toLocaleDateString()}</span>
+        {review.verifiedPurchase && (
+          <span className="flex items-center text-green-700">
+            <FiCheckCircle className="h-4 w-4 mr-1" />
+            Verified purchase
+          </span>
+        )}
+      </div>
+      <p className="mt-3 text-gray-700 whitespace-pre-line">{review.body}</p>
+      {review.photos.length > 0 && (
+        <div className="mt-3 flex gap-2">
+          {review.photos.map(photo => (
+            <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+              <Image
+                src={photo}
+                alt={`Photo from ${review.authorName}`}
+                width={80}
+                height={80}
+                className="h-20 w-20 object-cover rounded-md border border-gray-200"
+              />
+            </a>
+          ))}
+        </div>
+      )}
+      {own && review.status === 'rejected' && review.moderationNote && (
+        <p className="mt-3 text-sm text-red-700">Moderator note: {review.moderationNote}</p>
+      )}
+      <div className="mt-3 flex items-center gap-4 text-sm">
+        {own ? (
+          <button
+            onClick={deleteOwnReview}
+            className="flex items-center text-red-600 hover:text-red-800"
+          >
+            <FiTrash2 className="h-4 w-4 mr-1" />
+            Delete
+          </button>
+        ) : (
+          <button
+            onClick={() => toggleHelpful(review)}
+            disabled={!session}
+            title={session ? undefined : 'Sign in to vote'}
+            className={`flex items-center ${review.votedHelpful ? 'text-indigo-600' : 'text-gray-500 hover:text-gray-700'} disabled:cursor-not-allowed`}
+          >
+            <FiThumbsUp className="h-4 w-4 mr-1" />
+            Helpful ({review.helpfulCount})
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="mt-12 bg-white rounded-xl shadow-md p-6">
+      <h2 className="text-2xl font-bold text-gray-900 mb-6">Customer Reviews</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+        {/* Summary */}
+        <div>
+          <div className="flex items-center gap-3">
+            <span className="text-4xl font-bold text-gray-900">{rating.toFixed(1)}</span>
+            <div>
+              <Stars value={rating} size="h-5 w-5" />
+              <p className="text-sm text-gray-600">
+                {reviewCount} review{reviewCount !== 1 ? 's' : ''}
+              </p>
+            </div>
+          </div>
+          <div className="mt-4 space-y-2">
+            {[5, 4, 3, 2, 1].map(star => {
+              const count = distribution[star] || 0;
+              return (
+                <div key={star} className="flex items-center gap-2 text-sm">
+                  <span className="w-12 text-gray-600">{star} star</span>
+                  <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-yellow-400"
+                      style={{ width: totalRatings ? `${(count / totalRatings) * 100}%` : '0%' }}
+                    />
+                  </div>
+                  <span className="w-8 text-right text-gray-500">{count}</span>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Own review or the form to write one */}
+          <div className="mt-8">
+            {message && (
+              <div className="mb-4 p-3 bg-green-50 text-green-800 text-sm rounded-md">{message}</div>
+            )}
+            {!session ? (
+              <p className="text-sm text-gray-600">
+                <Link href="/login" className="text-indigo-600 hover:text-indigo-800 font-medium">
+                  Sign in
+                </Link>{' '}
+                to write a review.
+              </p>
+            ) : ownReview ? null : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <h3 className="text-lg font-semibold text-gray-900">Write a review</h3>
+                <div className="flex items-center gap-1">
+                  {[1, 2, 3, 4, 5].map(star => (
+                    <button
+                      key={star}
+                      type="button"
+                      onClick={() => setFormRating(star)}
+                      aria-label={`${star} star${star !== 1 ? 's' : ''}`}
+                    >
+                      <StarIcon filled={star <= formRating} size="h-6 w-6" />
+                    </button>
+                  ))}
+                </div>
+                <input
+                  type="text"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder="Title"
+                  maxLength={REVIEW_TITLE_MAX_LENGTH}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                />
+                <textarea
+                  value={body}
+                  onChange={(e) => setBody(e.target.value)}
+                  placeholder={`What did you think? (at least ${REVIEW_BODY_MIN_LENGTH} characters)`}
+                  maxLength={REVIEW_BODY_MAX_LENGTH}
+                  rows={4}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                />
+                <div>
+                  <div className="flex flex-wrap gap-2">
+                    {photos.map(photo => (
+                      <div key={photo} className="relative">
+                        <Image
+                          src={photo}
+                          alt="Review photo"
+                          width={64}
+                          height={64}
+                          className="h-16 w-16 object-cover rounded-md border border-gray-200"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setPhotos(prev => prev.filter(p => p !== photo))}
+                          className="absolute -top-2 -right-2 bg-white rounded-full shadow p-0.5 text-gray-600 hover:text-red-600"
+                          aria-label="Remove photo"
+                        >
+                          <FiX className="h-3 w-3" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  {photos.length < MAX_REVIEW_PHOTOS && (
+                    <label className="mt-2 inline-block text-sm text-indigo-600 hover:text-indigo-800 cursor-pointer">
+                      {uploading ? 'Uploading...' : `Add photos (up to ${MAX_REVIEW_PHOTOS})`}
+                      <input
+                        type="file"
+                        accept="image/*"
+                        multiple
+                        onChange={handlePhotoUpload}
+                        disabled={uploading}
+                        className="hidden"
+                      />
+                    </label>
+                  )}
+                </div>
+                {formError && (
+                  <p className="text-sm text-red-600">
+                    {formError}
+                    {needsVerification && (
+                      <>
+                        {' '}
+                        <Link href="/verify-email" className="text-indigo-600 hover:text-indigo-800 font-medium">
+                          Verify your email
+                        </Link>
+                      </>
+                    )}
+                  </p>
+                )}
+                <button
+                  type="submit"
+                  disabled={submitting || uploading}
+                  className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-medium py-2 px-4 rounded-lg shadow-sm transition-colors duration-200 disabled:opacity-50"
+                >
+                  {submitting ? 'Posting...' : 'Post Review'}
+                </button>
+              </form>
+            )}
+          </div>
+        </div>
+
+        {/* List */}
+        <div className="md:col-span-2">
+          {ownReview && (
+            <div className="mb-4 px-4 bg-indigo-50 rounded-lg">
+              <p className="pt-4 text-sm font-medium text-indigo-800">Your review</p>
+              {renderReview(ownReview, true)}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              {pagination ? `${pagination.total} published review${pagination.total !== 1 ? 's' : ''}` : ''}
+            </p>
+            <select
+              value={sort}
+              onChange={(e) => {
+                setSort(e.target.value as ReviewSort);
+                setPage(1);
+              }}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              {REVIEW_SORTS.map(option => (
+                <option key={option} value={option}>{REVIEW_SORT_LABELS[option]}</option>
+              ))}
+            </select>
+          </div>
+
+          {loading ? (
+            <p className="py-8 text-center text-gray-500">Loading reviews...</p>
+          ) : reviews.length === 0 ? (
+            <p className="py-8 text-center text-gray-500">No reviews yet. Be the first to share your thoughts.</p>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {reviews.filter(review => !review.ownReview).map(review => renderReview(review))}
+            </div>
+          )}
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between pt-4 border-t border-gray-200">
+              <button
+                onClick={() => setPage(p => p - 1)}
+                disabled={page <= 1}
+                className="px-3 py-1 text-sm border border-gray-300 rounded-md disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-600">
+                Page {pagination.page} of {pagination.totalPages}
+              </span>
+              <button
+                onClick={() => setPage(p => p + 1)}
+                disabled={page >= pagination.totalPages}
+                className="px-3 py-1 text-sm border border-gray-300 rounded-md disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
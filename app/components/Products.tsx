@@ -1,8 +1,15 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
+import { PaginationMeta } from '@/lib/queryParams';
+import {
+  buildProductListQuery,
+  ProductListFacets,
+  ProductSearchResponse,
+  ProductSortKey,
+} from '@/lib/productListing';
 
 interface Product {
   _id: string;
@@ -21,26 +28,34 @@ interface Product {
   updatedAt: string;
 }
 
-export default function ProductsPage() {
+const PRODUCTS_PER_PAGE = 6; // Number of products to load each time
+
+interface ProductsPageProps {
+  // Set on /search: results come from the search endpoint, best matches first
+  searchQuery?: string;
+}
+
+export default function ProductsPage({ searchQuery }: ProductsPageProps = {}) {
+  const defaultSort: ProductSortKey = searchQuery ? 'relevance' : 'newest';
   const [products, setProducts] = useState<Product[]>([]);
+  const [pagination, setPagination] = useState<PaginationMeta | null>(null);
+  const [facets, setFacets] = useState<ProductListFacets>({ categories: [], priceRange: { min: 0, max: 0 }, maxDiscount: 0 });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [loadingMore, setLoadingMore] = useState(false);
+  const [page, setPage] = useState(1);
+  const [isFuzzyMatch, setIsFuzzyMatch] = useState(false);
 
   // Filter states
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
-  const [priceRange, setPriceRange] = useState<[number, number]>([0, 1000]);
+  const [maxPriceFilter, setMaxPriceFilter] = useState<number | null>(null); // null means no upper limit
   const [minRating, setMinRating] = useState<number>(0);
   const [inStockOnly, setInStockOnly] = useState<boolean>(false);
-  const [sortBy, setSortBy] = useState<string>('newest');
+  const [sortBy, setSortBy] = useState<ProductSortKey>(defaultSort);
 
   // Mobile sidebar state
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
-  // Pagination state
-  const [visibleProductsCount, setVisibleProductsCount] = useState(6); // Initial number of products to show
-  const productsPerPage = 6; // Number of products to load each time
-
   // Format currency function with larger Taka sign
   const formatCurrency = (amount: number) => {
     return (
@@ -51,108 +66,94 @@ export default function ProductsPage() {
     );
   };
 
-  useEffect(() => {
-    fetchProducts();
-  }, []);
-
-  const fetchProducts = async () => {
+  const fetchProducts = useCallback(async (signal?: AbortSignal) => {
     try {
-      setLoading(true);
-      const response = await fetch('/api/products');
+      if (page === 1) {
+        setLoading(true);
+      } else {
+        setLoadingMore(true);
+      }
+      setError(null);
+
+      const query = buildProductListQuery({
+        q: searchQuery,
+        category: selectedCategory,
+        maxPrice: maxPriceFilter ?? undefined,
+        minRating: minRating || undefined,
+        inStock: inStockOnly,
+        sort: sortBy,
+        page,
+        limit: PRODUCTS_PER_PAGE,
+      });
+      const endpoint = searchQuery ? '/api/search' : '/api/products';
+      const response = await fetch(`${endpoint}?${query}`, { signal });
 
       if (!response.ok) {
         throw new Error('Failed to fetch products');
       }
 
-      const data = await response.json();
-      setProducts(data);
-
-      // Set the max price for the range slider after products are loaded
-      if (data.length > 0) {
-        const maxProductPrice = Math.max(...data.map((p: Product) => p.price));
-        setPriceRange([0, maxProductPrice]);
-      }
+      const data: ProductSearchResponse<Product> = await response.json();
+      // Later pages are appended for "View More"
+      setProducts(prev => (page === 1 ? data.products : [...prev, ...data.products]));
+      setPagination(data.pagination);
+      setFacets(data.facets);
+      setIsFuzzyMatch(!!data.fuzzy);
     } catch (err) {
+      if (signal?.aborted) return;
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
-      setLoading(false);
+      if (!signal?.aborted) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
     }
+  }, [searchQuery, page, selectedCategory, maxPriceFilter, minRating, inStockOnly, sortBy]);
+
+  useEffect(() => {
+    // Debounce so dragging the price slider doesn't fire a request per step
+    const controller = new AbortController();
+    const timer = setTimeout(() => fetchProducts(controller.signal), 300);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [fetchProducts]);
+
+  // Any filter change starts again from the first page
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
   };
 
   // Load more products
   const loadMoreProducts = () => {
-    setLoadingMore(true);
-    // Simulate loading delay for better UX
-    setTimeout(() => {
-      setVisibleProductsCount(prevCount => prevCount + productsPerPage);
-      setLoadingMore(false);
-    }, 500);
+    setPage(prevPage => prevPage + 1);
   };
 
-  // Get unique categories for filter
-  const categories = ['all', ...new Set(products.map(product => product.category))];
-
-  // Calculate price range for slider
-  const maxPrice = products.length > 0
-    ? Math.max(...products.map(p => p.price))
-    : 1000;
-
-  // Filter and sort products
-  const filteredProducts = products
-    .filter(product => {
-      // Category filter
-      if (selectedCategory !== 'all' && product.category !== selectedCategory) {
-        return false;
-      }
-
-      // Price range filter
-      if (product.price < priceRange[0] || product.price > priceRange[1]) {
-        return false;
-      }
-
-      // Rating filter
-      if (product.rating < minRating) {
-        return false;
-      }
-
-      // Stock filter
-      if (inStockOnly && !product.inStock) {
-        return false;
-      }
+  // Categories come from the server facets, with their product counts
+  const categories = [
+    { category: 'all', count: facets.categories.reduce((sum, facet) => sum + facet.count, 0) },
+    ...facets.categories,
+  ];
 
-      return true;
-    })
-    .sort((a, b) => {
-      switch (sortBy) {
-        case 'price-low':
-          return a.price - b.price;
-        case 'price-high':
-          return b.price - a.price;
-        case 'rating':
-          return b.rating - a.rating;
-        case 'name':
-          return a.name.localeCompare(b.name);
-        case 'newest':
-        default:
-          return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-      }
-    });
+  const maxPrice = Math.ceil(facets.priceRange.max) || 1000;
+  const priceLimit = maxPriceFilter ?? maxPrice;
 
-  // Get only the visible products based on pagination
-  const visibleProducts = filteredProducts.slice(0, visibleProductsCount);
-  const hasMoreProducts = visibleProducts.length < filteredProducts.length;
+  const totalProducts = pagination?.total ?? 0;
+  const hasMoreProducts = !!pagination && pagination.page < pagination.totalPages;
+  const hasActiveFilters = selectedCategory !== 'all' || maxPriceFilter !== null || minRating > 0 || inStockOnly;
 
   // Reset all filters and pagination
   const resetFilters = () => {
     setSelectedCategory('all');
-    setPriceRange([0, maxPrice]);
+    setMaxPriceFilter(null);
     setMinRating(0);
     setInStockOnly(false);
-    setSortBy('newest');
-    setVisibleProductsCount(productsPerPage); // Reset to initial count
+    setSortBy(defaultSort);
+    setPage(1);
   };
 
-  if (loading) {
+  if (loading && !pagination) {
     return (
       <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100 py-8">
         <div className="container mx-auto px-4">
@@ -165,7 +166,7 @@ export default function ProductsPage() {
     );
   }
 
-  if (error) {
+  if (error && !pagination) {
     return (
       <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100 py-8">
         <div className="container mx-auto px-4">
@@ -181,7 +182,7 @@ export default function ProductsPage() {
                 <p className="mt-1 text-sm text-red-700">{error}</p>
                 <div className="mt-4">
                   <button
-                    onClick={fetchProducts}
+                    onClick={() => fetchProducts()}
                     className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
                   >
                     Try Again
@@ -198,7 +199,20 @@ export default function ProductsPage() {
   return (
     <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100 py-8">
       <div className="container mx-auto px-4">
-        {products.length === 0 ? (
+        {searchQuery && (
+          <div className="mb-6">
+            <h1 className="text-2xl font-bold text-gray-900">
+              Search results for &ldquo;{searchQuery}&rdquo;
+            </h1>
+            {isFuzzyMatch && totalProducts > 0 && (
+              <p className="mt-1 text-sm text-gray-600">
+                No exact matches, so we&apos;re showing products with similar spelling.
+              </p>
+            )}
+          </div>
+        )}
+
+        {totalProducts === 0 && !hasActiveFilters && !searchQuery ? (
           <div className="bg-white rounded-xl shadow-sm p-8 text-center max-w-2xl mx-auto">
             <div className="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-orange-100">
               <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-orange-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -246,19 +260,20 @@ export default function ProductsPage() {
                 <div>
                   <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wide mb-3">Category</h3>
                   <div className="space-y-2">
-                    {categories.map(category => (
+                    {categories.map(({ category, count }) => (
                       <div key={category} className="flex items-center">
                         <input
                           id={`category-${category}`}
                           type="radio"
                           name="category"
                           checked={selectedCategory === category}
-                          onChange={() => setSelectedCategory(category)}
+                          onChange={() => updateFilter(setSelectedCategory)(category)}
                           className="h-4 w-4 text-orange-600 focus:ring-orange-500 border-gray-300"
                         />
                         <label htmlFor={`category-${category}`} className="ml-2 text-sm text-gray-700 capitalize">
                           {category}
                         </label>
+                        <span className="ml-auto text-xs text-gray-500">{count}</span>
                       </div>
                     ))}
                   </div>
@@ -272,13 +287,13 @@ export default function ProductsPage() {
                       type="range"
                       min="0"
                       max={maxPrice}
-                      value={priceRange[1]}
-                      onChange={(e) => setPriceRange([priceRange[0], parseInt(e.target.value)])}
+                      value={priceLimit}
+                      onChange={(e) => updateFilter(setMaxPriceFilter)(parseInt(e.target.value))}
                       className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer range-lg"
                     />
                     <div className="flex justify-between mt-3">
-                      <span className="text-xl text-gray-600 font-extrabold">৳{priceRange[0]}</span>
-                      <span className="text-xl text-gray-600 font-extrabold">৳{priceRange[1]}</span>
+                      <span className="text-xl text-gray-600 font-extrabold">৳0</span>
+                      <span className="text-xl text-gray-600 font-extrabold">৳{priceLimit}</span>
                     </div>
                   </div>
                 </div>
@@ -290,7 +305,7 @@ export default function ProductsPage() {
                     {[0, 1, 2, 3, 4, 5].map(rating => (
                       <button
                         key={rating}
-                        onClick={() => setMinRating(rating)}
+                        onClick={() => updateFilter(setMinRating)(rating)}
                         className={`h-8 w-8 rounded-full flex items-center justify-center transition-colors duration-200 ${minRating === rating
                             ? 'bg-orange-600 text-white shadow-md'
                             : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
@@ -308,7 +323,7 @@ export default function ProductsPage() {
                     id="in-stock-only"
                     type="checkbox"
                     checked={inStockOnly}
-                    onChange={() => setInStockOnly(!inStockOnly)}
+                    onChange={() => updateFilter(setInStockOnly)(!inStockOnly)}
                     className="h-4 w-4 text-orange-600 focus:ring-orange-500 border-gray-300 rounded"
                   />
                   <label htmlFor="in-stock-only" className="ml-2 text-sm text-gray-700 font-medium">
@@ -321,9 +336,10 @@ export default function ProductsPage() {
                   <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wide mb-3">Sort By</h3>
                   <select
                     value={sortBy}
-                    onChange={(e) => setSortBy(e.target.value)}
+                    onChange={(e) => updateFilter(setSortBy)(e.target.value as ProductSortKey)}
                     className="block w-full pl-3 pr-10 py-2.5 text-base border-gray-300 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-orange-500 sm:text-sm rounded-lg bg-white border shadow-sm"
                   >
+                    {searchQuery && <option value="relevance">Best Match</option>}
                     <option value="newest">Newest First</option>
                     <option value="price-low">Price: Low to High</option>
                     <option value="price-high">Price: High to Low</option>
@@ -345,7 +361,7 @@ export default function ProductsPage() {
 
                 {/* Results count */}
                 <div className="text-sm text-gray-600 p-2 bg-orange-50 rounded-lg text-center">
-                  <span className="font-semibold text-orange-700">{filteredProducts.length}</span> of <span className="font-semibold">{products.length}</span> products
+                  <span className="font-semibold text-orange-700">{totalProducts}</span> matching product{totalProducts !== 1 ? 's' : ''}
                 </div>
               </div>
             </div>
@@ -364,13 +380,13 @@ export default function ProductsPage() {
                   Filters
                 </button>
                 <div className="text-sm text-gray-600 md:text-base">
-                  Showing <span className="font-semibold text-orange-700">{visibleProducts.length}</span> of {filteredProducts.length} products
+                  Showing <span className="font-semibold text-orange-700">{products.length}</span> of {totalProducts} products
                 </div>
               </div>
 
               {/* Products grid */}
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-                {visibleProducts.map(product => (
+                {products.map(product => (
                   <div key={product._id} className="bg-white rounded-xl shadow-sm overflow-hidden hover:shadow-md transition-all duration-300 group border border-gray-100">
                     <div className="relative">
                       <div className="w-full h-52 relative flex justify-center bg-gray-100 overflow-hidden">
@@ -482,7 +498,11 @@ export default function ProductsPage() {
                 </div>
               )}
 
-              {filteredProducts.length === 0 && (
+              {error && (
+                <p className="mt-6 text-center text-sm text-red-600">{error}</p>
+              )}
+
+              {!loading && totalProducts === 0 && (
                 <div className="bg-white rounded-xl shadow-sm p-8 text-center max-w-2xl mx-auto mt-6">
                   <div className="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-orange-100">
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-orange-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -1,12 +1,16 @@
 // context/CartContext.tsx
 "use client";
 
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
 import { useSession } from 'next-auth/react';
+import { getLineKey, VariantOptionValue } from '@/lib/variants';
 
 interface CartItem {
   _id: string;
   productId: string;
+  // Set when a specific variant was picked; each variant is its own cart line
+  variantSku?: string;
+  variantOptions?: VariantOptionValue[];
   name: string;
   price: number;
   quantity: number;
@@ -17,18 +21,51 @@ interface CartItem {
 interface CartContextType {
   cartItems: CartItem[];
   addToCart: (product: CartItem) => void;
-  removeFromCart: (productId: string) => void;
-  updateQuantity: (productId: string, quantity: number) => void;
+  // Lines are identified by getLineKey(productId, variantSku)
+  removeFromCart: (lineKey: string) => void;
+  updateQuantity: (lineKey: string, quantity: number) => void;
+  updatePrices: (prices: Record<string, number>) => void;
   clearCart: () => void;
+  // Replaces the cart with lines returned by /api/cart
+  applyServerCart: (items: CartItem[]) => void;
   getCartTotal: () => number;
   getCartItemsCount: () => number;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
+// Wait for a burst of quantity changes to settle before saving to the server
+const SYNC_DELAY = 500;
+// Try again this long after the stored cart failed to load
+const LOAD_RETRY_DELAY = 10000;
+
+// Only the line identity and quantity are stored; prices come from the catalog
+const serializeLines = (items: CartItem[]) =>
+  JSON.stringify({
+    items: items.map(({ productId, variantSku, quantity }) => ({ productId, variantSku, quantity })),
+  });
+
+const readGuestCart = (): CartItem[] => {
+  try {
+    return JSON.parse(localStorage.getItem('cart') || '[]');
+  } catch {
+    return [];
+  }
+};
+
 export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
-  const { data: session, status } = useSession();
+  const { status } = useSession();
+  const previousStatusRef = useRef(status);
+  // Set once the signed-in user's cart has been loaded, so an empty local
+  // cart never overwrites the stored one
+  const serverLoadedRef = useRef(false);
+  const lastSyncedRef = useRef<string | null>(null);
+
+  const applyServerCart = useCallback((items: CartItem[]) => {
+    lastSyncedRef.current = serializeLines(items);
+    setCartItems(items);
+  }, []);
 
   // Load cart from localStorage on initial render
   useEffect(() => {
@@ -45,40 +82,120 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   }, []);
 
-  // Save cart to localStorage whenever it changes
+  // Guests keep their cart in localStorage; signed-in carts live on the
+  // server. Until the stored cart has loaded, lines stay here too so the next
+  // load merges them in.
   useEffect(() => {
+    if (status === 'authenticated' && !serverLoadedRef.current) {
+      if (cartItems.length > 0) localStorage.setItem('cart', JSON.stringify(cartItems));
+      return;
+    }
+    if (status !== 'unauthenticated') return;
+
     if (cartItems.length > 0) {
       localStorage.setItem('cart', JSON.stringify(cartItems));
     } else {
       localStorage.removeItem('cart');
     }
-  }, [cartItems]);
+  }, [cartItems, status]);
 
-  // Clear cart when user logs out
+  // Load the stored cart on sign-in, merging in anything added as a guest,
+  // and clear it from this device on sign-out
   useEffect(() => {
-    if (status === 'unauthenticated') {
-      // Clear cart when user logs out
+    const previousStatus = previousStatusRef.current;
+    previousStatusRef.current = status;
+
+    if (status === 'unauthenticated' && previousStatus === 'authenticated') {
+      serverLoadedRef.current = false;
+      lastSyncedRef.current = null;
       setCartItems([]);
       localStorage.removeItem('cart');
+      return;
     }
-  }, [status]);
 
-  // Optional: Load user-specific cart when logged in
+    if (status !== 'authenticated' || serverLoadedRef.current) return;
+
+    let cancelled = false;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const loadServerCart = async () => {
+      const guestItems = readGuestCart();
+
+      try {
+        const response = guestItems.length > 0
+          ? await fetch('/api/cart/merge', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: serializeLines(guestItems),
+            })
+          : await fetch('/api/cart');
+        const data = await response.json();
+
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || 'Failed to load cart');
+        }
+        if (cancelled) return;
+
+        localStorage.removeItem('cart');
+        serverLoadedRef.current = true;
+        applyServerCart(data.items);
+      } catch (error) {
+        console.error('Error loading cart:', error);
+        if (!cancelled) retryTimer = setTimeout(loadServerCart, LOAD_RETRY_DELAY);
+      }
+    };
+
+    loadServerCart();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(retryTimer);
+    };
+  }, [status, applyServerCart]);
+
+  // Save changes made while signed in so the cart follows the user to other devices
   useEffect(() => {
-    if (status === 'authenticated' && session?.user) {
-      // Here you could load the user's cart from the database
-      // For now, we'll keep the local cart, but you can implement API call here
-      // loadUserCart(session.user.id);
-    }
-  }, [status, session]);
+    if (status !== 'authenticated' || !serverLoadedRef.current) return;
+
+    const body = serializeLines(cartItems);
+    if (body === lastSyncedRef.current) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/cart', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body,
+        });
+        const data = await response.json();
+
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || 'Failed to save cart');
+        }
+        // Show what was stored (quantities capped at stock, lines that are
+        // gone dropped), unless the cart changed while saving
+        if (!cancelled) applyServerCart(data.items);
+      } catch (error) {
+        console.error('Error saving cart:', error);
+      }
+    }, SYNC_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [cartItems, status, applyServerCart]);
+
+  const itemKey = (item: CartItem) => getLineKey(item.productId, item.variantSku);
 
   const addToCart = (product: CartItem) => {
     setCartItems(prevItems => {
-      const existingItem = prevItems.find(item => item.productId === product.productId);
+      const existingItem = prevItems.find(item => itemKey(item) === itemKey(product));
       
       if (existingItem) {
         return prevItems.map(item =>
-          item.productId === product.productId
+          itemKey(item) === itemKey(product)
             ? { ...item, quantity: item.quantity + 1 }
             : item
         );
@@ -88,19 +205,28 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     });
   };
 
-  const removeFromCart = (productId: string) => {
-    setCartItems(prevItems => prevItems.filter(item => item.productId !== productId));
+  const removeFromCart = (lineKey: string) => {
+    setCartItems(prevItems => prevItems.filter(item => itemKey(item) !== lineKey));
   };
 
-  const updateQuantity = (productId: string, quantity: number) => {
+  const updateQuantity = (lineKey: string, quantity: number) => {
     if (quantity <= 0) {
-      removeFromCart(productId);
+      removeFromCart(lineKey);
       return;
     }
     
     setCartItems(prevItems =>
       prevItems.map(item =>
-        item.productId === productId ? { ...item, quantity } : item
+        itemKey(item) === lineKey ? { ...item, quantity } : item
+      )
+    );
+  };
+
+  // Apply current catalog prices (keyed by line key) reported by the server
+  const updatePrices = (prices: Record<string, number>) => {
+    setCartItems(prevItems =>
+      prevItems.map(item =>
+        prices[itemKey(item)] !== undefined ? { ...item, price: prices[itemKey(item)] } : item
       )
     );
   };
@@ -125,7 +251,9 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
         addToCart,
         removeFromCart,
         updateQuantity,
+        updatePrices,
         clearCart,
+        applyServerCart,
         getCartTotal,
         getCartItemsCount,
       }}
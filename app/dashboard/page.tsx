@@ -52,12 +52,12 @@ async function getDashboardStats(): Promise<DashboardStats> {
       : 0;
 
     // Get total customers count
-    const totalCustomers = await User.countDocuments({ role: 'user' });
+    const totalCustomers = await User.countDocuments({ role: 'customer' });
     
     // For customers change, we could compare with previous month
     const previousMonthCustomers = await User.countDocuments({
       createdAt: { $lt: currentMonthStart },
-      role: 'user'
+      role: 'customer'
     });
     
     const customersChange = previousMonthCustomers > 0
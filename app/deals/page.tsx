@@ -1,9 +1,16 @@
 // app/deals/page.tsx
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
+import { PaginationMeta } from '@/lib/queryParams';
+import {
+  buildProductListQuery,
+  ProductListFacets,
+  ProductListResponse,
+  ProductSortKey,
+} from '@/lib/productListing';
 
 interface Product {
   _id: string;
@@ -22,10 +29,17 @@ interface Product {
   updatedAt: string;
 }
 
+const DEALS_PER_PAGE = 12;
+const DEFAULT_DISCOUNT_RANGE: [number, number] = [10, 90];
+
 export default function TodaysDealsPage() {
   const [products, setProducts] = useState<Product[]>([]);
+  const [pagination, setPagination] = useState<PaginationMeta | null>(null);
+  const [facets, setFacets] = useState<ProductListFacets>({ categories: [], priceRange: { min: 0, max: 0 }, maxDiscount: 0 });
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
   const [timeLeft, setTimeLeft] = useState({
     hours: 23,
     minutes: 59,
@@ -34,10 +48,10 @@ export default function TodaysDealsPage() {
 
   // Filter states for deals page
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
-  const [discountRange, setDiscountRange] = useState<[number, number]>([10, 90]);
+  const [discountRange, setDiscountRange] = useState<[number, number]>(DEFAULT_DISCOUNT_RANGE);
   const [minRating, setMinRating] = useState<number>(0);
   const [inStockOnly, setInStockOnly] = useState<boolean>(true);
-  const [sortBy, setSortBy] = useState<string>('discount-high');
+  const [sortBy, setSortBy] = useState<ProductSortKey>('discount-high');
 
   // Format currency function
   const formatCurrency = (amount: number) => {
@@ -86,95 +100,88 @@ export default function TodaysDealsPage() {
     return () => clearInterval(timer);
   }, []);
 
-  useEffect(() => {
-    fetchProducts();
-  }, []);
-
-  const fetchProducts = async () => {
+  const fetchProducts = useCallback(async (signal?: AbortSignal) => {
     try {
-      setLoading(true);
-      const response = await fetch('/api/products');
+      if (page === 1) {
+        setLoading(true);
+      } else {
+        setLoadingMore(true);
+      }
+      setError(null);
+
+      // Deals are on-sale products; discount filtering and sorting happen on the server
+      const query = buildProductListQuery({
+        onSale: true,
+        category: selectedCategory,
+        minDiscount: discountRange[0],
+        maxDiscount: discountRange[1],
+        minRating: minRating || undefined,
+        inStock: inStockOnly,
+        sort: sortBy,
+        page,
+        limit: DEALS_PER_PAGE,
+      });
+      const response = await fetch(`/api/products?${query}`, { signal });
 
       if (!response.ok) {
         throw new Error('Failed to fetch products');
       }
 
-      const data = await response.json();
-      setProducts(data);
+      const data: ProductListResponse<Product> = await response.json();
+      setProducts(prev => (page === 1 ? data.products : [...prev, ...data.products]));
+      setPagination(data.pagination);
+      setFacets(data.facets);
     } catch (err) {
+      if (signal?.aborted) return;
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
-      setLoading(false);
-    }
-  };
-
-  // Get products with discounts only
-  const productsWithDiscounts = products.filter(product =>
-    product.originalPrice && product.originalPrice > product.price
-  );
-
-  // Get unique categories for filter
-  const categories = ['all', ...new Set(productsWithDiscounts.map(product => product.category))];
-
-  // Filter and sort deals
-  const filteredDeals = productsWithDiscounts
-    .filter(product => {
-      const discount = calculateDiscount(product.price, product.originalPrice);
-
-      // Category filter
-      if (selectedCategory !== 'all' && product.category !== selectedCategory) {
-        return false;
+      if (!signal?.aborted) {
+        setLoading(false);
+        setLoadingMore(false);
       }
+    }
+  }, [page, selectedCategory, discountRange, minRating, inStockOnly, sortBy]);
 
-      // Discount range filter
-      if (discount < discountRange[0] || discount > discountRange[1]) {
-        return false;
-      }
+  useEffect(() => {
+    // Debounce so dragging the discount slider doesn't fire a request per step
+    const controller = new AbortController();
+    const timer = setTimeout(() => fetchProducts(controller.signal), 300);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [fetchProducts]);
 
-      // Rating filter
-      if (product.rating < minRating) {
-        return false;
-      }
+  // Any filter change starts again from the first page
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
+  };
 
-      // Stock filter
-      if (inStockOnly && !product.inStock) {
-        return false;
-      }
+  // Categories come from the server facets, with their deal counts
+  const categoryCounts = Object.fromEntries(facets.categories.map(facet => [facet.category, facet.count]));
+  const categories = ['all', ...facets.categories.map(facet => facet.category)];
+  const totalDealsCount = facets.categories.reduce((sum, facet) => sum + facet.count, 0);
 
-      return true;
-    })
-    .sort((a, b) => {
-      const discountA = calculateDiscount(a.price, a.originalPrice);
-      const discountB = calculateDiscount(b.price, b.originalPrice);
-
-      switch (sortBy) {
-        case 'discount-high':
-          return discountB - discountA;
-        case 'discount-low':
-          return discountA - discountB;
-        case 'price-low':
-          return a.price - b.price;
-        case 'price-high':
-          return b.price - a.price;
-        case 'rating':
-          return b.rating - a.rating;
-        case 'newest':
-          return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-        default:
-          return discountB - discountA;
-      }
-    });
+  const totalDeals = pagination?.total ?? 0;
+  const hasMoreDeals = !!pagination && pagination.page < pagination.totalPages;
+  const hasNonDefaultFilters = selectedCategory !== 'all' ||
+    discountRange[0] !== DEFAULT_DISCOUNT_RANGE[0] ||
+    discountRange[1] !== DEFAULT_DISCOUNT_RANGE[1] ||
+    minRating > 0 ||
+    !inStockOnly;
 
   // Reset all filters
   const resetFilters = () => {
     setSelectedCategory('all');
-    setDiscountRange([10, 90]);
+    setDiscountRange(DEFAULT_DISCOUNT_RANGE);
     setMinRating(0);
     setInStockOnly(true);
     setSortBy('discount-high');
+    setPage(1);
   };
 
-  if (loading) {
+  if (loading && !pagination) {
     return (
       <div className="min-h-screen bg-gradient-to-b from-orange-50 to-red-50 py-8">
         <div className="container mx-auto px-4">
@@ -187,7 +194,7 @@ export default function TodaysDealsPage() {
     );
   }
 
-  if (error) {
+  if (error && !pagination) {
     return (
       <div className="min-h-screen bg-gradient-to-b from-orange-50 to-red-50 py-8">
         <div className="container mx-auto px-4">
@@ -203,7 +210,7 @@ export default function TodaysDealsPage() {
                 <p className="mt-1 text-sm text-red-700">{error}</p>
                 <div className="mt-4">
                   <button
-                    onClick={fetchProducts}
+                    onClick={() => fetchProducts()}
                     className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
                   >
                     Try Again
@@ -255,7 +262,7 @@ export default function TodaysDealsPage() {
           </div>
         </div>
 
-        {productsWithDiscounts.length === 0 ? (
+        {totalDeals === 0 && !hasNonDefaultFilters ? (
           <div className="bg-white rounded-xl shadow-sm p-8 text-center max-w-2xl mx-auto">
             <div className="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-red-100">
               <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-red-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -278,7 +285,7 @@ export default function TodaysDealsPage() {
               <div className="flex justify-between items-center mb-6 pb-3 border-b border-gray-200">
                 <h2 className="text-xl font-bold text-gray-900">Filter Deals</h2>
                 <span className="bg-red-100 text-red-800 text-sm font-medium px-2.5 py-1 rounded-full">
-                  {filteredDeals.length} deals
+                  {totalDeals} deals
                 </span>
               </div>
 
@@ -294,11 +301,11 @@ export default function TodaysDealsPage() {
                           type="radio"
                           name="deal-category"
                           checked={selectedCategory === category}
-                          onChange={() => setSelectedCategory(category)}
+                          onChange={() => updateFilter(setSelectedCategory)(category)}
                           className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300"
                         />
                         <label htmlFor={`deal-category-${category}`} className="ml-2 text-sm text-gray-700 capitalize">
-                          {category} ({category === 'all' ? productsWithDiscounts.length : productsWithDiscounts.filter(p => p.category === category).length})
+                          {category} ({category === 'all' ? totalDealsCount : categoryCounts[category] ?? 0})
                         </label>
                       </div>
                     ))}
@@ -317,7 +324,7 @@ export default function TodaysDealsPage() {
                       max="90"
                       step="5"
                       value={discountRange[1]}
-                      onChange={(e) => setDiscountRange([discountRange[0], parseInt(e.target.value)])}
+                      onChange={(e) => updateFilter(setDiscountRange)([discountRange[0], parseInt(e.target.value)])}
                       className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer range-lg accent-red-600"
                     />
                     <div className="flex justify-between mt-3">
@@ -334,7 +341,7 @@ export default function TodaysDealsPage() {
                     {[0, 3, 4, 5].map(rating => (
                       <button
                         key={rating}
-                        onClick={() => setMinRating(rating)}
+                        onClick={() => updateFilter(setMinRating)(rating)}
                         className={`h-8 w-8 rounded-full flex items-center justify-center transition-colors duration-200 ${minRating === rating
                           ? 'bg-red-600 text-white shadow-md'
                           : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
@@ -352,7 +359,7 @@ export default function TodaysDealsPage() {
                     id="deal-in-stock-only"
                     type="checkbox"
                     checked={inStockOnly}
-                    onChange={() => setInStockOnly(!inStockOnly)}
+                    onChange={() => updateFilter(setInStockOnly)(!inStockOnly)}
                     className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
                   />
                   <label htmlFor="deal-in-stock-only" className="ml-2 text-sm text-gray-700 font-medium">
@@ -365,7 +372,7 @@ export default function TodaysDealsPage() {
                   <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wide mb-3">Sort By</h3>
                   <select
                     value={sortBy}
-                    onChange={(e) => setSortBy(e.target.value)}
+                    onChange={(e) => updateFilter(setSortBy)(e.target.value as ProductSortKey)}
                     className="block w-full pl-3 pr-10 py-2.5 text-base border-gray-300 focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500 sm:text-sm rounded-lg bg-white border shadow-sm"
                   >
                     <option value="discount-high">Highest Discount</option>
@@ -397,18 +404,18 @@ export default function TodaysDealsPage() {
                 <div className="flex justify-between items-center">
                   <div>
                     <span className="text-sm text-gray-600">
-                      Showing <span className="font-semibold text-red-700">{filteredDeals.length}</span> of {productsWithDiscounts.length} deals
+                      Showing <span className="font-semibold text-red-700">{products.length}</span> of {totalDeals} deals
                     </span>
                   </div>
                   <div className="text-sm text-gray-500">
-                    Save up to {Math.max(...productsWithDiscounts.map(p => calculateDiscount(p.price, p.originalPrice)))}% today!
+                    Save up to {facets.maxDiscount}% today!
                   </div>
                 </div>
               </div>
 
               {/* Deals grid */}
               <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
-                {filteredDeals.map(product => {
+                {products.map(product => {
                   const discount = calculateDiscount(product.price, product.originalPrice);
 
                   return (
@@ -503,7 +510,24 @@ export default function TodaysDealsPage() {
                 })}
               </div>
 
-              {filteredDeals.length === 0 && (
+              {/* View More button */}
+              {hasMoreDeals && (
+                <div className="mt-8 text-center">
+                  <button
+                    onClick={() => setPage(prevPage => prevPage + 1)}
+                    disabled={loadingMore}
+                    className="inline-flex items-center px-6 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-75 transition-colors duration-200"
+                  >
+                    {loadingMore ? 'Loading...' : 'View More Deals'}
+                  </button>
+                </div>
+              )}
+
+              {error && (
+                <p className="mt-6 text-center text-sm text-red-600">{error}</p>
+              )}
+
+              {!loading && totalDeals === 0 && (
                 <div className="bg-white rounded-xl shadow-sm p-8 text-center max-w-2xl mx-auto mt-6">
                   <div className="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-red-100">
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-red-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
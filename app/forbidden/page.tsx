@@ -0,0 +1,36 @@
+// app/forbidden/page.tsx
+// Shown by middleware.ts when a signed-in user opens a page their role can't access
+import Link from 'next/link';
+import { FiLock } from 'react-icons/fi';
+
+export default function ForbiddenPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100 flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8 text-center">
+        <div className="w-16 h-16 bg-red-50 rounded-full flex items-center justify-center mx-auto mb-4">
+          <FiLock className="text-red-500 text-2xl" />
+        </div>
+        <p className="text-sm font-semibold text-red-500">403</p>
+        <h1 className="text-2xl font-bold text-gray-900 mt-1">Access denied</h1>
+        <p className="text-gray-600 mt-3">
+          Your account doesn&apos;t have permission to view this page. If you think this is a
+          mistake, ask an administrator to check your role.
+        </p>
+        <div className="mt-6 flex flex-col sm:flex-row gap-3 justify-center">
+          <Link
+            href="/"
+            className="px-5 py-2.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+          >
+            Back to store
+          </Link>
+          <Link
+            href="/account"
+            className="px-5 py-2.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            My account
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+// app/forgot-password/page.tsx
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { FiMail, FiKey, FiArrowLeft, FiCheckCircle } from "react-icons/fi";
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const res = await fetch("/api/auth/forgot-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: email.toLowerCase().trim() }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to send reset email");
+      } else {
+        setMessage(data.message);
+      }
+    } catch {
+      setError("An error occurred. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-orange-50 to-orange-100 flex items-center justify-center p-4">
+      <div className="max-w-md w-full">
+        <div className="bg-white rounded-2xl shadow-xl overflow-hidden">
+          <div className="bg-gradient-to-r from-orange-500 to-orange-700 p-6 text-center">
+            <div className="w-16 h-16 bg-white/10 rounded-full flex items-center justify-center mx-auto mb-4">
+              <FiKey className="text-white text-2xl" />
+            </div>
+            <h1 className="text-2xl font-bold text-white">Forgot Password</h1>
+            <p className="text-orange-100 mt-2">We&apos;ll email you a link to reset it</p>
+          </div>
+
+          <div className="p-8">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6 flex items-center">
+                <div className="w-2 h-2 bg-red-500 rounded-full mr-3"></div>
+                {error}
+              </div>
+            )}
+
+            {message ? (
+              <div className="text-center space-y-4">
+                <FiCheckCircle className="w-12 h-12 text-emerald-500 mx-auto" />
+                <p className="text-gray-700">{message}</p>
+                <p className="text-sm text-gray-500">Check your inbox and spam folder.</p>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="space-y-2">
+                  <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                    Email Address
+                  </label>
+                  <div className="relative">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <FiMail className="h-5 w-5 text-gray-400" />
+                    </div>
+                    <input
+                      id="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      required
+                      placeholder="Enter your email"
+                      type="email"
+                      className="block w-full pl-10 pr-3 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition duration-200"
+                      disabled={isLoading}
+                    />
+                  </div>
+                </div>
+
+                <button
+                  type="submit"
+                  className="w-full bg-gradient-to-r from-orange-600 to-orange-700 hover:from-orange-700 hover:to-orange-800 text-white py-3 px-4 rounded-lg font-medium transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+                  disabled={isLoading}
+                >
+                  {isLoading ? (
+                    <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                  ) : (
+                    <FiMail className="w-5 h-5" />
+                  )}
+                  <span>{isLoading ? "Sending..." : "Send reset link"}</span>
+                </button>
+              </form>
+            )}
+
+            <div className="mt-8 text-center">
+              <Link
+                href="/login"
+                className="text-sm font-medium text-orange-600 hover:text-orange-500 inline-flex items-center space-x-1"
+              >
+                <FiArrowLeft className="w-4 h-4" />
+                <span>Back to sign in</span>
+              </Link>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
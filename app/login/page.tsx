@@ -1,11 +1,17 @@
 "use client";
 
-import { useState } from "react";
-import { signIn } from "next-auth/react";
+import { useEffect, useState } from "react";
+import { getProviders, signIn } from "next-auth/react";
 import { useRouter } from "next/navigation";
-import { FiMail, FiLock, FiLogIn, FiEye, FiEyeOff, FiUserPlus } from "react-icons/fi";
+import { FiMail, FiLock, FiLogIn, FiEye, FiEyeOff, FiUserPlus, FiShield } from "react-icons/fi";
 import { FcGoogle } from "react-icons/fc";
-import { FaGithub } from "react-icons/fa";
+import { FaFacebook } from "react-icons/fa";
+import { getOAuthErrorMessage, isOAuthProvider, OAuthProvider, OAUTH_PROVIDER_LABELS } from "@/lib/oauthProviders";
+
+const OAUTH_PROVIDER_ICONS: Record<OAuthProvider, React.ReactNode> = {
+  google: <FcGoogle className="w-5 h-5" />,
+  facebook: <FaFacebook className="w-5 h-5 text-[#1877F2]" />,
+};
 
 export default function LoginPage() {
   const router = useRouter();
@@ -14,6 +20,21 @@ export default function LoginPage() {
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  const [socialProviders, setSocialProviders] = useState<OAuthProvider[]>([]);
+  // Second step for accounts with two-factor authentication
+  const [needsOtp, setNeedsOtp] = useState(false);
+  const [otp, setOtp] = useState("");
+
+  useEffect(() => {
+    // NextAuth sends failed social sign-ins back here with ?error=
+    const errorCode = new URLSearchParams(window.location.search).get("error");
+    if (errorCode) setError(getOAuthErrorMessage(errorCode));
+
+    // Only the providers configured on the server are offered
+    getProviders().then((providers) => {
+      setSocialProviders(Object.keys(providers || {}).filter(isOAuthProvider));
+    });
+  }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -24,11 +45,26 @@ export default function LoginPage() {
       const res = await signIn("credentials", { 
         redirect: false, 
         email: email.toLowerCase().trim(), 
-        password 
+        password,
+        ...(needsOtp && { otp: otp.trim() })
       });
       
-      if (res?.error) {
+      // Set by middleware.ts when a protected page sent the user here
+      const callbackUrl = new URLSearchParams(window.location.search).get("callbackUrl");
+
+      if (res?.error === "TwoFactorRequired") {
+        setNeedsOtp(true);
+      } else if (res?.error === "InvalidTwoFactorCode") {
+        setError("That code didn't work. Try the current code from your app, or a recovery code.");
+      } else if (res?.error === "AccountLocked") {
+        setError("Too many failed attempts, so this account is temporarily locked. Check your email for a link to unlock it now.");
+      } else if (res?.error === "TooManyAttempts") {
+        setError("Too many failed sign-in attempts from your network. Please try again later.");
+      } else if (res?.error) {
         setError("Invalid email or password");
+      } else if (callbackUrl?.startsWith("/") && !callbackUrl.startsWith("//")) {
+        router.push(callbackUrl);
+        router.refresh();
       } else {
         // Fetch user data to determine role and redirect accordingly
         const userRes = await fetch('/api/users/me');
@@ -58,10 +94,12 @@ export default function LoginPage() {
     }
   };
 
-  const handleSocialLogin = (provider: string) => {
+  const handleSocialLogin = (provider: OAuthProvider) => {
     setIsLoading(true);
-    // For social login, we'll handle the redirection in the NextAuth callback
-    signIn(provider, { callbackUrl: "/auth/redirect" });
+    const callbackUrl = new URLSearchParams(window.location.search).get("callbackUrl");
+    signIn(provider, {
+      callbackUrl: callbackUrl?.startsWith("/") && !callbackUrl.startsWith("//") ? callbackUrl : "/account",
+    });
   };
 
   return (
@@ -142,6 +180,32 @@ export default function LoginPage() {
                 </div>
               </div>
 
+              {/* Two-Factor Code */}
+              {needsOtp && (
+                <div className="space-y-2">
+                  <label htmlFor="otp" className="block text-sm font-medium text-gray-700">
+                    Authentication Code
+                  </label>
+                  <div className="relative">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <FiShield className="h-5 w-5 text-gray-400" />
+                    </div>
+                    <input 
+                      id="otp"
+                      value={otp} 
+                      onChange={(e) => setOtp(e.target.value)} 
+                      required 
+                      autoFocus
+                      autoComplete="one-time-code"
+                      placeholder="6-digit code or recovery code" 
+                      className="block w-full pl-10 pr-3 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition duration-200 tracking-widest" 
+                      disabled={isLoading}
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500">Open your authenticator app to get the code.</p>
+                </div>
+              )}
+
               {/* Remember Me & Forgot Password */}
               <div className="flex items-center justify-between">
                 <div className="flex items-center">
@@ -171,39 +235,39 @@ export default function LoginPage() {
                 ) : (
                   <FiLogIn className="w-5 h-5" />
                 )}
-                <span>{isLoading ? "Signing in..." : "Sign in"}</span>
+                <span>{isLoading ? "Signing in..." : needsOtp ? "Verify and sign in" : "Sign in"}</span>
               </button>
             </form>
 
             {/* Social Login Divider */}
-            {/* <div className="mt-8">
-              <div className="relative">
-                <div className="absolute inset-0 flex items-center">
-                  <div className="w-full border-t border-gray-300"></div>
-                </div>
-                <div className="relative flex justify-center text-sm">
-                  <span className="px-2 bg-white text-gray-500">Or continue with</span>
+            {socialProviders.length > 0 && (
+              <div className="mt-8">
+                <div className="relative">
+                  <div className="absolute inset-0 flex items-center">
+                    <div className="w-full border-t border-gray-300"></div>
+                  </div>
+                  <div className="relative flex justify-center text-sm">
+                    <span className="px-2 bg-white text-gray-500">Or continue with</span>
+                  </div>
                 </div>
-              </div>
 
-              <div className="mt-6 grid grid-cols-2 gap-3">
-                <button
-                  onClick={() => handleSocialLogin("google")}
-                  disabled={isLoading}
-                  className="w-full inline-flex justify-center py-3 px-4 border border-gray-300 rounded-lg shadow-sm bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 transition duration-200 disabled:opacity-50"
-                >
-                  <FcGoogle className="w-5 h-5" />
-                </button>
-
-                <button
-                  onClick={() => handleSocialLogin("github")}
-                  disabled={isLoading}
-                  className="w-full inline-flex justify-center py-3 px-4 border border-gray-300 rounded-lg shadow-sm bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 transition duration-200 disabled:opacity-50"
-                >
-                  <FaGithub className="w-5 h-5 text-gray-900" />
-                </button>
+                <div className={`mt-6 grid gap-3 ${socialProviders.length > 1 ? "grid-cols-2" : "grid-cols-1"}`}>
+                  {socialProviders.map((provider) => (
+                    <button
+                      key={provider}
+                      type="button"
+                      onClick={() => handleSocialLogin(provider)}
+                      disabled={isLoading}
+                      aria-label={`Sign in with ${OAUTH_PROVIDER_LABELS[provider]}`}
+                      className="w-full inline-flex justify-center items-center gap-2 py-3 px-4 border border-gray-300 rounded-lg shadow-sm bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 transition duration-200 disabled:opacity-50"
+                    >
+                      {OAUTH_PROVIDER_ICONS[provider]}
+                      <span>{OAUTH_PROVIDER_LABELS[provider]}</span>
+                    </button>
+                  ))}
+                </div>
               </div>
-            </div> */}
+            )}
 
             {/* Register Link */}
             <div className="mt-8 text-center">
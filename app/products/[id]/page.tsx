@@ -8,6 +8,8 @@ import Image from 'next/image';
 import { useCart } from '@/app/context/CartContext';
 import { useWishlist } from '@/app/context/WishlistContext';
 import { FiHeart, FiShare2, FiArrowLeft } from 'react-icons/fi';
+import ProductReviews from '@/app/components/ProductReviews';
+import { findVariant, getVariantPrice, ProductOption, ProductVariant } from '@/lib/variants';
 
 interface Product {
   _id: string;
@@ -22,7 +24,13 @@ interface Product {
   rating: number;
   reviews: number;
   inStock: boolean;
+  stockQuantity: number;
+  lowStockThreshold: number;
   features: string[];
+  options: ProductOption[];
+  variants: ProductVariant[];
+  // Set when the product has been moved to the trash; old links still open it
+  deletedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -102,6 +110,17 @@ export default function ProductDetailPage() {
   const [showWishlistNotification, setShowWishlistNotification] = useState(false);
   const [wishlistAction, setWishlistAction] = useState<'added' | 'removed'>('added');
   const [sharingProduct, setSharingProduct] = useState(false);
+  const [selectedOptions, setSelectedOptions] = useState<Record<string, string>>({});
+
+  const hasVariants = !!product && product.variants.length > 0;
+  const selectedVariant = product && hasVariants
+    ? findVariant(product.variants, selectedOptions)
+    : undefined;
+  const displayPrice = product ? getVariantPrice(product.price, selectedVariant) : 0;
+  const displayImages = selectedVariant?.images?.length ? selectedVariant.images : product?.images || [];
+  const availableStock = hasVariants ? selectedVariant?.stockQuantity ?? 0 : product?.stockQuantity ?? 0;
+  const isDiscontinued = !!product?.deletedAt;
+  const isAvailable = !isDiscontinued && (hasVariants ? availableStock > 0 : !!product?.inStock);
 
   // Fixed format currency function with null/undefined check
   const formatCurrency = (amount: number | undefined | null) => {
@@ -157,12 +176,26 @@ export default function ProductDetailPage() {
         rating: typeof data.rating === 'number' ? Math.min(Math.max(data.rating, 0), 5) : 0,
         reviews: typeof data.reviews === 'number' ? Math.max(data.reviews, 0) : 0,
         inStock: data.inStock !== undefined ? data.inStock : true,
+        stockQuantity: typeof data.stockQuantity === 'number' ? data.stockQuantity : 0,
+        lowStockThreshold: typeof data.lowStockThreshold === 'number' ? data.lowStockThreshold : 5,
         features: Array.isArray(data.features) ? data.features : [],
+        options: Array.isArray(data.options) ? data.options : [],
+        variants: Array.isArray(data.variants) ? data.variants : [],
+        deletedAt: data.deletedAt || null,
         createdAt: data.createdAt || new Date().toISOString(),
         updatedAt: data.updatedAt || new Date().toISOString()
       };
       
       setProduct(sanitizedProduct);
+
+      // Preselect the first variant that can actually be bought
+      const defaultVariant = sanitizedProduct.variants.find((variant) => variant.stockQuantity > 0)
+        || sanitizedProduct.variants[0];
+      setSelectedOptions(
+        defaultVariant
+          ? Object.fromEntries(defaultVariant.options.map((option) => [option.name, option.value]))
+          : {}
+      );
     } catch (err) {
       console.error('Error fetching product:', err);
       setError(err instanceof Error ? err.message : 'An error occurred while loading the product');
@@ -172,20 +205,50 @@ export default function ProductDetailPage() {
     }
   };
 
-  const handleAddToCart = async () => {
+  const handleOptionSelect = (name: string, value: string) => {
     if (!product) return;
-    
-    setAddingToCart(true);
-    
-    const cartItem = {
+
+    const nextOptions = { ...selectedOptions, [name]: value };
+    const nextVariant = findVariant(product.variants, nextOptions);
+    setSelectedOptions(nextOptions);
+    if (nextVariant) {
+      setQuantity((current) => Math.max(1, Math.min(current, nextVariant.stockQuantity)));
+    }
+  };
+
+  // A value is purchasable if some in-stock variant uses it together with the other current picks
+  const isOptionValueAvailable = (name: string, value: string) => {
+    if (!product) return false;
+
+    return product.variants.some((variant) =>
+      variant.stockQuantity > 0 &&
+      variant.options.every((option) =>
+        option.name === name ? option.value === value : !selectedOptions[option.name] || selectedOptions[option.name] === option.value
+      )
+    );
+  };
+
+  const buildCartItem = () => {
+    if (!product || (hasVariants && !selectedVariant)) return null;
+
+    return {
       _id: product._id,
       productId: product.productId,
+      variantSku: selectedVariant?.sku,
+      variantOptions: selectedVariant?.options,
       name: product.name,
-      price: product.price,
+      price: displayPrice,
       quantity: quantity,
-      images: product.images,
-      inStock: product.inStock
+      images: displayImages,
+      inStock: isAvailable
     };
+  };
+
+  const handleAddToCart = async () => {
+    const cartItem = buildCartItem();
+    if (!cartItem) return;
+    
+    setAddingToCart(true);
     
     addToCart(cartItem);
     
@@ -197,17 +260,8 @@ export default function ProductDetailPage() {
   };
 
   const handleBuyNow = () => {
-    if (!product) return;
-    
-    const cartItem = {
-      _id: product._id,
-      productId: product.productId,
-      name: product.name,
-      price: product.price,
-      quantity: quantity,
-      images: product.images,
-      inStock: product.inStock
-    };
+    const cartItem = buildCartItem();
+    if (!cartItem) return;
     
     addToCart(cartItem);
     router.push("/cart");
@@ -415,7 +469,10 @@ export default function ProductDetailPage() {
           <div className="grid grid-cols-1 md:grid-cols-2 gap-8 p-8">
             {/* Product Images */}
             <div>
-              <ProductImageGallery product={product} />
+              <ProductImageGallery
+                key={selectedVariant?.sku || product._id}
+                product={{ ...product, images: displayImages }}
+              />
             </div>
 
             {/* Product Details */}
@@ -465,14 +522,14 @@ export default function ProductDetailPage() {
               )}
 
               <div className="flex items-baseline">
-                <span className="text-3xl font-bold text-gray-900">{formatCurrency(product.price)}</span>
-                {product.originalPrice && product.originalPrice > product.price && (
+                <span className="text-3xl font-bold text-gray-900">{formatCurrency(displayPrice)}</span>
+                {product.originalPrice && product.originalPrice > displayPrice && (
                   <>
                     <span className="ml-3 text-lg text-gray-500 line-through">
                       {formatCurrency(product.originalPrice)}
                     </span>
                     <span className="ml-3 bg-green-100 text-green-800 text-sm font-medium px-2.5 py-0.5 rounded-full">
-                      Save {Math.round((1 - product.price / product.originalPrice) * 100)}%
+                      Save {Math.round((1 - displayPrice / product.originalPrice) * 100)}%
                     </span>
                   </>
                 )}
@@ -480,11 +537,11 @@ export default function ProductDetailPage() {
 
               <div className="flex items-center">
                 <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${
-                  product.inStock 
+                  isAvailable 
                     ? 'bg-green-100 text-green-800' 
                     : 'bg-red-100 text-red-800'
                 }`}>
-                  {product.inStock ? (
+                  {isAvailable ? (
                     <>
                       <svg className="h-4 w-4 mr-1" fill="currentColor" viewBox="0 0 20 20">
                         <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
@@ -496,12 +553,56 @@ export default function ProductDetailPage() {
                       <svg className="h-4 w-4 mr-1" fill="currentColor" viewBox="0 0 20 20">
                         <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
                       </svg>
-                      Out of Stock
+                      {isDiscontinued ? 'No Longer Available' : 'Out of Stock'}
                     </>
                   )}
                 </span>
+                {isAvailable && availableStock <= product.lowStockThreshold && (
+                  <span className="ml-3 text-sm font-medium text-amber-600">
+                    Only {availableStock} left
+                  </span>
+                )}
               </div>
 
+              {/* Variant Picker */}
+              {hasVariants && (
+                <div className="space-y-4">
+                  {product.options.map((option) => (
+                    <div key={option.name}>
+                      <h3 className="text-sm font-medium text-gray-900 mb-2">
+                        {option.name}
+                        {selectedOptions[option.name] && (
+                          <span className="ml-2 font-normal text-gray-600">{selectedOptions[option.name]}</span>
+                        )}
+                      </h3>
+                      <div className="flex flex-wrap gap-2">
+                        {option.values.map((value) => {
+                          const isSelected = selectedOptions[option.name] === value;
+                          const available = isOptionValueAvailable(option.name, value);
+                          return (
+                            <button
+                              key={value}
+                              type="button"
+                              onClick={() => handleOptionSelect(option.name, value)}
+                              className={`px-4 py-2 rounded-lg border text-sm font-medium transition-all duration-200 ${
+                                isSelected
+                                  ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                                  : 'border-gray-300 text-gray-700 hover:border-gray-400'
+                              } ${available ? '' : 'line-through opacity-50'}`}
+                            >
+                              {value}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  ))}
+                  {!selectedVariant && (
+                    <p className="text-sm text-red-600">This combination is not available. Please choose another option.</p>
+                  )}
+                </div>
+              )}
+
               {/* Wishlist and Share Buttons */}
               <div className="flex items-center space-x-4">
                 <button
@@ -526,7 +627,7 @@ export default function ProductDetailPage() {
                 </button>
               </div>
 
-              {product.inStock && (
+              {isAvailable && (
                 <div className="space-y-4">
                   <div className="flex items-center space-x-4">
                     <div className="flex items-center border border-gray-300 rounded-lg overflow-hidden bg-white">
@@ -543,12 +644,14 @@ export default function ProductDetailPage() {
                         type="number"
                         min="1"
                         value={quantity}
-                        onChange={(e) => setQuantity(Math.max(1, parseInt(e.target.value) || 1))}
+                        max={availableStock}
+                        onChange={(e) => setQuantity(Math.min(availableStock, Math.max(1, parseInt(e.target.value) || 1)))}
                         className="w-14 text-center border-0 bg-transparent py-3 font-medium"
                       />
                       <button
-                        onClick={() => setQuantity(quantity + 1)}
+                        onClick={() => setQuantity(Math.min(availableStock, quantity + 1))}
                         className="px-4 py-3 text-gray-600 hover:text-gray-700 hover:bg-gray-100 transition-colors duration-200"
+                        disabled={quantity >= availableStock}
                       >
                         <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
@@ -599,13 +702,24 @@ export default function ProductDetailPage() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
                   </svg>
-                  <span>Product ID: {product.productId}</span>
+                  <span>
+                    Product ID: {product.productId}
+                    {selectedVariant && ` · SKU: ${selectedVariant.sku}`}
+                  </span>
                 </div>
               </div>
             </div>
           </div>
         </div>
 
+        {!isDiscontinued && (
+          <ProductReviews
+            productId={product._id}
+            rating={product.rating}
+            reviewCount={product.reviews}
+          />
+        )}
+
         {/* Related Products Section (Optional) */}
         <div className="mt-12">
           <div className="flex items-center justify-between mb-6">
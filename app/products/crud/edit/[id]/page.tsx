@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
+import CategorySelect from '@/app/components/CategorySelect';
 
 interface ProductFormData {
   _id?: string;
@@ -11,11 +12,12 @@ interface ProductFormData {
   price: number;
   originalPrice?: number;
   category: string;
+  categoryId: string | null;
   image: string;
   images: string[];
-  rating: number;
-  reviews: number;
-  inStock: boolean;
+  stockQuantity: number;
+  lowStockThreshold: number;
+  inStock?: boolean;
   features: string[];
 }
 
@@ -179,7 +181,12 @@ export default function EditProductPage() {
       const res = await fetch(`/api/products/${id}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ ...formData, features }),
+        body: JSON.stringify({
+          ...formData,
+          features,
+          stockQuantity: Number(formData.stockQuantity),
+          lowStockThreshold: Number(formData.lowStockThreshold),
+        }),
       });
 
       if (!res.ok) {
@@ -275,13 +282,15 @@ export default function EditProductPage() {
         {/* Category */}
         <div>
           <label className="block text-sm font-medium">Category *</label>
-          <input
-            type="text"
-            name="category"
-            value={formData.category}
+          <CategorySelect
+            name="categoryId"
+            value={formData.categoryId || ''}
             onChange={handleInputChange}
             className="w-full border p-2 rounded"
           />
+          {!formData.categoryId && formData.category && (
+            <p className="text-sm text-gray-500 mt-1">Currently filed as &ldquo;{formData.category}&rdquo;</p>
+          )}
         </div>
 
         {/* Images */}
@@ -353,16 +362,35 @@ export default function EditProductPage() {
           )}
         </div>
 
-        {/* In Stock */}
-        <div className="flex items-center">
-          <input
-            type="checkbox"
-            name="inStock"
-            checked={formData.inStock}
-            onChange={handleInputChange}
-            className="mr-2"
-          />
-          <label>In Stock</label>
+        {/* Inventory */}
+        <div className="grid grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium">Stock Quantity *</label>
+            <input
+              type="number"
+              name="stockQuantity"
+              value={formData.stockQuantity ?? 0}
+              onChange={handleInputChange}
+              min="0"
+              step="1"
+              className="w-full border p-2 rounded"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {Number(formData.stockQuantity) > 0 ? 'In stock' : 'Out of stock'}
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium">Low Stock Threshold</label>
+            <input
+              type="number"
+              name="lowStockThreshold"
+              value={formData.lowStockThreshold ?? 5}
+              onChange={handleInputChange}
+              min="0"
+              step="1"
+              className="w-full border p-2 rounded"
+            />
+          </div>
         </div>
 
         {/* Submit */}
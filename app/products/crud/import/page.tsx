@@ -0,0 +1,254 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { IoMdArrowBack } from "react-icons/io";
+import { FiDownload, FiUpload } from "react-icons/fi";
+import Layout from "@/app/components/Layout";
+import { toCsv } from "@/lib/csv";
+import {
+  PRODUCT_IMPORT_MODE_LABELS,
+  PRODUCT_IMPORT_MODES,
+  PRODUCT_SHEET_COLUMNS,
+  ProductImportAction,
+  ProductImportMode,
+  ProductImportResult,
+  ProductSheetFormat,
+  SHEET_LIST_SEPARATOR,
+} from "@/lib/productSheets";
+
+const ACTION_STYLES: Record<ProductImportAction, string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  unchanged: "bg-gray-100 text-gray-700",
+  error: "bg-red-100 text-red-800",
+};
+
+const ACTION_LABELS: Record<ProductImportAction, string> = {
+  create: "New",
+  update: "Update",
+  unchanged: "Unchanged",
+  error: "Error",
+};
+
+export default function ProductImportPage() {
+  const [fileName, setFileName] = useState("");
+  const [content, setContent] = useState("");
+  const [format, setFormat] = useState<ProductSheetFormat>("csv");
+  const [mode, setMode] = useState<ProductImportMode>("create");
+  const [result, setResult] = useState<ProductImportResult | null>(null);
+  const [error, setError] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setFormat(file.name.toLowerCase().endsWith(".json") ? "json" : "csv");
+    setContent(await file.text());
+    setResult(null);
+    setError("");
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    setSubmitting(true);
+    setError("");
+    try {
+      const res = await fetch("/api/products/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format, content, mode, dryRun }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        setResult(data);
+      } else {
+        setResult(null);
+        setError(data.error || "Import failed");
+      }
+    } catch {
+      setError("Network error occurred");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const downloadTemplate = () => {
+    const blob = new Blob([toCsv([[...PRODUCT_SHEET_COLUMNS]])], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "products-template.csv";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const changes = result ? result.summary.create + result.summary.update : 0;
+  const canApply = !!result && result.dryRun && result.summary.error === 0 && changes > 0;
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/products/crud"
+            className="inline-flex items-center text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white mb-4"
+          >
+            <IoMdArrowBack className="mr-1" />
+            Back to products
+          </Link>
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-800 dark:text-white">
+            Import Products
+          </h1>
+          <p className="text-gray-600 dark:text-gray-300 mt-2">
+            Upload a CSV or JSON file, check the preview, then import. Exports from the products page use the same
+            columns.
+          </p>
+        </div>
+
+        {/* Upload */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6 mb-8 space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">File</label>
+            <div className="flex flex-wrap items-center gap-4">
+              <label className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-lg cursor-pointer transition-colors duration-200">
+                <FiUpload className="mr-2" />
+                Choose file
+                <input type="file" accept=".csv,.json" onChange={handleFileChange} className="hidden" />
+              </label>
+              <span className="text-sm text-gray-500 dark:text-gray-400">{fileName || "No file chosen"}</span>
+              <button
+                type="button"
+                onClick={downloadTemplate}
+                className="inline-flex items-center text-sm text-[#7AA859] hover:text-green-700"
+              >
+                <FiDownload className="mr-1" />
+                CSV template
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+              Columns: {PRODUCT_SHEET_COLUMNS.join(", ")}. Separate several images or features with
+              &quot;{SHEET_LIST_SEPARATOR}&quot;; options and variants are JSON. The category can be its name, slug or ID.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Mode</label>
+            <div className="space-y-2">
+              {PRODUCT_IMPORT_MODES.map((value) => (
+                <label key={value} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="radio"
+                    name="mode"
+                    value={value}
+                    checked={mode === value}
+                    onChange={() => {
+                      setMode(value);
+                      setResult(null);
+                    }}
+                    className="text-[#7AA859] focus:ring-[#7AA859]"
+                  />
+                  {PRODUCT_IMPORT_MODE_LABELS[value]}
+                </label>
+              ))}
+            </div>
+            {mode === "upsert" && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                Blank cells keep the product&apos;s current value.
+              </p>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => runImport(true)}
+              disabled={!content || submitting}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 font-medium rounded-lg transition-colors duration-200 disabled:opacity-50"
+            >
+              {submitting ? "Checking..." : "Preview"}
+            </button>
+            <button
+              onClick={() => runImport(false)}
+              disabled={!canApply || submitting}
+              className="px-4 py-2 bg-[#7AA859] hover:bg-green-700 text-white font-medium rounded-lg transition-colors duration-200 disabled:opacity-50"
+            >
+              Import {changes > 0 ? `${changes} product${changes !== 1 ? "s" : ""}` : ""}
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border-l-4 border-red-500 p-4 mb-6">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {/* Preview / Result */}
+        {result && (
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+            <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+              <p className="text-sm font-medium text-gray-800 dark:text-white">
+                {result.applied
+                  ? "Import finished"
+                  : result.summary.error > 0
+                    ? "Fix the rows with errors and preview again; nothing has been imported"
+                    : "Preview; nothing has been imported yet"}
+              </p>
+              <div className="flex flex-wrap gap-2 mt-2">
+                {(Object.keys(ACTION_LABELS) as ProductImportAction[]).map((action) => (
+                  <span key={action} className={`px-2 py-1 text-xs font-medium rounded-full ${ACTION_STYLES[action]}`}>
+                    {ACTION_LABELS[action]}: {result.summary[action]}
+                  </span>
+                ))}
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Row
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Product ID
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Name
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Result
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                  {result.rows.map((row) => (
+                    <tr key={row.row}>
+                      <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-300">{row.row}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900 dark:text-white">{row.productId || "—"}</td>
+                      <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-300">{row.name || "—"}</td>
+                      <td className="px-6 py-4 text-sm">
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${ACTION_STYLES[row.action]}`}>
+                          {ACTION_LABELS[row.action]}
+                        </span>
+                        {row.errors.length > 0 && (
+                          <ul className="mt-2 list-disc list-inside text-red-600 dark:text-red-400">
+                            {row.errors.map((message) => (
+                              <li key={message}>{message}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -1,12 +1,17 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
-import { useRouter } from "next/navigation";
+import React, { useCallback, useEffect, useState } from "react";
 import Image from "next/image";
 import Link from "next/link";
-import { FiEdit, FiTrash2, FiPlus } from "react-icons/fi";
+import { FiEdit, FiTrash2, FiPlus, FiDownload, FiUpload, FiArchive } from "react-icons/fi";
 import { IoMdArrowBack, IoMdArrowForward } from "react-icons/io";
+import { useSession } from "next-auth/react";
 import Layout from "@/app/components/Layout";
+import ProductBulkActions from "@/app/components/ProductBulkActions";
+import { CategoryFacet } from "@/lib/productListing";
+import { PRODUCT_SHEET_FORMATS, ProductSheetFormat } from "@/lib/productSheets";
+import { ProductBulkResult } from "@/lib/productBulkActions";
+import { roleHasPermission } from "@/lib/roles";
 
 
 interface Product {
@@ -18,46 +23,134 @@ interface Product {
   category: string;
   images: string[];
   inStock: boolean;
+  stockQuantity?: number;
+  lowStockThreshold?: number;
   createdAt?: string;
 }
 
+interface ICategoryLink {
+  name: string;
+  category: string;
+  created: boolean;
+  count: number;
+}
+
 export default function ProductsCrudPage() {
-  const router = useRouter();
+  const { data: session } = useSession();
+  const canDelete = roleHasPermission(session?.user?.role, "catalog:delete");
+
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
   const [deleting, setDeleting] = useState<string | null>(null);
+  const [pendingCategoryLinks, setPendingCategoryLinks] = useState<ICategoryLink[]>([]);
+
+  // Filters, also applied to exports
+  const [category, setCategory] = useState("");
+  const [inStockOnly, setInStockOnly] = useState(false);
+  const [categoryFacets, setCategoryFacets] = useState<CategoryFacet[]>([]);
+
+  // Bulk actions; the selection is kept across pages
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkResult, setBulkResult] = useState<ProductBulkResult | null>(null);
+  const [bulkError, setBulkError] = useState("");
 
   // Pagination
   const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
   const productsPerPage = 6;
 
-  const fetchProducts = async () => {
+  const filterParams = useCallback(() => {
+    const params = new URLSearchParams();
+    if (category) params.set("category", category);
+    if (inStockOnly) params.set("inStock", "true");
+    return params;
+  }, [category, inStockOnly]);
+
+  const fetchProducts = useCallback(async () => {
     setLoading(true);
     try {
-      const res = await fetch("/api/products");
+      const params = filterParams();
+      params.set("page", String(currentPage));
+      params.set("limit", String(productsPerPage));
+      const res = await fetch(`/api/products?${params}`);
+      if (!res.ok) throw new Error("Failed to load products");
       const data = await res.json();
-      setProducts(data);
+      setProducts(data.products);
+      setTotalPages(data.pagination.totalPages);
+      setCategoryFacets(data.facets?.categories || []);
       setError("");
     } catch (err) {
       setError("Failed to load products");
     } finally {
       setLoading(false);
     }
-  };
+  }, [currentPage, filterParams]);
 
   useEffect(() => {
     fetchProducts();
+  }, [fetchProducts]);
+
+  // Products saved before the category tree that aren't linked to a Category yet
+  useEffect(() => {
+    const fetchPendingCategoryLinks = async () => {
+      try {
+        const res = await fetch("/api/categories/link-products");
+        if (res.ok) {
+          const data = await res.json();
+          setPendingCategoryLinks(data.links || []);
+        }
+      } catch (error) {
+        console.error("Failed to check product categories:", error);
+      }
+    };
+    fetchPendingCategoryLinks();
   }, []);
 
-  // Pagination logic
-  const indexOfLast = currentPage * productsPerPage;
-  const indexOfFirst = indexOfLast - productsPerPage;
-  const currentProducts = products.slice(indexOfFirst, indexOfLast);
-  const totalPages = Math.ceil(products.length / productsPerPage);
+  const handleLinkCategories = async () => {
+    try {
+      const res = await fetch("/api/categories/link-products", { method: "POST" });
+      if (res.ok) {
+        setPendingCategoryLinks([]);
+        fetchProducts();
+      } else {
+        alert("Linking categories failed");
+      }
+    } catch {
+      alert("Network error occurred");
+    }
+  };
+
+  const handleExport = (format: ProductSheetFormat) => {
+    const params = filterParams();
+    params.set("format", format);
+    window.location.href = `/api/products/export?${params}`;
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((selected) => selected !== id) : [...prev, id]));
+  };
+
+  const pageIds = products.map((product) => product._id);
+  const allOnPageSelected = pageIds.length > 0 && pageIds.every((id) => selectedIds.includes(id));
+
+  const toggleSelectPage = () => {
+    setSelectedIds((prev) =>
+      allOnPageSelected ? prev.filter((id) => !pageIds.includes(id)) : [...new Set([...prev, ...pageIds])]
+    );
+  };
+
+  const handleBulkResult = (result: ProductBulkResult | null, error?: string) => {
+    setBulkResult(result);
+    setBulkError(error || "");
+    if (result?.applied) {
+      setSelectedIds([]);
+      fetchProducts();
+    }
+  };
 
   const handleDelete = async (id: string) => {
-    const confirmDelete = confirm("Are you sure you want to delete this product?");
+    const confirmDelete = confirm("Move this product to the trash? It can be restored from the trash later.");
     if (!confirmDelete) return;
 
     setDeleting(id);
@@ -69,6 +162,7 @@ export default function ProductsCrudPage() {
         throw new Error(err.message || "Delete failed");
       }
 
+      setSelectedIds((prev) => prev.filter((selected) => selected !== id));
       fetchProducts();
       setCurrentPage(1); // reset page
     } catch (err) {
@@ -78,14 +172,6 @@ export default function ProductsCrudPage() {
     }
   };
 
-  // Auth check
-  useEffect(() => {
-    const user = localStorage.getItem("user");
-    if (!user) {
-      router.push("/login");
-    }
-  }, [router]);
-
   return (
     <Layout>
       <div className="container mx-auto px-4 py-8">
@@ -99,15 +185,149 @@ export default function ProductsCrudPage() {
               Manage your product catalog
             </p>
           </div>
-          <Link
-            href="/products/add-product"
-            className="mt-4 md:mt-0 inline-flex items-center px-4 py-2 bg-[#7AA859] hover:bg-green-700 text-white font-medium rounded-lg transition-colors duration-200"
-          >
-            <FiPlus className="mr-2" />
-            Add Product
-          </Link>
+          <div className="mt-4 md:mt-0 flex flex-wrap gap-2">
+            {canDelete && (
+              <Link
+                href="/products/crud/trash"
+                className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 font-medium rounded-lg transition-colors duration-200"
+              >
+                <FiArchive className="mr-2" />
+                Trash
+              </Link>
+            )}
+            <Link
+              href="/products/crud/import"
+              className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 font-medium rounded-lg transition-colors duration-200"
+            >
+              <FiUpload className="mr-2" />
+              Import
+            </Link>
+            <Link
+              href="/products/add-product"
+              className="inline-flex items-center px-4 py-2 bg-[#7AA859] hover:bg-green-700 text-white font-medium rounded-lg transition-colors duration-200"
+            >
+              <FiPlus className="mr-2" />
+              Add Product
+            </Link>
+          </div>
         </div>
 
+        {/* Filters and Export */}
+        <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex flex-wrap items-center gap-4">
+            <select
+              value={category}
+              onChange={(e) => {
+                setCategory(e.target.value);
+                setCurrentPage(1);
+                setSelectedIds([]);
+              }}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-white rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#7AA859]"
+            >
+              <option value="">All categories</option>
+              {categoryFacets.map((facet) => (
+                <option key={facet.category} value={facet.category}>
+                  {facet.category} ({facet.count})
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={inStockOnly}
+                onChange={(e) => {
+                  setInStockOnly(e.target.checked);
+                  setCurrentPage(1);
+                  setSelectedIds([]);
+                }}
+                className="rounded border-gray-300 text-[#7AA859] focus:ring-[#7AA859]"
+              />
+              In stock only
+            </label>
+          </div>
+          <div className="flex gap-2">
+            {PRODUCT_SHEET_FORMATS.map((format) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-lg transition-colors duration-200"
+              >
+                <FiDownload className="mr-2" />
+                Export {format.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Category Migration */}
+        {pendingCategoryLinks.length > 0 && (
+          <div className="mb-8 bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-center justify-between">
+            <div className="text-sm text-yellow-800">
+              <p className="font-medium">Some products aren&apos;t linked to a category yet</p>
+              <p className="mt-1">
+                {pendingCategoryLinks
+                  .map(link => `${link.count} × ${link.name}${link.created ? " (new category)" : link.category !== link.name ? ` → ${link.category}` : ""}`)
+                  .join(", ")}
+              </p>
+            </div>
+            <button
+              onClick={handleLinkCategories}
+              className="bg-yellow-600 text-white py-2 px-4 rounded-lg hover:bg-yellow-700 transition-colors text-sm font-medium"
+            >
+              Link categories
+            </button>
+          </div>
+        )}
+
+        {/* Bulk Actions */}
+        {selectedIds.length > 0 && (
+          <ProductBulkActions
+            selectedIds={selectedIds}
+            canDelete={canDelete}
+            onResult={handleBulkResult}
+            onClear={() => setSelectedIds([])}
+          />
+        )}
+
+        {(bulkResult || bulkError) && (
+          <div
+            className={`mb-6 p-4 rounded-lg border text-sm ${
+              bulkResult?.applied
+                ? "bg-green-50 border-green-200 text-green-800"
+                : "bg-red-50 border-red-200 text-red-700"
+            }`}
+          >
+            <div className="flex items-start justify-between">
+              <p className="font-medium">
+                {bulkResult?.applied
+                  ? `Done: ${bulkResult.summary.updated} updated, ${bulkResult.summary.deleted} moved to the trash, ${bulkResult.summary.skipped} skipped`
+                  : bulkError}
+              </p>
+              <button
+                onClick={() => {
+                  setBulkResult(null);
+                  setBulkError("");
+                }}
+                className="ml-4 opacity-70 hover:opacity-100"
+              >
+                Dismiss
+              </button>
+            </div>
+            {bulkResult && bulkResult.results.some((result) => result.message) && (
+              <ul className="mt-2 list-disc list-inside">
+                {bulkResult.results
+                  .filter((result) => result.message)
+                  .map((result) => (
+                    <li key={result.id}>
+                      {result.name || result.id}: {result.message}
+                      {result.status === "failed" ? "" : " (skipped)"}
+                    </li>
+                  ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         {/* Loading / Error / Table */}
         {loading ? (
           <div className="flex justify-center items-center h-64">
@@ -125,6 +345,15 @@ export default function ProductsCrudPage() {
                 <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
                   <thead className="bg-gray-50 dark:bg-gray-700">
                     <tr>
+                      <th className="pl-6 py-3 text-left">
+                        <input
+                          type="checkbox"
+                          checked={allOnPageSelected}
+                          onChange={toggleSelectPage}
+                          aria-label="Select all products on this page"
+                          className="rounded border-gray-300 text-[#7AA859] focus:ring-[#7AA859]"
+                        />
+                      </th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                         Image
                       </th>
@@ -138,7 +367,7 @@ export default function ProductsCrudPage() {
                         Price
                       </th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                        In Stock
+                        Stock
                       </th>
                       <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                         Actions
@@ -146,11 +375,20 @@ export default function ProductsCrudPage() {
                     </tr>
                   </thead>
                   <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-                    {currentProducts.map((product) => (
+                    {products.map((product) => (
                       <tr
                         key={product._id}
                         className="hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors duration-150"
                       >
+                        <td className="pl-6 py-4">
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.includes(product._id)}
+                            onChange={() => toggleSelected(product._id)}
+                            aria-label={`Select ${product.name}`}
+                            className="rounded border-gray-300 text-[#7AA859] focus:ring-[#7AA859]"
+                          />
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="flex-shrink-0 h-12 w-16">
                             <Image
@@ -172,10 +410,12 @@ export default function ProductsCrudPage() {
                           ${product.price}
                         </td>
                         <td className="px-6 py-4 text-sm">
-                          {product.inStock ? (
-                            <span className="text-green-600">Yes</span>
+                          {!product.inStock ? (
+                            <span className="text-red-600">Out of stock</span>
+                          ) : (product.stockQuantity ?? 0) <= (product.lowStockThreshold ?? 5) ? (
+                            <span className="text-amber-600">{product.stockQuantity} (low)</span>
                           ) : (
-                            <span className="text-red-600">No</span>
+                            <span className="text-green-600">{product.stockQuantity}</span>
                           )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
@@ -191,7 +431,7 @@ export default function ProductsCrudPage() {
                               onClick={() => handleDelete(product._id)}
                               disabled={deleting === product._id}
                               className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300 transition-colors duration-200 disabled:opacity-50"
-                              title="Delete"
+                              title="Move to trash"
                             >
                               <FiTrash2 className="h-5 w-5" />
                             </button>
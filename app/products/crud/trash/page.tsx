@@ -0,0 +1,240 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { FiRotateCcw, FiTrash2 } from "react-icons/fi";
+import { IoMdArrowBack, IoMdArrowForward } from "react-icons/io";
+import Layout from "@/app/components/Layout";
+
+interface TrashedProduct {
+  _id: string;
+  productId: string;
+  name: string;
+  price: number;
+  category: string;
+  images: string[];
+  deletedAt: string;
+  // Orders that include the product; only products in none can be purged
+  orders: number;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+const PAGE_SIZE = 20;
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleDateString() : "—");
+
+export default function ProductTrashPage() {
+  const [products, setProducts] = useState<TrashedProduct[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchTrash = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/products/trash?page=${currentPage}&limit=${PAGE_SIZE}`);
+      if (!res.ok) throw new Error("Failed to load the trash");
+      const data = await res.json();
+      setProducts(data.products);
+      setPagination(data.pagination);
+      setError("");
+    } catch {
+      setError("Failed to load the trash");
+    } finally {
+      setLoading(false);
+    }
+  }, [currentPage]);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  // Step back a page when the last product on it goes
+  const refreshAfterRemoval = () => {
+    if (products.length === 1 && currentPage > 1) {
+      setCurrentPage((page) => page - 1);
+    } else {
+      fetchTrash();
+    }
+  };
+
+  const handleRestore = async (product: TrashedProduct) => {
+    setBusyId(product._id);
+    try {
+      const res = await fetch(`/api/products/${product._id}/restore`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Restore failed");
+      refreshAfterRemoval();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Restore failed");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (product: TrashedProduct) => {
+    if (!confirm(`Permanently delete ${product.name}? Its reviews go too, and this can't be undone.`)) return;
+
+    setBusyId(product._id);
+    try {
+      const res = await fetch(`/api/products/${product._id}?permanent=true`, { method: "DELETE" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Delete failed");
+      refreshAfterRemoval();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Delete failed");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/products/crud"
+            className="inline-flex items-center text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white mb-4"
+          >
+            <IoMdArrowBack className="mr-1" />
+            Back to products
+          </Link>
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-800 dark:text-white">
+            Trash
+          </h1>
+          <p className="text-gray-600 dark:text-gray-300 mt-2">
+            Deleted products are hidden from the store but kept for order history and wishlists. Restore them, or
+            delete them for good once no order includes them.
+          </p>
+        </div>
+
+        {loading && !pagination ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-[#7AA859]"></div>
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border-l-4 border-red-500 p-4 mb-6">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        ) : (
+          <>
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead className="bg-gray-50 dark:bg-gray-700">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Image
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Name
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Category
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Deleted
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Orders
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                    {products.map((product) => (
+                      <tr key={product._id} className="hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors duration-150">
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="flex-shrink-0 h-12 w-16">
+                            <Image
+                              src={product.images[0] || "/placeholder.png"}
+                              alt={product.name}
+                              width={64}
+                              height={48}
+                              className="h-full w-full object-cover rounded-md border border-gray-200 dark:border-gray-600 opacity-75"
+                            />
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-medium text-gray-900 dark:text-white">{product.name}</div>
+                          <div className="text-sm text-gray-500 dark:text-gray-400">{product.productId}</div>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-300">{product.category}</td>
+                        <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-300">{formatDate(product.deletedAt)}</td>
+                        <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-300">{product.orders}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                          <div className="flex justify-end space-x-4">
+                            <button
+                              onClick={() => handleRestore(product)}
+                              disabled={busyId === product._id}
+                              className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300 transition-colors duration-200 disabled:opacity-50"
+                              title="Restore"
+                            >
+                              <FiRotateCcw className="h-5 w-5" />
+                            </button>
+                            <button
+                              onClick={() => handlePurge(product)}
+                              disabled={busyId === product._id || product.orders > 0}
+                              className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300 transition-colors duration-200 disabled:opacity-30 disabled:cursor-not-allowed"
+                              title={product.orders > 0 ? "In past orders, so it stays in the trash" : "Delete permanently"}
+                            >
+                              <FiTrash2 className="h-5 w-5" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {products.length === 0 && (
+                <div className="text-center py-12">
+                  <h3 className="mt-2 text-sm font-medium text-gray-900 dark:text-white">The trash is empty</h3>
+                  <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                    Products you delete show up here.
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* Pagination */}
+            {pagination && pagination.totalPages > 1 && (
+              <div className="flex justify-center items-center mt-8 gap-4">
+                <button
+                  onClick={() => setCurrentPage((p) => Math.max(p - 1, 1))}
+                  disabled={currentPage === 1}
+                  className="px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-700 disabled:opacity-50"
+                >
+                  <IoMdArrowBack />
+                </button>
+                <span className="text-sm text-gray-600 dark:text-gray-300">
+                  Page {pagination.page} of {pagination.totalPages}
+                </span>
+                <button
+                  onClick={() => setCurrentPage((p) => Math.min(p + 1, pagination.totalPages))}
+                  disabled={currentPage === pagination.totalPages}
+                  className="px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-700 disabled:opacity-50"
+                >
+                  <IoMdArrowForward />
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+}
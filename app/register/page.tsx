@@ -6,6 +6,7 @@ import { useRouter } from "next/navigation";
 import { FiUser, FiMail, FiPhone, FiLock, FiEye, FiEyeOff, FiLogIn, FiCheck } from "react-icons/fi";
 import { FcGoogle } from "react-icons/fc";
 import { FaGithub } from "react-icons/fa";
+import { checkPasswordStrength, PASSWORD_RULES } from "@/lib/passwordPolicy";
 
 export default function RegisterPage() {
   const router = useRouter();
@@ -43,8 +44,9 @@ export default function RegisterPage() {
     }
 
     // Password strength validation
-    if (form.password.length < 6) {
-      setError("Password must be at least 6 characters long");
+    const passwordError = checkPasswordStrength(form.password, form.email);
+    if (passwordError) {
+      setError(passwordError);
       setIsLoading(false);
       return;
     }
@@ -62,8 +64,8 @@ export default function RegisterPage() {
         return;
       }
 
-      setSuccess("Registration successful! Redirecting to login...");
-      setTimeout(() => router.push("/login"), 1400);
+      setSuccess("Registration successful! Check your email for a verification link. Redirecting to login...");
+      setTimeout(() => router.push("/login"), 2500);
     } catch (err) {
       setError("An error occurred during registration");
     } finally {
@@ -77,8 +79,9 @@ export default function RegisterPage() {
     console.log(`Register with ${provider}`);
   };
 
+  const passedRules = PASSWORD_RULES.filter((rule) => rule.test(form.password)).length;
   const passwordStrength = form.password.length > 0 ? 
-    (form.password.length >= 8 ? "strong" : form.password.length >= 6 ? "medium" : "weak") : 
+    (passedRules === PASSWORD_RULES.length ? "strong" : passedRules >= 2 ? "medium" : "weak") : 
     "none";
 
   return (
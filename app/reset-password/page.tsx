@@ -0,0 +1,180 @@
+// app/reset-password/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { FiLock, FiKey, FiArrowLeft, FiCheckCircle, FiEye, FiEyeOff } from "react-icons/fi";
+import { checkPasswordStrength, MIN_PASSWORD_LENGTH } from "@/lib/passwordPolicy";
+
+export default function ResetPasswordPage() {
+  const [token, setToken] = useState<string | null>(null);
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // The token comes from the link in the reset email
+  useEffect(() => {
+    const linkToken = new URLSearchParams(window.location.search).get("token");
+    if (linkToken) {
+      setToken(linkToken);
+    } else {
+      setError("This reset link is incomplete. Request a new one.");
+    }
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    const passwordError = checkPasswordStrength(password);
+    if (passwordError) {
+      setError(passwordError);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const res = await fetch("/api/auth/reset-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to reset password");
+      } else {
+        setMessage(data.message);
+      }
+    } catch {
+      setError("An error occurred. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-orange-50 to-orange-100 flex items-center justify-center p-4">
+      <div className="max-w-md w-full">
+        <div className="bg-white rounded-2xl shadow-xl overflow-hidden">
+          <div className="bg-gradient-to-r from-orange-500 to-orange-700 p-6 text-center">
+            <div className="w-16 h-16 bg-white/10 rounded-full flex items-center justify-center mx-auto mb-4">
+              <FiKey className="text-white text-2xl" />
+            </div>
+            <h1 className="text-2xl font-bold text-white">Reset Password</h1>
+            <p className="text-orange-100 mt-2">Choose a new password for your account</p>
+          </div>
+
+          <div className="p-8">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6 flex items-center">
+                <div className="w-2 h-2 bg-red-500 rounded-full mr-3"></div>
+                {error}
+              </div>
+            )}
+
+            {message ? (
+              <div className="text-center space-y-4">
+                <FiCheckCircle className="w-12 h-12 text-emerald-500 mx-auto" />
+                <p className="text-gray-700">{message}</p>
+                <Link
+                  href="/login"
+                  className="inline-block w-full bg-gradient-to-r from-orange-600 to-orange-700 hover:from-orange-700 hover:to-orange-800 text-white py-3 px-4 rounded-lg font-medium transition duration-200"
+                >
+                  Sign in
+                </Link>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="space-y-2">
+                  <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                    New Password
+                  </label>
+                  <div className="relative">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <FiLock className="h-5 w-5 text-gray-400" />
+                    </div>
+                    <input
+                      id="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      required
+                      minLength={MIN_PASSWORD_LENGTH}
+                      placeholder={`At least ${MIN_PASSWORD_LENGTH} characters, with a letter and a number`}
+                      type={showPassword ? "text" : "password"}
+                      className="block w-full pl-10 pr-10 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition duration-200"
+                      disabled={isLoading || !token}
+                    />
+                    <button
+                      type="button"
+                      className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                      onClick={() => setShowPassword(!showPassword)}
+                    >
+                      {showPassword ? (
+                        <FiEyeOff className="h-5 w-5 text-gray-400 hover:text-gray-600" />
+                      ) : (
+                        <FiEye className="h-5 w-5 text-gray-400 hover:text-gray-600" />
+                      )}
+                    </button>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
+                    Confirm Password
+                  </label>
+                  <div className="relative">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <FiLock className="h-5 w-5 text-gray-400" />
+                    </div>
+                    <input
+                      id="confirmPassword"
+                      value={confirmPassword}
+                      onChange={(e) => setConfirmPassword(e.target.value)}
+                      required
+                      placeholder="Repeat the new password"
+                      type={showPassword ? "text" : "password"}
+                      className="block w-full pl-10 pr-3 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition duration-200"
+                      disabled={isLoading || !token}
+                    />
+                  </div>
+                </div>
+
+                <button
+                  type="submit"
+                  className="w-full bg-gradient-to-r from-orange-600 to-orange-700 hover:from-orange-700 hover:to-orange-800 text-white py-3 px-4 rounded-lg font-medium transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+                  disabled={isLoading || !token}
+                >
+                  {isLoading ? (
+                    <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                  ) : (
+                    <FiKey className="w-5 h-5" />
+                  )}
+                  <span>{isLoading ? "Saving..." : "Reset password"}</span>
+                </button>
+              </form>
+            )}
+
+            <div className="mt-8 text-center">
+              <Link
+                href="/forgot-password"
+                className="text-sm font-medium text-orange-600 hover:text-orange-500 inline-flex items-center space-x-1"
+              >
+                <FiArrowLeft className="w-4 h-4" />
+                <span>Request a new link</span>
+              </Link>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+// app/search/page.tsx
+import ProductsPage from '../components/Products';
+
+interface SearchPageProps {
+  searchParams: Promise<{ q?: string }>;
+}
+
+export default async function SearchPage({ searchParams }: SearchPageProps) {
+  const { q } = await searchParams;
+  const query = (q || '').trim();
+
+  // Keyed by the query so a new search starts with fresh filters
+  return <ProductsPage key={query} searchQuery={query || undefined} />;
+}
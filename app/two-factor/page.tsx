@@ -0,0 +1,262 @@
+// app/two-factor/page.tsx
+// Two-factor enrollment and management. middleware.ts sends admins here
+// before the admin pages open.
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import { FiShield, FiCheckCircle, FiCopy, FiAlertTriangle } from "react-icons/fi";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+export default function TwoFactorPage() {
+  const { status: sessionStatus, update } = useSession();
+  const router = useRouter();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadStatus = async () => {
+    const res = await fetch("/api/users/two-factor");
+    if (res.ok) {
+      setStatus(await res.json());
+    }
+  };
+
+  useEffect(() => {
+    if (sessionStatus === "unauthenticated") {
+      router.push("/login?callbackUrl=/two-factor");
+    } else if (sessionStatus === "authenticated") {
+      loadStatus();
+    }
+  }, [sessionStatus, router]);
+
+  // Back to the admin page that sent us here, if any
+  const continueUrl = () => {
+    const callbackUrl = new URLSearchParams(window.location.search).get("callbackUrl");
+    return callbackUrl?.startsWith("/") && !callbackUrl.startsWith("//") ? callbackUrl : "/account";
+  };
+
+  const request = async (url: string, method: string, body?: object) => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Something went wrong");
+        return null;
+      }
+      return data;
+    } catch {
+      setError("An error occurred. Please try again.");
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const startSetup = async () => {
+    const data = await request("/api/users/two-factor", "POST");
+    if (data) setSetup({ secret: data.secret, otpauthUri: data.otpauthUri });
+  };
+
+  const confirmSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await request("/api/users/two-factor", "PUT", { code });
+    if (!data) return;
+    setRecoveryCodes(data.recoveryCodes);
+    setSetup(null);
+    setCode("");
+    // Refresh the session so middleware lets an admin through
+    await update();
+    await loadStatus();
+  };
+
+  const regenerateCodes = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await request("/api/users/two-factor/recovery-codes", "POST", { code });
+    if (!data) return;
+    setRecoveryCodes(data.recoveryCodes);
+    setCode("");
+    await loadStatus();
+  };
+
+  const disable = async () => {
+    if (!code.trim()) {
+      setError("Enter a code from your app or a recovery code");
+      return;
+    }
+    if (!confirm("Turn off two-factor authentication?")) return;
+    const data = await request("/api/users/two-factor", "DELETE", { code });
+    if (!data) return;
+    setCode("");
+    await update();
+    await loadStatus();
+  };
+
+  const copyCodes = () => {
+    if (recoveryCodes) navigator.clipboard.writeText(recoveryCodes.join("\n"));
+  };
+
+  const codeInput = (placeholder: string) => (
+    <input
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      placeholder={placeholder}
+      autoComplete="one-time-code"
+      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 tracking-widest"
+    />
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100 flex items-center justify-center p-4">
+      <div className="max-w-lg w-full bg-white rounded-2xl shadow-xl p-8">
+        <div className="flex items-center mb-6">
+          <div className="w-12 h-12 bg-indigo-50 rounded-full flex items-center justify-center mr-4">
+            <FiShield className="text-indigo-600 text-xl" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Two-Factor Authentication</h1>
+            <p className="text-gray-600 text-sm">A code from your phone each time you sign in</p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">
+            {error}
+          </div>
+        )}
+
+        {!status ? (
+          <div className="py-8">
+            <div className="w-10 h-10 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin mx-auto"></div>
+          </div>
+        ) : recoveryCodes ? (
+          <div className="space-y-4">
+            <div className="flex items-start p-4 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm">
+              <FiAlertTriangle className="mr-2 mt-0.5 flex-shrink-0" />
+              Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone,
+              and they won&apos;t be shown again.
+            </div>
+            <div className="grid grid-cols-2 gap-2 p-4 bg-gray-50 rounded-lg font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <div className="flex space-x-3">
+              <button
+                onClick={copyCodes}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors inline-flex items-center justify-center"
+              >
+                <FiCopy className="mr-2" /> Copy
+              </button>
+              <button
+                onClick={() => router.push(continueUrl())}
+                className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+              >
+                I&apos;ve saved them
+              </button>
+            </div>
+          </div>
+        ) : status.enabled ? (
+          <div className="space-y-6">
+            <div className="flex items-center p-4 bg-emerald-50 border border-emerald-200 rounded-lg text-emerald-700">
+              <FiCheckCircle className="mr-2" />
+              Two-factor authentication is on. {status.recoveryCodesRemaining} recovery codes left.
+            </div>
+            <form onSubmit={regenerateCodes} className="space-y-3">
+              <h2 className="font-semibold text-gray-900">Recovery codes</h2>
+              <p className="text-gray-600 text-sm">Replacing them voids the old ones.</p>
+              {codeInput("Code from your app")}
+              <div className="flex space-x-3">
+                <button
+                  type="submit"
+                  disabled={isBusy}
+                  className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                >
+                  New recovery codes
+                </button>
+                {!status.required && (
+                  <button
+                    type="button"
+                    onClick={disable}
+                    disabled={isBusy}
+                    className="flex-1 px-4 py-2 bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors disabled:opacity-50"
+                  >
+                    Turn off
+                  </button>
+                )}
+              </div>
+            </form>
+          </div>
+        ) : setup ? (
+          <form onSubmit={confirmSetup} className="space-y-4">
+            <ol className="list-decimal list-inside space-y-2 text-gray-700 text-sm">
+              <li>
+                Open an authenticator app (Google Authenticator, Authy, 1Password...). On your phone you can{" "}
+                <a href={setup.otpauthUri} className="text-indigo-600 underline">
+                  add it directly
+                </a>
+                , or scan a QR code of the link below.
+              </li>
+              <li>Or enter this key by hand:</li>
+            </ol>
+            <div className="p-3 bg-gray-50 rounded-lg font-mono text-sm break-all select-all">
+              {setup.secret.match(/.{1,4}/g)?.join(" ")}
+            </div>
+            <details className="text-xs text-gray-500">
+              <summary className="cursor-pointer">Provisioning URI</summary>
+              <p className="mt-2 break-all select-all">{setup.otpauthUri}</p>
+            </details>
+            <p className="text-gray-700 text-sm">Then enter the 6-digit code it shows:</p>
+            {codeInput("123456")}
+            <button
+              type="submit"
+              disabled={isBusy}
+              className="w-full px-4 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+            >
+              {isBusy ? "Checking..." : "Turn on two-factor"}
+            </button>
+          </form>
+        ) : (
+          <div className="space-y-4">
+            {status.required && (
+              <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm">
+                Your role requires two-factor authentication. Set it up to continue to the admin area.
+              </div>
+            )}
+            <p className="text-gray-700">
+              After your password, you&apos;ll enter a code from an authenticator app on your phone, so a
+              stolen password alone isn&apos;t enough to get in.
+            </p>
+            <button
+              onClick={startSetup}
+              disabled={isBusy}
+              className="w-full px-4 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+            >
+              Set up two-factor
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+// app/unlock-account/page.tsx
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { FiUnlock, FiCheckCircle } from "react-icons/fi";
+
+export default function UnlockAccountPage() {
+  const [isUnlocking, setIsUnlocking] = useState(true);
+  const [unlocked, setUnlocked] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const unlockStartedRef = useRef(false);
+
+  // Opened from the link in the lock email: unlock straight away
+  useEffect(() => {
+    if (unlockStartedRef.current) return;
+    unlockStartedRef.current = true;
+
+    const unlock = async () => {
+      const token = new URLSearchParams(window.location.search).get("token");
+      if (!token) {
+        setError("This unlock link is incomplete. Open it from the email again.");
+        return;
+      }
+
+      const res = await fetch("/api/auth/unlock-account", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to unlock account");
+        return;
+      }
+      setUnlocked(true);
+    };
+
+    unlock()
+      .catch(() => setError("An error occurred. Please try again."))
+      .finally(() => setIsUnlocking(false));
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-orange-50 to-orange-100 flex items-center justify-center p-4">
+      <div className="max-w-md w-full">
+        <div className="bg-white rounded-2xl shadow-xl overflow-hidden">
+          <div className="bg-gradient-to-r from-orange-500 to-orange-700 p-6 text-center">
+            <div className="w-16 h-16 bg-white/10 rounded-full flex items-center justify-center mx-auto mb-4">
+              <FiUnlock className="text-white text-2xl" />
+            </div>
+            <h1 className="text-2xl font-bold text-white">Unlock Your Account</h1>
+            <p className="text-orange-100 mt-2">After too many failed sign-in attempts</p>
+          </div>
+
+          <div className="p-8 text-center space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center text-left">
+                <div className="w-2 h-2 bg-red-500 rounded-full mr-3 flex-shrink-0"></div>
+                {error}
+              </div>
+            )}
+
+            {isUnlocking ? (
+              <div className="py-6">
+                <div className="w-10 h-10 border-4 border-orange-500 border-t-transparent rounded-full animate-spin mx-auto"></div>
+                <p className="text-gray-600 mt-4">Unlocking your account...</p>
+              </div>
+            ) : unlocked ? (
+              <>
+                <FiCheckCircle className="w-12 h-12 text-emerald-500 mx-auto" />
+                <p className="text-gray-700">Your account is unlocked. You can sign in now.</p>
+                <Link
+                  href="/login"
+                  className="inline-block w-full bg-gradient-to-r from-orange-600 to-orange-700 hover:from-orange-700 hover:to-orange-800 text-white py-3 px-4 rounded-lg font-medium transition duration-200"
+                >
+                  Sign in
+                </Link>
+              </>
+            ) : (
+              <p className="text-gray-700">
+                The lock ends on its own after a few minutes. If you&apos;ve forgotten your password,{" "}
+                <Link href="/forgot-password" className="font-medium text-orange-600 hover:text-orange-500">
+                  reset it
+                </Link>
+                , which also unlocks your account.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+// app/verify-email/page.tsx
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useSession } from "next-auth/react";
+import { FiMail, FiCheckCircle, FiRefreshCw } from "react-icons/fi";
+
+export default function VerifyEmailPage() {
+  const { data: session, status, update } = useSession();
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [verified, setVerified] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const verifyStartedRef = useRef(false);
+
+  // Opened from the emailed link: verify straight away
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get("token");
+    if (!token || verifyStartedRef.current) return;
+    verifyStartedRef.current = true;
+
+    setIsVerifying(true);
+    fetch("/api/auth/verify-email", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token }),
+    })
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) {
+          setError(data.error || "Failed to verify email");
+          return;
+        }
+        setVerified(true);
+        // Refresh the session so checkout unlocks without signing in again
+        await update();
+      })
+      .catch(() => setError("An error occurred. Please try again."))
+      .finally(() => setIsVerifying(false));
+  }, [update]);
+
+  const resend = async () => {
+    setError(null);
+    setMessage(null);
+    setIsSending(true);
+    try {
+      const res = await fetch("/api/auth/verify-email/resend", { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to send verification email");
+      } else {
+        setMessage("We sent a new link. Check your inbox and spam folder.");
+      }
+    } catch {
+      setError("An error occurred. Please try again.");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const isVerified = verified || !!session?.user?.emailVerified;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-orange-50 to-orange-100 flex items-center justify-center p-4">
+      <div className="max-w-md w-full">
+        <div className="bg-white rounded-2xl shadow-xl overflow-hidden">
+          <div className="bg-gradient-to-r from-orange-500 to-orange-700 p-6 text-center">
+            <div className="w-16 h-16 bg-white/10 rounded-full flex items-center justify-center mx-auto mb-4">
+              <FiMail className="text-white text-2xl" />
+            </div>
+            <h1 className="text-2xl font-bold text-white">Verify Your Email</h1>
+            <p className="text-orange-100 mt-2">Confirm your address to place orders and post reviews</p>
+          </div>
+
+          <div className="p-8 text-center space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center text-left">
+                <div className="w-2 h-2 bg-red-500 rounded-full mr-3 flex-shrink-0"></div>
+                {error}
+              </div>
+            )}
+            {message && (
+              <div className="bg-emerald-50 border border-emerald-200 text-emerald-700 px-4 py-3 rounded-lg">
+                {message}
+              </div>
+            )}
+
+            {isVerifying ? (
+              <div className="py-6">
+                <div className="w-10 h-10 border-4 border-orange-500 border-t-transparent rounded-full animate-spin mx-auto"></div>
+                <p className="text-gray-600 mt-4">Verifying your email...</p>
+              </div>
+            ) : isVerified ? (
+              <>
+                <FiCheckCircle className="w-12 h-12 text-emerald-500 mx-auto" />
+                <p className="text-gray-700">Your email address is verified.</p>
+                <Link
+                  href={session ? "/account" : "/login"}
+                  className="inline-block w-full bg-gradient-to-r from-orange-600 to-orange-700 hover:from-orange-700 hover:to-orange-800 text-white py-3 px-4 rounded-lg font-medium transition duration-200"
+                >
+                  {session ? "Go to my account" : "Sign in"}
+                </Link>
+              </>
+            ) : status === "authenticated" ? (
+              <>
+                <p className="text-gray-700">
+                  We sent a verification link to <span className="font-medium">{session.user.email}</span>.
+                  Open it to finish setting up your account.
+                </p>
+                <button
+                  onClick={resend}
+                  disabled={isSending}
+                  className="w-full bg-gradient-to-r from-orange-600 to-orange-700 hover:from-orange-700 hover:to-orange-800 text-white py-3 px-4 rounded-lg font-medium transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+                >
+                  <FiRefreshCw className={`w-5 h-5 ${isSending ? "animate-spin" : ""}`} />
+                  <span>{isSending ? "Sending..." : "Resend verification email"}</span>
+                </button>
+              </>
+            ) : (
+              <p className="text-gray-700">
+                Open the link from your verification email, or{" "}
+                <Link href="/login?callbackUrl=/verify-email" className="font-medium text-orange-600 hover:text-orange-500">
+                  sign in
+                </Link>{" "}
+                to get a new one.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+// lib/accessLevels.ts
+// Which roles each access level admits. Used by the API guard and by the
+// page middleware, so keep it free of server-only imports (middleware runs on the edge)
+import { normalizeRole, Permission, Role, roleHasPermission } from '@/lib/roles';
+
+/**
+ * Who may use a page or route:
+ * - admin: admins only (users, coupons, deleting catalog data)
+ * - staff: admins and staff (catalog edits, order fulfilment)
+ * - customer: anyone signed in
+ *
+ * API routes check the finer-grained permissions in lib/roles.ts instead.
+ */
+export type AccessLevel = 'admin' | 'staff' | 'customer';
+
+const ACCESS_LEVEL_ROLES: Record<Exclude<AccessLevel, 'customer'>, readonly Role[]> = {
+  admin: ['admin'],
+  staff: ['admin', 'staff'],
+};
+
+// Callers check that someone is signed in; this only compares the role
+export const roleHasAccess = (role: string | undefined, level: AccessLevel) => {
+  if (level === 'customer') return true;
+  const normalized = normalizeRole(role);
+  return !!normalized && ACCESS_LEVEL_ROLES[level].includes(normalized);
+};
+
+// Roles that must have two-factor sign-in set up before using staff or admin access
+export const roleRequiresTwoFactor = (role: string | undefined) => normalizeRole(role) === 'admin';
+
+/**
+ * roleHasAccess, plus the two-factor requirement: an admin who hasn't
+ * enrolled keeps customer access only until they do.
+ */
+export const sessionHasAccess = (
+  user: { role?: string; twoFactorEnabled?: boolean },
+  level: AccessLevel
+) =>
+  roleHasAccess(user.role, level) &&
+  (level === 'customer' || !roleRequiresTwoFactor(user.role) || !!user.twoFactorEnabled);
+
+// The same two-factor rule for a permission; every permission is staff or admin access
+export const sessionHasPermission = (
+  user: { role?: string; twoFactorEnabled?: boolean },
+  permission: Permission
+) =>
+  roleHasPermission(user.role, permission) &&
+  (!roleRequiresTwoFactor(user.role) || !!user.twoFactorEnabled);
@@ -1,7 +1,45 @@
-import { NextAuthOptions } from "next-auth";
+// lib/auth.ts
+// The one NextAuth config: used by the [...nextauth] route and by every getServerSession call
+import { getServerSession, NextAuthOptions } from "next-auth";
+import type { Provider } from "next-auth/providers/index";
 import CredentialsProvider from "next-auth/providers/credentials";
+import GoogleProvider from "next-auth/providers/google";
+import FacebookProvider from "next-auth/providers/facebook";
 import connectMongo from "@/lib/mongoose";
 import User from "@/models/User";
+import { findUserByLinkedAccount, resolveOAuthUser } from "@/lib/oauthAccounts";
+import { isOAuthProvider } from "@/lib/oauthProviders";
+import { getClientInfo, revokeUserSession, startUserSession, validateUserSession } from "@/lib/sessionRegistry";
+import {
+  checkLoginThrottle,
+  clearFailedLogins,
+  isAccountLocked,
+  logFailedLogin,
+  recordFailedLogin
+} from "@/lib/loginThrottle";
+import { verifySecondFactor } from "@/lib/twoFactor";
+import { DEFAULT_ROLE, normalizeRole } from "@/lib/roles";
+
+// Social providers are only offered when their credentials are configured
+const oauthProviders: Provider[] = [];
+
+if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
+  oauthProviders.push(
+    GoogleProvider({
+      clientId: process.env.GOOGLE_CLIENT_ID,
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET
+    })
+  );
+}
+
+if (process.env.FACEBOOK_CLIENT_ID && process.env.FACEBOOK_CLIENT_SECRET) {
+  oauthProviders.push(
+    FacebookProvider({
+      clientId: process.env.FACEBOOK_CLIENT_ID,
+      clientSecret: process.env.FACEBOOK_CLIENT_SECRET
+    })
+  );
+}
 
 export const authOptions: NextAuthOptions = {
   providers: [
@@ -9,7 +47,9 @@ export const authOptions: NextAuthOptions = {
       name: "Credentials",
       credentials: {
         email: { label: "Email", type: "email" },
-        password: { label: "Password", type: "password" }
+        password: { label: "Password", type: "password" },
+        // Second step for accounts with two-factor on: authenticator or recovery code
+        otp: { label: "Authentication code", type: "text" }
       },
       async authorize(credentials) {
         if (!credentials?.email || !credentials?.password) {
@@ -17,28 +57,136 @@ export const authOptions: NextAuthOptions = {
         }
 
         await connectMongo();
+        const email = credentials.email.toLowerCase().trim();
+        const client = await getClientInfo();
+
+        // Locked out or blocked IPs are refused before the password is looked at
+        const throttle = await checkLoginThrottle(email, client);
+        if (throttle.blocked) {
+          await logFailedLogin(email, client, throttle.blocked === "AccountLocked" ? "account_locked" : "ip_blocked");
+          throw new Error(throttle.blocked);
+        }
+        if (throttle.delayMs) await new Promise((resolve) => setTimeout(resolve, throttle.delayMs));
+
         // Include password explicitly
-        const user = await User.findOne({ email: credentials.email }).select("+password");
-        if (!user) throw new Error("Invalid email or password");
+        const user = await User.findOne({ email }).select("+password");
+        if (!user) {
+          await recordFailedLogin(email, client, "unknown_email");
+          throw new Error("Invalid email or password");
+        }
+
+        const userId = user._id.toString();
+        if (isAccountLocked(user)) {
+          await logFailedLogin(email, client, "account_locked", userId);
+          throw new Error("AccountLocked");
+        }
 
         // Use the comparePassword method from your User model
         const isValid = await user.comparePassword(credentials.password);
-        if (!isValid) throw new Error("Invalid email or password");
+        if (!isValid) {
+          const locked = await recordFailedLogin(email, client, "invalid_password", userId);
+          throw new Error(locked ? "AccountLocked" : "Invalid email or password");
+        }
+
+        // The login page asks for the code when it sees TwoFactorRequired
+        const twoFactorEnabled = !!user.twoFactor?.enabled;
+        if (twoFactorEnabled) {
+          if (!credentials.otp) throw new Error("TwoFactorRequired");
+          if (!(await verifySecondFactor(userId, credentials.otp))) {
+            const locked = await recordFailedLogin(email, client, "invalid_two_factor", userId);
+            throw new Error(locked ? "AccountLocked" : "InvalidTwoFactorCode");
+          }
+        }
+
+        await clearFailedLogins(email);
 
         return {
-          id: user._id.toString(),
+          id: userId,
           name: user.name,
           email: user.email,
-          role: user.role
+          role: normalizeRole(user.role) ?? DEFAULT_ROLE,
+          emailVerified: !!user.emailVerified,
+          twoFactorEnabled
         };
       }
-    })
+    }),
+    ...oauthProviders
   ],
   callbacks: {
-    async jwt({ token, user }) {
-      if (user) {
+    async signIn({ user, account, profile }) {
+      if (!account || !isOAuthProvider(account.provider)) return true;
+
+      await connectMongo();
+      // Signed in already means the user is linking from the account security tab
+      const session = await getServerSession(authOptions);
+
+      const result = await resolveOAuthUser(
+        {
+          provider: account.provider,
+          providerAccountId: account.providerAccountId,
+          email: user.email,
+          // Google says whether it checked the address; Facebook only shares confirmed ones
+          emailVerified:
+            account.provider === "google"
+              ? (profile as { email_verified?: boolean } | undefined)?.email_verified === true
+              : !!user.email,
+          name: user.name
+        },
+        session?.user?.id
+      );
+
+      if (result.error) {
+        return session ? `/account?linkError=${result.error}` : `/login?error=${result.error}`;
+      }
+
+      // A social sign-in would skip the code, so two-factor accounts use their password
+      if (!session) {
+        const dbUser = await User.findById(result.userId).select("twoFactor.enabled").lean<{ twoFactor?: { enabled?: boolean } }>();
+        if (dbUser?.twoFactor?.enabled) return "/login?error=OAuthTwoFactorRequired";
+      }
+      return true;
+    },
+    async jwt({ token, user, account }) {
+      if (account && isOAuthProvider(account.provider)) {
+        // The provider's profile id and email aren't ours; use the linked User
+        const dbUser = await findUserByLinkedAccount(account.provider, account.providerAccountId);
+        if (dbUser) {
+          token.id = dbUser._id.toString();
+          token.role = normalizeRole(dbUser.role) ?? DEFAULT_ROLE;
+          token.name = dbUser.name;
+          token.email = dbUser.email;
+          token.emailVerified = !!dbUser.emailVerified;
+          token.twoFactorEnabled = !!dbUser.twoFactor?.enabled;
+        }
+      } else if (user) {
         token.id = (user as any).id;
         token.role = (user as any).role;
+        token.emailVerified = !!user.emailVerified;
+        token.twoFactorEnabled = !!user.twoFactorEnabled;
+      } else if (token.id) {
+        // Every later request: throws once the device is signed out, which
+        // NextAuth treats as no session. Also picks up an email verified
+        // from the emailed link, possibly on another device, and role and
+        // email changes.
+        await connectMongo();
+        const { role, email, emailVerified, twoFactorEnabled } = await validateUserSession({
+          id: token.id,
+          sessionId: token.sessionId,
+          tokenVersion: token.tokenVersion
+        });
+        token.role = role;
+        token.email = email;
+        token.emailVerified = emailVerified;
+        token.twoFactorEnabled = twoFactorEnabled;
+        return token;
+      }
+
+      // Just signed in: register the device
+      if (user && token.id) {
+        await connectMongo();
+        const { sessionId, tokenVersion } = await startUserSession(token.id);
+        token.sessionId = sessionId;
+        token.tokenVersion = tokenVersion;
       }
       return token;
     },
@@ -46,15 +194,35 @@ export const authOptions: NextAuthOptions = {
       if (token && session.user) {
         (session.user as any).id = token.id as string;
         (session.user as any).role = token.role as string;
+        session.user.emailVerified = !!token.emailVerified;
+        session.user.twoFactorEnabled = !!token.twoFactorEnabled;
       }
       return session;
+    },
+    async redirect({ url, baseUrl }) {
+      // Allows relative callback URLs
+      if (url.startsWith("/")) return `${baseUrl}${url}`;
+      // Allows callback URLs on the same origin
+      if (new URL(url).origin === baseUrl) return url;
+      return baseUrl;
+    }
+  },
+  events: {
+    // Drop the device from the session registry on a normal sign-out
+    async signOut({ token }) {
+      if (token?.id && token.sessionId) {
+        await connectMongo();
+        await revokeUserSession(token.id, token.sessionId);
+      }
     }
   },
   pages: {
-    signIn: "/login"
+    signIn: "/login",
+    // NextAuth appends ?error= and the login page explains it
+    error: "/login"
   },
   session: {
     strategy: "jwt"
   },
   secret: process.env.NEXTAUTH_SECRET
-};
\ No newline at end of file
+};
@@ -0,0 +1,217 @@
+// lib/cart.ts
+import mongoose from 'mongoose';
+import Cart, { ICart, ICartItem } from '@/models/Cart';
+import Product from '@/models/Product';
+import { getLineKey, getVariantPrice, ProductVariant, VariantOptionValue } from '@/lib/variants';
+
+export const MAX_CART_LINE_QUANTITY = 99;
+export const MAX_CART_LINES = 100;
+
+export interface CartLineInput {
+  productId: string;
+  variantSku?: string;
+  quantity: number;
+}
+
+// Shape returned to the client; matches CartItem in CartContext
+export interface CartLine {
+  _id: string;
+  productId: string;
+  variantSku?: string;
+  variantOptions?: VariantOptionValue[];
+  name: string;
+  price: number;
+  quantity: number;
+  images: string[];
+  inStock: boolean;
+}
+
+interface CatalogProduct {
+  _id: mongoose.Types.ObjectId;
+  productId: string;
+  name: string;
+  price: number;
+  images?: string[];
+  inStock?: boolean;
+  stockQuantity?: number;
+  variants?: ProductVariant[];
+}
+
+// Returns an error message for a malformed line, prefixed with where it was found
+const validateLine = (item: Partial<CartLineInput> | null, prefix = '') => {
+  if (!item || typeof item.productId !== 'string' || !item.productId) {
+    return `${prefix}productId is required`;
+  }
+  if (item.variantSku !== undefined && item.variantSku !== null && typeof item.variantSku !== 'string') {
+    return `${prefix}variantSku must be a string`;
+  }
+  if (!Number.isInteger(item.quantity) || (item.quantity as number) < 1) {
+    return `${prefix}quantity must be a positive integer`;
+  }
+  return null;
+};
+
+const toLine = (item: CartLineInput): CartLineInput => ({
+  productId: item.productId,
+  variantSku: item.variantSku || undefined,
+  quantity: item.quantity,
+});
+
+/**
+ * Validates a list of cart lines from a request body. Returns an error
+ * message instead of lines when anything is malformed.
+ */
+export function parseCartLines(value: unknown): { lines: CartLineInput[]; error?: undefined } | { lines?: undefined; error: string } {
+  if (!Array.isArray(value)) {
+    return { error: 'items must be an array' };
+  }
+
+  if (value.length > MAX_CART_LINES) {
+    return { error: `A cart can hold at most ${MAX_CART_LINES} different items` };
+  }
+
+  for (const [index, item] of value.entries()) {
+    const error = validateLine(item, `items[${index}].`);
+    if (error) return { error };
+  }
+
+  return { lines: value.map(toLine) };
+}
+
+export function parseCartLine(value: unknown): { line: CartLineInput; error?: undefined } | { line?: undefined; error: string } {
+  const error = validateLine(value as Partial<CartLineInput> | null);
+  return error ? { error } : { line: toLine(value as CartLineInput) };
+}
+
+const loadProducts = async (productIds: string[]) => {
+  const products = await Product.find({ productId: { $in: [...new Set(productIds)] } })
+    .select('productId name price images inStock stockQuantity variants')
+    .lean<CatalogProduct[]>();
+  return new Map(products.map((product) => [product.productId, product]));
+};
+
+// The account page links wishlist items by Mongo _id rather than productId
+export async function findCartProduct(id: string) {
+  return Product.findOne(
+    mongoose.Types.ObjectId.isValid(id) ? { $or: [{ productId: id }, { _id: id }] } : { productId: id }
+  )
+    .select('productId variants.sku')
+    .lean<{ productId: string; variants?: Pick<ProductVariant, 'sku'>[] }>();
+}
+
+const findVariant = (product: CatalogProduct, variantSku?: string) =>
+  variantSku ? product.variants?.find((variant) => variant.sku === variantSku) : undefined;
+
+// A line is valid when its product exists and, for products with variants, names one of them
+const isValidLine = (product: CatalogProduct | undefined, variantSku?: string): product is CatalogProduct => {
+  if (!product) return false;
+  const hasVariants = (product.variants || []).length > 0;
+  return hasVariants ? !!findVariant(product, variantSku) : !variantSku;
+};
+
+const availableStock = (product: CatalogProduct, variantSku?: string) =>
+  variantSku ? findVariant(product, variantSku)?.stockQuantity ?? 0 : product.stockQuantity ?? 0;
+
+/**
+ * Merges a guest cart into a stored one. When both hold the same line the
+ * larger quantity wins instead of the sum, so a guest cart that was already
+ * synced from this account on another visit isn't counted twice.
+ */
+export function mergeCartLines(stored: CartLineInput[], incoming: CartLineInput[]) {
+  const merged = new Map<string, CartLineInput>();
+  [...stored, ...incoming].forEach((line) => {
+    const key = getLineKey(line.productId, line.variantSku);
+    const existing = merged.get(key);
+    merged.set(key, existing ? { ...existing, quantity: Math.max(existing.quantity, line.quantity) } : line);
+  });
+  return [...merged.values()];
+}
+
+/**
+ * Drops lines whose product or variant no longer exists, combines duplicates
+ * and caps quantities at the stock on hand (out-of-stock lines are kept so
+ * the customer can see them) and at MAX_CART_LINE_QUANTITY. Lines past
+ * MAX_CART_LINES are dropped too; callers put the stored lines first, so
+ * those are the new ones.
+ */
+async function normalizeCartLines(lines: CartLineInput[]) {
+  const products = await loadProducts(lines.map((line) => line.productId));
+  const combined = new Map<string, CartLineInput>();
+
+  lines.forEach((line) => {
+    const product = products.get(line.productId);
+    if (!isValidLine(product, line.variantSku)) return;
+
+    const key = getLineKey(line.productId, line.variantSku);
+    if (!combined.has(key) && combined.size >= MAX_CART_LINES) return;
+
+    const quantity = (combined.get(key)?.quantity || 0) + line.quantity;
+    const stock = availableStock(product, line.variantSku);
+    combined.set(key, {
+      ...line,
+      quantity: Math.min(quantity, stock > 0 ? stock : quantity, MAX_CART_LINE_QUANTITY),
+    });
+  });
+
+  return [...combined.values()];
+}
+
+// Joins stored lines with current catalog data
+async function hydrateCart(items: ICartItem[]): Promise<CartLine[]> {
+  const products = await loadProducts(items.map((item) => item.productId));
+
+  return items.flatMap((item): CartLine[] => {
+    const product = products.get(item.productId);
+    if (!isValidLine(product, item.variantSku)) return [];
+
+    const variant = findVariant(product, item.variantSku);
+    return [{
+      _id: product._id.toString(),
+      productId: product.productId,
+      ...(variant && { variantSku: variant.sku, variantOptions: variant.options }),
+      name: product.name,
+      price: getVariantPrice(product.price, variant),
+      quantity: item.quantity,
+      images: variant?.images?.length ? variant.images : product.images || [],
+      inStock: availableStock(product, item.variantSku) > 0,
+    }];
+  });
+}
+
+const getStoredLines = async (userId: string) => {
+  const cart = await Cart.findOne({ userId }).lean<ICart>();
+  return cart?.items || [];
+};
+
+export async function getCart(userId: string) {
+  return hydrateCart(await getStoredLines(userId));
+}
+
+// Replaces the stored cart, keeping when each line was first added
+export async function saveCart(userId: string, lines: CartLineInput[]) {
+  const stored = await getStoredLines(userId);
+  const addedAt = new Map(stored.map((item) => [getLineKey(item.productId, item.variantSku), item.addedAt]));
+
+  const items: ICartItem[] = (await normalizeCartLines(lines)).map((line) => ({
+    ...line,
+    addedAt: addedAt.get(getLineKey(line.productId, line.variantSku)) || new Date(),
+  }));
+
+  await Cart.findOneAndUpdate(
+    { userId },
+    { $set: { items } },
+    { upsert: true, runValidators: true }
+  );
+
+  return hydrateCart(items);
+}
+
+// Applies a change to the stored lines and saves the result
+export async function updateCart(
+  userId: string,
+  update: (lines: CartLineInput[]) => CartLineInput[]
+) {
+  const stored = await getStoredLines(userId);
+  const lines = stored.map(({ productId, variantSku, quantity }) => ({ productId, variantSku, quantity }));
+  return saveCart(userId, update(lines));
+}
@@ -0,0 +1,114 @@
+// lib/categories.ts
+// The category tree as the API sends it and the rules for editing it, shared
+// by the header, the category pages, the product forms and the admin category
+// page, so keep it free of server-only imports
+
+export interface CategoryNode {
+  _id: string;
+  name: string;
+  slug: string;
+  // Slugs from the top of the tree, e.g. "electronics/phones"
+  path: string;
+  description?: string;
+  image?: string;
+  parentId: string | null;
+  isActive: boolean;
+  sortOrder: number;
+  // Products in this category and every category below it
+  productCount: number;
+  children: CategoryNode[];
+}
+
+export const CATEGORY_NAME_MAX_LENGTH = 80;
+export const CATEGORY_DESCRIPTION_MAX_LENGTH = 500;
+
+// "Phones & Tablets" -> "phones-tablets"
+export const slugifyCategory = (name: string) =>
+  name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+export const categoryHref = (node: Pick<CategoryNode, 'path'>) => `/category/${node.path}`;
+
+/**
+ * Depth-first list of the tree with each category's depth, for indented
+ * selects and menus.
+ */
+export const flattenCategoryTree = (
+  nodes: CategoryNode[],
+  depth = 0
+): { node: CategoryNode; depth: number }[] =>
+  nodes.flatMap((node) => [{ node, depth }, ...flattenCategoryTree(node.children, depth + 1)]);
+
+// The category and everything below it, e.g. to keep it out of its own parent picker
+export const collectCategoryIds = (node: CategoryNode): string[] => [
+  node._id,
+  ...node.children.flatMap(collectCategoryIds),
+];
+
+export interface CategoryInput {
+  name?: string;
+  // Empty means "make one from the name"
+  slug?: string;
+  description?: string;
+  image?: string;
+  parentCategory?: string | null;
+  isActive?: boolean;
+}
+
+/**
+ * Checks a category sent from the admin page. Only the fields present come
+ * back, so the same rules serve create and update; the name is required when
+ * creating. Returns the cleaned-up fields, or the problems found.
+ */
+export const parseCategoryInput = (
+  body: Record<string, unknown>,
+  { create = false } = {}
+): { input: CategoryInput; errors?: undefined } | { input?: undefined; errors: string[] } => {
+  const errors: string[] = [];
+  const input: CategoryInput = {};
+
+  if (create || body.name !== undefined) {
+    input.name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!input.name) errors.push('Category name is required');
+    if (input.name.length > CATEGORY_NAME_MAX_LENGTH) {
+      errors.push(`Category name must be at most ${CATEGORY_NAME_MAX_LENGTH} characters`);
+    }
+  }
+
+  if (body.slug !== undefined && body.slug !== null) {
+    if (typeof body.slug !== 'string') errors.push('Slug must be text');
+    else input.slug = slugifyCategory(body.slug);
+  }
+
+  if (body.description !== undefined) {
+    input.description = typeof body.description === 'string' ? body.description.trim() : '';
+    if (input.description.length > CATEGORY_DESCRIPTION_MAX_LENGTH) {
+      errors.push(`Description must be at most ${CATEGORY_DESCRIPTION_MAX_LENGTH} characters`);
+    }
+  }
+
+  if (body.image !== undefined) {
+    input.image = typeof body.image === 'string' ? body.image.trim() : '';
+    if (input.image && !/^(https:\/\/|\/)/.test(input.image)) {
+      errors.push('Image must be an https link');
+    }
+  }
+
+  if (body.parentCategory !== undefined) {
+    if (body.parentCategory === null || body.parentCategory === '') input.parentCategory = null;
+    else if (typeof body.parentCategory === 'string') input.parentCategory = body.parentCategory;
+    else errors.push('Parent category must be a category id');
+  }
+
+  if (body.isActive !== undefined) {
+    if (typeof body.isActive !== 'boolean') errors.push('isActive must be true or false');
+    else input.isActive = body.isActive;
+  }
+
+  if (errors.length > 0) return { errors };
+  return { input };
+};
@@ -0,0 +1,46 @@
+// lib/categoryMigration.ts
+// One-off link of products to Category documents. Products saved before the
+// category tree only carry a category name; each distinct name is matched to
+// a category by name or slug, created at the top level if there is none, and
+// its products get the categoryId. Run it from the products page
+// (POST /api/categories/link-products); it's safe to run again.
+import Category from '@/models/Category';
+import Product from '@/models/Product';
+import { slugifyCategory } from '@/lib/categories';
+import { resolveCategory } from '@/lib/categoryTree';
+
+export interface CategoryLink {
+  name: string;
+  // The category the products end up in; differs from name when matched by slug
+  category: string;
+  created: boolean;
+  count: number;
+}
+
+// Lists the links, and makes them unless dryRun is set
+export async function linkProductCategories({ dryRun = false } = {}) {
+  // { categoryId: null } also matches documents without the field
+  const names = (await Product.distinct('category', { categoryId: null })) as string[];
+  const links: CategoryLink[] = [];
+
+  for (const name of names) {
+    const count = await Product.countDocuments({ category: name, categoryId: null });
+    let category = await resolveCategory(name);
+    const created = !category;
+
+    if (!dryRun) {
+      if (!category) {
+        const newCategory = await Category.create({ name: name.trim(), slug: slugifyCategory(name) || 'category' });
+        category = { _id: newCategory._id, name: newCategory.name };
+      }
+      await Product.updateMany(
+        { category: name, categoryId: null },
+        { $set: { categoryId: category._id, category: category.name } }
+      );
+    }
+
+    links.push({ name, category: category?.name ?? name.trim(), created, count });
+  }
+
+  return { dryRun, links };
+}
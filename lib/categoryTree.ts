@@ -0,0 +1,199 @@
+// lib/categoryTree.ts
+// Category documents on the server: the nested tree with rolled-up product
+// counts, slug paths, looking up the category a product is filed under, and
+// the admin checks for slugs, reparenting and deletion. Used by
+// /api/categories, /category/[...slug] and the product APIs.
+import mongoose, { Types } from 'mongoose';
+import Category from '@/models/Category';
+import Product from '@/models/Product';
+import { CategoryNode, flattenCategoryTree, slugifyCategory } from '@/lib/categories';
+
+interface CategoryFields {
+  _id: Types.ObjectId;
+  name: string;
+  slug: string;
+  description?: string;
+  image?: string;
+  parentCategory?: Types.ObjectId | null;
+  isActive: boolean;
+  sortOrder?: number;
+}
+
+/**
+ * The categories as a tree, in their admin-set order. Unless includeInactive
+ * is set (the admin page), an inactive category hides everything below it.
+ * Product counts include every category shown below. Categories whose parent
+ * is missing are left out.
+ */
+export async function getCategoryTree({ includeInactive = false } = {}): Promise<CategoryNode[]> {
+  const [categories, counts] = await Promise.all([
+    Category.find().sort({ sortOrder: 1, name: 1 }).lean<CategoryFields[]>(),
+    Product.aggregate<{ _id: Types.ObjectId; count: number; image?: string }>([
+      { $match: { categoryId: { $ne: null }, deletedAt: null } },
+      {
+        $group: {
+          _id: '$categoryId',
+          count: { $sum: 1 },
+          image: { $first: { $arrayElemAt: ['$images', 0] } },
+        },
+      },
+    ]),
+  ]);
+
+  const countsById = new Map(counts.map((count) => [String(count._id), count]));
+  const childrenByParent = new Map<string, CategoryFields[]>();
+  categories.forEach((category) => {
+    const parentKey = category.parentCategory ? String(category.parentCategory) : '';
+    childrenByParent.set(parentKey, [...(childrenByParent.get(parentKey) || []), category]);
+  });
+
+  // Walking down from the top level also skips any parent cycle
+  const build = (parentKey: string, parentPath: string): CategoryNode[] =>
+    (childrenByParent.get(parentKey) || [])
+      .filter((category) => includeInactive || category.isActive)
+      .map((category) => {
+        const id = String(category._id);
+        const path = parentPath ? `${parentPath}/${category.slug}` : category.slug;
+        const children = build(id, path);
+        const own = countsById.get(id);
+
+        return {
+          _id: id,
+          name: category.name,
+          slug: category.slug,
+          path,
+          description: category.description,
+          parentId: parentKey || null,
+          isActive: category.isActive,
+          sortOrder: category.sortOrder ?? 0,
+          // Categories without their own picture borrow one from their products
+          image: category.image || own?.image || children.find((child) => child.image)?.image,
+          productCount: (own?.count ?? 0) + children.reduce((sum, child) => sum + child.productCount, 0),
+          children,
+        };
+      });
+
+  return build('', '');
+}
+
+/**
+ * Follows slugs down the tree, e.g. ["electronics", "phones"]. Returns the
+ * categories along the way, for breadcrumbs, or null if any step is missing.
+ */
+export const findCategoryTrail = (tree: CategoryNode[], slugs: string[]) => {
+  const trail: CategoryNode[] = [];
+  let level = tree;
+
+  for (const slug of slugs) {
+    const node = level.find((category) => category.slug === slug);
+    if (!node) return null;
+    trail.push(node);
+    level = node.children;
+  }
+  return trail.length > 0 ? trail : null;
+};
+
+// Old links used the category name, e.g. /category/Electronics
+export const findCategoryByName = (tree: CategoryNode[], name: string) =>
+  flattenCategoryTree(tree).find(({ node }) => node.name.toLowerCase() === name.toLowerCase())?.node ?? null;
+
+/**
+ * Finds the category a product is being filed under, given its id, slug or
+ * name. Inactive categories count, so hiding one doesn't block product
+ * edits. Returns null when there is no such category.
+ */
+export async function resolveCategory(value: unknown) {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const trimmed = value.trim();
+
+  return Category.findOne(
+    mongoose.Types.ObjectId.isValid(trimmed)
+      ? { _id: trimmed }
+      : { $or: [{ name: trimmed }, { slug: slugifyCategory(trimmed) }] }
+  )
+    .select('name')
+    .lean<{ _id: Types.ObjectId; name: string }>();
+}
+
+// A slug no other category uses: "phones", then "phones-2" and so on
+export async function uniqueCategorySlug(name: string, excludeId?: string) {
+  const base = slugifyCategory(name) || 'category';
+  for (let suffix = 1; ; suffix++) {
+    const slug = suffix === 1 ? base : `${base}-${suffix}`;
+    const taken = await Category.exists({ slug, ...(excludeId && { _id: { $ne: excludeId } }) });
+    if (!taken) return slug;
+  }
+}
+
+// New categories and ones moved to another parent go after their siblings
+export async function nextCategorySortOrder(parentCategory: string | null) {
+  const last = await Category.findOne({ parentCategory })
+    .sort({ sortOrder: -1 })
+    .select('sortOrder')
+    .lean<{ sortOrder?: number }>();
+  return (last?.sortOrder ?? -1) + 1;
+}
+
+/**
+ * Checks that parentId can hold the category (or its products and
+ * subcategories): it exists and is neither the category nor one of its
+ * descendants. Returns the problem, or null when it's fine.
+ */
+export async function checkCategoryParent(parentId: string, categoryId?: string) {
+  if (!mongoose.Types.ObjectId.isValid(parentId)) return 'Invalid parent category';
+
+  const seen = new Set<string>();
+  let current: string | null = parentId;
+  while (current && !seen.has(current)) {
+    if (current === categoryId) {
+      return 'A category can\'t be moved under itself or one of its subcategories';
+    }
+    seen.add(current);
+    const ancestor: { parentCategory?: Types.ObjectId | null } | null = await Category.findById(current)
+      .select('parentCategory')
+      .lean<{ parentCategory?: Types.ObjectId | null }>();
+    if (!ancestor) return current === parentId ? 'Parent category not found' : null;
+    current = ancestor.parentCategory ? String(ancestor.parentCategory) : null;
+  }
+  return null;
+}
+
+/**
+ * Deletes a category. While products or subcategories still use it nothing
+ * is deleted unless reassignTo names a category to move them to; the counts
+ * come back either way so the admin page can offer that. Returns null for
+ * unknown categories.
+ */
+export async function deleteCategory(
+  id: string,
+  reassignTo?: string
+): Promise<{ deleted: boolean; products: number; children: number; error?: string } | null> {
+  const category = await Category.findById(id).select('_id').lean();
+  if (!category) return null;
+
+  const [products, children] = await Promise.all([
+    // Trashed products count too, so a restore never finds its category gone
+    Product.countDocuments({ categoryId: id }).setOptions({ withDeleted: true }),
+    Category.countDocuments({ parentCategory: id }),
+  ]);
+
+  if (products + children > 0) {
+    if (!reassignTo) return { deleted: false, products, children };
+
+    const error = await checkCategoryParent(reassignTo, id);
+    if (error) return { deleted: false, products, children, error };
+
+    const target = await Category.findById(reassignTo).select('name').lean<{ _id: Types.ObjectId; name: string }>();
+    if (!target) return { deleted: false, products, children, error: 'Category to move to not found' };
+
+    let sortOrder = await nextCategorySortOrder(String(target._id));
+    const movedChildren = await Category.find({ parentCategory: id }).sort({ sortOrder: 1, name: 1 }).select('_id').lean();
+    for (const child of movedChildren) {
+      await Category.updateOne({ _id: child._id }, { $set: { parentCategory: target._id, sortOrder: sortOrder++ } });
+    }
+    await Product.updateMany({ categoryId: id }, { $set: { categoryId: target._id, category: target.name } });
+  }
+
+  await Category.deleteOne({ _id: id });
+  return { deleted: true, products, children };
+}
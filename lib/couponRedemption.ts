@@ -0,0 +1,210 @@
+// lib/couponRedemption.ts
+import mongoose, { ClientSession } from 'mongoose';
+import Coupon, { ICoupon } from '@/models/Coupon';
+import CouponRedemption from '@/models/CouponRedemption';
+import Order, { IOrderDiscount } from '@/models/Order';
+import { calculateCouponDiscount, describeCoupon, DiscountLine, normalizeCouponCode } from '@/lib/coupons';
+
+// Who is using the coupon; guests are identified by their checkout email
+export interface CouponCustomer {
+  userId?: string;
+  email?: string;
+}
+
+// Thrown inside the order transaction when a coupon ran out in the meantime
+export class InvalidCouponError extends Error {
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'InvalidCouponError';
+    this.code = code;
+  }
+}
+
+// Orders that still hold a coupon; cancelling an order gives the use back
+const countCustomerRedemptions = (
+  couponId: mongoose.Types.ObjectId,
+  customer: CouponCustomer,
+  session?: ClientSession
+) => {
+  const owners: Record<string, unknown>[] = [];
+  if (customer.userId) owners.push({ userId: customer.userId });
+  if (customer.email) owners.push({ email: customer.email.toLowerCase() });
+
+  return Order.countDocuments({
+    'discounts.couponId': couponId,
+    status: { $ne: 'cancelled' },
+    $or: owners,
+  }).session(session || null);
+};
+
+// Every identity of the customer keeps its own redemption counter, so
+// checking out as a guest with an account's email counts against it too
+const customerIdentities = (customer: CouponCustomer) => [
+  ...(customer.userId ? [{ key: `user:${customer.userId}`, owner: { userId: customer.userId } }] : []),
+  ...(customer.email
+    ? [{ key: `email:${customer.email.toLowerCase()}`, owner: { email: customer.email } }]
+    : []),
+];
+
+type CustomerIdentity = ReturnType<typeof customerIdentities>[number];
+
+// How many uses the identity holds on the coupon: its counter, or for identities
+// without one yet, the orders placed before counters existed
+const readCustomerRedemptions = async (
+  couponId: mongoose.Types.ObjectId,
+  identity: CustomerIdentity,
+  session?: ClientSession
+) => {
+  const counter = await CouponRedemption.findOne({ couponId, customer: identity.key })
+    .select('count')
+    .session(session || null)
+    .lean<{ count: number }>();
+  return counter
+    ? { count: counter.count, stored: true }
+    : { count: await countCustomerRedemptions(couponId, identity.owner, session), stored: false };
+};
+
+const claimCustomerRedemption = async (
+  couponId: mongoose.Types.ObjectId,
+  identity: CustomerIdentity,
+  limit: number | undefined,
+  session: ClientSession
+) => {
+  // The upsert can't insert a second counter: a parallel insert is a write
+  // conflict, which retries the transaction
+  const { count, stored } = await readCustomerRedemptions(couponId, identity, session);
+  if (!stored) {
+    await CouponRedemption.updateOne(
+      { couponId, customer: identity.key },
+      { $setOnInsert: { count } },
+      { upsert: true, session }
+    );
+  }
+
+  const result = await CouponRedemption.updateOne(
+    { couponId, customer: identity.key, ...(limit && { count: { $lt: limit } }) },
+    { $inc: { count: 1 } },
+    { session }
+  );
+  return result.modifiedCount === 1;
+};
+
+const checkAvailability = async (coupon: ICoupon, customer: CouponCustomer, now = new Date()) => {
+  if (!coupon.isActive) return 'This coupon is no longer active';
+  if (coupon.startsAt && coupon.startsAt > now) return 'This coupon is not valid yet';
+  if (coupon.expiresAt && coupon.expiresAt <= now) return 'This coupon has expired';
+  if (coupon.usageLimit && coupon.usedCount >= coupon.usageLimit) {
+    return 'This coupon has reached its usage limit';
+  }
+
+  // Reads the counters the order claims from. Guests can't be told apart
+  // until they enter an email, so the order checks again.
+  if (coupon.usageLimitPerUser) {
+    for (const identity of customerIdentities(customer)) {
+      const { count } = await readCustomerRedemptions(coupon._id as mongoose.Types.ObjectId, identity);
+      if (count >= coupon.usageLimitPerUser) return 'You have already used this coupon';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Looks up a coupon and works out its discount for the given cart. Returns
+ * an error message instead of a discount when the coupon can't be used.
+ */
+export async function applyCoupon({
+  code,
+  lines,
+  subtotal,
+  shippingCost,
+  customer,
+}: {
+  code: string;
+  lines: DiscountLine[];
+  subtotal: number;
+  shippingCost: number;
+  customer: CouponCustomer;
+}): Promise<{ discount: IOrderDiscount; error?: undefined } | { discount?: undefined; error: string }> {
+  const coupon = await Coupon.findOne({ code: normalizeCouponCode(code) });
+  if (!coupon) return { error: 'Invalid coupon code' };
+
+  const unavailable = await checkAvailability(coupon, customer);
+  if (unavailable) return { error: unavailable };
+
+  const result = calculateCouponDiscount(coupon, { lines, subtotal, shippingCost });
+  if (result.error !== undefined) return { error: result.error };
+
+  return {
+    discount: {
+      couponId: coupon._id as mongoose.Types.ObjectId,
+      code: coupon.code,
+      type: coupon.type,
+      description: coupon.description || describeCoupon(coupon),
+      amount: result.amount,
+      shippingAmount: result.shippingAmount,
+    },
+  };
+}
+
+/**
+ * Counts the order's coupons as used. Runs inside the order transaction, and
+ * both limits are claimed with conditional writes (the coupon's usedCount and
+ * the customer's CouponRedemption counters), so two checkouts at the same
+ * moment can't both take the last use.
+ */
+export async function redeemCoupons(
+  discounts: IOrderDiscount[],
+  customer: CouponCustomer,
+  session: ClientSession
+) {
+  for (const discount of discounts) {
+    const coupon = await Coupon.findById(discount.couponId).session(session);
+    if (!coupon) {
+      throw new InvalidCouponError(discount.code, 'Invalid coupon code');
+    }
+
+    for (const identity of customerIdentities(customer)) {
+      if (!(await claimCustomerRedemption(discount.couponId, identity, coupon.usageLimitPerUser, session))) {
+        throw new InvalidCouponError(discount.code, 'You have already used this coupon');
+      }
+    }
+
+    const result = await Coupon.updateOne(
+      {
+        _id: discount.couponId,
+        isActive: true,
+        ...(coupon.usageLimit && { usedCount: { $lt: coupon.usageLimit } }),
+      },
+      { $inc: { usedCount: 1 } },
+      { session }
+    );
+    if (result.modifiedCount === 0) {
+      throw new InvalidCouponError(discount.code, 'This coupon has reached its usage limit');
+    }
+  }
+}
+
+// Cancelled orders give their coupon uses back
+export async function releaseCoupons(
+  discounts: IOrderDiscount[],
+  customer: CouponCustomer,
+  session: ClientSession
+) {
+  for (const discount of discounts) {
+    await Coupon.updateOne(
+      { _id: discount.couponId, usedCount: { $gt: 0 } },
+      { $inc: { usedCount: -1 } },
+      { session }
+    );
+    for (const identity of customerIdentities(customer)) {
+      await CouponRedemption.updateOne(
+        { couponId: discount.couponId, customer: identity.key, count: { $gt: 0 } },
+        { $inc: { count: -1 } },
+        { session }
+      );
+    }
+  }
+}
@@ -0,0 +1,187 @@
+// lib/coupons.ts
+// Coupon types and discount rules shared by the orders API, the coupon admin
+// screen and checkout, so keep it free of server-only imports
+
+import { roundCurrency } from '@/lib/pricing';
+
+export const COUPON_TYPES = ['percentage', 'fixed', 'free_shipping', 'buy_x_get_y'] as const;
+
+export type CouponType = (typeof COUPON_TYPES)[number];
+
+export const COUPON_TYPE_LABELS: Record<CouponType, string> = {
+  percentage: 'Percentage off',
+  fixed: 'Fixed amount off',
+  free_shipping: 'Free shipping',
+  buy_x_get_y: 'Buy X get Y',
+};
+
+export const isCouponType = (value: unknown): value is CouponType =>
+  typeof value === 'string' && (COUPON_TYPES as readonly string[]).includes(value);
+
+// Codes are matched case-insensitively and stored upper case
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+export interface CouponRules {
+  type: CouponType;
+  // Percent for percentage coupons, amount for fixed ones; unused otherwise
+  value: number;
+  // Caps a percentage discount
+  maxDiscount?: number;
+  // Buy X get Y: every buyQuantity + getQuantity eligible units, the
+  // getQuantity cheapest are discounted by getDiscountPercent
+  buyQuantity?: number;
+  getQuantity?: number;
+  getDiscountPercent?: number;
+  minSubtotal?: number;
+  // Empty scopes mean the coupon applies to the whole cart
+  categories: string[];
+  productIds: string[];
+}
+
+export interface DiscountLine {
+  productId: string;
+  category?: string;
+  price: number;
+  quantity: number;
+}
+
+// A coupon applied to an order, as recorded on IOrder
+export interface AppliedDiscount {
+  code: string;
+  type: CouponType;
+  description?: string;
+  // Taken off the items subtotal
+  amount: number;
+  // Taken off the shipping charge
+  shippingAmount: number;
+}
+
+export const isLineInScope = (rules: Pick<CouponRules, 'categories' | 'productIds'>, line: DiscountLine) => {
+  if (rules.categories.length === 0 && rules.productIds.length === 0) return true;
+  return (
+    rules.productIds.includes(line.productId) ||
+    (!!line.category && rules.categories.includes(line.category))
+  );
+};
+
+// Units are paired from the most expensive down, so the free ones are the cheapest
+const calculateBuyXGetYDiscount = (rules: CouponRules, lines: DiscountLine[]) => {
+  const buy = rules.buyQuantity || 0;
+  const get = rules.getQuantity || 0;
+  if (buy < 1 || get < 1) return 0;
+
+  const unitPrices = lines
+    .flatMap((line) => Array<number>(line.quantity).fill(line.price))
+    .sort((a, b) => b - a);
+  const groupSize = buy + get;
+  const percent = rules.getDiscountPercent ?? 100;
+
+  let discount = 0;
+  unitPrices.forEach((price, index) => {
+    if (index % groupSize >= buy && index - (index % groupSize) + groupSize <= unitPrices.length) {
+      discount += (price * percent) / 100;
+    }
+  });
+  return discount;
+};
+
+/**
+ * Works out what a coupon takes off an order. Returns an error message
+ * instead of amounts when the cart doesn't qualify. Validity windows and
+ * usage limits are checked by the caller, which has the coupon's history.
+ */
+export function calculateCouponDiscount(
+  rules: CouponRules,
+  { lines, subtotal, shippingCost }: { lines: DiscountLine[]; subtotal: number; shippingCost: number }
+): { amount: number; shippingAmount: number; error?: undefined } | { amount?: undefined; shippingAmount?: undefined; error: string } {
+  if (rules.minSubtotal && subtotal < rules.minSubtotal) {
+    return { error: `Spend at least ৳${rules.minSubtotal} to use this coupon` };
+  }
+
+  const eligible = lines.filter((line) => isLineInScope(rules, line));
+  if (eligible.length === 0) {
+    return { error: 'This coupon does not apply to any items in your cart' };
+  }
+
+  const eligibleSubtotal = eligible.reduce((sum, line) => sum + line.price * line.quantity, 0);
+
+  switch (rules.type) {
+    case 'percentage': {
+      const amount = (eligibleSubtotal * rules.value) / 100;
+      return {
+        amount: roundCurrency(rules.maxDiscount ? Math.min(amount, rules.maxDiscount) : amount),
+        shippingAmount: 0,
+      };
+    }
+    case 'fixed':
+      return { amount: roundCurrency(Math.min(rules.value, eligibleSubtotal)), shippingAmount: 0 };
+    case 'free_shipping':
+      if (shippingCost <= 0) {
+        return { error: 'Your order already ships free' };
+      }
+      return { amount: 0, shippingAmount: shippingCost };
+    case 'buy_x_get_y': {
+      const amount = roundCurrency(calculateBuyXGetYDiscount(rules, eligible));
+      if (amount <= 0) {
+        return {
+          error: `Add ${(rules.buyQuantity || 0) + (rules.getQuantity || 0)} eligible items to use this coupon`,
+        };
+      }
+      return { amount, shippingAmount: 0 };
+    }
+  }
+}
+
+// Short human summary for lists and the checkout summary, e.g. "10% off (up to ৳500)"
+export const describeCoupon = (
+  rules: Pick<CouponRules, 'type' | 'value' | 'maxDiscount' | 'buyQuantity' | 'getQuantity' | 'getDiscountPercent'>
+) => {
+  switch (rules.type) {
+    case 'percentage':
+      return `${rules.value}% off${rules.maxDiscount ? ` (up to ৳${rules.maxDiscount})` : ''}`;
+    case 'fixed':
+      return `৳${rules.value} off`;
+    case 'free_shipping':
+      return 'Free shipping';
+    case 'buy_x_get_y': {
+      const percent = rules.getDiscountPercent ?? 100;
+      return `Buy ${rules.buyQuantity} get ${rules.getQuantity} ${percent === 100 ? 'free' : `${percent}% off`}`;
+    }
+  }
+};
+
+// Fields admins may set through /api/coupons; usedCount is maintained by checkout
+export const COUPON_INPUT_FIELDS = [
+  'code',
+  'description',
+  'type',
+  'value',
+  'maxDiscount',
+  'buyQuantity',
+  'getQuantity',
+  'getDiscountPercent',
+  'minSubtotal',
+  'categories',
+  'productIds',
+  'startsAt',
+  'expiresAt',
+  'usageLimit',
+  'usageLimitPerUser',
+  'isActive',
+] as const;
+
+export type CouponInput = Partial<Record<(typeof COUPON_INPUT_FIELDS)[number], unknown>>;
+
+/**
+ * Picks the editable fields from a request body. Blank values become
+ * undefined so an edit can clear an optional limit or date.
+ */
+export const parseCouponInput = (body: Record<string, unknown>): CouponInput => {
+  const input: CouponInput = {};
+  COUPON_INPUT_FIELDS.forEach((field) => {
+    if (!(field in body)) return;
+    const value = body[field];
+    input[field] = value === '' || value === null ? undefined : value;
+  });
+  return input;
+};
@@ -0,0 +1,61 @@
+// lib/csv.ts
+// Minimal RFC 4180 reading and writing for spreadsheet imports and exports.
+// Kept free of server-only imports so pages can build files too.
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells with commas,
+ * doubled quotes and line breaks, CRLF line endings and a leading byte order
+ * mark. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+const formatCell = (value: string | number | undefined | null) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The reverse of parseCsv, with CRLF line endings as spreadsheets expect
+export const toCsv = (rows: (string | number | undefined | null)[][]) =>
+  rows.map((row) => row.map(formatCell).join(',')).join('\r\n');
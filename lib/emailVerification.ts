@@ -0,0 +1,114 @@
+// lib/emailVerification.ts
+// Signed email verification links. The token carries the user id, the
+// address being verified and an expiry, signed with NEXTAUTH_SECRET, so
+// nothing is stored until the link is used and changing the email voids it.
+import crypto from 'crypto';
+import User from '@/models/User';
+import { sendMail } from '@/lib/mail';
+
+export const EMAIL_VERIFICATION_TTL_HOURS = 48;
+// Minimum gap between verification emails to one account
+export const VERIFICATION_RESEND_COOLDOWN_SECONDS = 60;
+
+const getSecret = () => {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) throw new Error('NEXTAUTH_SECRET is required to sign verification links');
+  return secret;
+};
+
+const sign = (payload: string) =>
+  crypto.createHmac('sha256', getSecret()).update(payload).digest('base64url');
+
+export const createEmailVerificationToken = (userId: string, email: string) => {
+  const expiresAt = Date.now() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000;
+  const payload = Buffer.from(`${userId}:${email.toLowerCase()}:${expiresAt}`).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+};
+
+// Returns the user id and email the token was issued for, or null if it was
+// tampered with or has expired
+export const readEmailVerificationToken = (token: string) => {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  const [userId, email, expiresAt] = Buffer.from(payload, 'base64url').toString().split(':');
+  if (!userId || !email || !(Number(expiresAt) > Date.now())) return null;
+
+  return { userId, email };
+};
+
+export async function sendVerificationEmail(
+  user: { _id: { toString(): string }; name: string; email: string },
+  appUrl: string
+) {
+  const token = createEmailVerificationToken(user._id.toString(), user.email);
+  const link = `${appUrl}/verify-email?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your MyMart email address',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'Please confirm this is your email address by opening the link below:',
+      link,
+      '',
+      `The link expires in ${EMAIL_VERIFICATION_TTL_HOURS} hours.`,
+    ].join('\n'),
+  });
+}
+
+/**
+ * Sends a fresh link unless one went out within the cooldown. The cooldown is
+ * claimed with a conditional update so parallel requests can't both send.
+ */
+export async function resendVerificationEmail(
+  userId: string,
+  appUrl: string
+): Promise<{ sent: true; retryAfter?: undefined } | { sent: false; retryAfter?: number }> {
+  const cutoff = new Date(Date.now() - VERIFICATION_RESEND_COOLDOWN_SECONDS * 1000);
+
+  const user = await User.findOneAndUpdate(
+    {
+      _id: userId,
+      emailVerified: null,
+      $or: [{ verificationEmailSentAt: null }, { verificationEmailSentAt: { $lte: cutoff } }],
+    },
+    { $set: { verificationEmailSentAt: new Date() } }
+  ).select('name email verificationEmailSentAt');
+
+  if (user) {
+    await sendVerificationEmail(user, appUrl);
+    return { sent: true };
+  }
+
+  // Already verified, or still cooling down
+  const current = await User.findById(userId).select('emailVerified verificationEmailSentAt').lean();
+  if (!current || current.emailVerified || !current.verificationEmailSentAt) {
+    return { sent: false };
+  }
+  const elapsed = (Date.now() - new Date(current.verificationEmailSentAt).getTime()) / 1000;
+  return { sent: false, retryAfter: Math.max(1, Math.ceil(VERIFICATION_RESEND_COOLDOWN_SECONDS - elapsed)) };
+}
+
+// Marks the address verified if the token still matches the account's email
+export async function verifyEmailWithToken(token: string) {
+  const claims = readEmailVerificationToken(token);
+  if (!claims) return false;
+
+  const user = await User.findOne({ _id: claims.userId, email: claims.email }).select('_id').lean();
+  if (!user) return false;
+
+  // Keep the first verification date if the link is opened twice
+  await User.updateOne(
+    { _id: user._id, emailVerified: null },
+    { $set: { emailVerified: new Date() } }
+  );
+  return true;
+}
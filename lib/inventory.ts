@@ -0,0 +1,126 @@
+// lib/inventory.ts
+import { ClientSession } from 'mongoose';
+import Product from '@/models/Product';
+import { getLineKey } from '@/lib/variants';
+
+export interface StockLine {
+  productId: string;
+  variantSku?: string;
+  quantity: number;
+}
+
+export interface StockShortage {
+  productId: string;
+  variantSku?: string;
+  requested: number;
+  available: number;
+}
+
+// Thrown inside a transaction so the whole order is rolled back
+export class InsufficientStockError extends Error {
+  shortages: StockShortage[];
+
+  constructor(shortages: StockShortage[]) {
+    super('Not enough stock for some items in your order');
+    this.name = 'InsufficientStockError';
+    this.shortages = shortages;
+  }
+}
+
+// Several cart lines can point at the same product or variant
+const combineLines = (lines: StockLine[]) => {
+  const totals = new Map<string, StockLine>();
+  lines.forEach(({ productId, variantSku, quantity }) => {
+    const key = getLineKey(productId, variantSku);
+    const existing = totals.get(key);
+    totals.set(key, { productId, variantSku, quantity: (existing?.quantity || 0) + quantity });
+  });
+  return [...totals.values()];
+};
+
+const productIdsOf = (lines: StockLine[]) => [...new Set(lines.map((line) => line.productId))];
+
+// Variant stock and the product's rolled-up stockQuantity move together
+const adjustStock = (line: StockLine, delta: number, session: ClientSession) => {
+  if (!line.variantSku) {
+    return Product.updateOne(
+      { productId: line.productId, ...(delta < 0 && { stockQuantity: { $gte: -delta } }) },
+      { $inc: { stockQuantity: delta } },
+      { session }
+    );
+  }
+
+  return Product.updateOne(
+    {
+      productId: line.productId,
+      variants: {
+        $elemMatch: { sku: line.variantSku, ...(delta < 0 && { stockQuantity: { $gte: -delta } }) },
+      },
+    },
+    { $inc: { 'variants.$.stockQuantity': delta, stockQuantity: delta } },
+    { session }
+  );
+};
+
+const getAvailableStock = async ({ productId, variantSku }: StockLine, session: ClientSession) => {
+  const product = await Product.findOne({ productId })
+    .select('stockQuantity variants.sku variants.stockQuantity')
+    .session(session)
+    .lean<{ stockQuantity?: number; variants?: { sku: string; stockQuantity: number }[] }>();
+
+  if (!variantSku) return product?.stockQuantity ?? 0;
+  return product?.variants?.find((variant) => variant.sku === variantSku)?.stockQuantity ?? 0;
+};
+
+const syncInStock = async (productIds: string[], session: ClientSession) => {
+  await Product.updateMany(
+    { productId: { $in: productIds }, stockQuantity: { $lte: 0 }, inStock: true },
+    { $set: { inStock: false } },
+    { session }
+  );
+  await Product.updateMany(
+    { productId: { $in: productIds }, stockQuantity: { $gt: 0 }, inStock: false },
+    { $set: { inStock: true } },
+    { session }
+  );
+};
+
+/**
+ * Decrements stock for every line. Each decrement only applies while enough
+ * stock remains, so concurrent checkouts cannot oversell. Must run inside a
+ * transaction: on any shortage this throws and the caller's transaction aborts.
+ */
+export async function reserveStock(lines: StockLine[], session: ClientSession) {
+  const combined = combineLines(lines);
+  const shortages: StockShortage[] = [];
+
+  for (const line of combined) {
+    const result = await adjustStock(line, -line.quantity, session);
+
+    if (result.modifiedCount === 0) {
+      shortages.push({
+        productId: line.productId,
+        variantSku: line.variantSku,
+        requested: line.quantity,
+        available: await getAvailableStock(line, session),
+      });
+    }
+  }
+
+  if (shortages.length > 0) {
+    throw new InsufficientStockError(shortages);
+  }
+
+  await syncInStock(productIdsOf(combined), session);
+}
+
+// Puts stock back, e.g. when an order is cancelled
+export async function releaseStock(lines: StockLine[], session: ClientSession) {
+  const combined = combineLines(lines);
+
+  for (const line of combined) {
+    await adjustStock(line, line.quantity, session);
+  }
+
+  await syncInStock(productIdsOf(combined), session);
+}
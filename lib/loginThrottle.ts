@@ -0,0 +1,296 @@
+// lib/loginThrottle.ts
+// Brute-force protection for the credentials sign-in in lib/auth.ts. Failed
+// attempts are counted per account and per IP; each failure past the first
+// few slows the next attempt down, too many lock the account (with an unlock
+// link by email) or block the IP for the rest of the window. Every refusal
+// is recorded in FailedLogin.
+//
+// Counters live in a LoginAttemptStore: LOGIN_THROTTLE_STORE=mongo (default)
+// shares them between instances, LOGIN_THROTTLE_STORE=memory keeps them in
+// the process. Another backend plugs in with setLoginAttemptStore().
+import User from '@/models/User';
+import LoginAttempt from '@/models/LoginAttempt';
+import FailedLogin, { FailedLoginReason } from '@/models/FailedLogin';
+import { getAppUrl, sendMail } from '@/lib/mail';
+import { createToken, hashToken } from '@/lib/tokens';
+
+export const ATTEMPT_WINDOW_MINUTES = 15;
+export const ACCOUNT_LOCK_THRESHOLD = 5;
+export const ACCOUNT_LOCK_MINUTES = 15;
+export const IP_BLOCK_THRESHOLD = 20;
+
+// Failures allowed before attempts are slowed down, and the cap on the delay
+const ACCOUNT_FREE_FAILURES = 2;
+const IP_FREE_FAILURES = 10;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+export interface AttemptRecord {
+  count: number;
+  // Epoch ms when the window ends and the count starts over
+  expiresAt: number;
+}
+
+export interface LoginAttemptStore {
+  get(key: string): Promise<AttemptRecord | null>;
+  // Counts one failure, starting a new window if the last one ended
+  increment(key: string, windowMs: number): Promise<AttemptRecord>;
+  reset(key: string): Promise<void>;
+}
+
+export const createMemoryAttemptStore = (): LoginAttemptStore => {
+  const records = new Map<string, AttemptRecord>();
+
+  const sweep = () => {
+    const now = Date.now();
+    for (const [key, record] of records) {
+      if (record.expiresAt <= now) records.delete(key);
+    }
+  };
+
+  const read = (key: string) => {
+    const record = records.get(key);
+    if (!record || record.expiresAt <= Date.now()) return null;
+    return record;
+  };
+
+  return {
+    async get(key) {
+      return read(key);
+    },
+    async increment(key, windowMs) {
+      if (records.size > 10000) sweep();
+      const current = read(key);
+      const next = current
+        ? { ...current, count: current.count + 1 }
+        : { count: 1, expiresAt: Date.now() + windowMs };
+      records.set(key, next);
+      return next;
+    },
+    async reset(key) {
+      records.delete(key);
+    },
+  };
+};
+
+export const mongoAttemptStore: LoginAttemptStore = {
+  async get(key) {
+    const record = await LoginAttempt.findOne({ key, expiresAt: { $gt: new Date() } })
+      .lean<{ count: number; expiresAt: Date }>();
+    return record ? { count: record.count, expiresAt: record.expiresAt.getTime() } : null;
+  },
+  async increment(key, windowMs) {
+    const now = new Date();
+    // Still inside the window: count it
+    let record = await LoginAttempt.findOneAndUpdate(
+      { key, expiresAt: { $gt: now } },
+      { $inc: { count: 1 } },
+      { new: true }
+    ).lean<{ count: number; expiresAt: Date }>();
+
+    // New key, or the TTL monitor hasn't removed the old window yet
+    if (!record) {
+      record = await LoginAttempt.findOneAndUpdate(
+        { key },
+        { $set: { count: 1, expiresAt: new Date(now.getTime() + windowMs) } },
+        { new: true, upsert: true }
+      ).lean<{ count: number; expiresAt: Date }>();
+    }
+
+    return { count: record!.count, expiresAt: record!.expiresAt.getTime() };
+  },
+  async reset(key) {
+    await LoginAttempt.deleteOne({ key });
+  },
+};
+
+let store: LoginAttemptStore | null = null;
+
+export const setLoginAttemptStore = (custom: LoginAttemptStore) => {
+  store = custom;
+};
+
+const getLoginAttemptStore = () => {
+  if (!store) {
+    store = process.env.LOGIN_THROTTLE_STORE === 'memory' ? createMemoryAttemptStore() : mongoAttemptStore;
+  }
+  return store;
+};
+
+const accountKey = (email: string) => `account:${email.toLowerCase().trim()}`;
+const ipKey = (ipAddress: string) => `ip:${ipAddress}`;
+
+// 0 for the free failures, then 0.5s, 1s, 2s... up to MAX_DELAY_MS
+const delayFor = (failures: number, free: number) =>
+  failures < free ? 0 : Math.min(BASE_DELAY_MS * 2 ** (failures - free), MAX_DELAY_MS);
+
+export interface LoginClient {
+  // Unset unless TRUSTED_PROXY_COUNT is configured; the IP limits are skipped then
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Checked before the password. Unknown emails are counted like real ones and
+ * refused once they pass the threshold, so the answers don't reveal which
+ * accounts exist. Returns the error code to refuse with, or the delay to
+ * wait before checking the password.
+ */
+export async function checkLoginThrottle(
+  email: string,
+  client: LoginClient
+): Promise<{ blocked: 'AccountLocked' | 'TooManyAttempts'; delayMs?: undefined } | { blocked?: undefined; delayMs: number }> {
+  const throttle = getLoginAttemptStore();
+  const [account, ip] = await Promise.all([
+    throttle.get(accountKey(email)),
+    client.ipAddress ? throttle.get(ipKey(client.ipAddress)) : null,
+  ]);
+
+  if (ip && ip.count >= IP_BLOCK_THRESHOLD) return { blocked: 'TooManyAttempts' };
+  if (account && account.count >= ACCOUNT_LOCK_THRESHOLD) return { blocked: 'AccountLocked' };
+
+  return {
+    delayMs: Math.max(
+      delayFor(account?.count ?? 0, ACCOUNT_FREE_FAILURES),
+      delayFor(ip?.count ?? 0, IP_FREE_FAILURES)
+    ),
+  };
+}
+
+export const isAccountLocked = (user: { lockedUntil?: Date | null }) =>
+  !!user.lockedUntil && user.lockedUntil.getTime() > Date.now();
+
+// Audit only; doesn't count towards a lock
+export async function logFailedLogin(
+  email: string,
+  client: LoginClient,
+  reason: FailedLoginReason,
+  userId?: string
+) {
+  await FailedLogin.create({
+    email,
+    userId: userId ?? null,
+    ipAddress: client.ipAddress,
+    userAgent: client.userAgent,
+    reason,
+  });
+}
+
+/**
+ * Locks the account and emails an unlock link. The lock is claimed with a
+ * conditional update, so parallel failures send one email.
+ */
+async function lockAccount(userId: string) {
+  const { token, tokenHash } = createToken();
+  const lockedUntil = new Date(Date.now() + ACCOUNT_LOCK_MINUTES * 60 * 1000);
+
+  const user = await User.findOneAndUpdate(
+    { _id: userId, $or: [{ lockedUntil: null }, { lockedUntil: { $lte: new Date() } }] },
+    { $set: { lockedUntil, unlockToken: tokenHash } }
+  ).select('name email');
+
+  if (!user) return;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Your MyMart account has been locked',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      `There were ${ACCOUNT_LOCK_THRESHOLD} failed attempts to sign in to your account, so we've locked it for ${ACCOUNT_LOCK_MINUTES} minutes.`,
+      'If that was you, open this link to unlock it now:',
+      `${getAppUrl()}/unlock-account?token=${token}`,
+      '',
+      'If it wasn\'t you, someone may be guessing your password. Consider resetting it:',
+      `${getAppUrl()}/forgot-password`,
+    ].join('\n'),
+  });
+}
+
+/**
+ * Records a failed sign-in against the account and the IP. Returns true when
+ * this failure locked the account.
+ */
+export async function recordFailedLogin(
+  email: string,
+  client: LoginClient,
+  reason: FailedLoginReason,
+  userId?: string
+) {
+  const throttle = getLoginAttemptStore();
+  const windowMs = ATTEMPT_WINDOW_MINUTES * 60 * 1000;
+
+  const [account] = await Promise.all([
+    throttle.increment(accountKey(email), windowMs),
+    client.ipAddress ? throttle.increment(ipKey(client.ipAddress), windowMs) : null,
+    logFailedLogin(email, client, reason, userId),
+  ]);
+
+  if (!userId || account.count < ACCOUNT_LOCK_THRESHOLD) return false;
+
+  // The lock itself is on User from here; the count starts over once it ends
+  await throttle.reset(accountKey(email));
+  await lockAccount(userId);
+  return true;
+}
+
+// After a successful sign-in. The IP count is left alone: one good password
+// doesn't excuse a spray across other accounts.
+export async function clearFailedLogins(email: string) {
+  await getLoginAttemptStore().reset(accountKey(email));
+}
+
+const unlockUpdate = { $set: { lockedUntil: null }, $unset: { unlockToken: 1 } };
+
+// The link from the lock email. Returns false once the lock has ended or the
+// link was used.
+export async function unlockAccountWithToken(token: string) {
+  const user = await User.findOneAndUpdate(
+    { unlockToken: hashToken(token), lockedUntil: { $gt: new Date() } },
+    unlockUpdate
+  ).select('email');
+
+  if (!user) return false;
+  await clearFailedLogins(user.email);
+  return true;
+}
+
+// Admin unlock; returns false for unknown users
+export async function unlockAccount(userId: string) {
+  const user = await User.findByIdAndUpdate(userId, unlockUpdate).select('email');
+  if (!user) return false;
+  await clearFailedLogins(user.email);
+  return true;
+}
+
+/**
+ * Accounts locked right now, with their recent failures from the audit
+ * records, for the admin page.
+ */
+export async function listLockedAccounts() {
+  const users = await User.find({ lockedUntil: { $gt: new Date() } })
+    .select('name email role lockedUntil')
+    .sort({ lockedUntil: -1 })
+    .lean<{ _id: unknown; name: string; email: string; role: string; lockedUntil: Date }[]>();
+
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  return Promise.all(
+    users.map(async (user) => {
+      const failures = await FailedLogin.find({ userId: user._id, createdAt: { $gte: since } })
+        .select('ipAddress reason createdAt')
+        .sort({ createdAt: -1 })
+        .lean<{ ipAddress?: string; reason: FailedLoginReason; createdAt: Date }[]>();
+
+      return {
+        id: String(user._id),
+        name: user.name,
+        email: user.email,
+        role: user.role,
+        lockedUntil: user.lockedUntil,
+        failedAttempts24h: failures.length,
+        lastFailedAt: failures[0]?.createdAt ?? null,
+        lastIpAddress: failures[0]?.ipAddress ?? null,
+      };
+    })
+  );
+}
@@ -0,0 +1,69 @@
+// lib/mail.ts
+// Outgoing mail. Routes call sendMail(); where it goes depends on the transport:
+// MAIL_TRANSPORT=console (default) logs it, MAIL_TRANSPORT=file writes it under
+// MAIL_DIR (default .mail/) for local development. A real provider plugs in
+// with setMailTransport() at startup.
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export const consoleTransport: MailTransport = {
+  async send(message) {
+    console.info(
+      `[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`
+    );
+  },
+};
+
+// One JSON file per message, named so they sort by time
+export const createFileTransport = (dir: string): MailTransport => ({
+  async send(message) {
+    await fs.mkdir(dir, { recursive: true });
+    const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-z0-9@._-]/gi, '_')}.json`;
+    await fs.writeFile(
+      path.join(dir, name),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  },
+});
+
+let transport: MailTransport | null = null;
+
+export const setMailTransport = (custom: MailTransport) => {
+  transport = custom;
+};
+
+const getMailTransport = () => {
+  if (!transport) {
+    transport =
+      process.env.MAIL_TRANSPORT === 'file'
+        ? createFileTransport(process.env.MAIL_DIR || path.join(process.cwd(), '.mail'))
+        : consoleTransport;
+  }
+  return transport;
+};
+
+export async function sendMail(message: MailMessage) {
+  await getMailTransport().send({
+    ...message,
+    from: process.env.MAIL_FROM || 'MyMart <no-reply@mymart.local>',
+  });
+}
+
+// Absolute links for emails. Never taken from the request: its Host header
+// would let anyone point reset and verification links at their own site.
+export const getAppUrl = () => {
+  const appUrl = process.env.NEXTAUTH_URL;
+  if (!appUrl) throw new Error('NEXTAUTH_URL is required to build links in emails');
+  return appUrl.replace(/\/$/, '');
+};
@@ -0,0 +1,105 @@
+// lib/oauthAccounts.ts
+// Matches Google/Facebook sign-ins to User records. Used by the NextAuth
+// callbacks in lib/auth.ts and the linked accounts API.
+import User from '@/models/User';
+import { OAuthProvider } from '@/lib/oauthProviders';
+
+export interface OAuthIdentity {
+  provider: OAuthProvider;
+  providerAccountId: string;
+  email?: string | null;
+  emailVerified: boolean;
+  name?: string | null;
+}
+
+export interface LinkedAccountSummary {
+  provider: OAuthProvider;
+  email?: string;
+  linkedAt?: Date;
+}
+
+export const findUserByLinkedAccount = (provider: string, providerAccountId: string) =>
+  User.findOne({ linkedAccounts: { $elemMatch: { provider, providerAccountId } } });
+
+const linkAccount = async (userId: string, identity: OAuthIdentity) => {
+  // Conditional so two tabs can't link the same provider twice
+  const result = await User.updateOne(
+    { _id: userId, 'linkedAccounts.provider': { $ne: identity.provider } },
+    {
+      $push: {
+        linkedAccounts: {
+          provider: identity.provider,
+          providerAccountId: identity.providerAccountId,
+          email: identity.email?.toLowerCase(),
+          linkedAt: new Date(),
+        },
+      },
+    }
+  );
+  return result.modifiedCount === 1;
+};
+
+/**
+ * Finds the User a social sign-in belongs to, linking or creating one when
+ * needed. With `currentUserId` (someone linking from the security tab) the
+ * account is linked to that user whatever its email; otherwise it is matched
+ * on verified email only, on both sides: nobody can claim a store account
+ * through a provider that didn't check the address, nor through an account
+ * someone registered with an address they never confirmed. Returns an error code for
+ * lib/oauthProviders.ts instead of a user when the sign-in must be refused.
+ */
+export async function resolveOAuthUser(
+  identity: OAuthIdentity,
+  currentUserId?: string
+): Promise<{ userId: string; error?: undefined } | { userId?: undefined; error: string }> {
+  const linkedUser = await findUserByLinkedAccount(identity.provider, identity.providerAccountId);
+  if (linkedUser) {
+    if (currentUserId && linkedUser._id.toString() !== currentUserId) {
+      return { error: 'OAuthAccountInUse' };
+    }
+    return { userId: linkedUser._id.toString() };
+  }
+
+  if (currentUserId) {
+    return (await linkAccount(currentUserId, identity))
+      ? { userId: currentUserId }
+      : { error: 'OAuthProviderLinked' };
+  }
+
+  if (!identity.email || !identity.emailVerified) {
+    return { error: 'OAuthEmailNotVerified' };
+  }
+
+  const email = identity.email.toLowerCase();
+  const existing = await User.findOne({ email }).select('_id emailVerified');
+  if (existing) {
+    // Its owner can still link the provider after signing in with the password
+    if (!existing.emailVerified) {
+      return { error: 'OAuthAccountNotVerified' };
+    }
+    if (!(await linkAccount(existing._id.toString(), identity))) {
+      return { error: 'OAuthProviderLinked' };
+    }
+    return { userId: existing._id.toString() };
+  }
+
+  const user = await User.create({
+    name: identity.name || email.split('@')[0],
+    email,
+    role: 'customer',
+    emailVerified: new Date(),
+    linkedAccounts: [
+      {
+        provider: identity.provider,
+        providerAccountId: identity.providerAccountId,
+        email,
+      },
+    ],
+  });
+  return { userId: user._id.toString() };
+}
+
+export const toLinkedAccountSummaries = (
+  accounts: { provider: OAuthProvider; email?: string; linkedAt?: Date }[] = []
+): LinkedAccountSummary[] =>
+  accounts.map(({ provider, email, linkedAt }) => ({ provider, email, linkedAt }));
@@ -0,0 +1,32 @@
+// lib/oauthProviders.ts
+// Social sign-in providers shared by the auth config, the login page and the
+// account security tab, so keep it free of server-only imports
+
+export const OAUTH_PROVIDERS = ['google', 'facebook'] as const;
+
+export type OAuthProvider = (typeof OAUTH_PROVIDERS)[number];
+
+export const OAUTH_PROVIDER_LABELS: Record<OAuthProvider, string> = {
+  google: 'Google',
+  facebook: 'Facebook',
+};
+
+export const isOAuthProvider = (value: unknown): value is OAuthProvider =>
+  typeof value === 'string' && (OAUTH_PROVIDERS as readonly string[]).includes(value);
+
+// Error codes the sign-in callback redirects with (?error= on /login,
+// ?linkError= on /account), next to the ones NextAuth sends itself
+export const OAUTH_ERROR_MESSAGES: Record<string, string> = {
+  OAuthEmailNotVerified: 'That account has no verified email address, so we can\'t match it to a store account.',
+  OAuthAccountNotVerified: 'A store account uses that email but hasn\'t verified it. Sign in with your password, then link this provider from your account page.',
+  OAuthAccountInUse: 'That social account is already linked to a different store account.',
+  OAuthProviderLinked: 'You already have an account from this provider linked. Unlink it first.',
+  OAuthTwoFactorRequired: 'Your account uses two-factor authentication. Sign in with your email and password.',
+  OAuthSignin: 'Could not start signing in with that provider. Please try again.',
+  OAuthCallback: 'Signing in with that provider failed. Please try again.',
+  AccessDenied: 'Sign-in was cancelled or not allowed.',
+  CredentialsSignin: 'Invalid email or password',
+};
+
+export const getOAuthErrorMessage = (code: string) =>
+  OAUTH_ERROR_MESSAGES[code] || 'Sign-in failed. Please try again.';
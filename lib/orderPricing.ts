@@ -0,0 +1,187 @@
+// lib/orderPricing.ts
+import Product from '@/models/Product';
+import { IOrderDiscount, IOrderItem } from '@/models/Order';
+import { calculateOrderTotals, calculateShippingCost, OrderTotals, roundCurrency, ShippingMethod } from '@/lib/pricing';
+import { getVariantPrice, ProductVariant } from '@/lib/variants';
+import { DiscountLine } from '@/lib/coupons';
+import { applyCoupon, CouponCustomer } from '@/lib/couponRedemption';
+
+export interface OrderLineInput {
+  productId: string;
+  // Required for products that have variants
+  variantSku?: string;
+  quantity: number;
+  // Price the customer saw in their cart; only used to detect stale prices
+  price?: number;
+}
+
+export interface PriceChange {
+  productId: string;
+  variantSku?: string;
+  name: string;
+  expectedPrice: number;
+  currentPrice: number;
+}
+
+export interface UnavailableItem {
+  productId: string;
+  variantSku?: string;
+  name?: string;
+  reason: 'not_found' | 'variant_required' | 'variant_not_found' | 'out_of_stock' | 'insufficient_stock';
+  available?: number;
+}
+
+export interface PricedOrder extends OrderTotals {
+  items: IOrderItem[];
+  discounts: IOrderDiscount[];
+  priceChanges: PriceChange[];
+  unavailableItems: UnavailableItem[];
+  // Why the requested coupon could not be applied
+  couponError?: string;
+}
+
+interface ProductPriceData {
+  productId: string;
+  name: string;
+  price: number;
+  category?: string;
+  images?: string[];
+  inStock?: boolean;
+  stockQuantity?: number;
+  variants?: ProductVariant[];
+}
+
+/**
+ * Re-reads every line from the catalog and prices the order on the server.
+ * Client-sent amounts are never used; a client price that no longer matches
+ * the catalog is reported in `priceChanges` so the caller can reject the order.
+ * A coupon code is applied to the priced lines; when it doesn't qualify the
+ * order is priced without it and the reason is returned in `couponError`.
+ */
+export async function priceOrder({
+  lines,
+  city,
+  shippingMethod,
+  couponCode,
+  customer = {},
+}: {
+  lines: OrderLineInput[];
+  city: string;
+  shippingMethod: ShippingMethod;
+  couponCode?: string;
+  customer?: CouponCustomer;
+}): Promise<PricedOrder> {
+  const productIds = [...new Set(lines.map((line) => line.productId))];
+  const products = await Product.find({ productId: { $in: productIds } })
+    .select('productId name price category images inStock stockQuantity variants')
+    .lean<ProductPriceData[]>();
+  const productsById = new Map(products.map((product) => [product.productId, product]));
+
+  const items: IOrderItem[] = [];
+  const discountLines: DiscountLine[] = [];
+  const priceChanges: PriceChange[] = [];
+  const unavailableItems: UnavailableItem[] = [];
+
+  for (const line of lines) {
+    const product = productsById.get(line.productId);
+    const { productId, variantSku } = line;
+
+    if (!product) {
+      unavailableItems.push({ productId, variantSku, reason: 'not_found' });
+      continue;
+    }
+
+    const hasVariants = (product.variants || []).length > 0;
+    if (hasVariants && !variantSku) {
+      unavailableItems.push({ productId, name: product.name, reason: 'variant_required' });
+      continue;
+    }
+
+    const variant = hasVariants
+      ? product.variants!.find((candidate) => candidate.sku === variantSku)
+      : undefined;
+    if ((hasVariants || variantSku) && !variant) {
+      unavailableItems.push({ productId, variantSku, name: product.name, reason: 'variant_not_found' });
+      continue;
+    }
+
+    const stockQuantity = variant ? variant.stockQuantity : product.stockQuantity ?? 0;
+
+    if (product.inStock === false || stockQuantity <= 0) {
+      unavailableItems.push({ productId, variantSku, name: product.name, reason: 'out_of_stock' });
+      continue;
+    }
+
+    // Early feedback only; the stock reservation at order creation is authoritative
+    if (stockQuantity < line.quantity) {
+      unavailableItems.push({
+        productId,
+        variantSku,
+        name: product.name,
+        reason: 'insufficient_stock',
+        available: stockQuantity,
+      });
+      continue;
+    }
+
+    const currentPrice = roundCurrency(getVariantPrice(product.price, variant));
+    if (typeof line.price === 'number' && roundCurrency(line.price) !== currentPrice) {
+      priceChanges.push({
+        productId,
+        variantSku,
+        name: product.name,
+        expectedPrice: roundCurrency(line.price),
+        currentPrice,
+      });
+    }
+
+    items.push({
+      productId: product.productId,
+      ...(variant && { variantSku: variant.sku, variantOptions: variant.options }),
+      name: product.name,
+      price: currentPrice,
+      quantity: line.quantity,
+      images: variant?.images?.length ? variant.images : product.images || [],
+    });
+    discountLines.push({
+      productId: product.productId,
+      category: product.category,
+      price: currentPrice,
+      quantity: line.quantity,
+    });
+  }
+
+  const subtotal = roundCurrency(items.reduce((sum, item) => sum + item.price * item.quantity, 0));
+
+  const discounts: IOrderDiscount[] = [];
+  let couponError: string | undefined;
+  if (couponCode && items.length > 0) {
+    const applied = await applyCoupon({
+      code: couponCode,
+      lines: discountLines,
+      subtotal,
+      shippingCost: calculateShippingCost(subtotal, city, shippingMethod),
+      customer,
+    });
+    if (applied.discount) {
+      discounts.push(applied.discount);
+    } else {
+      couponError = applied.error;
+    }
+  }
+
+  return {
+    ...calculateOrderTotals({
+      subtotal,
+      city,
+      shippingMethod,
+      discount: discounts.reduce((sum, discount) => sum + discount.amount, 0),
+      shippingDiscount: discounts.reduce((sum, discount) => sum + discount.shippingAmount, 0),
+    }),
+    items,
+    discounts,
+    priceChanges,
+    unavailableItems,
+    couponError,
+  };
+}
@@ -0,0 +1,46 @@
+// lib/orderStatus.ts
+// Order lifecycle shared by the orders API and the admin/customer order screens.
+
+export const ORDER_STATUSES = [
+  'pending',
+  'confirmed',
+  'processing',
+  'shipped',
+  'delivered',
+  'cancelled',
+] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+// Legal next states for each status. `delivered` and `cancelled` are terminal.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  processing: 'Processing',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+export const isOrderStatus = (value: unknown): value is OrderStatus =>
+  typeof value === 'string' && (ORDER_STATUSES as readonly string[]).includes(value);
+
+// Orders saved before this lifecycle may hold other statuses; those have no
+// next states here and must be fixed in the database
+export const nextOrderStatuses = (status: string): readonly OrderStatus[] =>
+  isOrderStatus(status) ? ORDER_STATUS_TRANSITIONS[status] : [];
+
+export const canTransitionOrderStatus = (from: string, to: OrderStatus) =>
+  nextOrderStatuses(from).includes(to);
+
+export const isTerminalOrderStatus = (status: string) =>
+  nextOrderStatuses(status).length === 0;
@@ -0,0 +1,80 @@
+// lib/passwordPolicy.ts
+// Password strength rules shared by every route that sets a password and by
+// the forms that show the checklist, so keep it free of server-only imports
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// The handful people reach for first; anything on it is refused outright
+const COMMON_PASSWORDS = [
+  'password',
+  'password1',
+  'password123',
+  '12345678',
+  '123456789',
+  '1234567890',
+  'qwerty123',
+  'qwertyuiop',
+  'iloveyou',
+  'admin123',
+  'welcome1',
+  'letmein1',
+  'abc12345',
+  'mymart123',
+];
+
+export interface PasswordRule {
+  id: string;
+  label: string;
+  // Shown when the rule fails
+  message: string;
+  test: (password: string) => boolean;
+}
+
+export const PASSWORD_RULES: PasswordRule[] = [
+  {
+    id: 'length',
+    label: `At least ${MIN_PASSWORD_LENGTH} characters`,
+    message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`,
+    test: (password) => password.length >= MIN_PASSWORD_LENGTH,
+  },
+  {
+    id: 'letter',
+    label: 'Contains a letter',
+    message: 'Password must contain a letter',
+    test: (password) => /[a-z]/i.test(password),
+  },
+  {
+    id: 'number',
+    label: 'Contains a number',
+    message: 'Password must contain a number',
+    test: (password) => /\d/.test(password),
+  },
+  {
+    id: 'common',
+    label: 'Not a common password',
+    message: 'This password is too common. Choose a less predictable one',
+    test: (password) => !COMMON_PASSWORDS.includes(password.toLowerCase()),
+  },
+];
+
+/**
+ * Returns what is wrong with a password, or null if it is acceptable. Pass
+ * the account's email so the password can't just be its local part.
+ */
+export function checkPasswordStrength(password: unknown, email?: string | null): string | null {
+  if (typeof password !== 'string' || !password) {
+    return 'Password is required';
+  }
+
+  const failed = PASSWORD_RULES.find((rule) => !rule.test(password));
+  if (failed) {
+    return failed.message;
+  }
+
+  const localPart = email?.split('@')[0]?.toLowerCase();
+  if (localPart && localPart.length >= 3 && password.toLowerCase().includes(localPart)) {
+    return 'Password must not contain your email address';
+  }
+
+  return null;
+}
@@ -0,0 +1,72 @@
+// lib/passwordReset.ts
+// Forgot/reset password tokens on User, used by /api/auth/forgot-password and
+// /api/auth/reset-password
+import User from '@/models/User';
+import { sendMail } from '@/lib/mail';
+import { createToken, hashToken } from '@/lib/tokens';
+import { revokeAllUserSessions } from '@/lib/sessionRegistry';
+import { clearFailedLogins } from '@/lib/loginThrottle';
+
+export const PASSWORD_RESET_TTL_MINUTES = 60;
+
+/**
+ * Issues a new reset token for the account and emails the link. A new
+ * request replaces any earlier token. Does nothing for unknown emails so the
+ * caller can answer the same way either way.
+ */
+export async function requestPasswordReset(email: string, appUrl: string) {
+  const { token, tokenHash } = createToken();
+
+  const user = await User.findOneAndUpdate(
+    { email: email.toLowerCase().trim() },
+    {
+      $set: {
+        resetPasswordToken: tokenHash,
+        resetPasswordExpire: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+      },
+    }
+  ).select('name email');
+
+  if (!user) return;
+
+  const link = `${appUrl}/reset-password?token=${token}`;
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your MyMart password',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'We received a request to reset your password. Open this link to choose a new one:',
+      link,
+      '',
+      `The link expires in ${PASSWORD_RESET_TTL_MINUTES} minutes and can be used once.`,
+      'If you didn\'t ask for this, you can ignore this email.',
+    ].join('\n'),
+  });
+}
+
+/**
+ * Sets a new password if the token is valid. The token is cleared in the same
+ * update that finds it, so it can't be used twice. Returns false for unknown,
+ * used or expired tokens.
+ */
+export async function resetPasswordWithToken(token: string, password: string) {
+  const user = await User.findOneAndUpdate(
+    { resetPasswordToken: hashToken(token), resetPasswordExpire: { $gt: new Date() } },
+    {
+      // Proving access to the inbox also lifts a lockout
+      $set: { lockedUntil: null },
+      $unset: { resetPasswordToken: 1, resetPasswordExpire: 1, unlockToken: 1 },
+    }
+  );
+
+  if (!user) return false;
+
+  // The pre-save hook hashes it
+  user.password = password;
+  await user.save();
+  // Whoever knew the old password is signed out too
+  await revokeAllUserSessions(user._id.toString());
+  await clearFailedLogins(user.email);
+  return true;
+}
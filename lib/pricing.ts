@@ -0,0 +1,75 @@
+// lib/pricing.ts
+// Shared by the checkout page (for display) and the orders API (authoritative).
+// Keep this module free of server-only imports so it can run in the browser.
+
+export type ShippingMethod = 'standard' | 'express' | 'priority';
+
+export const FREE_SHIPPING_THRESHOLD = 3000;
+export const DHAKA_SHIPPING_CHARGE = 80;
+export const OUTSIDE_DHAKA_SHIPPING_CHARGE = 120;
+export const TAX_RATE = 0.08;
+
+// Premium added on top of the base charge, even when base shipping is free
+export const SHIPPING_METHOD_SURCHARGE: Record<ShippingMethod, number> = {
+  standard: 0,
+  express: 50,
+  priority: 100,
+};
+
+export interface OrderTotals {
+  subtotal: number;
+  // Coupon discount taken off the subtotal before tax
+  discount: number;
+  shippingCost: number;
+  tax: number;
+  taxRate: number;
+  total: number;
+}
+
+export const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+export const isDhakaCity = (city: string) => city.toLowerCase().includes('dhaka');
+
+export const calculateShippingCost = (
+  subtotal: number,
+  city: string,
+  shippingMethod: ShippingMethod
+) => {
+  let shippingCost = 0;
+  if (subtotal < FREE_SHIPPING_THRESHOLD) {
+    shippingCost = isDhakaCity(city) ? DHAKA_SHIPPING_CHARGE : OUTSIDE_DHAKA_SHIPPING_CHARGE;
+  }
+  return shippingCost + (SHIPPING_METHOD_SURCHARGE[shippingMethod] ?? 0);
+};
+
+export const calculateOrderTotals = ({
+  subtotal,
+  city,
+  shippingMethod,
+  discount = 0,
+  shippingDiscount = 0,
+}: {
+  subtotal: number;
+  city: string;
+  shippingMethod: ShippingMethod;
+  discount?: number;
+  shippingDiscount?: number;
+}): OrderTotals => {
+  const roundedSubtotal = roundCurrency(subtotal);
+  const roundedDiscount = roundCurrency(Math.min(discount, roundedSubtotal));
+  // Free shipping is judged on the subtotal before any coupon
+  const shippingCost = Math.max(
+    calculateShippingCost(roundedSubtotal, city, shippingMethod) - shippingDiscount,
+    0
+  );
+  const tax = roundCurrency((roundedSubtotal - roundedDiscount) * TAX_RATE);
+
+  return {
+    subtotal: roundedSubtotal,
+    discount: roundedDiscount,
+    shippingCost,
+    tax,
+    taxRate: TAX_RATE,
+    total: roundCurrency(roundedSubtotal - roundedDiscount + shippingCost + tax),
+  };
+};
@@ -0,0 +1,165 @@
+// lib/productBulk.ts
+// Applies a bulk action (lib/productBulkActions.ts) to many products in one
+// transaction. Used by POST /api/products/bulk.
+import mongoose, { Types } from 'mongoose';
+import Product from '@/models/Product';
+import { resolveCategory } from '@/lib/categoryTree';
+import {
+  adjustPrice,
+  ProductBulkAction,
+  ProductBulkItemResult,
+  ProductBulkResult,
+} from '@/lib/productBulkActions';
+
+// Thrown inside the transaction so a batch with any failed product is rolled back
+class BulkActionFailedError extends Error {
+  results: ProductBulkItemResult[];
+
+  constructor(results: ProductBulkItemResult[]) {
+    super('Some products could not be changed');
+    this.name = 'BulkActionFailedError';
+    this.results = results;
+  }
+}
+
+type ProductDocument = InstanceType<typeof Product>;
+
+type Change = Omit<ProductBulkItemResult, 'id' | 'name'>;
+
+/**
+ * Works out what the action does to one product and sets it on the
+ * document, without saving.
+ */
+function applyChange(
+  product: ProductDocument,
+  action: Exclude<ProductBulkAction, { action: 'delete' }>,
+  category: { _id: Types.ObjectId; name: string } | null
+): Change {
+  switch (action.action) {
+    case 'set-category':
+      if (String(product.categoryId) === String(category!._id)) {
+        return { status: 'skipped', message: `Already in ${category!.name}` };
+      }
+      product.set({ categoryId: category!._id, category: category!.name });
+      return { status: 'updated' };
+
+    case 'adjust-price': {
+      // Sales are worked out from the regular price, so a second sale replaces the first
+      const base: number = action.sale ? product.originalPrice ?? product.price : product.price;
+      const price = adjustPrice(base, action.adjustment, action.amount);
+      if (price <= 0) {
+        return { status: 'failed', message: `The price would drop to ${price.toFixed(2)}` };
+      }
+      if (action.sale) {
+        if (price >= base) {
+          return { status: 'failed', message: 'A sale price must be lower than the regular price' };
+        }
+        product.set({ price, originalPrice: base });
+      } else {
+        product.set({ price });
+        // A regular price at or above the old one ends the sale
+        if (product.originalPrice !== undefined && price >= product.originalPrice) {
+          product.set({ originalPrice: undefined });
+        }
+      }
+      return { status: 'updated' };
+    }
+
+    case 'end-sale':
+      if (product.originalPrice === undefined || product.originalPrice === null) {
+        return { status: 'skipped', message: 'Not on sale' };
+      }
+      product.set({ price: product.originalPrice, originalPrice: undefined });
+      return { status: 'updated' };
+
+    case 'set-stock': {
+      const hasVariants = product.variants?.length > 0;
+      if (!action.inStock) {
+        if (!product.inStock) return { status: 'skipped', message: 'Already out of stock' };
+        if (hasVariants) {
+          product.variants.forEach((variant: { stockQuantity: number }) => {
+            variant.stockQuantity = 0;
+          });
+        } else {
+          product.set({ stockQuantity: 0 });
+        }
+        return { status: 'updated' };
+      }
+      if (product.inStock) return { status: 'skipped', message: 'Already in stock' };
+      if (hasVariants) {
+        return { status: 'skipped', message: 'Has variants; set their stock on the edit page' };
+      }
+      product.set({ stockQuantity: action.stockQuantity });
+      return { status: 'updated' };
+    }
+  }
+}
+
+/**
+ * Runs action on every product in ids. Skipped products (nothing to do) don't
+ * stop the others, but if any product is missing or fails, nothing is saved
+ * and the results say which ones. Returns null when the target category of a
+ * set-category action doesn't exist.
+ */
+export async function runProductBulkAction(
+  ids: string[],
+  action: ProductBulkAction
+): Promise<ProductBulkResult | null> {
+  const category = action.action === 'set-category' ? await resolveCategory(action.categoryId) : null;
+  if (action.action === 'set-category' && !category) return null;
+
+  let results: ProductBulkItemResult[] = [];
+  let applied = true;
+
+  const dbSession = await mongoose.startSession();
+  try {
+    await dbSession.withTransaction(async () => {
+      // Start over if the transaction is retried
+      results = [];
+      const products: ProductDocument[] = await Product.find({ _id: { $in: ids } }).session(dbSession);
+      const productsById = new Map(products.map((product) => [String(product._id), product]));
+
+      for (const id of ids) {
+        const product = productsById.get(id);
+        if (!product) {
+          results.push({ id, status: 'failed', message: 'Product not found' });
+          continue;
+        }
+
+        const change: Change = action.action === 'delete'
+          ? { status: 'deleted' }
+          : applyChange(product, action, category);
+        results.push({ id, name: product.name, ...change });
+
+        if (change.status === 'failed') continue;
+        try {
+          if (change.status === 'deleted') {
+            // Deleting moves the product to the trash (lib/productTrash.ts)
+            await Product.updateOne({ _id: product._id }, { $set: { deletedAt: new Date() } }, { session: dbSession });
+          } else if (change.status === 'updated') {
+            // Saving runs the model hooks that keep stockQuantity and inStock in sync
+            await product.save({ session: dbSession });
+          }
+        } catch (error) {
+          if (!(error instanceof mongoose.Error.ValidationError)) throw error;
+          results[results.length - 1] = { id, name: product.name, status: 'failed', message: error.message };
+        }
+      }
+
+      if (results.some((result) => result.status === 'failed')) {
+        throw new BulkActionFailedError(results);
+      }
+    });
+  } catch (error) {
+    if (!(error instanceof BulkActionFailedError)) throw error;
+    results = error.results;
+    applied = false;
+  } finally {
+    await dbSession.endSession();
+  }
+
+  const summary = { updated: 0, deleted: 0, skipped: 0, failed: 0 };
+  results.forEach((result) => summary[result.status]++);
+
+  return { applied, summary, results };
+}
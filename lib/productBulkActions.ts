@@ -0,0 +1,116 @@
+// lib/productBulkActions.ts
+// Bulk changes to many products at once, shared by POST /api/products/bulk
+// and the product table, so keep it free of server-only imports. The
+// transaction that applies them is in lib/productBulk.ts.
+
+export const MAX_BULK_PRODUCTS = 200;
+
+export const PRICE_ADJUSTMENTS = ['percent', 'fixed'] as const;
+
+export type PriceAdjustment = (typeof PRICE_ADJUSTMENTS)[number];
+
+export type ProductBulkAction =
+  | { action: 'delete' }
+  | { action: 'set-category'; categoryId: string }
+  // amount is added to the price: -10 with percent takes 10% off. With sale
+  // set the regular price is kept in originalPrice and shown struck through.
+  | { action: 'adjust-price'; adjustment: PriceAdjustment; amount: number; sale: boolean }
+  // Puts the price back to originalPrice
+  | { action: 'end-sale' }
+  // Out of stock sets every quantity to 0; back in stock sets stockQuantity
+  | { action: 'set-stock'; inStock: boolean; stockQuantity?: number };
+
+export type ProductBulkActionName = ProductBulkAction['action'];
+
+export const PRODUCT_BULK_ACTION_LABELS: Record<ProductBulkActionName, string> = {
+  'set-category': 'Move to category',
+  'adjust-price': 'Adjust price',
+  'end-sale': 'End sale',
+  'set-stock': 'Set stock',
+  delete: 'Move to trash',
+};
+
+export type ProductBulkStatus = 'updated' | 'deleted' | 'skipped' | 'failed';
+
+export interface ProductBulkItemResult {
+  id: string;
+  name?: string;
+  status: ProductBulkStatus;
+  // Why the product was skipped or failed
+  message?: string;
+}
+
+export interface ProductBulkResult {
+  // False when a product failed and the whole batch was rolled back
+  applied: boolean;
+  summary: Record<ProductBulkStatus, number>;
+  results: ProductBulkItemResult[];
+}
+
+const OBJECT_ID = /^[a-f\d]{24}$/i;
+
+/**
+ * Checks the body of a bulk request: distinct product ids plus one action
+ * and its settings. Returns an error message instead when anything is off.
+ */
+export function parseProductBulkRequest(
+  body: unknown
+): { ids: string[]; action: ProductBulkAction; error?: undefined } | { error: string } {
+  const { ids, action, ...settings } = (body || {}) as Record<string, unknown>;
+
+  if (
+    !Array.isArray(ids) ||
+    ids.length === 0 ||
+    !ids.every((id) => typeof id === 'string' && OBJECT_ID.test(id)) ||
+    new Set(ids).size !== ids.length
+  ) {
+    return { error: 'ids must be a list of distinct product IDs' };
+  }
+  if (ids.length > MAX_BULK_PRODUCTS) {
+    return { error: `Select at most ${MAX_BULK_PRODUCTS} products at a time` };
+  }
+
+  switch (action) {
+    case 'delete':
+    case 'end-sale':
+      return { ids, action: { action } };
+
+    case 'set-category':
+      if (typeof settings.categoryId !== 'string' || !settings.categoryId) {
+        return { error: 'Choose a category' };
+      }
+      return { ids, action: { action, categoryId: settings.categoryId } };
+
+    case 'adjust-price': {
+      const { adjustment, amount, sale } = settings;
+      if (!(PRICE_ADJUSTMENTS as readonly unknown[]).includes(adjustment)) {
+        return { error: 'adjustment must be percent or fixed' };
+      }
+      if (typeof amount !== 'number' || !Number.isFinite(amount) || amount === 0) {
+        return { error: 'amount must be a number other than 0' };
+      }
+      if (adjustment === 'percent' && amount <= -100) {
+        return { error: 'A percentage can take at most 99.99% off' };
+      }
+      return { ids, action: { action, adjustment: adjustment as PriceAdjustment, amount, sale: sale === true } };
+    }
+
+    case 'set-stock': {
+      const { inStock, stockQuantity } = settings;
+      if (typeof inStock !== 'boolean') {
+        return { error: 'inStock must be true or false' };
+      }
+      if (inStock && (!Number.isInteger(stockQuantity) || (stockQuantity as number) < 1)) {
+        return { error: 'Give a stock quantity of at least 1 for products back in stock' };
+      }
+      return { ids, action: { action, inStock, ...(inStock && { stockQuantity: stockQuantity as number }) } };
+    }
+
+    default:
+      return { error: 'Unknown bulk action' };
+  }
+}
+
+// The new price in cents precision; may be zero or negative, which callers reject
+export const adjustPrice = (price: number, adjustment: PriceAdjustment, amount: number) =>
+  Math.round((adjustment === 'percent' ? price * (1 + amount / 100) : price + amount) * 100) / 100;
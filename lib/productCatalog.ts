@@ -0,0 +1,178 @@
+// lib/productCatalog.ts
+// Catalog listing shared by GET /api/products and GET /api/search
+import { PipelineStage } from 'mongoose';
+import Product from '@/models/Product';
+import {
+  buildPaginationMeta,
+  PaginationParams,
+  parseBooleanParam,
+  parseNumberParam,
+  parsePagination,
+} from '@/lib/queryParams';
+import { CategoryFacet, isProductSortKey, ProductListFacets, ProductSortKey } from '@/lib/productListing';
+
+// _id breaks ties so pages never overlap
+const SORT_STAGES: Record<Exclude<ProductSortKey, 'relevance'>, Record<string, 1 | -1>> = {
+  newest: { createdAt: -1, _id: -1 },
+  'price-low': { price: 1, _id: 1 },
+  'price-high': { price: -1, _id: 1 },
+  rating: { rating: -1, reviews: -1, _id: 1 },
+  name: { name: 1, _id: 1 },
+  'discount-high': { discount: -1, _id: 1 },
+  'discount-low': { discount: 1, _id: 1 },
+};
+
+const NUMBER_PARAMS = ['minPrice', 'maxPrice', 'minRating', 'minDiscount', 'maxDiscount'] as const;
+
+export interface CatalogFilters {
+  category?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  minDiscount?: number;
+  maxDiscount?: number;
+  inStock: boolean;
+  onSale: boolean;
+  sort: ProductSortKey;
+  pagination: PaginationParams;
+}
+
+/**
+ * Reads the listing filters from a query string. Returns an error message
+ * instead of filters when a parameter is malformed.
+ */
+export function parseCatalogFilters(
+  searchParams: URLSearchParams,
+  { defaultSort = 'newest' }: { defaultSort?: ProductSortKey } = {}
+): { filters: CatalogFilters; error?: undefined } | { filters?: undefined; error: string } {
+  const numbers: Partial<Record<(typeof NUMBER_PARAMS)[number], number>> = {};
+  for (const name of NUMBER_PARAMS) {
+    const value = parseNumberParam(searchParams, name);
+    if (value === undefined) continue;
+    if (Number.isNaN(value) || value < 0) {
+      return { error: `${name} must be a non-negative number` };
+    }
+    numbers[name] = value;
+  }
+
+  const sort = searchParams.get('sort') || defaultSort;
+  if (!isProductSortKey(sort)) {
+    return { error: `Invalid sort: ${sort}` };
+  }
+
+  const category = searchParams.get('category');
+
+  return {
+    filters: {
+      ...numbers,
+      category: category && category !== 'all' ? category : undefined,
+      inStock: parseBooleanParam(searchParams, 'inStock'),
+      onSale: parseBooleanParam(searchParams, 'onSale'),
+      sort,
+      pagination: parsePagination(searchParams, { defaultLimit: 12, maxLimit: 100 }),
+    },
+  };
+}
+
+/**
+ * Runs the filtered, sorted and paginated catalog query with its facets.
+ * `searchMatch` narrows the catalog first; pass `textScore` when it is a
+ * `$text` match so results can be sorted by relevance.
+ */
+export async function queryCatalog(
+  filters: CatalogFilters,
+  { searchMatch, textScore = false }: { searchMatch?: Record<string, unknown>; textScore?: boolean } = {}
+) {
+  const { pagination } = filters;
+
+  // Filters shared by the results and every facet; trashed products never show
+  const baseFilter: Record<string, unknown> = { deletedAt: null };
+  if (filters.minRating !== undefined) baseFilter.rating = { $gte: filters.minRating };
+  if (filters.inStock) baseFilter.inStock = true;
+
+  const discountRange: Record<string, number> = {};
+  if (filters.minDiscount !== undefined) discountRange.$gte = filters.minDiscount;
+  if (filters.maxDiscount !== undefined) discountRange.$lte = filters.maxDiscount;
+  if (filters.onSale) discountRange.$gt = 0;
+  if (Object.keys(discountRange).length > 0) baseFilter.discount = discountRange;
+
+  const categoryFilter: Record<string, unknown> = filters.category ? { category: filters.category } : {};
+
+  const priceRange: Record<string, number> = {};
+  if (filters.minPrice !== undefined) priceRange.$gte = filters.minPrice;
+  if (filters.maxPrice !== undefined) priceRange.$lte = filters.maxPrice;
+  const priceFilter: Record<string, unknown> =
+    Object.keys(priceRange).length > 0 ? { price: priceRange } : {};
+
+  // Relevance only means something for text searches
+  const sortStage = filters.sort === 'relevance'
+    ? textScore ? { score: -1 as const, _id: 1 as const } : SORT_STAGES.newest
+    : SORT_STAGES[filters.sort];
+
+  const pipeline: PipelineStage[] = [
+    // A $text match has to be the first stage
+    ...(searchMatch ? [{ $match: searchMatch }] : []),
+    {
+      $addFields: {
+        discount: {
+          $cond: [
+            { $gt: ['$originalPrice', '$price'] },
+            { $round: [{ $multiply: [{ $subtract: [1, { $divide: ['$price', '$originalPrice'] }] }, 100] }, 0] },
+            0,
+          ],
+        },
+        ...(textScore && { score: { $meta: 'textScore' } }),
+      },
+    },
+    { $match: baseFilter },
+    {
+      $facet: {
+        products: [
+          { $match: { ...categoryFilter, ...priceFilter } },
+          { $sort: sortStage },
+          { $skip: pagination.skip },
+          { $limit: pagination.limit },
+        ],
+        total: [
+          { $match: { ...categoryFilter, ...priceFilter } },
+          { $count: 'count' },
+        ],
+        categories: [
+          { $match: priceFilter },
+          { $group: { _id: '$category', count: { $sum: 1 } } },
+          { $sort: { _id: 1 } },
+        ],
+        priceRange: [
+          { $match: categoryFilter },
+          {
+            $group: {
+              _id: null,
+              min: { $min: '$price' },
+              max: { $max: '$price' },
+              maxDiscount: { $max: '$discount' },
+            },
+          },
+        ],
+      },
+    },
+  ];
+
+  const [result] = await Product.aggregate(pipeline);
+
+  const facets: ProductListFacets = {
+    categories: result.categories.map(
+      (facet: { _id: string; count: number }): CategoryFacet => ({ category: facet._id, count: facet.count })
+    ),
+    priceRange: {
+      min: result.priceRange[0]?.min ?? 0,
+      max: result.priceRange[0]?.max ?? 0,
+    },
+    maxDiscount: result.priceRange[0]?.maxDiscount ?? 0,
+  };
+
+  return {
+    products: result.products,
+    pagination: buildPaginationMeta(pagination, result.total[0]?.count || 0),
+    facets,
+  };
+}
@@ -0,0 +1,189 @@
+// lib/productImport.ts
+// Bulk product imports: checks every sheet row against the Product schema and
+// the catalog (unique product IDs and SKUs, known categories), then writes
+// them. Used by POST /api/products/import; the sheet layout is in
+// lib/productSheets.ts.
+import mongoose, { Types } from 'mongoose';
+import Product from '@/models/Product';
+import { resolveCategory } from '@/lib/categoryTree';
+import {
+  parseProductRecord,
+  ProductImportMode,
+  ProductImportResult,
+  ProductImportRow,
+} from '@/lib/productSheets';
+
+// Thrown inside the transaction so an import with any failed save is rolled back
+class ImportFailedError extends Error {
+  // Error messages by row index
+  rowErrors: Map<number, string[]>;
+
+  constructor(rowErrors: Map<number, string[]>) {
+    super('Some products could not be saved');
+    this.name = 'ImportFailedError';
+    this.rowErrors = rowErrors;
+  }
+}
+
+// A checked row to write: the product to update (or a new one) and its changes
+interface ProductWrite {
+  index: number;
+  productId: string;
+  existingId?: Types.ObjectId;
+  update: Record<string, unknown>;
+}
+
+// Mongoose validation errors carry one message per invalid path
+const validationMessages = (error: unknown) => {
+  const { errors, message } = error as { errors?: Record<string, { message: string }>; message?: string };
+  return errors ? Object.values(errors).map((item) => item.message) : [message || 'Invalid product'];
+};
+
+/**
+ * Checks and, unless dryRun is set, saves the products in records, all in one
+ * transaction and only when no row has errors. Upsert mode updates existing
+ * products, keeping columns a row leaves blank; create mode rejects them.
+ */
+export async function importProducts(
+  records: Record<string, unknown>[],
+  { mode, dryRun }: { mode: ProductImportMode; dryRun: boolean }
+): Promise<ProductImportResult> {
+  const parsed = records.map(parseProductRecord);
+  const productIds = parsed.map(({ fields }) => fields.productId).filter(Boolean);
+  const skus = parsed.flatMap(({ fields }) => (fields.variants || []).map((variant) => variant?.sku).filter(Boolean));
+
+  const [existing, skuOwners] = await Promise.all([
+    Product.find({ productId: { $in: productIds } }).setOptions({ withDeleted: true }),
+    skus.length > 0
+      ? Product.find({ 'variants.sku': { $in: skus } })
+          .setOptions({ withDeleted: true })
+          .select('productId variants.sku')
+          .lean<{ productId: string; variants: { sku: string }[] }[]>()
+      : [],
+  ]);
+  const existingById = new Map(existing.map((product) => [product.productId as string, product]));
+  const skuOwner = new Map(
+    skuOwners.flatMap((product) => product.variants.map((variant) => [variant.sku, product.productId] as const))
+  );
+
+  const categories = new Map<string, Awaited<ReturnType<typeof resolveCategory>>>();
+  const seenIds = new Set<string>();
+  const seenSkus = new Set<string>();
+  const rows: ProductImportRow[] = [];
+  const writes: ProductWrite[] = [];
+
+  for (const [index, { fields, errors }] of parsed.entries()) {
+    const { productId, category: categoryRef, ...changes } = fields;
+    const current = productId ? existingById.get(productId) : undefined;
+
+    if (productId) {
+      if (seenIds.has(productId)) errors.push(`Product ID ${productId} appears more than once in the file`);
+      seenIds.add(productId);
+      if (current?.deletedAt) {
+        errors.push(`Product ID ${productId} belongs to a product in the trash; restore it first`);
+      } else if (current && mode === 'create') {
+        errors.push(`Product ID ${productId} already exists`);
+      }
+    }
+
+    (changes.variants || []).forEach((variant) => {
+      if (!variant?.sku) return;
+      if (seenSkus.has(variant.sku)) {
+        errors.push(`SKU ${variant.sku} appears more than once in the file`);
+      } else if (skuOwner.has(variant.sku) && skuOwner.get(variant.sku) !== productId) {
+        errors.push(`SKU ${variant.sku} is already used by product ${skuOwner.get(variant.sku)}`);
+      }
+      seenSkus.add(variant.sku);
+    });
+
+    let category: Awaited<ReturnType<typeof resolveCategory>> = null;
+    if (categoryRef !== undefined) {
+      if (!categories.has(categoryRef)) categories.set(categoryRef, await resolveCategory(categoryRef));
+      category = categories.get(categoryRef) ?? null;
+      if (!category) errors.push(`Unknown category ${categoryRef}`);
+    }
+
+    if (!current && !changes.images?.length) errors.push('At least one image is required');
+
+    const update = { ...changes, ...(category && { category: category.name, categoryId: category._id }) };
+    let document: InstanceType<typeof Product> | null = null;
+    if (!(current && (mode === 'create' || current.deletedAt))) {
+      // Rating and review count only come from approved reviews (lib/productReviews.ts)
+      document = current ?? new Product({ productId, rating: 0, reviews: 0 });
+      document.set(update);
+      try {
+        await document.validate();
+      } catch (error) {
+        errors.push(...validationMessages(error));
+      }
+    }
+
+    const uniqueErrors = [...new Set(errors)];
+    const action = uniqueErrors.length > 0
+      ? 'error'
+      : !current ? 'create' : document?.isModified() ? 'update' : 'unchanged';
+    if (action === 'create' || action === 'update') {
+      writes.push({ index, productId: productId!, existingId: current?._id, update });
+    }
+    rows.push({
+      row: index + 1,
+      productId: productId || undefined,
+      name: changes.name ?? current?.name,
+      action,
+      errors: uniqueErrors,
+    });
+  }
+
+  const hasErrors = rows.some((row) => row.action === 'error');
+  let applied = !dryRun && !hasErrors;
+
+  if (applied) {
+    const dbSession = await mongoose.startSession();
+    try {
+      await dbSession.withTransaction(async () => {
+        // Start over if the transaction is retried
+        const rowErrors = new Map<number, string[]>();
+        for (const write of writes) {
+          const document = write.existingId
+            ? await Product.findById(write.existingId).session(dbSession)
+            : new Product({ productId: write.productId, rating: 0, reviews: 0 });
+          if (!document) {
+            rowErrors.set(write.index, ['Product no longer exists']);
+            continue;
+          }
+          document.set(write.update);
+          try {
+            // Saving runs the model hooks that keep stockQuantity and inStock in sync
+            await document.save({ session: dbSession });
+          } catch (error) {
+            if ((error as { code?: number }).code === 11000) {
+              // The server has aborted the transaction, so nothing more can be saved
+              rowErrors.set(write.index, ['Product ID or variant SKU already exists']);
+              throw new ImportFailedError(rowErrors);
+            }
+            if (!(error instanceof mongoose.Error.ValidationError)) throw error;
+            rowErrors.set(write.index, validationMessages(error));
+          }
+        }
+
+        if (rowErrors.size > 0) {
+          throw new ImportFailedError(rowErrors);
+        }
+      });
+    } catch (error) {
+      if (!(error instanceof ImportFailedError)) throw error;
+      applied = false;
+      error.rowErrors.forEach((errors, index) => {
+        rows[index].action = 'error';
+        rows[index].errors = errors;
+      });
+    } finally {
+      await dbSession.endSession();
+    }
+  }
+
+  const summary = { create: 0, update: 0, unchanged: 0, error: 0 };
+  rows.forEach((row) => summary[row.action]++);
+
+  return { dryRun, applied, summary, rows };
+}
@@ -0,0 +1,90 @@
+// lib/productListing.ts
+// Query options and response shapes of GET /api/products and GET /api/search, shared with the storefront pages
+
+import { PaginationMeta } from '@/lib/queryParams';
+
+export const PRODUCT_SORT_KEYS = [
+  // Best text match first; only meaningful with a search query
+  'relevance',
+  'newest',
+  'price-low',
+  'price-high',
+  'rating',
+  'name',
+  'discount-high',
+  'discount-low',
+] as const;
+
+export type ProductSortKey = (typeof PRODUCT_SORT_KEYS)[number];
+
+export const isProductSortKey = (value: unknown): value is ProductSortKey =>
+  typeof value === 'string' && (PRODUCT_SORT_KEYS as readonly string[]).includes(value);
+
+export interface ProductListQuery {
+  // Search text; only used by /api/search
+  q?: string;
+  category?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  inStock?: boolean;
+  onSale?: boolean;
+  minDiscount?: number;
+  maxDiscount?: number;
+  sort?: ProductSortKey;
+  page?: number;
+  limit?: number;
+}
+
+export interface CategoryFacet {
+  category: string;
+  count: number;
+}
+
+export interface ProductListFacets {
+  // Counts ignore the category filter so every category stays selectable
+  categories: CategoryFacet[];
+  // Price bounds ignore the price filter so the slider keeps its full range
+  priceRange: { min: number; max: number };
+  // Largest discount percentage among the matching products
+  maxDiscount: number;
+}
+
+export interface ProductListResponse<T> {
+  success: boolean;
+  products: T[];
+  pagination: PaginationMeta;
+  facets: ProductListFacets;
+}
+
+export interface ProductSearchResponse<T> extends ProductListResponse<T> {
+  query: string;
+  // True when nothing matched exactly and the results allow for typos
+  fuzzy: boolean;
+}
+
+// Returned by GET /api/search?mode=suggest
+export interface ProductSuggestion {
+  _id: string;
+  productId: string;
+  name: string;
+  price: number;
+  image?: string;
+}
+
+export interface SearchSuggestions {
+  products: ProductSuggestion[];
+  categories: CategoryFacet[];
+}
+
+// Builds the /api/products query string, leaving out unset and default values
+export const buildProductListQuery = (query: ProductListQuery) => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value === undefined || value === false || value === '' || (key === 'category' && value === 'all')) {
+      return;
+    }
+    params.set(key, String(value));
+  });
+  return params.toString();
+};
@@ -0,0 +1,215 @@
+// lib/productReviews.ts
+// Reviews on the server: listing, posting, moderation, helpful votes, and
+// keeping Product.rating and Product.reviews in step with approved reviews.
+// Used by /api/products/[id]/reviews and /api/reviews.
+import mongoose, { Types } from 'mongoose';
+import Product from '@/models/Product';
+import Order from '@/models/Order';
+import Review, { IReview } from '@/models/Review';
+import { PaginationParams } from '@/lib/queryParams';
+import { ReviewInput, ReviewSort, ReviewStatus, roundRating } from '@/lib/reviews';
+
+const REVIEW_SORT_ORDER: Record<ReviewSort, Record<string, 1 | -1>> = {
+  newest: { createdAt: -1 },
+  helpful: { helpfulCount: -1, createdAt: -1 },
+  highest: { rating: -1, createdAt: -1 },
+  lowest: { rating: 1, createdAt: -1 },
+};
+
+export interface ReviewProduct {
+  _id: Types.ObjectId;
+  productId: string;
+  name: string;
+}
+
+// Same identifiers as /api/products/[id]: the Mongo id or the catalog productId
+export const findReviewProduct = (id: string) =>
+  Product.findOne(mongoose.Types.ObjectId.isValid(id) ? { _id: id } : { productId: id })
+    .select('productId name')
+    .lean<ReviewProduct>();
+
+type ReviewFields = Pick<
+  IReview,
+  'rating' | 'title' | 'body' | 'photos' | 'verifiedPurchase' | 'status' | 'helpfulCount' | 'createdAt'
+> & { _id: Types.ObjectId; authorName: string; userId: Types.ObjectId; moderationNote?: string };
+
+// What the product page gets; the author's own review also carries its status
+export const toReviewSummary = (review: ReviewFields, { includeStatus = false } = {}) => ({
+  _id: String(review._id),
+  authorName: review.authorName,
+  rating: review.rating,
+  title: review.title,
+  body: review.body,
+  photos: review.photos,
+  verifiedPurchase: review.verifiedPurchase,
+  helpfulCount: review.helpfulCount,
+  createdAt: review.createdAt,
+  ...(includeStatus && { status: review.status, moderationNote: review.moderationNote }),
+});
+
+// A delivered order with the product, placed or claimed by the account
+export const hasDeliveredOrder = async (userId: string, productId: string) =>
+  !!(await Order.exists({ userId, status: 'delivered', 'items.productId': productId }));
+
+/**
+ * Recomputes the product's average rating and review count from its
+ * approved reviews. These are never entered by hand.
+ */
+export async function recomputeProductRating(productId: Types.ObjectId | string) {
+  const [stats] = await Review.aggregate<{ average: number; count: number }>([
+    { $match: { product: new Types.ObjectId(String(productId)), status: 'approved' } },
+    { $group: { _id: null, average: { $avg: '$rating' }, count: { $sum: 1 } } },
+  ]);
+
+  await Product.updateOne(
+    { _id: productId },
+    { $set: { rating: stats ? roundRating(stats.average) : 0, reviews: stats?.count ?? 0 } }
+  );
+}
+
+// Star counts for the product page's rating breakdown
+export async function getRatingDistribution(productId: Types.ObjectId) {
+  const counts = await Review.aggregate<{ _id: number; count: number }>([
+    { $match: { product: productId, status: 'approved' } },
+    { $group: { _id: '$rating', count: { $sum: 1 } } },
+  ]);
+
+  const distribution: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  counts.forEach(({ _id, count }) => {
+    distribution[_id] = count;
+  });
+  return distribution;
+}
+
+/**
+ * One page of a product's published reviews. `votedHelpful` marks the ones
+ * the viewer has already voted for.
+ */
+export async function listProductReviews(
+  productId: Types.ObjectId,
+  { sort, rating, pagination, viewerId }: {
+    sort: ReviewSort;
+    rating?: number;
+    pagination: PaginationParams;
+    viewerId?: string;
+  }
+) {
+  const filter = { product: productId, status: 'approved', ...(rating && { rating }) };
+
+  const [reviews, total] = await Promise.all([
+    Review.find(filter)
+      .sort(REVIEW_SORT_ORDER[sort])
+      .skip(pagination.skip)
+      .limit(pagination.limit)
+      .lean<ReviewFields[]>(),
+    Review.countDocuments(filter),
+  ]);
+
+  const voted = new Set<string>();
+  if (viewerId && reviews.length > 0) {
+    const votedIds = await Review.find({
+      _id: { $in: reviews.map((review) => review._id) },
+      helpfulVoters: viewerId,
+    }).distinct('_id');
+    votedIds.forEach((id) => voted.add(String(id)));
+  }
+
+  return {
+    reviews: reviews.map((review) => ({
+      ...toReviewSummary(review),
+      votedHelpful: voted.has(String(review._id)),
+      ownReview: !!viewerId && String(review.userId) === viewerId,
+    })),
+    total,
+  };
+}
+
+/**
+ * Posts a review for moderation. The verified-purchase flag comes from the
+ * author's delivered orders, never from the request. Throws the duplicate key
+ * error if they already reviewed the product.
+ */
+export async function createReview(
+  product: ReviewProduct,
+  author: { id: string; name: string },
+  input: ReviewInput
+) {
+  return Review.create({
+    ...input,
+    product: product._id,
+    userId: author.id,
+    authorName: author.name,
+    verifiedPurchase: await hasDeliveredOrder(author.id, product.productId),
+    status: 'pending',
+  });
+}
+
+/**
+ * Approves or rejects a review. The product's rating only changes when a
+ * review moves into or out of the published set. Returns null for unknown
+ * reviews.
+ */
+export async function moderateReview(
+  reviewId: string,
+  status: ReviewStatus,
+  moderatorId: string,
+  note?: string
+) {
+  const moderation = { status, moderatedBy: moderatorId, moderatedAt: new Date() };
+  const previous = await Review.findByIdAndUpdate(
+    reviewId,
+    status === 'rejected' && note
+      ? { $set: { ...moderation, moderationNote: note } }
+      : { $set: moderation, $unset: { moderationNote: 1 } }
+  );
+
+  if (!previous) return null;
+
+  if ((previous.status === 'approved') !== (status === 'approved')) {
+    await recomputeProductRating(previous.product);
+  }
+  return Review.findById(reviewId);
+}
+
+// Returns false for unknown reviews
+export async function deleteReview(reviewId: string) {
+  const review = await Review.findByIdAndDelete(reviewId);
+  if (!review) return false;
+
+  if (review.status === 'approved') {
+    await recomputeProductRating(review.product);
+  }
+  return true;
+}
+
+/**
+ * Adds or withdraws the user's helpful vote on a published review. The
+ * conditions in each update keep a user from counting twice in parallel.
+ * Returns null for unknown or unpublished reviews.
+ */
+export async function setHelpfulVote(
+  reviewId: string,
+  userId: string,
+  helpful: boolean
+): Promise<{ helpfulCount: number; error?: undefined } | { helpfulCount?: undefined; error: string } | null> {
+  const review = await Review.findOne({ _id: reviewId, status: 'approved' }).select('userId').lean<{ userId: Types.ObjectId }>();
+  if (!review) return null;
+  if (String(review.userId) === userId) {
+    return { error: 'You can\'t vote on your own review' };
+  }
+
+  if (helpful) {
+    await Review.updateOne(
+      { _id: reviewId, helpfulVoters: { $ne: userId } },
+      { $push: { helpfulVoters: userId }, $inc: { helpfulCount: 1 } }
+    );
+  } else {
+    await Review.updateOne(
+      { _id: reviewId, helpfulVoters: userId },
+      { $pull: { helpfulVoters: userId }, $inc: { helpfulCount: -1 } }
+    );
+  }
+
+  const updated = await Review.findById(reviewId).select('helpfulCount').lean<{ helpfulCount: number }>();
+  return { helpfulCount: updated?.helpfulCount ?? 0 };
+}
@@ -0,0 +1,106 @@
+// lib/productSearch.ts
+import Product from '@/models/Product';
+import { escapeRegex } from '@/lib/queryParams';
+import { ProductSuggestion, SearchSuggestions } from '@/lib/productListing';
+
+const MAX_TERMS = 5;
+const MAX_TERM_LENGTH = 30;
+// Shorter words produce too many accidental matches when edits are allowed
+const MIN_FUZZY_TERM_LENGTH = 4;
+
+const FUZZY_FIELDS = ['name', 'category', 'features'];
+
+export const SUGGEST_PRODUCT_LIMIT = 5;
+export const SUGGEST_CATEGORY_LIMIT = 3;
+
+export const splitSearchTerms = (query: string) =>
+  query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, MAX_TERMS)
+    .map((term) => term.slice(0, MAX_TERM_LENGTH));
+
+// $text ORs the terms and scores each product by how well it matches
+export const buildTextMatch = (query: string) => ({
+  $text: { $search: splitSearchTerms(query).join(' ') },
+});
+
+/**
+ * Builds a pattern that also matches the term with one typo: a wrong,
+ * missing, extra or swapped character ("headphnes" finds "headphones").
+ */
+export const buildFuzzyPattern = (term: string) => {
+  if (term.length < MIN_FUZZY_TERM_LENGTH) return escapeRegex(term);
+
+  const variants = new Set<string>([escapeRegex(term)]);
+  for (let i = 0; i <= term.length; i++) {
+    const before = escapeRegex(term.slice(0, i));
+    if (i < term.length) {
+      const after = escapeRegex(term.slice(i + 1));
+      variants.add(`${before}.${after}`); // wrong character
+      variants.add(`${before}${after}`); // extra character typed
+      if (i < term.length - 1) {
+        variants.add(`${before}${escapeRegex(term[i + 1] + term[i])}${escapeRegex(term.slice(i + 2))}`); // swapped
+      }
+    }
+    variants.add(`${before}.${escapeRegex(term.slice(i))}`); // missing character
+  }
+  return [...variants].join('|');
+};
+
+// Every term has to match (allowing one typo) in at least one searchable field
+export const buildFuzzyMatch = (query: string) => ({
+  $and: splitSearchTerms(query).map((term) => {
+    const pattern = new RegExp(buildFuzzyPattern(term), 'i');
+    return { $or: FUZZY_FIELDS.map((field) => ({ [field]: pattern })) };
+  }),
+});
+
+/**
+ * Autocomplete for the search box. Matches word prefixes so results show up
+ * while the last word is still being typed, and falls back to typo-tolerant
+ * matching when nothing starts with the query.
+ */
+export async function suggestProducts(query: string): Promise<SearchSuggestions> {
+  const terms = splitSearchTerms(query);
+  if (terms.length === 0) return { products: [], categories: [] };
+
+  const prefixMatch = {
+    $and: terms.map((term) => {
+      const pattern = new RegExp(`\\b${escapeRegex(term)}`, 'i');
+      return { $or: [{ name: pattern }, { category: pattern }] };
+    }),
+  };
+
+  const findSuggestions = (match: Record<string, unknown>) =>
+    Promise.all([
+      Product.find(match)
+        .sort({ rating: -1, reviews: -1 })
+        .limit(SUGGEST_PRODUCT_LIMIT)
+        .select('productId name price images')
+        .lean<{ _id: unknown; productId: string; name: string; price: number; images?: string[] }[]>(),
+      Product.aggregate<{ _id: string; count: number }>([
+        { $match: { ...match, deletedAt: null } },
+        { $group: { _id: '$category', count: { $sum: 1 } } },
+        { $sort: { count: -1, _id: 1 } },
+        { $limit: SUGGEST_CATEGORY_LIMIT },
+      ]),
+    ]);
+
+  let [products, categories] = await findSuggestions(prefixMatch);
+  if (products.length === 0) {
+    [products, categories] = await findSuggestions(buildFuzzyMatch(query));
+  }
+
+  return {
+    products: products.map((product): ProductSuggestion => ({
+      _id: String(product._id),
+      productId: product.productId,
+      name: product.name,
+      price: product.price,
+      image: product.images?.[0],
+    })),
+    categories: categories.map((category) => ({ category: category._id, count: category.count })),
+  };
+}
@@ -0,0 +1,254 @@
+// lib/productSheets.ts
+// The CSV/JSON layout of bulk product imports and exports, shared by the
+// import and export APIs and the import page, so keep it free of
+// server-only imports. Checks against the database live in lib/productImport.ts.
+import { parseCsv, toCsv } from '@/lib/csv';
+import { ProductOption, ProductVariant } from '@/lib/variants';
+
+export const PRODUCT_SHEET_FORMATS = ['csv', 'json'] as const;
+
+export type ProductSheetFormat = (typeof PRODUCT_SHEET_FORMATS)[number];
+
+export const isProductSheetFormat = (value: unknown): value is ProductSheetFormat =>
+  typeof value === 'string' && (PRODUCT_SHEET_FORMATS as readonly string[]).includes(value);
+
+export const PRODUCT_IMPORT_MODES = ['create', 'upsert'] as const;
+
+export type ProductImportMode = (typeof PRODUCT_IMPORT_MODES)[number];
+
+export const PRODUCT_IMPORT_MODE_LABELS: Record<ProductImportMode, string> = {
+  create: 'Add new products only',
+  upsert: 'Add new and update existing (matched by product ID)',
+};
+
+export const isProductImportMode = (value: unknown): value is ProductImportMode =>
+  typeof value === 'string' && (PRODUCT_IMPORT_MODES as readonly string[]).includes(value);
+
+export const MAX_IMPORT_ROWS = 1000;
+
+// Rating and review count are left out: they only come from approved reviews
+export const PRODUCT_SHEET_COLUMNS = [
+  'productId',
+  'name',
+  'description',
+  'price',
+  'originalPrice',
+  'category',
+  'images',
+  'features',
+  'stockQuantity',
+  'lowStockThreshold',
+  'options',
+  'variants',
+] as const;
+
+export type ProductSheetColumn = (typeof PRODUCT_SHEET_COLUMNS)[number];
+
+// Separates image URLs and features inside one CSV cell; options and variants are JSON
+export const SHEET_LIST_SEPARATOR = '|';
+
+// One row of a sheet. Only productId is always set: on updates, columns that
+// are missing or blank keep the product's current value.
+export interface ProductSheetFields {
+  productId: string;
+  name?: string;
+  description?: string;
+  price?: number;
+  originalPrice?: number;
+  // Category name, slug or id
+  category?: string;
+  images?: string[];
+  features?: string[];
+  stockQuantity?: number;
+  lowStockThreshold?: number;
+  options?: ProductOption[];
+  variants?: ProductVariant[];
+}
+
+export type ProductImportAction = 'create' | 'update' | 'unchanged' | 'error';
+
+export interface ProductImportRow {
+  // 1 is the first product in the file, whatever the format
+  row: number;
+  productId?: string;
+  name?: string;
+  action: ProductImportAction;
+  errors: string[];
+}
+
+export interface ProductImportResult {
+  dryRun: boolean;
+  // False when nothing was written, either for a dry run or because a row has errors
+  applied: boolean;
+  summary: Record<ProductImportAction, number>;
+  rows: ProductImportRow[];
+}
+
+type SheetRecord = Record<string, unknown>;
+
+/**
+ * Reads the products out of an uploaded file: a CSV with a header row, or a
+ * JSON array of objects (or { products: [...] }). Returns one record per
+ * product, or an error when the file itself can't be used.
+ */
+export function readProductSheet(
+  content: string,
+  format: ProductSheetFormat
+): { records: SheetRecord[]; error?: undefined } | { records?: undefined; error: string } {
+  let records: SheetRecord[];
+
+  if (format === 'csv') {
+    const [header, ...lines] = parseCsv(content);
+    const columns = (header || []).map((column) => column.trim());
+    if (!columns.includes('productId')) {
+      return { error: 'The first row must name the columns, including productId' };
+    }
+    records = lines.map((cells) =>
+      Object.fromEntries(
+        columns
+          .map((column, index) => [column, cells[index]?.trim() ?? ''])
+          .filter(([column, value]) => column && value !== '')
+      )
+    );
+  } else {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      return { error: 'The file is not valid JSON' };
+    }
+    const list = Array.isArray(parsed) ? parsed : (parsed as { products?: unknown } | null)?.products;
+    if (!Array.isArray(list) || !list.every((item) => item && typeof item === 'object' && !Array.isArray(item))) {
+      return { error: 'The JSON must be an array of product objects' };
+    }
+    records = list as SheetRecord[];
+  }
+
+  if (records.length === 0) return { error: 'The file has no products' };
+  if (records.length > MAX_IMPORT_ROWS) {
+    return { error: `Import at most ${MAX_IMPORT_ROWS} products at a time` };
+  }
+  return { records };
+}
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+const isImageUrl = (url: string) => /^https?:\/\/\S+$/.test(url) || /^\/\S*$/.test(url);
+
+/**
+ * Checks the values of one record and converts CSV text into numbers, lists
+ * and JSON. Returns every problem found rather than stopping at the first.
+ */
+export function parseProductRecord(record: SheetRecord): { fields: ProductSheetFields; errors: string[] } {
+  const errors: string[] = [];
+
+  const text = (column: ProductSheetColumn) => {
+    const value = record[column];
+    if (isBlank(value)) return undefined;
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      errors.push(`${column} must be text`);
+      return undefined;
+    }
+    return String(value).trim();
+  };
+
+  const number = (column: ProductSheetColumn, { integer = false } = {}) => {
+    const value = record[column];
+    if (isBlank(value)) return undefined;
+    const parsed = typeof value === 'number' ? value : typeof value === 'string' ? Number(value.trim()) : NaN;
+    if (!Number.isFinite(parsed) || parsed < 0 || (integer && !Number.isInteger(parsed))) {
+      errors.push(`${column} must be a non-negative ${integer ? 'whole number' : 'number'}`);
+      return undefined;
+    }
+    return parsed;
+  };
+
+  const list = (column: ProductSheetColumn) => {
+    const value = record[column];
+    if (isBlank(value)) return undefined;
+    const items = Array.isArray(value)
+      ? value
+      : typeof value === 'string'
+        ? value.split(SHEET_LIST_SEPARATOR)
+        : null;
+    if (!items || !items.every((item) => typeof item === 'string')) {
+      errors.push(`${column} must be a list of text values`);
+      return undefined;
+    }
+    return items.map((item: string) => item.trim()).filter(Boolean);
+  };
+
+  const jsonList = <T>(column: ProductSheetColumn) => {
+    let value = record[column];
+    if (isBlank(value)) return undefined;
+    if (typeof value === 'string') {
+      try {
+        value = JSON.parse(value);
+      } catch {
+        errors.push(`${column} is not valid JSON`);
+        return undefined;
+      }
+    }
+    if (!Array.isArray(value)) {
+      errors.push(`${column} must be a JSON array`);
+      return undefined;
+    }
+    return value as T[];
+  };
+
+  const productId = text('productId');
+  if (!productId) errors.push('productId is required');
+
+  const images = list('images');
+  images?.filter((url) => !isImageUrl(url)).forEach((url) => {
+    errors.push(`Image ${url} must be an http(s) URL or a path starting with /`);
+  });
+
+  const fields: ProductSheetFields = {
+    productId: productId ?? '',
+    name: text('name'),
+    description: text('description'),
+    price: number('price'),
+    originalPrice: number('originalPrice'),
+    category: text('category'),
+    images,
+    features: list('features'),
+    stockQuantity: number('stockQuantity', { integer: true }),
+    lowStockThreshold: number('lowStockThreshold', { integer: true }),
+    options: jsonList<ProductOption>('options'),
+    variants: jsonList<ProductVariant>('variants'),
+  };
+
+  // Leave unset columns out so updates keep the current values
+  (Object.keys(fields) as (keyof ProductSheetFields)[]).forEach((key) => {
+    if (fields[key] === undefined) delete fields[key];
+  });
+
+  return { fields, errors };
+}
+
+/**
+ * Writes products in the layout readProductSheet reads, so an export can be
+ * edited and imported again.
+ */
+export function writeProductSheet(products: ProductSheetFields[], format: ProductSheetFormat) {
+  const records = products.map((product) =>
+    Object.fromEntries(PRODUCT_SHEET_COLUMNS.map((column) => [column, product[column]]))
+  );
+
+  if (format === 'json') return JSON.stringify(records, null, 2);
+
+  return toCsv([
+    [...PRODUCT_SHEET_COLUMNS],
+    ...records.map((record) =>
+      PRODUCT_SHEET_COLUMNS.map((column) => {
+        const value = record[column];
+        if (column === 'options' || column === 'variants') {
+          return Array.isArray(value) && value.length > 0 ? JSON.stringify(value) : '';
+        }
+        return Array.isArray(value) ? value.join(SHEET_LIST_SEPARATOR) : (value as string | number | undefined);
+      })
+    ),
+  ]);
+}
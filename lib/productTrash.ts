@@ -0,0 +1,121 @@
+// lib/productTrash.ts
+// The product trash: deleting a product only sets deletedAt, so wishlists,
+// reviews and order history keep pointing at it and it can be restored.
+// Purging removes it for good, but only while no order includes it.
+// Used by /api/products/[id], /api/products/[id]/restore and /api/products/trash.
+import mongoose, { ClientSession, Types } from 'mongoose';
+import Product from '@/models/Product';
+import Order from '@/models/Order';
+import Review from '@/models/Review';
+import Wishlist from '@/models/Wishlist';
+import User from '@/models/User';
+import { PaginationParams } from '@/lib/queryParams';
+
+interface TrashedProduct {
+  _id: Types.ObjectId;
+  productId: string;
+}
+
+/**
+ * Counts the orders that include each product. Order lines store the catalog
+ * productId; the Mongo id is matched too so a product is never purged from
+ * under an order by mistake. Keyed by the product's Mongo id.
+ */
+export async function countProductOrders(products: TrashedProduct[], session?: ClientSession) {
+  const identifiers = products.flatMap((product) => [product.productId, String(product._id)]);
+  const counts = await Order.aggregate<{ _id: string; orders: number }>([
+    { $match: { 'items.productId': { $in: identifiers } } },
+    { $unwind: '$items' },
+    { $match: { 'items.productId': { $in: identifiers } } },
+    { $group: { _id: '$items.productId', orderIds: { $addToSet: '$_id' } } },
+    { $project: { orders: { $size: '$orderIds' } } },
+  ]).session(session || null);
+  const byIdentifier = new Map(counts.map((count) => [count._id, count.orders]));
+
+  return new Map(
+    products.map((product) => [
+      String(product._id),
+      (byIdentifier.get(product.productId) ?? 0) + (byIdentifier.get(String(product._id)) ?? 0),
+    ])
+  );
+}
+
+// Newest first, with the order count that decides whether each can be purged
+export async function listTrashedProducts({ skip, limit }: PaginationParams) {
+  const filter = { deletedAt: { $ne: null } };
+  const [products, total] = await Promise.all([
+    Product.find(filter)
+      .sort({ deletedAt: -1, _id: -1 })
+      .skip(skip)
+      .limit(limit)
+      .select('productId name price images category deletedAt')
+      .lean<(TrashedProduct & Record<string, unknown>)[]>(),
+    Product.countDocuments(filter),
+  ]);
+  const orders = await countProductOrders(products);
+
+  return {
+    products: products.map((product) => ({
+      ...product,
+      _id: String(product._id),
+      orders: orders.get(String(product._id)) ?? 0,
+    })),
+    total,
+  };
+}
+
+// Returns the trashed product, or null when it isn't in the trash
+export const restoreProduct = (id: string) =>
+  Product.findOneAndUpdate(
+    { _id: id, deletedAt: { $ne: null } },
+    { $set: { deletedAt: null } },
+    { new: true }
+  ).lean<TrashedProduct & { name: string }>();
+
+/**
+ * Deletes a trashed product for good, along with its reviews and wishlist
+ * entries, in one transaction. Refused while any order includes it: returns
+ * the order count with purged false. Returns null when the product isn't in
+ * the trash.
+ */
+export async function purgeProduct(id: string): Promise<{ purged: boolean; orders: number } | null> {
+  let result: { purged: boolean; orders: number } | null = null;
+
+  const dbSession = await mongoose.startSession();
+  try {
+    await dbSession.withTransaction(async () => {
+      // Start over if the transaction is retried
+      result = null;
+      const product = await Product.findOne({ _id: id, deletedAt: { $ne: null } })
+        .select('productId')
+        .session(dbSession)
+        .lean<TrashedProduct>();
+      if (!product) return;
+
+      const orders = (await countProductOrders([product], dbSession)).get(String(product._id)) ?? 0;
+      if (orders > 0) {
+        result = { purged: false, orders };
+        return;
+      }
+
+      // One at a time: a transaction can't run operations in parallel
+      await Review.deleteMany({ product: product._id }, { session: dbSession });
+      await Wishlist.updateMany(
+        { 'items.productId': product._id },
+        { $pull: { items: { productId: product._id } } },
+        { session: dbSession }
+      );
+      await User.updateMany(
+        { 'wishlist.productId': product._id },
+        { $pull: { wishlist: { productId: product._id } } },
+        { session: dbSession }
+      );
+      await Product.deleteOne({ _id: product._id }, { session: dbSession });
+      result = { purged: true, orders: 0 };
+    });
+  } finally {
+    await dbSession.endSession();
+  }
+
+  return result;
+}
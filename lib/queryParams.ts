@@ -0,0 +1,68 @@
+// lib/queryParams.ts
+// Helpers for reading list-endpoint query strings consistently across API routes.
+
+export interface PaginationParams {
+  page: number;
+  limit: number;
+  skip: number;
+}
+
+export interface PaginationMeta {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+export const parsePagination = (
+  searchParams: URLSearchParams,
+  { defaultLimit = 20, maxLimit = 100 }: { defaultLimit?: number; maxLimit?: number } = {}
+): PaginationParams => {
+  const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1);
+  const limit = Math.min(
+    Math.max(parseInt(searchParams.get('limit') || `${defaultLimit}`, 10) || defaultLimit, 1),
+    maxLimit
+  );
+  return { page, limit, skip: (page - 1) * limit };
+};
+
+export const buildPaginationMeta = (
+  { page, limit }: PaginationParams,
+  total: number
+): PaginationMeta => ({
+  page,
+  limit,
+  total,
+  totalPages: Math.ceil(total / limit),
+});
+
+/**
+ * Reads `from`/`to` into a Mongo range filter. Date-only `to` values
+ * (YYYY-MM-DD) include the whole day. Returns undefined when neither is set.
+ */
+export const parseDateRange = (searchParams: URLSearchParams) => {
+  const from = searchParams.get('from');
+  const to = searchParams.get('to');
+  const range: { $gte?: Date; $lte?: Date } = {};
+
+  if (from && !isNaN(Date.parse(from))) range.$gte = new Date(from);
+  if (to && !isNaN(Date.parse(to))) {
+    const toDate = new Date(to);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(to)) toDate.setUTCHours(23, 59, 59, 999);
+    range.$lte = toDate;
+  }
+
+  return Object.keys(range).length > 0 ? range : undefined;
+};
+
+export const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Reads an optional numeric param; NaN means the value was present but malformed
+export const parseNumberParam = (searchParams: URLSearchParams, name: string) => {
+  const raw = searchParams.get(name);
+  if (raw === null || raw.trim() === '') return undefined;
+  return Number(raw);
+};
+
+export const parseBooleanParam = (searchParams: URLSearchParams, name: string) =>
+  ['true', '1'].includes(searchParams.get(name) || '');
@@ -0,0 +1,91 @@
+// lib/reviews.ts
+// Review rules shared by the reviews API, the product page form and the
+// admin moderation queue, so keep it free of server-only imports
+
+export const REVIEW_STATUSES = ['pending', 'approved', 'rejected'] as const;
+
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: 'Awaiting moderation',
+  approved: 'Published',
+  rejected: 'Rejected',
+};
+
+export const isReviewStatus = (value: unknown): value is ReviewStatus =>
+  typeof value === 'string' && (REVIEW_STATUSES as readonly string[]).includes(value);
+
+export const REVIEW_SORTS = ['newest', 'helpful', 'highest', 'lowest'] as const;
+
+export type ReviewSort = (typeof REVIEW_SORTS)[number];
+
+export const REVIEW_SORT_LABELS: Record<ReviewSort, string> = {
+  newest: 'Newest',
+  helpful: 'Most helpful',
+  highest: 'Highest rated',
+  lowest: 'Lowest rated',
+};
+
+export const isReviewSort = (value: unknown): value is ReviewSort =>
+  typeof value === 'string' && (REVIEW_SORTS as readonly string[]).includes(value);
+
+export const REVIEW_TITLE_MAX_LENGTH = 120;
+export const REVIEW_BODY_MIN_LENGTH = 10;
+export const REVIEW_BODY_MAX_LENGTH = 2000;
+export const MAX_REVIEW_PHOTOS = 4;
+
+export interface ReviewInput {
+  rating: number;
+  title: string;
+  body: string;
+  photos: string[];
+}
+
+// Photos are uploaded to Cloudinary from the browser; only https links are kept
+const isPhotoUrl = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+  try {
+    return new URL(value).protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Checks a review submitted by a customer. Returns the cleaned-up review, or
+ * the problems found.
+ */
+export const parseReviewInput = (
+  body: Record<string, unknown>
+): { input: ReviewInput; errors?: undefined } | { input?: undefined; errors: string[] } => {
+  const errors: string[] = [];
+  const rating = Number(body.rating);
+  const title = typeof body.title === 'string' ? body.title.trim() : '';
+  const text = typeof body.body === 'string' ? body.body.trim() : '';
+  const photos = body.photos === undefined ? [] : body.photos;
+
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    errors.push('Rating must be a whole number from 1 to 5');
+  }
+  if (!title) errors.push('Title is required');
+  if (title.length > REVIEW_TITLE_MAX_LENGTH) {
+    errors.push(`Title must be at most ${REVIEW_TITLE_MAX_LENGTH} characters`);
+  }
+  if (text.length < REVIEW_BODY_MIN_LENGTH) {
+    errors.push(`Review must be at least ${REVIEW_BODY_MIN_LENGTH} characters`);
+  }
+  if (text.length > REVIEW_BODY_MAX_LENGTH) {
+    errors.push(`Review must be at most ${REVIEW_BODY_MAX_LENGTH} characters`);
+  }
+  if (!Array.isArray(photos) || !photos.every(isPhotoUrl)) {
+    errors.push('Photos must be a list of https image links');
+  } else if (photos.length > MAX_REVIEW_PHOTOS) {
+    errors.push(`At most ${MAX_REVIEW_PHOTOS} photos per review`);
+  }
+
+  if (errors.length > 0) return { errors };
+  return { input: { rating, title, body: text, photos: photos as string[] } };
+};
+
+// Average shown on the product, to one decimal place
+export const roundRating = (average: number) => Math.round(average * 10) / 10;
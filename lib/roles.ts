@@ -0,0 +1,62 @@
+// lib/roles.ts
+// The roles a user can have and what each may do. The User schema, the API
+// validators, the admin user editor and the JWT all read them from here.
+// Used on the client and by middleware too, so no server-only imports.
+
+export const ROLES = ['customer', 'staff', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const DEFAULT_ROLE: Role = 'customer';
+
+export const ROLE_DETAILS: Record<Role, { label: string; description: string }> = {
+  customer: { label: 'Customer', description: 'Shops and manages their own orders and account' },
+  staff: { label: 'Staff', description: 'Fulfils orders and keeps the catalog up to date' },
+  admin: { label: 'Admin', description: 'Full access, including users, coupons, reviews and deletions' },
+};
+
+// Role names from older code. lib/userRoleMigration.ts rewrites stored ones,
+// and the User schema fixes any it still meets on save.
+const LEGACY_ROLES: Record<string, Role> = {
+  user: 'customer',
+  moderator: 'staff',
+};
+
+export const isRole = (value: unknown): value is Role =>
+  typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+
+// The current role for a stored value, or null when it means nothing to us
+export const normalizeRole = (value: unknown): Role | null => {
+  if (isRole(value)) return value;
+  if (typeof value === 'string' && Object.hasOwn(LEGACY_ROLES, value)) return LEGACY_ROLES[value];
+  return null;
+};
+
+/**
+ * What staff and admin accounts may do beyond their own account. Customers
+ * have none of these; signing in is enough for their own orders, cart and
+ * profile.
+ */
+export const PERMISSIONS = [
+  'dashboard:view',
+  'orders:view',
+  'orders:fulfil',
+  'catalog:edit',
+  'catalog:delete',
+  'coupons:manage',
+  'reviews:moderate',
+  'users:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  customer: [],
+  staff: ['dashboard:view', 'orders:view', 'orders:fulfil', 'catalog:edit'],
+  admin: PERMISSIONS,
+};
+
+export const roleHasPermission = (role: string | undefined, permission: Permission) => {
+  const normalized = normalizeRole(role);
+  return !!normalized && ROLE_PERMISSIONS[normalized].includes(permission);
+};
@@ -0,0 +1,166 @@
+// lib/sessionRegistry.ts
+// Tracks signed-in devices so JWTs can be revoked. Each token carries the
+// sessionId recorded here and the user's tokenVersion at sign-in; the jwt
+// callback in lib/auth.ts rejects it once either no longer matches.
+import crypto from 'crypto';
+import { headers } from 'next/headers';
+import User from '@/models/User';
+import UserSession from '@/models/UserSession';
+import { DEFAULT_ROLE, normalizeRole } from '@/lib/roles';
+
+// lastSeenAt is only rewritten this often, not on every request
+const LAST_SEEN_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+export class SessionRevokedError extends Error {
+  constructor() {
+    super('Session has been revoked');
+    this.name = 'SessionRevokedError';
+  }
+}
+
+export interface SessionSummary {
+  id: string;
+  device: string;
+  ipAddress?: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+  current: boolean;
+}
+
+// Each proxy in front of the app appends the address it was reached from to
+// X-Forwarded-For, and anything to the left of those entries came from the
+// client. TRUSTED_PROXY_COUNT says how many proxies there are; without it no
+// address is read at all, since the header can't be told apart from a forged one.
+const getForwardedClientIp = (forwardedFor: string | null) => {
+  const trustedProxies = Number(process.env.TRUSTED_PROXY_COUNT);
+  if (!forwardedFor || !Number.isInteger(trustedProxies) || trustedProxies < 1) return undefined;
+
+  const hops = forwardedFor.split(',').map((hop) => hop.trim());
+  return hops.length >= trustedProxies ? hops[hops.length - trustedProxies] || undefined : undefined;
+};
+
+// Callbacks run inside the auth route, where the request headers are available.
+// Also used by the sign-in throttle in lib/loginThrottle.ts.
+export const getClientInfo = async (): Promise<{ userAgent?: string; ipAddress?: string }> => {
+  try {
+    const requestHeaders = await headers();
+    return {
+      userAgent: requestHeaders.get('user-agent') || undefined,
+      ipAddress: getForwardedClientIp(requestHeaders.get('x-forwarded-for')),
+    };
+  } catch {
+    return {};
+  }
+};
+
+const BROWSER_PATTERNS: [string, RegExp][] = [
+  ['Edge', /Edg\//],
+  ['Opera', /OPR\//],
+  ['Chrome', /Chrome\//],
+  ['Firefox', /Firefox\//],
+  ['Safari', /Safari\//],
+];
+
+const OS_PATTERNS: [string, RegExp][] = [
+  ['Android', /Android/],
+  ['iOS', /iPhone|iPad/],
+  ['Windows', /Windows/],
+  ['macOS', /Mac OS X/],
+  ['Linux', /Linux/],
+];
+
+const matchPattern = (patterns: [string, RegExp][], value: string) =>
+  patterns.find(([, pattern]) => pattern.test(value))?.[0];
+
+// "Chrome on Windows" is enough to recognise a device in the list
+export const describeUserAgent = (userAgent?: string) => {
+  if (!userAgent) return 'Unknown device';
+  return `${matchPattern(BROWSER_PATTERNS, userAgent) || 'Browser'} on ${matchPattern(OS_PATTERNS, userAgent) || 'unknown OS'}`;
+};
+
+// Records a sign-in and returns what the new JWT should carry
+export async function startUserSession(userId: string) {
+  const user = await User.findById(userId).select('tokenVersion').lean<{ tokenVersion?: number }>();
+  const sessionId = crypto.randomUUID();
+
+  await UserSession.create({
+    userId,
+    sessionId,
+    ...(await getClientInfo()),
+  });
+
+  return { sessionId, tokenVersion: user?.tokenVersion ?? 0 };
+}
+
+/**
+ * Checks a token against the user and the registry. Throws
+ * SessionRevokedError when it has been signed out, otherwise returns the
+ * fields the token should refresh from the database.
+ */
+export async function validateUserSession(token: { id: string; sessionId?: string; tokenVersion?: number }) {
+  const [user, session] = await Promise.all([
+    User.findById(token.id)
+      .select('tokenVersion role email emailVerified twoFactor.enabled')
+      .lean<{ tokenVersion?: number; role?: string; email: string; emailVerified?: Date | null; twoFactor?: { enabled?: boolean } }>(),
+    token.sessionId
+      ? UserSession.findOne({ sessionId: token.sessionId }).select('revokedAt lastSeenAt').lean<{ revokedAt?: Date | null; lastSeenAt: Date }>()
+      : null,
+  ]);
+
+  if (!user || (user.tokenVersion ?? 0) !== (token.tokenVersion ?? 0)) {
+    throw new SessionRevokedError();
+  }
+
+  // Tokens issued before the registry existed have no sessionId; the version check still covers them
+  if (token.sessionId) {
+    if (!session || session.revokedAt) {
+      throw new SessionRevokedError();
+    }
+    if (Date.now() - new Date(session.lastSeenAt).getTime() > LAST_SEEN_UPDATE_INTERVAL_MS) {
+      await UserSession.updateOne({ sessionId: token.sessionId }, { $set: { lastSeenAt: new Date() } });
+    }
+  }
+
+  return {
+    role: normalizeRole(user.role) ?? DEFAULT_ROLE,
+    email: user.email,
+    emailVerified: !!user.emailVerified,
+    twoFactorEnabled: !!user.twoFactor?.enabled,
+  };
+}
+
+export async function listUserSessions(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+  const sessions = await UserSession.find({ userId, revokedAt: null })
+    .sort({ lastSeenAt: -1 })
+    .lean<{ sessionId: string; userAgent?: string; ipAddress?: string; createdAt: Date; lastSeenAt: Date }[]>();
+
+  return sessions.map((session) => ({
+    id: session.sessionId,
+    device: describeUserAgent(session.userAgent),
+    ipAddress: session.ipAddress,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    current: session.sessionId === currentSessionId,
+  }));
+}
+
+// Returns false when the session isn't the user's or is already signed out
+export async function revokeUserSession(userId: string, sessionId: string) {
+  const result = await UserSession.updateOne(
+    { userId, sessionId, revokedAt: null },
+    { $set: { revokedAt: new Date() } }
+  );
+  return result.modifiedCount === 1;
+}
+
+/**
+ * Signs the user out everywhere: bumping tokenVersion voids every JWT issued
+ * so far, including ones the registry never saw. Used by "sign out all
+ * devices" and after any password change.
+ */
+export async function revokeAllUserSessions(userId: string) {
+  await Promise.all([
+    User.updateOne({ _id: userId }, { $inc: { tokenVersion: 1 } }),
+    UserSession.updateMany({ userId, revokedAt: null }, { $set: { revokedAt: new Date() } }),
+  ]);
+}
@@ -0,0 +1,12 @@
+// lib/tokens.ts
+// Random single-use tokens for emailed links. Only the hash is stored, so a
+// database leak doesn't hand out working links.
+import crypto from 'crypto';
+
+export const hashToken = (token: string) =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+export const createToken = () => {
+  const token = crypto.randomBytes(32).toString('hex');
+  return { token, tokenHash: hashToken(token) };
+};
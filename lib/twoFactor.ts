@@ -0,0 +1,184 @@
+// lib/twoFactor.ts
+// Two-factor enrollment and verification on User, used by the credentials
+// sign-in in lib/auth.ts and /api/users/two-factor
+import crypto from 'crypto';
+import User from '@/models/User';
+import { hashToken } from '@/lib/tokens';
+import {
+  buildOtpAuthUri,
+  decryptSecret,
+  encryptSecret,
+  generateTotpSecret,
+  verifyTotp,
+} from '@/lib/totp';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+type TwoFactorFields = {
+  email: string;
+  role: string;
+  twoFactor?: {
+    enabled?: boolean;
+    secret?: string;
+    pendingSecret?: string;
+    recoveryCodes?: string[];
+    lastUsedStep?: number;
+  };
+};
+
+const loadTwoFactor = (userId: string) =>
+  User.findById(userId)
+    .select('email role twoFactor.enabled +twoFactor.secret +twoFactor.pendingSecret +twoFactor.recoveryCodes +twoFactor.lastUsedStep')
+    .lean<TwoFactorFields>();
+
+// Codes look like "3f9a-c21b"; people type them, so they are matched case-insensitively
+const normalizeRecoveryCode = (code: string) => code.trim().toLowerCase().replace(/\s/g, '');
+
+const generateRecoveryCodes = () =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(4).toString('hex');
+    return `${hex.slice(0, 4)}-${hex.slice(4)}`;
+  });
+
+/**
+ * Accepts a fresh authenticator code, refusing one whose time step was
+ * already used. The step is claimed with a conditional update so the same
+ * code can't pass twice in parallel.
+ */
+const consumeTotpCode = async (userId: string, encryptedSecret: string, code: string) => {
+  const step = verifyTotp(decryptSecret(encryptedSecret), code);
+  if (step === null) return false;
+
+  const result = await User.updateOne(
+    {
+      _id: userId,
+      $or: [{ 'twoFactor.lastUsedStep': { $exists: false } }, { 'twoFactor.lastUsedStep': { $lt: step } }],
+    },
+    { $set: { 'twoFactor.lastUsedStep': step } }
+  );
+  return result.modifiedCount === 1;
+};
+
+// Each recovery code works once
+const consumeRecoveryCode = async (userId: string, code: string) => {
+  const result = await User.updateOne(
+    { _id: userId, 'twoFactor.recoveryCodes': hashToken(normalizeRecoveryCode(code)) },
+    { $pull: { 'twoFactor.recoveryCodes': hashToken(normalizeRecoveryCode(code)) } }
+  );
+  return result.modifiedCount === 1;
+};
+
+/**
+ * The second sign-in step: an authenticator code, or one of the recovery
+ * codes if the device is lost.
+ */
+export async function verifySecondFactor(userId: string, code: string) {
+  const user = await loadTwoFactor(userId);
+  if (!user?.twoFactor?.enabled || !user.twoFactor.secret) return false;
+
+  if (/^\d{6}$/.test(code.replace(/\s/g, ''))) {
+    return consumeTotpCode(userId, user.twoFactor.secret, code);
+  }
+  return consumeRecoveryCode(userId, code);
+}
+
+export async function getTwoFactorStatus(userId: string) {
+  const user = await loadTwoFactor(userId);
+  if (!user) return null;
+
+  return {
+    enabled: !!user.twoFactor?.enabled,
+    recoveryCodesRemaining: user.twoFactor?.recoveryCodes?.length ?? 0,
+  };
+}
+
+// Starts (or restarts) enrollment; nothing changes until the first code is confirmed
+export async function startTwoFactorSetup(userId: string, email: string) {
+  const secret = generateTotpSecret();
+  await User.updateOne(
+    { _id: userId },
+    { $set: { 'twoFactor.pendingSecret': encryptSecret(secret) } }
+  );
+  return { secret, otpauthUri: buildOtpAuthUri(secret, email) };
+}
+
+/**
+ * Turns two-factor on once the user proves their app has the pending secret.
+ * Returns the recovery codes, which are only ever shown this once.
+ */
+export async function enableTwoFactor(
+  userId: string,
+  code: string
+): Promise<{ recoveryCodes: string[]; error?: undefined } | { recoveryCodes?: undefined; error: string }> {
+  const user = await loadTwoFactor(userId);
+  if (!user) return { error: 'User not found' };
+  if (user.twoFactor?.enabled) return { error: 'Two-factor authentication is already enabled' };
+
+  const pendingSecret = user.twoFactor?.pendingSecret;
+  if (!pendingSecret) return { error: 'Start the setup first' };
+
+  const step = verifyTotp(decryptSecret(pendingSecret), code);
+  if (step === null) return { error: 'That code is not valid. Check the time on your device and try again' };
+
+  const recoveryCodes = generateRecoveryCodes();
+  await User.updateOne(
+    { _id: userId },
+    {
+      $set: {
+        'twoFactor.enabled': true,
+        'twoFactor.enabledAt': new Date(),
+        'twoFactor.secret': pendingSecret,
+        'twoFactor.recoveryCodes': recoveryCodes.map((recoveryCode) => hashToken(recoveryCode)),
+        'twoFactor.lastUsedStep': step,
+      },
+      $unset: { 'twoFactor.pendingSecret': 1 },
+    }
+  );
+  return { recoveryCodes };
+}
+
+// Replaces every recovery code; needs a current authenticator code
+export async function regenerateRecoveryCodes(
+  userId: string,
+  code: string
+): Promise<{ recoveryCodes: string[]; error?: undefined } | { recoveryCodes?: undefined; error: string }> {
+  const user = await loadTwoFactor(userId);
+  if (!user?.twoFactor?.enabled || !user.twoFactor.secret) {
+    return { error: 'Two-factor authentication is not enabled' };
+  }
+  if (!(await consumeTotpCode(userId, user.twoFactor.secret, code))) {
+    return { error: 'That code is not valid' };
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await User.updateOne(
+    { _id: userId },
+    { $set: { 'twoFactor.recoveryCodes': recoveryCodes.map((recoveryCode) => hashToken(recoveryCode)) } }
+  );
+  return { recoveryCodes };
+}
+
+// Returns an error message, or null once two-factor is off
+export async function disableTwoFactor(userId: string, code: string) {
+  const user = await loadTwoFactor(userId);
+  if (!user?.twoFactor?.enabled) return 'Two-factor authentication is not enabled';
+
+  if (!(await verifySecondFactor(userId, code))) {
+    return 'That code is not valid';
+  }
+
+  await User.updateOne(
+    { _id: userId },
+    {
+      $set: { 'twoFactor.enabled': false },
+      $unset: {
+        'twoFactor.enabledAt': 1,
+        'twoFactor.secret': 1,
+        'twoFactor.pendingSecret': 1,
+        'twoFactor.recoveryCodes': 1,
+        'twoFactor.lastUsedStep': 1,
+      },
+    }
+  );
+  return null;
+}
@@ -0,0 +1,43 @@
+// lib/userRoleMigration.ts
+// One-off clean-up of stored roles: "user" and "moderator" from older code
+// become customer and staff, and missing roles get the default. Run it from
+// the admin page (POST /api/users/roles/normalize); it's safe to run again.
+import User from '@/models/User';
+import { DEFAULT_ROLE, normalizeRole, Role, ROLES } from '@/lib/roles';
+
+export interface RoleChange {
+  from: string | null;
+  to: Role;
+  count: number;
+}
+
+/**
+ * Lists the changes, and applies them unless dryRun is set. Roles that map to
+ * nothing are left alone and listed in `unknown` for an admin to fix by hand.
+ */
+export async function normalizeUserRoles({ dryRun = false } = {}) {
+  const outdated = (await User.distinct('role', { role: { $nin: [...ROLES, null] } })) as string[];
+
+  const changes: RoleChange[] = [];
+  const unknown: { role: string; count: number }[] = [];
+
+  for (const from of outdated) {
+    const to = normalizeRole(from);
+    const count = await User.countDocuments({ role: from });
+    if (!to) {
+      unknown.push({ role: from, count });
+      continue;
+    }
+    if (!dryRun) await User.updateMany({ role: from }, { $set: { role: to } });
+    changes.push({ from, to, count });
+  }
+
+  // { role: null } also matches documents without the field
+  const missing = await User.countDocuments({ role: null });
+  if (missing) {
+    if (!dryRun) await User.updateMany({ role: null }, { $set: { role: DEFAULT_ROLE } });
+    changes.push({ from: null, to: DEFAULT_ROLE, count: missing });
+  }
+
+  return { dryRun, changes, unknown };
+}
@@ -0,0 +1,100 @@
+// lib/variants.ts
+// Shared by the Product model, the order pipeline and the storefront, so keep it free of server-only imports
+
+// An option axis such as Size (S, M, L) or Color (Black, White)
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+export interface VariantOptionValue {
+  name: string;
+  value: string;
+}
+
+export interface ProductVariant {
+  sku: string;
+  options: VariantOptionValue[];
+  // Overrides the product price when set
+  price?: number;
+  images: string[];
+  stockQuantity: number;
+}
+
+export const getVariantPrice = (basePrice: number, variant?: Pick<ProductVariant, 'price'>) =>
+  typeof variant?.price === 'number' ? variant.price : basePrice;
+
+export const totalVariantStock = (variants: Pick<ProductVariant, 'stockQuantity'>[]) =>
+  variants.reduce((sum, variant) => sum + (Number(variant.stockQuantity) || 0), 0);
+
+// Finds the variant matching one value per option axis, e.g. { Size: 'M', Color: 'Black' }
+export const findVariant = <T extends Pick<ProductVariant, 'options'>>(
+  variants: T[],
+  selected: Record<string, string>
+) =>
+  variants.find(
+    (variant) =>
+      variant.options.length === Object.keys(selected).length &&
+      variant.options.every((option) => selected[option.name] === option.value)
+  );
+
+export const formatVariantOptions = (options?: VariantOptionValue[]) =>
+  (options || []).map((option) => `${option.name}: ${option.value}`).join(' / ');
+
+// Cart and order lines for the same product differ only by variant
+export const getLineKey = (productId: string, variantSku?: string) =>
+  variantSku ? `${productId}:${variantSku}` : productId;
+
+/**
+ * Checks that every variant picks exactly one listed value per option axis,
+ * that no two variants share a combination and that SKUs are unique.
+ */
+export function validateVariants(options: ProductOption[], variants: ProductVariant[]) {
+  const errors: string[] = [];
+  const skus = new Set<string>();
+  const combinations = new Set<string>();
+
+  if (variants.length > 0 && options.length === 0) {
+    errors.push('Variants require at least one option (e.g. Size or Color)');
+    return errors;
+  }
+
+  variants.forEach((variant, index) => {
+    const label = variant.sku || `variants[${index}]`;
+
+    if (!variant.sku) {
+      errors.push(`variants[${index}].sku is required`);
+    } else if (skus.has(variant.sku)) {
+      errors.push(`Duplicate SKU ${variant.sku}`);
+    }
+    skus.add(variant.sku);
+
+    if (variant.price !== undefined && variant.price !== null && (typeof variant.price !== 'number' || variant.price < 0)) {
+      errors.push(`${label}: price must be a non-negative number`);
+    }
+
+    if (!Number.isInteger(variant.stockQuantity) || variant.stockQuantity < 0) {
+      errors.push(`${label}: stock quantity must be a non-negative whole number`);
+    }
+
+    const values = options.map((option) => {
+      const picked = (variant.options || []).find((value) => value.name === option.name);
+      if (!picked || !option.values.includes(picked.value)) {
+        errors.push(`${label}: choose one of ${option.values.join(', ')} for ${option.name}`);
+      }
+      return picked?.value;
+    });
+
+    if ((variant.options || []).length !== options.length) {
+      errors.push(`${label}: must set exactly one value for each option`);
+    }
+
+    const combination = values.join('|');
+    if (combinations.has(combination)) {
+      errors.push(`${label}: another variant already uses ${formatVariantOptions(variant.options)}`);
+    }
+    combinations.add(combination);
+  });
+
+  return errors;
+}
@@ -0,0 +1,51 @@
+// middleware.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import { AccessLevel, roleHasAccess, roleRequiresTwoFactor } from '@/lib/accessLevels';
+
+// Role required per path prefix; the longest matching prefix wins
+const PROTECTED_PATHS: { prefix: string; level: AccessLevel }[] = [
+  { prefix: '/admin', level: 'admin' },
+  { prefix: '/admin/orders', level: 'staff' },
+  { prefix: '/admin/categories', level: 'staff' },
+  { prefix: '/dashboard', level: 'staff' },
+  { prefix: '/products/crud', level: 'staff' },
+  { prefix: '/products/crud/trash', level: 'admin' },
+];
+
+const findRule = (pathname: string) =>
+  PROTECTED_PATHS
+    .filter(({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`))
+    .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const rule = findRule(pathname);
+  if (!rule) return NextResponse.next();
+
+  const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET });
+
+  if (!token) {
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('callbackUrl', `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (!roleHasAccess(token.role, rule.level)) {
+    // Keep the URL so signing in with another account can come back to it
+    return NextResponse.rewrite(new URL('/forbidden', request.url), { status: 403 });
+  }
+
+  // Admins have to enroll in two-factor before the admin pages open
+  if (rule.level !== 'customer' && roleRequiresTwoFactor(token.role) && !token.twoFactorEnabled) {
+    const setupUrl = new URL('/two-factor', request.url);
+    setupUrl.searchParams.set('callbackUrl', `${pathname}${search}`);
+    return NextResponse.redirect(setupUrl);
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/admin/:path*', '/dashboard/:path*', '/products/crud/:path*'],
+};
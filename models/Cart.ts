@@ -0,0 +1,51 @@
+// models/Cart.ts
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+// Lines reference the catalog; name, price and images are read fresh on every load
+export interface ICartItem {
+  productId: string;
+  variantSku?: string;
+  quantity: number;
+  addedAt: Date;
+}
+
+export interface ICart extends Document {
+  userId: Types.ObjectId;
+  items: ICartItem[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CartItemSchema: Schema = new Schema(
+  {
+    productId: { type: String, required: true },
+    variantSku: { type: String },
+    quantity: {
+      type: Number,
+      required: true,
+      min: [1, 'Quantity must be at least 1'],
+      validate: {
+        validator: Number.isInteger,
+        message: 'Quantity must be a whole number',
+      },
+    },
+    addedAt: { type: Date, default: Date.now }
+  },
+  { _id: false }
+);
+
+const CartSchema: Schema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      unique: true
+    },
+    items: [CartItemSchema]
+  },
+  { timestamps: true }
+);
+
+export default mongoose.models.Cart ||
+  mongoose.model<ICart>("Cart", CartSchema);
@@ -1,23 +1,27 @@
 // models/Category.ts
-import mongoose, { Schema, Document, models, model } from "mongoose";
+import mongoose, { Schema, Document, Types, models, model } from "mongoose";
 
 export interface ICategory extends Document {
   name: string;
   slug: string;
   description?: string;
   image?: string;
-  parentCategory?: string;
+  // null for top-level categories
+  parentCategory?: Types.ObjectId | null;
   isActive: boolean;
+  // Position among its siblings; lower comes first
+  sortOrder: number;
 }
 
 const CategorySchema: Schema = new Schema(
   {
-    name: { type: String, required: true, unique: true },
-    slug: { type: String, required: true, unique: true },
+    name: { type: String, required: true, unique: true, trim: true },
+    slug: { type: String, required: true, unique: true, trim: true },
     description: { type: String },
     image: { type: String },
-    parentCategory: { type: String, ref: "Category" },
+    parentCategory: { type: Schema.Types.ObjectId, ref: "Category", default: null, index: true },
     isActive: { type: Boolean, default: true },
+    sortOrder: { type: Number, default: 0 },
   },
   { timestamps: true }
 );
@@ -0,0 +1,69 @@
+// models/Coupon.ts
+import mongoose, { Schema, Document, Model } from "mongoose";
+import { COUPON_TYPES, CouponRules } from "@/lib/coupons";
+
+export interface ICoupon extends Document, CouponRules {
+  code: string;
+  description?: string;
+  startsAt?: Date;
+  expiresAt?: Date;
+  // Redemptions across all customers; unlimited when unset
+  usageLimit?: number;
+  // Redemptions per customer (account, or email for guests); unlimited when unset
+  usageLimitPerUser?: number;
+  // Orders currently holding the coupon; cancelled orders give their use back
+  usedCount: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CouponSchema = new Schema<ICoupon>(
+  {
+    code: {
+      type: String,
+      required: true,
+      unique: true,
+      uppercase: true,
+      trim: true,
+      match: [/^[A-Z0-9_-]{3,30}$/, "Code must be 3-30 letters, numbers, dashes or underscores"],
+    },
+    description: { type: String, trim: true, maxlength: 200 },
+    type: { type: String, enum: COUPON_TYPES, required: true },
+    value: { type: Number, default: 0, min: 0 },
+    maxDiscount: { type: Number, min: 0 },
+    buyQuantity: { type: Number, min: 1 },
+    getQuantity: { type: Number, min: 1 },
+    getDiscountPercent: { type: Number, min: 1, max: 100 },
+    minSubtotal: { type: Number, min: 0 },
+    categories: { type: [String], default: [] },
+    productIds: { type: [String], default: [] },
+    startsAt: { type: Date },
+    expiresAt: { type: Date },
+    usageLimit: { type: Number, min: 1 },
+    usageLimitPerUser: { type: Number, min: 1 },
+    usedCount: { type: Number, default: 0, min: 0 },
+    isActive: { type: Boolean, default: true },
+  },
+  { timestamps: true }
+);
+
+CouponSchema.pre("validate", function () {
+  if (this.type === "percentage" && (this.value <= 0 || this.value > 100)) {
+    this.invalidate("value", "Percentage must be between 1 and 100");
+  }
+  if (this.type === "fixed" && this.value <= 0) {
+    this.invalidate("value", "Amount must be greater than 0");
+  }
+  if (this.type === "buy_x_get_y" && (!this.buyQuantity || !this.getQuantity)) {
+    this.invalidate("buyQuantity", "Buy and get quantities are required for buy X get Y coupons");
+  }
+  if (this.startsAt && this.expiresAt && this.expiresAt <= this.startsAt) {
+    this.invalidate("expiresAt", "Expiry must be after the start date");
+  }
+});
+
+const Coupon: Model<ICoupon> =
+  mongoose.models?.Coupon || mongoose.model<ICoupon>("Coupon", CouponSchema);
+
+export default Coupon;
@@ -0,0 +1,34 @@
+// models/CouponRedemption.ts
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+// How many orders one customer currently holds a coupon on. lib/couponRedemption.ts
+// claims a use with a conditional $inc, which is what enforces usageLimitPerUser.
+export interface ICouponRedemption extends Document {
+  couponId: Types.ObjectId;
+  // "user:<id>" for accounts, "email:<address>" for checkout emails
+  customer: string;
+  count: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CouponRedemptionSchema: Schema = new Schema(
+  {
+    couponId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Coupon',
+      required: true
+    },
+    customer: {
+      type: String,
+      required: true
+    },
+    count: { type: Number, default: 0, min: 0 }
+  },
+  { timestamps: true }
+);
+
+CouponRedemptionSchema.index({ couponId: 1, customer: 1 }, { unique: true });
+
+export default mongoose.models.CouponRedemption ||
+  mongoose.model<ICouponRedemption>("CouponRedemption", CouponRedemptionSchema);
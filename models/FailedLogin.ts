@@ -0,0 +1,53 @@
+// models/FailedLogin.ts
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export const FAILED_LOGIN_REASONS = [
+  'unknown_email',
+  'invalid_password',
+  'invalid_two_factor',
+  'account_locked',
+  'ip_blocked'
+] as const;
+
+export type FailedLoginReason = (typeof FAILED_LOGIN_REASONS)[number];
+
+// Audit trail of refused credential sign-ins, kept for 90 days
+export interface IFailedLogin extends Document {
+  email: string;
+  userId?: Types.ObjectId | null;
+  ipAddress?: string;
+  userAgent?: string;
+  reason: FailedLoginReason;
+  createdAt: Date;
+}
+
+const FailedLoginSchema: Schema = new Schema(
+  {
+    email: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+      index: true
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+      index: true
+    },
+    ipAddress: { type: String },
+    userAgent: { type: String },
+    reason: {
+      type: String,
+      enum: FAILED_LOGIN_REASONS,
+      required: true
+    }
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+FailedLoginSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+export default mongoose.models.FailedLogin ||
+  mongoose.model<IFailedLogin>("FailedLogin", FailedLoginSchema);
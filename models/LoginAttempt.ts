@@ -0,0 +1,31 @@
+// models/LoginAttempt.ts
+import mongoose, { Schema, Document } from "mongoose";
+
+// Failed sign-in counter for the Mongo store in lib/loginThrottle.ts. One per
+// key ("account:<email>" or "ip:<address>"), dropped when its window ends.
+export interface ILoginAttempt extends Document {
+  key: string;
+  count: number;
+  expiresAt: Date;
+}
+
+const LoginAttemptSchema: Schema = new Schema({
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  count: {
+    type: Number,
+    default: 0
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+});
+
+LoginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.models.LoginAttempt ||
+  mongoose.model<ILoginAttempt>("LoginAttempt", LoginAttemptSchema);
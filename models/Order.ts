@@ -1,14 +1,41 @@
-import mongoose, { Schema, Document, Model } from 'mongoose';
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import { ORDER_STATUSES, OrderStatus } from '@/lib/orderStatus';
+import { VariantOptionValue } from '@/lib/variants';
+import { AppliedDiscount, COUPON_TYPES } from '@/lib/coupons';
 
 export interface IOrderItem {
   productId: string;
+  // Set when the product was ordered as a specific variant
+  variantSku?: string;
+  variantOptions?: VariantOptionValue[];
   name: string;
   price: number;
   quantity: number;
   images: string[];
 }
 
+export interface IOrderDiscount extends AppliedDiscount {
+  couponId: Types.ObjectId;
+}
+
+export interface IOrderStatusActor {
+  userId?: string;
+  name?: string;
+  email?: string;
+  role: string;
+}
+
+export interface IOrderStatusChange {
+  status: OrderStatus;
+  previousStatus?: OrderStatus;
+  changedAt: Date;
+  changedBy: IOrderStatusActor;
+  notes?: string;
+}
+
 export interface IOrder extends Document {
+  // Set for orders placed while signed in, or guest orders claimed by the account
+  userId?: Types.ObjectId;
   email: string;
   firstName: string;
   lastName: string;
@@ -22,25 +49,64 @@ export interface IOrder extends Document {
   paymentMethod: 'card' | 'paypal' | 'applepay' | 'cod';
   items: IOrderItem[];
   subtotal: number;
+  // Sum of discounts[].amount; shipping discounts are already netted out of shippingCost
+  discount: number;
+  discounts: IOrderDiscount[];
   tax: number;
+  taxRate: number;
   total: number;
-  status?: string;
+  status: OrderStatus;
   statusUpdatedAt?: Date;
+  statusHistory: IOrderStatusChange[];
   createdAt: Date;
   updatedAt: Date;
 }
 
 const OrderItemSchema = new Schema<IOrderItem>({
   productId: { type: String, required: true },
+  variantSku: { type: String },
+  variantOptions: {
+    type: [{ _id: false, name: String, value: String }],
+    default: undefined,
+  },
   name: { type: String, required: true },
   price: { type: Number, required: true },
   quantity: { type: Number, required: true },
   images: [{ type: String }],
 });
 
+const OrderDiscountSchema = new Schema<IOrderDiscount>(
+  {
+    couponId: { type: Schema.Types.ObjectId, ref: 'Coupon', required: true },
+    code: { type: String, required: true },
+    type: { type: String, enum: COUPON_TYPES, required: true },
+    description: { type: String },
+    amount: { type: Number, default: 0 },
+    shippingAmount: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+const OrderStatusChangeSchema = new Schema<IOrderStatusChange>(
+  {
+    status: { type: String, enum: ORDER_STATUSES, required: true },
+    previousStatus: { type: String, enum: ORDER_STATUSES },
+    changedAt: { type: Date, default: Date.now },
+    changedBy: {
+      userId: { type: String },
+      name: { type: String },
+      email: { type: String },
+      role: { type: String, required: true },
+    },
+    notes: { type: String, trim: true },
+  },
+  { _id: false }
+);
+
 const OrderSchema = new Schema<IOrder>(
   {
-    email: { type: String, required: true },
+    userId: { type: Schema.Types.ObjectId, ref: 'User', index: true },
+    email: { type: String, required: true, index: true },
     firstName: { type: String, required: true },
     lastName: { type: String, required: true },
     address: { type: String, required: true },
@@ -61,25 +127,26 @@ const OrderSchema = new Schema<IOrder>(
     },
     items: { type: [OrderItemSchema], required: true },
     subtotal: { type: Number, required: true },
+    discount: { type: Number, default: 0 },
+    discounts: { type: [OrderDiscountSchema], default: [] },
     tax: { type: Number, required: true },
+    taxRate: { type: Number, default: 0 },
     total: { type: Number, required: true },
     status: {
       type: String,
-      enum: [
-        'pending',
-        'confirmed',
-        'processing',
-        'shipped',
-        'delivered',
-        'cancelled',
-      ],
+      enum: ORDER_STATUSES,
       default: 'pending',
     },
     statusUpdatedAt: { type: Date },
+    statusHistory: { type: [OrderStatusChangeSchema], default: [] },
   },
   { timestamps: true }
 );
 
+OrderSchema.index({ userId: 1, createdAt: -1 });
+// Per-customer coupon usage lookups
+OrderSchema.index({ 'discounts.couponId': 1 });
+
 // ✅ Fix: guard against mongoose.models being undefined
 const Order: Model<IOrder> =
   mongoose.models?.Order || mongoose.model<IOrder>('Order', OrderSchema);
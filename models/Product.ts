@@ -1,4 +1,10 @@
-import mongoose, { Schema, Document } from "mongoose";
+import mongoose, { Schema, Document, Types, UpdateQuery } from "mongoose";
+import {
+  ProductOption,
+  ProductVariant,
+  totalVariantStock,
+  validateVariants,
+} from "@/lib/variants";
 
 export interface IProduct extends Document {
   productId: string;
@@ -6,14 +12,55 @@ export interface IProduct extends Document {
   description: string;
   price: number;
   originalPrice?: number;
+  // Name of the categoryId document, copied for search, facets and coupon scopes
   category: string;
+  categoryId?: Types.ObjectId;
   images: string[];   // ✅ Array of images
   rating: number;
   reviews: number;
-  inStock: boolean;
+  stockQuantity: number;  // Sum of variant stock when the product has variants
+  lowStockThreshold: number;
+  inStock: boolean;   // Derived from stockQuantity, never set directly
   features: string[];
+  options: ProductOption[];
+  variants: ProductVariant[];
+  // Set while the product is in the trash: hidden from the store until restored
+  deletedAt?: Date | null;
 }
 
+const ProductOptionSchema = new Schema<ProductOption>(
+  {
+    name: { type: String, required: true, trim: true },
+    values: [{ type: String, required: true, trim: true }],
+  },
+  { _id: false }
+);
+
+const ProductVariantSchema = new Schema<ProductVariant>(
+  {
+    sku: { type: String, required: true, trim: true },
+    options: [
+      {
+        _id: false,
+        name: { type: String, required: true },
+        value: { type: String, required: true },
+      },
+    ],
+    price: { type: Number, min: [0, 'Variant price cannot be negative'] },
+    images: [{ type: String }],
+    stockQuantity: {
+      type: Number,
+      default: 0,
+      min: [0, 'Stock quantity cannot be negative'],
+      validate: {
+        validator: Number.isInteger,
+        message: 'Stock quantity must be a whole number',
+      },
+    },
+  },
+  { _id: false }
+);
+
 const ProductSchema: Schema = new Schema(
   {
     productId: { type: String, required: true, unique: true },
@@ -22,14 +69,90 @@ const ProductSchema: Schema = new Schema(
     price: { type: Number, required: true },
     originalPrice: { type: Number },
     category: { type: String, required: true },
+    categoryId: { type: Schema.Types.ObjectId, ref: "Category", index: true },
     images: [{ type: String, required: true }], // ✅ Array of strings
     rating: { type: Number, default: 0 },
     reviews: { type: Number, default: 0 },
-    inStock: { type: Boolean, default: true },
+    stockQuantity: {
+      type: Number,
+      default: 0,
+      min: [0, 'Stock quantity cannot be negative'],
+      validate: {
+        validator: Number.isInteger,
+        message: 'Stock quantity must be a whole number',
+      },
+    },
+    lowStockThreshold: { type: Number, default: 5, min: 0 },
+    inStock: { type: Boolean, default: false },
     features: [{ type: String }],
+    options: { type: [ProductOptionSchema], default: [] },
+    variants: { type: [ProductVariantSchema], default: [] },
+    deletedAt: { type: Date, default: null, index: true },
   },
   { timestamps: true }
 );
 
+// SKUs are unique across the whole catalog; products without variants are skipped
+ProductSchema.index(
+  { "variants.sku": 1 },
+  { unique: true, partialFilterExpression: { "variants.sku": { $exists: true } } }
+);
+
+// Support the catalog listing filters and default sort
+ProductSchema.index({ category: 1, price: 1 });
+ProductSchema.index({ createdAt: -1 });
+
+// Full-text search; matches in the name count the most
+ProductSchema.index(
+  { name: "text", category: "text", features: "text", description: "text" },
+  { name: "ProductTextIndex", weights: { name: 10, category: 5, features: 3, description: 1 } }
+);
+
+ProductSchema.pre("validate", function (this: IProduct) {
+  const errors = validateVariants(this.options || [], this.variants || []);
+  if (errors.length > 0) {
+    this.invalidate("variants", errors.join(", "));
+  }
+});
+
+// Keep stockQuantity and inStock in sync with the variants on save
+ProductSchema.pre("save", function (this: IProduct) {
+  if (this.variants && this.variants.length > 0) {
+    this.stockQuantity = totalVariantStock(this.variants);
+  }
+  this.inStock = this.stockQuantity > 0;
+});
+
+// ...and on query updates, ignoring any inStock sent by callers
+ProductSchema.pre(["findOneAndUpdate", "updateOne"], function () {
+  const update = this.getUpdate() as UpdateQuery<IProduct> | null;
+  if (!update || Array.isArray(update)) return;
+
+  delete update.inStock;
+  if (update.$set) delete update.$set.inStock;
+
+  const variants = update.$set?.variants ?? update.variants;
+  if (Array.isArray(variants) && variants.length > 0) {
+    delete update.stockQuantity;
+    update.$set = { ...update.$set, stockQuantity: totalVariantStock(variants) };
+  }
+
+  const stockQuantity = update.$set?.stockQuantity ?? update.stockQuantity;
+  if (stockQuantity !== undefined) {
+    update.$set = { ...update.$set, inStock: Number(stockQuantity) > 0 };
+  }
+});
+
+// Products in the trash are left out of queries unless the filter names
+// deletedAt or the query sets { withDeleted: true } (trash view, restores,
+// product ID checks). Aggregations filter on deletedAt themselves.
+ProductSchema.pre(
+  ["find", "findOne", "findOneAndUpdate", "findOneAndDelete", "countDocuments", "distinct"],
+  function () {
+    if (this.getOptions().withDeleted || "deletedAt" in this.getFilter()) return;
+    this.where({ deletedAt: null });
+  }
+);
+
 export default mongoose.models.Product ||
   mongoose.model<IProduct>("Product", ProductSchema);
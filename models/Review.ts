@@ -0,0 +1,70 @@
+// models/Review.ts
+import mongoose, { Schema, Document, Model, Types } from "mongoose";
+import {
+  MAX_REVIEW_PHOTOS,
+  REVIEW_BODY_MAX_LENGTH,
+  REVIEW_STATUSES,
+  REVIEW_TITLE_MAX_LENGTH,
+  ReviewStatus,
+} from "@/lib/reviews";
+
+export interface IReview extends Document {
+  product: Types.ObjectId;
+  userId: Types.ObjectId;
+  // Shown with the review; copied so it doesn't change with the account
+  authorName: string;
+  rating: number;
+  title: string;
+  body: string;
+  photos: string[];
+  // The author had a delivered order containing the product when they posted
+  verifiedPurchase: boolean;
+  status: ReviewStatus;
+  moderatedBy?: Types.ObjectId;
+  moderatedAt?: Date;
+  // Shown to the author when a review is rejected
+  moderationNote?: string;
+  helpfulCount: number;
+  helpfulVoters: Types.ObjectId[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReviewSchema = new Schema<IReview>(
+  {
+    product: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    authorName: { type: String, required: true, trim: true },
+    rating: { type: Number, required: true, min: 1, max: 5 },
+    title: { type: String, required: true, trim: true, maxlength: REVIEW_TITLE_MAX_LENGTH },
+    body: { type: String, required: true, trim: true, maxlength: REVIEW_BODY_MAX_LENGTH },
+    photos: {
+      type: [String],
+      default: [],
+      validate: {
+        validator: (photos: string[]) => photos.length <= MAX_REVIEW_PHOTOS,
+        message: `At most ${MAX_REVIEW_PHOTOS} photos per review`,
+      },
+    },
+    verifiedPurchase: { type: Boolean, default: false },
+    status: { type: String, enum: REVIEW_STATUSES, default: "pending" },
+    moderatedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    moderatedAt: { type: Date },
+    moderationNote: { type: String, trim: true, maxlength: 500 },
+    helpfulCount: { type: Number, default: 0, min: 0 },
+    // Who voted, so nobody counts twice; never sent to the client
+    helpfulVoters: { type: [Schema.Types.ObjectId], default: [], select: false },
+  },
+  { timestamps: true }
+);
+
+// One review per customer per product
+ReviewSchema.index({ product: 1, userId: 1 }, { unique: true });
+// Product page listing and the moderation queue
+ReviewSchema.index({ product: 1, status: 1, createdAt: -1 });
+ReviewSchema.index({ status: 1, createdAt: 1 });
+
+const Review: Model<IReview> =
+  mongoose.models?.Review || mongoose.model<IReview>("Review", ReviewSchema);
+
+export default Review;
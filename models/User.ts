@@ -1,5 +1,7 @@
 // models/User.ts
 import mongoose from 'mongoose';
+import { OAUTH_PROVIDERS } from '@/lib/oauthProviders';
+import { DEFAULT_ROLE, normalizeRole, ROLES } from '@/lib/roles';
 
 const AddressSchema = new mongoose.Schema({
   street: { 
@@ -45,6 +47,30 @@ const AddressSchema = new mongoose.Schema({
   timestamps: true
 });
 
+// Social sign-in accounts; at most one per provider
+const LinkedAccountSchema = new mongoose.Schema({
+  provider: {
+    type: String,
+    enum: OAUTH_PROVIDERS,
+    required: true
+  },
+  providerAccountId: {
+    type: String,
+    required: true
+  },
+  email: {
+    type: String,
+    lowercase: true,
+    trim: true
+  },
+  linkedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  _id: false
+});
+
 const UserSchema = new mongoose.Schema({
   name: { 
     type: String, 
@@ -58,14 +84,15 @@ const UserSchema = new mongoose.Schema({
     lowercase: true,
     trim: true
   },
+  // Accounts created through Google/Facebook sign-in have no password until they set one
   password: {
     type: String,
-    required: [true, 'Password is required']
+    required: [function(this: { linkedAccounts?: unknown[] }) { return !this.linkedAccounts?.length; }, 'Password is required']
   },
   role: {
     type: String,
-    enum: ['user', 'admin', 'customer'],
-    default: 'customer'
+    enum: ROLES,
+    default: DEFAULT_ROLE
   },
   phone: { 
     type: String, 
@@ -93,6 +120,53 @@ const UserSchema = new mongoose.Schema({
       default: Date.now 
     }
   }],
+  linkedAccounts: [LinkedAccountSchema],
+  // sha256 of the emailed reset token; the token itself is never stored
+  resetPasswordToken: {
+    type: String,
+    select: false
+  },
+  resetPasswordExpire: {
+    type: Date,
+    select: false
+  },
+  // Set when the user opens the link from the verification email
+  emailVerified: {
+    type: Date,
+    default: null
+  },
+  verificationEmailSentAt: {
+    type: Date,
+    default: null
+  },
+  // TOTP two-factor sign-in (lib/twoFactor.ts); required for admins
+  twoFactor: {
+    enabled: { type: Boolean, default: false },
+    enabledAt: { type: Date },
+    // AES-GCM encrypted base32 secrets; pendingSecret is one being enrolled
+    secret: { type: String, select: false },
+    pendingSecret: { type: String, select: false },
+    // sha256 of each unused recovery code
+    recoveryCodes: { type: [String], select: false },
+    // Last TOTP time step accepted, so a code can't be replayed
+    lastUsedStep: { type: Number, select: false }
+  },
+  // Set after too many failed sign-ins (lib/loginThrottle.ts); cleared by the
+  // emailed unlock link, a password reset or an admin
+  lockedUntil: {
+    type: Date,
+    default: null
+  },
+  // sha256 of the unlock link token; only valid while the lock lasts
+  unlockToken: {
+    type: String,
+    select: false
+  },
+  // Bumped on password change or "sign out all devices"; JWTs from an older version are rejected
+  tokenVersion: {
+    type: Number,
+    default: 0
+  },
   preferences: {
     newsletter: { type: Boolean, default: true },
     smsNotifications: { type: Boolean, default: false },
@@ -103,8 +177,14 @@ const UserSchema = new mongoose.Schema({
   timestamps: true
 });
 
+// Documents saved before the role clean-up may still say "user"; fix them
+// rather than fail validation on an unrelated save
+UserSchema.pre('validate', function() {
+  this.role = normalizeRole(this.role) ?? this.role;
+});
+
 // Ensure only one default address exists
-(UserSchema as any).pre('save', function(this: any, next: (err?: Error) => void) {
+(UserSchema as any).pre('save', function(this: any) {
   if (this.isModified('addresses')) {
     const defaultAddresses = this.addresses.filter((addr: any) => addr.isDefault);
     if (defaultAddresses.length > 1) {
@@ -114,25 +194,26 @@ const UserSchema = new mongoose.Schema({
       });
     }
   }
-  next();
 });
 
 // Password hashing middleware
-(UserSchema as any).pre('save', async function(this: any, next: (err?: Error) => void) {
-  if (!this.isModified('password')) return next();
-  
-  try {
-    const bcrypt = await import('bcryptjs');
-    const saltRounds = 10;
-    this.password = await bcrypt.hash(this.password, saltRounds);
-    next();
-  } catch (error) {
-    next(error as Error);
-  }
+(UserSchema as any).pre('save', async function(this: any) {
+  if (!this.password || !this.isModified('password')) return;
+
+  const bcrypt = await import('bcryptjs');
+  const saltRounds = 10;
+  this.password = await bcrypt.hash(this.password, saltRounds);
 });
 
+// Looked up on every social sign-in
+UserSchema.index(
+  { 'linkedAccounts.provider': 1, 'linkedAccounts.providerAccountId': 1 },
+  { unique: true, partialFilterExpression: { 'linkedAccounts.providerAccountId': { $exists: true } } }
+);
+
 // Method to compare password
 UserSchema.methods.comparePassword = async function(candidatePassword: string): Promise<boolean> {
+  if (!this.password) return false;
   const bcrypt = await import('bcryptjs');
   return bcrypt.compare(candidatePassword, this.password);
 };
@@ -0,0 +1,42 @@
+// models/UserSession.ts
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+// One per sign-in. The JWT carries sessionId; revoking the record signs that
+// device out on its next request.
+export interface IUserSession extends Document {
+  userId: Types.ObjectId;
+  sessionId: string;
+  userAgent?: string;
+  ipAddress?: string;
+  lastSeenAt: Date;
+  revokedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const UserSessionSchema: Schema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+    sessionId: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    userAgent: { type: String },
+    ipAddress: { type: String },
+    lastSeenAt: { type: Date, default: Date.now },
+    revokedAt: { type: Date, default: null }
+  },
+  { timestamps: true }
+);
+
+// Idle records go when the JWT would have expired anyway (NextAuth's 30 day maxAge)
+UserSessionSchema.index({ lastSeenAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export default mongoose.models.UserSession ||
+  mongoose.model<IUserSession>("UserSession", UserSessionSchema);
@@ -1,5 +1,6 @@
 // types/next-auth.d.ts
 import NextAuth from "next-auth";
+import type { Role } from "@/lib/roles";
 
 declare module "next-auth" {
   interface Session {
@@ -8,7 +9,9 @@ declare module "next-auth" {
       name?: string | null;
       email?: string | null;
       image?: string | null;
-      role: string;
+      role: Role;
+      emailVerified: boolean;
+      twoFactorEnabled: boolean;
     };
   }
 
@@ -17,13 +20,20 @@ declare module "next-auth" {
     name?: string | null;
     email?: string | null;
     image?: string | null;
-    role: string;
+    role: Role;
+    emailVerified?: boolean;
+    twoFactorEnabled?: boolean;
   }
 }
 
 declare module "next-auth/jwt" {
   interface JWT {
     id?: string;
-    role?: string;
+    role?: Role;
+    emailVerified?: boolean;
+    twoFactorEnabled?: boolean;
+    // See lib/sessionRegistry.ts
+    sessionId?: string;
+    tokenVersion?: number;
   }
 }
\ No newline at end of file